@@ -1,4 +1,4 @@
-import { PendingPCDStatus } from "@pcd/passport-interface";
+import { PendingPCDProgress, PendingPCDStatus } from "@pcd/passport-interface";
 import styled from "styled-components";
 
 /**
@@ -7,9 +7,13 @@ import styled from "styled-components";
 export const PendingPCDStatusDisplay = ({
   status,
   pendingPCDError,
+  progress,
+  onCancel,
 }: {
   status: PendingPCDStatus;
   pendingPCDError: string;
+  progress?: PendingPCDProgress;
+  onCancel?: () => void;
 }) => {
   const StyledDiv = styled.div`
     margin: 10px 0 5px 0;
@@ -18,9 +22,22 @@ export const PendingPCDStatusDisplay = ({
     color: ${statusColor[status]};
   `;
 
+  const inProgress =
+    status === PendingPCDStatus.QUEUED || status === PendingPCDStatus.PROVING;
+
   return (
     <>
       <StyledDiv>Pending PCD Status: {status}</StyledDiv>
+      {inProgress && progress?.queuePosition !== undefined && (
+        <StyledDiv>Position in queue: {progress.queuePosition}</StyledDiv>
+      )}
+      {inProgress && progress?.estimatedCompletion !== undefined && (
+        <StyledDiv>
+          Estimated completion:{" "}
+          {new Date(progress.estimatedCompletion).toLocaleTimeString()}
+        </StyledDiv>
+      )}
+      {inProgress && onCancel && <button onClick={onCancel}>Cancel</button>}
       {pendingPCDError && <StyledDiv>{pendingPCDError}</StyledDiv>}
     </>
   );
@@ -31,5 +48,7 @@ const statusColor: Record<PendingPCDStatus, string> = {
   [PendingPCDStatus.COMPLETE]: "#4caf50",
   [PendingPCDStatus.PROVING]: "#2196f3",
   [PendingPCDStatus.QUEUED]: "#ff9800",
+  [PendingPCDStatus.CANCELLED]: "#9e9e9e",
+  [PendingPCDStatus.RATE_LIMITED]: "#ff5722",
   [PendingPCDStatus.NONE]: "#000000",
 };
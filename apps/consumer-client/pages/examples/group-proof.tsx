@@ -1,4 +1,5 @@
 import {
+  cancelPendingPCD,
   constructPassportPcdGetRequestUrl,
   openPassportPopup,
   usePassportPopupMessages,
@@ -29,10 +30,8 @@ import {
 export default function Page() {
   // Populate PCD from either client-side or server-side proving using passport popup
   const [passportPCDStr, passportPendingPCDStr] = usePassportPopupMessages();
-  const [pendingPCDStatus, pendingPCDError, serverPCDStr] = usePendingPCD(
-    passportPendingPCDStr,
-    ZUPASS_SERVER_URL
-  );
+  const [pendingPCDStatus, pendingPCDError, serverPCDStr, pendingPCDProgress] =
+    usePendingPCD(passportPendingPCDStr, ZUPASS_SERVER_URL);
   const pcdStr = usePCDMultiplexer(passportPCDStr, serverPCDStr);
   const [valid, setValid] = useState<boolean | undefined>();
   const onVerified = (valid: boolean) => {
@@ -113,6 +112,10 @@ export default function Page() {
             <PendingPCDStatusDisplay
               status={pendingPCDStatus}
               pendingPCDError={pendingPCDError}
+              progress={pendingPCDProgress}
+              onCancel={() =>
+                cancelPendingPCD(passportPendingPCDStr, ZUPASS_SERVER_URL)
+              }
             />
           </>
         )}
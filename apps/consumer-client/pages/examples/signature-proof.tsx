@@ -1,4 +1,5 @@
 import {
+  cancelPendingPCD,
   constructPassportPcdGetRequestUrl,
   usePassportPopupMessages,
   usePCDMultiplexer,
@@ -22,10 +23,8 @@ import { sendPassportRequest } from "../../src/util";
 export default function Page() {
   // Populate PCD from either client-side or server-side proving using passport popup
   const [passportPCDStr, passportPendingPCDStr] = usePassportPopupMessages();
-  const [pendingPCDStatus, pendingPCDError, serverPCDStr] = usePendingPCD(
-    passportPendingPCDStr,
-    ZUPASS_SERVER_URL
-  );
+  const [pendingPCDStatus, pendingPCDError, serverPCDStr, pendingPCDProgress] =
+    usePendingPCD(passportPendingPCDStr, ZUPASS_SERVER_URL);
   const pcdStr = usePCDMultiplexer(passportPCDStr, serverPCDStr);
 
   const [signatureProofValid, setSignatureProofValid] = useState<
@@ -78,6 +77,10 @@ export default function Page() {
             <PendingPCDStatusDisplay
               status={pendingPCDStatus}
               pendingPCDError={pendingPCDError}
+              progress={pendingPCDProgress}
+              onCancel={() =>
+                cancelPendingPCD(passportPendingPCDStr, ZUPASS_SERVER_URL)
+              }
             />
           </>
         )}
@@ -1,4 +1,5 @@
 import {
+  cancelPendingPCD,
   openSemaphoreSignaturePopup,
   usePassportPopupMessages,
   usePCDMultiplexer,
@@ -18,10 +19,8 @@ import { ZUPASS_SERVER_URL, ZUPASS_URL } from "../../src/constants";
 export default function Page() {
   // Populate PCD from either client-side or server-side proving using passport popup
   const [passportPCDStr, passportPendingPCDStr] = usePassportPopupMessages();
-  const [pendingPCDStatus, pendingPCDError, serverPCDStr] = usePendingPCD(
-    passportPendingPCDStr,
-    ZUPASS_SERVER_URL
-  );
+  const [pendingPCDStatus, pendingPCDError, serverPCDStr, pendingPCDProgress] =
+    usePendingPCD(passportPendingPCDStr, ZUPASS_SERVER_URL);
   const pcdStr = usePCDMultiplexer(passportPCDStr, serverPCDStr);
 
   const [signatureProofValid, setSignatureProofValid] = useState<
@@ -90,6 +89,10 @@ export default function Page() {
             <PendingPCDStatusDisplay
               status={pendingPCDStatus}
               pendingPCDError={pendingPCDError}
+              progress={pendingPCDProgress}
+              onCancel={() =>
+                cancelPendingPCD(passportPendingPCDStr, ZUPASS_SERVER_URL)
+              }
             />
           </>
         )}
@@ -17,6 +17,9 @@ const define = {
     process.env.PASSPORT_SERVER_URL || "http://localhost:3002"
   ),
   "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV || "development"),
+  "process.env.SERVER_PUBLIC_KEYS_BASE64": JSON.stringify(
+    process.env.SERVER_PUBLIC_KEYS_BASE64 ?? ""
+  ),
   ...(process.env.ROLLBAR_TOKEN !== undefined
     ? {
         "process.env.ROLLBAR_TOKEN": JSON.stringify(process.env.ROLLBAR_TOKEN),
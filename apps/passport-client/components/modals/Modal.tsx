@@ -10,6 +10,7 @@ import { InfoModal } from "./InfoModal";
 import { InvalidUserModal } from "./InvalidUserModal";
 import { SaveSyncModal } from "./SaveSyncModal";
 import { SettingsModal } from "./SettingsModal";
+import { SyncKeyRotatedModal } from "./SyncKeyRotatedModal";
 
 export function MaybeModal({ fullScreen }: { fullScreen?: boolean }) {
   const dispatch = useDispatch();
@@ -47,7 +48,9 @@ export function MaybeModal({ fullScreen }: { fullScreen?: boolean }) {
 }
 
 function isModalDismissable(modal: AppState["modal"]) {
-  return !["save-sync", "invalid-participant"].includes(modal);
+  return !["save-sync", "invalid-participant", "sync-key-rotated"].includes(
+    modal
+  );
 }
 
 function getModalBody(modal: AppState["modal"]) {
@@ -60,6 +63,8 @@ function getModalBody(modal: AppState["modal"]) {
       return <SaveSyncModal />;
     case "invalid-participant":
       return <InvalidUserModal />;
+    case "sync-key-rotated":
+      return <SyncKeyRotatedModal />;
     case "":
       return null;
     default:
@@ -17,6 +17,16 @@ export function SettingsModal() {
     setTimeout(() => setJustCopied(false), 2000);
   }, [syncKey]);
 
+  const rotateSyncKey = useCallback(() => {
+    if (
+      window.confirm(
+        "Are you sure you want to change your sync key? You'll need to enter the new key on your other devices."
+      )
+    ) {
+      dispatch({ type: "rotate-sync-key" });
+    }
+  }, [dispatch]);
+
   const clearPassport = useCallback(() => {
     if (
       window.confirm(
@@ -38,11 +48,23 @@ export function SettingsModal() {
         <LinkButton to="/scan">
           {appConfig.isZuzalu ? "Verify a Passport" : "Scan Ticket"}
         </LinkButton>
+        {!appConfig.isZuzalu && (
+          <>
+            <Spacer h={16} />
+            <LinkButton to="/offline-checkin">Offline Check-In</LinkButton>
+            <Spacer h={16} />
+            <LinkButton to="/check-in-dashboard">Check-In Dashboard</LinkButton>
+          </>
+        )}
         <Spacer h={16} />
         <Button onClick={copySyncKey}>
           {justCopied ? "Copied" : "Copy Key for Sync"}
         </Button>
         <Spacer h={16} />
+        <LinkButton to="/sync-history">Backup History</LinkButton>
+        <Spacer h={16} />
+        <Button onClick={rotateSyncKey}>Change Sync Key</Button>
+        <Spacer h={16} />
         <Button onClick={clearPassport} style="danger">
           Clear Passport
         </Button>
@@ -0,0 +1,46 @@
+import { Spacer } from "@pcd/passport-ui";
+import React, { useCallback, useState } from "react";
+import styled from "styled-components";
+import { useDispatch } from "../../src/appHooks";
+import { BigInput, Button, H1 } from "../core";
+
+export function SyncKeyRotatedModal() {
+  const dispatch = useDispatch();
+  const [syncKey, setSyncKey] = useState("");
+
+  const onChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setSyncKey(e.target.value);
+  }, []);
+
+  const onClick = useCallback(() => {
+    dispatch({ type: "set-rotated-sync-key", encryptionKey: syncKey.trim() });
+  }, [dispatch, syncKey]);
+
+  return (
+    <Container>
+      <Spacer h={8} />
+      <H1>Sync Key Changed</H1>
+      <Spacer h={24} />
+      <p>
+        You've changed your sync key on another device, so this device can't
+        sync your passport anymore. Copy the new sync key from the settings of
+        your other device, and enter it below to continue syncing.
+      </p>
+      <Spacer h={24} />
+      <BigInput
+        type="text"
+        placeholder="new sync key"
+        value={syncKey}
+        onChange={onChange}
+      />
+      <Spacer h={16} />
+      <Button onClick={onClick} disabled={syncKey.trim() === ""}>
+        Continue
+      </Button>
+    </Container>
+  );
+}
+
+const Container = styled.div`
+  padding: 24px;
+`;
@@ -0,0 +1,240 @@
+import {
+  CheckInDashboard,
+  CheckInDashboardEvent
+} from "@pcd/passport-interface";
+import { useCallback, useEffect, useState } from "react";
+import styled from "styled-components";
+import {
+  requestCheckInDashboard,
+  requestCheckInDashboardEvents,
+  requestCheckInExport
+} from "../../src/api/checkinApi";
+import { useDispatch, useIdentity } from "../../src/appHooks";
+import { createCheckerProof } from "../../src/offlineCheckin";
+import { Button, H2, H4, Spacer, TextCenter } from "../core";
+import { RippleLoader } from "../core/RippleLoader";
+import { AppContainer } from "../shared/AppContainer";
+
+/**
+ * Shows superusers how check-in is going for each of their events, and
+ * lets them export the check-in state of every ticket as CSV.
+ */
+export function CheckInDashboardScreen() {
+  const dispatch = useDispatch();
+  const identity = useIdentity();
+  const [events, setEvents] = useState<CheckInDashboardEvent[] | undefined>();
+  const [eventConfigId, setEventConfigId] = useState<string | undefined>();
+  const [dashboard, setDashboard] = useState<CheckInDashboard | undefined>();
+  const [loading, setLoading] = useState(false);
+
+  const onError = useCallback(
+    (title: string, message: string) => {
+      dispatch({ type: "error", error: { title, message } });
+    },
+    [dispatch]
+  );
+
+  useEffect(() => {
+    (async () => {
+      const response = await requestCheckInDashboardEvents({
+        checkerProof: await createCheckerProof(identity)
+      });
+      if (!response) {
+        onError("Couldn't load your events", "Please try again");
+        return;
+      }
+      setEvents(response.events);
+      setEventConfigId(response.events[0]?.eventConfigId);
+    })();
+  }, [identity, onError]);
+
+  const loadDashboard = useCallback(async () => {
+    if (eventConfigId === undefined) {
+      return;
+    }
+
+    setLoading(true);
+    const response = await requestCheckInDashboard({
+      checkerProof: await createCheckerProof(identity),
+      eventConfigId
+    });
+    setLoading(false);
+
+    if (response.success === false) {
+      onError("Couldn't load the dashboard", response.error.name);
+      return;
+    }
+    setDashboard(response.dashboard);
+  }, [identity, eventConfigId, onError]);
+
+  useEffect(() => {
+    loadDashboard();
+  }, [loadDashboard]);
+
+  const onExportClick = useCallback(async () => {
+    if (eventConfigId === undefined) {
+      return;
+    }
+
+    const response = await requestCheckInExport({
+      checkerProof: await createCheckerProof(identity),
+      eventConfigId
+    });
+    if (response.success === false) {
+      onError("Couldn't export check-ins", response.error.name);
+      return;
+    }
+
+    const url = URL.createObjectURL(
+      new Blob([response.csv], { type: "text/csv" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `check-ins-${dashboard?.eventName ?? eventConfigId}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [identity, eventConfigId, dashboard, onError]);
+
+  const onClose = useCallback(() => {
+    window.location.hash = "#/";
+  }, []);
+
+  return (
+    <AppContainer bg="primary">
+      <Container>
+        <Spacer h={64} />
+        <TextCenter>
+          <H2>CHECK-IN DASHBOARD</H2>
+        </TextCenter>
+        <Spacer h={32} />
+        {events === undefined && <RippleLoader />}
+        {events?.length === 0 && (
+          <TextCenter>
+            You aren't a superuser of any event, so there are no check-ins to
+            show.
+          </TextCenter>
+        )}
+        {events !== undefined && events.length > 1 && (
+          <>
+            <EventSelect
+              value={eventConfigId}
+              onChange={(e) => setEventConfigId(e.target.value)}
+            >
+              {events.map((event) => (
+                <option key={event.eventConfigId} value={event.eventConfigId}>
+                  {event.eventName}
+                </option>
+              ))}
+            </EventSelect>
+            <Spacer h={16} />
+          </>
+        )}
+        {loading && <RippleLoader />}
+        {!loading && dashboard && (
+          <>
+            <H4>{dashboard.eventName}</H4>
+            <Spacer h={16} />
+            {dashboard.items.map((item) => (
+              <Row key={item.itemName}>
+                <Spread>
+                  <span>{item.itemName}</span>
+                  <span>
+                    {item.checkedIn} / {item.total}
+                  </span>
+                </Spread>
+                <ProgressBar>
+                  <Progress
+                    style={{
+                      width: `${
+                        item.total ? (item.checkedIn / item.total) * 100 : 0
+                      }%`
+                    }}
+                  />
+                </ProgressBar>
+              </Row>
+            ))}
+            <Spacer h={32} />
+            <H4>Check-ins per hour</H4>
+            <Spacer h={8} />
+            {dashboard.windows.length === 0 && <span>No check-ins yet.</span>}
+            {dashboard.windows.map((window) => (
+              <Row key={window.start}>
+                <Spread>
+                  <span>{new Date(window.start).toLocaleString()}</span>
+                  <span>{window.checkedIn}</span>
+                </Spread>
+              </Row>
+            ))}
+            <Spacer h={32} />
+            <H4>Recent check-ins</H4>
+            <Spacer h={8} />
+            {dashboard.recentCheckIns.map((checkIn) => (
+              <Row key={checkIn.ticketId}>
+                <Spread>
+                  <span>{checkIn.attendeeName}</span>
+                  <span>
+                    {new Date(checkIn.checkinTimestamp).toLocaleTimeString()}
+                  </span>
+                </Spread>
+                <Secondary>
+                  {checkIn.itemName}, checked in by {checkIn.checker}
+                </Secondary>
+              </Row>
+            ))}
+            <Spacer h={32} />
+            <Button onClick={loadDashboard}>Refresh</Button>
+            <Spacer h={16} />
+            <Button onClick={onExportClick}>Export CSV</Button>
+          </>
+        )}
+        <Spacer h={16} />
+        <Button style="danger" onClick={onClose}>
+          Back
+        </Button>
+        <Spacer h={32} />
+      </Container>
+    </AppContainer>
+  );
+}
+
+const Container = styled.div`
+  padding: 16px;
+  width: 100%;
+  max-width: 100%;
+`;
+
+const EventSelect = styled.select`
+  width: 100%;
+  padding: 8px;
+  border-radius: 8px;
+  font-size: 16px;
+`;
+
+const Row = styled.div`
+  padding: 8px 0;
+  border-bottom: 1px solid rgba(var(--white-rgb), 0.2);
+`;
+
+const Spread = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const Secondary = styled.div`
+  opacity: 0.8;
+  font-size: 0.9em;
+`;
+
+const ProgressBar = styled.div`
+  margin-top: 4px;
+  height: 8px;
+  border-radius: 4px;
+  background: rgba(var(--white-rgb), 0.2);
+  overflow: hidden;
+`;
+
+const Progress = styled.div`
+  height: 100%;
+  background: var(--accent-lite);
+`;
@@ -1,25 +1,33 @@
 import {
+  CheckInEvent,
   CheckInResponse,
   CheckTicketResponse,
-  ISSUANCE_STRING,
   TicketError
 } from "@pcd/passport-interface";
 import { decodeQRPayload, Spacer } from "@pcd/passport-ui";
-import { ArgumentTypeName } from "@pcd/pcd-types";
 import {
   getTicketData,
   ITicketData,
   RSATicketPCD,
   RSATicketPCDPackage
 } from "@pcd/rsa-ticket-pcd";
-import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
-import { SemaphoreSignaturePCDPackage } from "@pcd/semaphore-signature-pcd";
 import { Identity } from "@semaphore-protocol/identity";
 import { useCallback, useEffect, useState } from "react";
 import { Location, useLocation } from "react-router-dom";
 import styled from "styled-components";
-import { requestCheckIn, requestCheckTicket } from "../../src/api/checkinApi";
+import {
+  requestCheckIn,
+  requestCheckInHistory,
+  requestCheckTicket,
+  requestUndoCheckIn
+} from "../../src/api/checkinApi";
 import { useIdentity } from "../../src/appHooks";
+import {
+  checkTicketOffline,
+  createCheckerProof,
+  getCheckInSnapshot,
+  queueOfflineCheckIn
+} from "../../src/offlineCheckin";
 import { Button, H5 } from "../core";
 import { RippleLoader } from "../core/RippleLoader";
 import { AppContainer } from "../shared/AppContainer";
@@ -32,8 +40,11 @@ import {
 export function DevconnectCheckinScreen() {
   const { ticket, error: decodeError } = useDecodedTicket();
 
-  const { loading: checkingTicket, response: checkTicketResponse } =
-    useCheckTicket(ticket);
+  const {
+    loading: checkingTicket,
+    response: checkTicketResponse,
+    offline
+  } = useCheckTicket(ticket);
 
   const ticketData = getTicketData(ticket);
 
@@ -52,12 +63,20 @@ export function DevconnectCheckinScreen() {
     );
   } else {
     if (checkTicketResponse.success === true) {
-      content = <UserReadyForCheckin ticket={ticket} ticketData={ticketData} />;
+      content = (
+        <UserReadyForCheckin
+          ticket={ticket}
+          ticketData={ticketData}
+          offline={offline}
+        />
+      );
     } else {
       content = (
         <TicketError
+          ticket={ticket}
           ticketData={ticketData}
           error={checkTicketResponse.error}
+          offline={offline}
         />
       );
     }
@@ -67,11 +86,15 @@ export function DevconnectCheckinScreen() {
 }
 
 function TicketError({
+  ticket,
   ticketData,
-  error
+  error,
+  offline
 }: {
+  ticket?: RSATicketPCD;
   ticketData: ITicketData;
   error: TicketError;
+  offline?: boolean;
 }) {
   let errorContent = null;
   let showTicket = true;
@@ -91,6 +114,7 @@ function TicketError({
             <span>Checked in by</span>
             <span>{error.checker}</span>
           </Spread>
+          {ticket && !offline && <CheckedInTicketActions ticket={ticket} />}
         </>
       );
       break;
@@ -136,6 +160,62 @@ function TicketError({
         </>
       );
       break;
+    case "NotCheckedIn":
+      errorContent = (
+        <>
+          <ErrorTitle>This ticket hasn't been checked in</ErrorTitle>
+        </>
+      );
+      break;
+    case "NotValidNow":
+      errorContent = (
+        <>
+          <ErrorTitle>This ticket can't be used right now</ErrorTitle>
+          <Spacer h={8} />
+          {error.validity.dateRanges.map((range, i) => (
+            <Spread key={i}>
+              <span>Valid</span>
+              <span>
+                {range.from ? new Date(range.from).toLocaleString() : ""}
+                {" – "}
+                {range.to ? new Date(range.to).toLocaleString() : ""}
+              </span>
+            </Spread>
+          ))}
+          {error.validity.entryWindows.map((window, i) => (
+            <Spread key={i}>
+              <span>Entry (UTC)</span>
+              <span>
+                {window.start} – {window.end}
+              </span>
+            </Spread>
+          ))}
+        </>
+      );
+      break;
+    case "MaxEntriesReached":
+      errorContent = (
+        <>
+          <ErrorTitle>This ticket has been used up for today</ErrorTitle>
+          <Spacer h={8} />
+          <span>
+            It can be used to enter {error.maxEntriesPerDay} times a day.
+          </span>
+        </>
+      );
+      break;
+    case "TicketTransferred":
+      errorContent = (
+        <>
+          <ErrorTitle>This ticket was transferred</ErrorTitle>
+          <Spacer h={8} />
+          <span>
+            It has been given to someone else, who should have been issued a new
+            copy of it.
+          </span>
+        </>
+      );
+      break;
     case "TicketRevoked":
       errorContent = (
         <>
@@ -155,6 +235,9 @@ function TicketError({
       <Container>
         {showTicket && <TicketInfoSection ticketData={ticketData} />}
         <ErrorContainer>{errorContent}</ErrorContainer>
+        {showTicket && ticket && !offline && (
+          <CheckInHistorySection ticket={ticket} />
+        )}
         <div
           style={{
             marginTop: "16px",
@@ -192,27 +275,36 @@ function Home() {
 
 function UserReadyForCheckin({
   ticketData,
-  ticket
+  ticket,
+  offline
 }: {
   ticketData: ITicketData;
   ticket: RSATicketPCD;
+  offline: boolean;
 }) {
   return (
     <AppContainer bg={"primary"}>
       <Container>
         <TicketInfoSection ticketData={ticketData} />
-        <CheckInSection ticket={ticket} />
+        {!offline && <CheckInHistorySection ticket={ticket} />}
+        <CheckInSection ticket={ticket} offline={offline} />
       </Container>
     </AppContainer>
   );
 }
 
+/**
+ * Checks the ticket with the server, falling back to the downloaded check-in
+ * snapshot if there is one and the server can't be reached.
+ */
 function useCheckTicket(ticket: RSATicketPCD | undefined): {
   loading: boolean;
   response: CheckTicketResponse;
+  offline: boolean;
 } {
   const [loading, setLoading] = useState(true);
   const [response, setResponse] = useState<CheckTicketResponse | undefined>();
+  const [offline, setOffline] = useState(false);
 
   useEffect(() => {
     (async () => {
@@ -226,7 +318,16 @@ function useCheckTicket(ticket: RSATicketPCD | undefined): {
         const checkResponse = await requestCheckTicket({
           ticket: await RSATicketPCDPackage.serialize(ticket)
         });
-        setResponse(checkResponse);
+        if (
+          checkResponse.success === false &&
+          checkResponse.error.name === "ServerError" &&
+          getCheckInSnapshot()
+        ) {
+          setResponse(await checkTicketOffline(ticket));
+          setOffline(true);
+        } else {
+          setResponse(checkResponse);
+        }
         setLoading(false);
       } catch (e) {
         console.log(e);
@@ -236,10 +337,16 @@ function useCheckTicket(ticket: RSATicketPCD | undefined): {
     })();
   }, [ticket]);
 
-  return { loading, response };
+  return { loading, response, offline };
 }
 
-function CheckInSection({ ticket }: { ticket: RSATicketPCD }) {
+function CheckInSection({
+  ticket,
+  offline
+}: {
+  ticket: RSATicketPCD;
+  offline: boolean;
+}) {
   const [checkingIn, setCheckingIn] = useState(false);
   const [checkedIn, setCheckedIn] = useState(false);
   const [finishedCheckinAttempt, setFinishedCheckinAttempt] = useState(false);
@@ -250,6 +357,13 @@ function CheckInSection({ ticket }: { ticket: RSATicketPCD }) {
       return;
     }
     setCheckingIn(true);
+    if (offline) {
+      queueOfflineCheckIn(ticket);
+      setCheckedIn(true);
+      setFinishedCheckinAttempt(true);
+      setCheckingIn(false);
+      return;
+    }
     checkinTicket(identity, ticket)
       .then((response) => {
         setCheckedIn(response.success);
@@ -261,7 +375,7 @@ function CheckInSection({ ticket }: { ticket: RSATicketPCD }) {
         setFinishedCheckinAttempt(true);
         setCheckingIn(false);
       });
-  }, [checkingIn, identity, ticket]);
+  }, [checkingIn, identity, ticket, offline]);
 
   return (
     <CheckinSectionContainer>
@@ -276,6 +390,15 @@ function CheckInSection({ ticket }: { ticket: RSATicketPCD }) {
               <StatusContainer>
                 <CheckinSuccess>Checked In ✅</CheckinSuccess>
               </StatusContainer>
+              {offline && (
+                <>
+                  <span>
+                    You're offline, so this check-in will be sent to the server
+                    once you're back online.
+                  </span>
+                  <Spacer h={16} />
+                </>
+              )}
               <ScanAnotherTicket />
               <Home />
             </>
@@ -294,6 +417,138 @@ function CheckInSection({ ticket }: { ticket: RSATicketPCD }) {
   );
 }
 
+/**
+ * Lets a superuser let the holder of an already checked-in ticket in again,
+ * or undo a check-in that was a mistake.
+ */
+function CheckedInTicketActions({ ticket }: { ticket: RSATicketPCD }) {
+  const identity = useIdentity();
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<string | undefined>();
+
+  const onReentryClick = useCallback(() => {
+    setLoading(true);
+    checkinTicket(identity, ticket, true).then((response) => {
+      setStatus(
+        response.success ? "Let in again ✅" : "Failed to let in again ❌"
+      );
+      setLoading(false);
+    });
+  }, [identity, ticket]);
+
+  const onUndoClick = useCallback(async () => {
+    const reason = window.prompt("Why are you undoing this check-in?");
+    if (!reason) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await requestUndoCheckIn({
+        checkerProof: await createCheckerProof(identity),
+        ticketId: getTicketData(ticket).ticketId ?? "",
+        reason
+      });
+      if (response.success) {
+        // check the ticket again, now that it can be checked in
+        window.location.reload();
+        return;
+      }
+      setStatus("Failed to undo check-in ❌");
+    } catch (e) {
+      console.log("failed to undo check-in", e);
+      setStatus("Failed to undo check-in ❌");
+    }
+    setLoading(false);
+  }, [identity, ticket]);
+
+  if (loading) {
+    return <RippleLoader />;
+  }
+
+  return (
+    <>
+      <Spacer h={16} />
+      {status ? (
+        <span>{status}</span>
+      ) : (
+        <>
+          <Button onClick={onReentryClick}>Let In Again</Button>
+          <Spacer h={8} />
+          <Button onClick={onUndoClick} style="danger">
+            Undo Check-In
+          </Button>
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * Shows superusers everything that has happened to the ticket at the door.
+ */
+function CheckInHistorySection({ ticket }: { ticket: RSATicketPCD }) {
+  const events = useCheckInHistory(ticket);
+
+  if (!events) {
+    return null;
+  }
+
+  return (
+    <HistoryContainer>
+      <H5>Check-In History</H5>
+      <Spacer h={8} />
+      {events.length === 0 && <span>This ticket hasn't been checked in.</span>}
+      {events.map((event, i) => (
+        <HistoryEvent key={i}>
+          <Spread>
+            <span>{describeCheckInEvent(event)}</span>
+            <span>{new Date(event.timestamp).toLocaleString()}</span>
+          </Spread>
+          <Spread>
+            <span>by {event.checker}</span>
+            {event.reason && <span>{event.reason}</span>}
+          </Spread>
+        </HistoryEvent>
+      ))}
+    </HistoryContainer>
+  );
+}
+
+function describeCheckInEvent(event: CheckInEvent): string {
+  switch (event.type) {
+    case "check-in":
+      return "Checked in";
+    case "undo":
+      return "Check-in undone";
+    case "re-entry":
+      return "Let in again";
+  }
+}
+
+/**
+ * Fetches the check-in history of the ticket, which is only available to
+ * superusers of its event.
+ */
+function useCheckInHistory(ticket: RSATicketPCD): CheckInEvent[] | undefined {
+  const identity = useIdentity();
+  const [events, setEvents] = useState<CheckInEvent[] | undefined>();
+
+  useEffect(() => {
+    (async () => {
+      const response = await requestCheckInHistory({
+        checkerProof: await createCheckerProof(identity),
+        ticketId: getTicketData(ticket).ticketId ?? ""
+      });
+      if (response.success) {
+        setEvents(response.events);
+      }
+    })().catch((e) => console.log("failed to load check-in history", e));
+  }, [identity, ticket]);
+
+  return events;
+}
+
 function TicketInfoSection({ ticketData }: { ticketData: ITicketData }) {
   return (
     <CardOutlineExpanded>
@@ -366,27 +621,14 @@ async function decodePCD(
 
 async function checkinTicket(
   checkerIdentity: Identity,
-  ticket: RSATicketPCD
+  ticket: RSATicketPCD,
+  reentry?: boolean
 ): Promise<CheckInResponse> {
   try {
     const response = await requestCheckIn({
       ticket: await RSATicketPCDPackage.serialize(ticket),
-      checkerProof: await SemaphoreSignaturePCDPackage.serialize(
-        await SemaphoreSignaturePCDPackage.prove({
-          identity: {
-            argumentType: ArgumentTypeName.PCD,
-            value: await SemaphoreIdentityPCDPackage.serialize(
-              await SemaphoreIdentityPCDPackage.prove({
-                identity: checkerIdentity
-              })
-            )
-          },
-          signedMessage: {
-            argumentType: ArgumentTypeName.String,
-            value: ISSUANCE_STRING
-          }
-        })
-      )
+      checkerProof: await createCheckerProof(checkerIdentity),
+      reentry
     });
     return response;
   } catch (e) {
@@ -425,6 +667,18 @@ const Spread = styled.div`
   align-items: center;
 `;
 
+const HistoryContainer = styled.div`
+  margin-top: 16px;
+  padding: 16px;
+  border-radius: 12px;
+  background: white;
+`;
+
+const HistoryEvent = styled.div`
+  padding: 8px 0;
+  border-bottom: 1px solid #eee;
+`;
+
 const ErrorContainer = styled.div`
   margin-top: 16px;
   padding: 16px;
@@ -74,8 +74,7 @@ export function GetWithoutProvingScreen() {
         >
           <option value="none">select</option>
           {pcds
-            .getAll()
-            .filter((pcd) => pcd.type === request.pcdType)
+            .query({ ...request.filter, type: request.pcdType })
             .map((pcd) => {
               const pcdPackage = pcds.getPackage(pcd.type);
               return (
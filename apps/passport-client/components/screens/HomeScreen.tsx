@@ -1,8 +1,14 @@
+import { PCDCollection, PCDFolder } from "@pcd/pcd-collection";
 import { PCD } from "@pcd/pcd-types";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import styled from "styled-components";
-import { usePCDs, useSelf } from "../../src/appHooks";
+import styled, { keyframes } from "styled-components";
+import {
+  usePCDCollection,
+  usePCDs,
+  useRecentlyAddedPCDIDs,
+  useSelf
+} from "../../src/appHooks";
 import { useSyncE2EEStorage } from "../../src/useSyncE2EEStorage";
 import { Placeholder, Spacer } from "../core";
 import { MaybeModal } from "../modals/Modal";
@@ -13,6 +19,12 @@ import { PCDCard } from "../shared/PCDCard";
 
 export const HomeScreen = React.memo(HomeScreenImpl);
 
+/**
+ * How long PCDs that were just added, e.g. newly issued tickets, are
+ * highlighted for.
+ */
+const NEW_PCD_HIGHLIGHT_MS = 3000;
+
 /**
  * Show the user their passport, an overview of cards / PCDs.
  */
@@ -20,6 +32,8 @@ export function HomeScreenImpl() {
   useSyncE2EEStorage();
 
   const pcds = usePCDs();
+  const pcdCollection = usePCDCollection();
+  const recentlyAddedPCDIDs = useRecentlyAddedPCDIDs(NEW_PCD_HIGHLIGHT_MS);
   const self = useSelf();
   const navigate = useNavigate();
 
@@ -91,15 +105,14 @@ export function HomeScreenImpl() {
         <AppHeader />
         <Spacer h={24} />
         <Placeholder minH={540}>
-          {pcds.map((pcd) => (
-            <WrappedPCDCard
-              key={pcd.id}
-              pcd={pcd}
-              mainIdPCD={mainIdPCD}
-              onPcdClick={onPcdClick}
-              expanded={pcd.id === selectedPCD?.id}
-            />
-          ))}
+          <FolderContents
+            pcdCollection={pcdCollection}
+            folder=""
+            mainIdPCD={mainIdPCD}
+            selectedPCDID={selectedPCD?.id}
+            recentlyAddedPCDIDs={recentlyAddedPCDIDs}
+            onPcdClick={onPcdClick}
+          />
           <LoadingIssuedPCDs />
         </Placeholder>
         <Spacer h={24} />
@@ -108,21 +121,141 @@ export function HomeScreenImpl() {
   );
 }
 
+/**
+ * Renders the PCDs directly inside of a folder, followed by each of its
+ * subfolders.
+ */
+function FolderContents({
+  pcdCollection,
+  folder,
+  mainIdPCD,
+  selectedPCDID,
+  recentlyAddedPCDIDs,
+  onPcdClick
+}: {
+  pcdCollection: PCDCollection;
+  folder: string;
+  mainIdPCD: string;
+  selectedPCDID: string | undefined;
+  recentlyAddedPCDIDs: Set<string>;
+  onPcdClick?: (id: string) => void;
+}) {
+  return (
+    <>
+      {pcdCollection.getAllInFolder(folder).map((pcd) => (
+        <WrappedPCDCard
+          key={pcd.id}
+          pcd={pcd}
+          mainIdPCD={mainIdPCD}
+          onPcdClick={onPcdClick}
+          expanded={pcd.id === selectedPCDID}
+          isNew={recentlyAddedPCDIDs.has(pcd.id)}
+        />
+      ))}
+      {pcdCollection.getSubfolders(folder).map((subfolder) => (
+        <FolderSection
+          key={subfolder.path}
+          pcdCollection={pcdCollection}
+          folder={subfolder}
+          mainIdPCD={mainIdPCD}
+          selectedPCDID={selectedPCDID}
+          recentlyAddedPCDIDs={recentlyAddedPCDIDs}
+          onPcdClick={onPcdClick}
+        />
+      ))}
+    </>
+  );
+}
+
+function FolderSection({
+  pcdCollection,
+  folder,
+  mainIdPCD,
+  selectedPCDID,
+  recentlyAddedPCDIDs,
+  onPcdClick
+}: {
+  pcdCollection: PCDCollection;
+  folder: PCDFolder;
+  mainIdPCD: string;
+  selectedPCDID: string | undefined;
+  recentlyAddedPCDIDs: Set<string>;
+  onPcdClick?: (id: string) => void;
+}) {
+  const [collapsed, setCollapsed] = useState(false);
+  const onHeaderClick = useCallback(() => {
+    setCollapsed((collapsed) => !collapsed);
+  }, []);
+
+  return (
+    <FolderContainer>
+      <FolderHeader onClick={onHeaderClick}>
+        <span>{collapsed ? "▸" : "▾"}</span>
+        {folder.metadata.icon && <span>{folder.metadata.icon}</span>}
+        <span>{folder.name}</span>
+        <FolderCount>
+          {
+            pcdCollection.getAllInFolder(folder.path, { recursive: true })
+              .length
+          }
+        </FolderCount>
+      </FolderHeader>
+      {!collapsed && (
+        <FolderBody>
+          <FolderContents
+            pcdCollection={pcdCollection}
+            folder={folder.path}
+            mainIdPCD={mainIdPCD}
+            selectedPCDID={selectedPCDID}
+            recentlyAddedPCDIDs={recentlyAddedPCDIDs}
+            onPcdClick={onPcdClick}
+          />
+        </FolderBody>
+      )}
+    </FolderContainer>
+  );
+}
+
+const FolderContainer = styled.div`
+  margin-top: 16px;
+`;
+
+const FolderHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  cursor: pointer;
+  user-select: none;
+  font-weight: bold;
+`;
+
+const FolderCount = styled.span`
+  font-weight: normal;
+  opacity: 0.6;
+`;
+
+const FolderBody = styled.div`
+  padding-left: 12px;
+  border-left: 1px solid var(--accent-lite);
+`;
+
 const WrappedPCDCard = React.memo(WrappedPCDCardImpl);
 
 function WrappedPCDCardImpl({
   pcd,
   expanded,
   mainIdPCD,
+  isNew,
   onPcdClick
 }: {
   pcd: PCD;
   expanded: boolean;
   mainIdPCD: string;
+  isNew: boolean;
   onPcdClick?: (id: string) => void;
 }) {
   return (
-    <PCDContainer key={"container-" + pcd.id}>
+    <PCDContainer key={"container-" + pcd.id} isNew={isNew}>
       <PCDCard
         key={"card-" + pcd.id}
         pcd={pcd}
@@ -134,6 +267,19 @@ function WrappedPCDCardImpl({
   );
 }
 
-const PCDContainer = styled.div`
+const newPCDHighlight = keyframes`
+  from {
+    transform: scale(0.95);
+    box-shadow: 0 0 16px 4px var(--accent-lite);
+  }
+  to {
+    transform: scale(1);
+    box-shadow: none;
+  }
+`;
+
+const PCDContainer = styled.div<{ isNew: boolean }>`
   margin-top: 8px;
+  border-radius: 12px;
+  animation: ${({ isNew }) => (isNew ? newPCDHighlight : "none")} 1s ease-out;
 `;
@@ -0,0 +1,192 @@
+import { CheckInSnapshot, TicketError } from "@pcd/passport-interface";
+import { useCallback, useEffect, useState } from "react";
+import styled from "styled-components";
+import { useDispatch, useIdentity } from "../../src/appHooks";
+import {
+  loadOfflineCheckInConflicts,
+  loadOfflineCheckIns,
+  OfflineCheckInConflict,
+  QueuedCheckIn,
+  saveOfflineCheckInConflicts
+} from "../../src/localstorage";
+import {
+  downloadCheckInSnapshot,
+  getCheckInSnapshot,
+  reconcileOfflineCheckIns
+} from "../../src/offlineCheckin";
+import { Button, H2, Spacer, TextCenter } from "../core";
+import { RippleLoader } from "../core/RippleLoader";
+import { AppContainer } from "../shared/AppContainer";
+
+/**
+ * Lets checkers download the tickets of their events so that they can keep
+ * checking tickets in without a connection, and send the check-ins they made
+ * offline to the server once they're back online.
+ */
+export function OfflineCheckinScreen() {
+  const dispatch = useDispatch();
+  const identity = useIdentity();
+  const [snapshot, setSnapshot] = useState<CheckInSnapshot | undefined>(
+    getCheckInSnapshot
+  );
+  const [queued, setQueued] = useState<QueuedCheckIn[]>(loadOfflineCheckIns);
+  const [conflicts, setConflicts] = useState<OfflineCheckInConflict[]>(
+    loadOfflineCheckInConflicts
+  );
+  const [loading, setLoading] = useState(false);
+
+  const onError = useCallback(
+    (title: string, e: Error) => {
+      console.error(e);
+      dispatch({ type: "error", error: { title, message: e.message } });
+    },
+    [dispatch]
+  );
+
+  const sync = useCallback(async () => {
+    setLoading(true);
+    try {
+      await reconcileOfflineCheckIns(identity);
+    } finally {
+      setQueued(loadOfflineCheckIns());
+      setConflicts(loadOfflineCheckInConflicts());
+      setLoading(false);
+    }
+  }, [identity]);
+
+  // send any check-ins which were made offline as soon as we can
+  useEffect(() => {
+    if (loadOfflineCheckIns().length > 0 && navigator.onLine) {
+      sync().catch((e) => console.log("failed to sync offline check-ins", e));
+    }
+  }, [sync]);
+
+  const onSyncClick = useCallback(() => {
+    sync().catch((e) => onError("Couldn't sync check-ins", e));
+  }, [sync, onError]);
+
+  const onDownloadClick = useCallback(() => {
+    setLoading(true);
+    downloadCheckInSnapshot(identity)
+      .then(setSnapshot)
+      .catch((e) => onError("Couldn't download tickets", e))
+      .finally(() => setLoading(false));
+  }, [identity, onError]);
+
+  const onClearConflictsClick = useCallback(() => {
+    saveOfflineCheckInConflicts([]);
+    setConflicts([]);
+  }, []);
+
+  const onClose = useCallback(() => {
+    window.location.hash = "#/";
+  }, []);
+
+  return (
+    <AppContainer bg="primary">
+      <Container>
+        <Spacer h={64} />
+        <TextCenter>
+          <H2>OFFLINE CHECK-IN</H2>
+          <Spacer h={32} />
+          Download the tickets of your events to keep checking people in when
+          you lose your connection. Check-ins made offline are sent to the
+          server once you're back online.
+        </TextCenter>
+        <Spacer h={32} />
+        {loading ? (
+          <RippleLoader />
+        ) : (
+          <>
+            <TextCenter>
+              {snapshot
+                ? `${snapshot.tickets.length} tickets downloaded at ` +
+                  new Date(snapshot.timestamp).toLocaleString()
+                : "No tickets downloaded"}
+            </TextCenter>
+            <Spacer h={16} />
+            <Button onClick={onDownloadClick}>
+              {snapshot ? "Download Tickets Again" : "Download Tickets"}
+            </Button>
+            <Spacer h={32} />
+            <TextCenter>
+              {queued.length} offline check-in{queued.length === 1 ? "" : "s"}{" "}
+              waiting to sync
+            </TextCenter>
+            {queued.length > 0 && (
+              <>
+                <Spacer h={16} />
+                <Button onClick={onSyncClick}>Sync Check-Ins</Button>
+              </>
+            )}
+            {conflicts.length > 0 && (
+              <>
+                <Spacer h={32} />
+                <TextCenter>
+                  These check-ins were refused by the server:
+                </TextCenter>
+                <Spacer h={8} />
+                {conflicts.map((conflict, i) => (
+                  <ConflictRow key={i}>
+                    <div>
+                      {conflict.checkIn.attendeeName ??
+                        conflict.checkIn.ticketId}
+                      {conflict.checkIn.eventName &&
+                        ` (${conflict.checkIn.eventName})`}
+                    </div>
+                    <ConflictReason>
+                      Checked in offline at{" "}
+                      {new Date(
+                        conflict.checkIn.checkinTimestamp
+                      ).toLocaleString()}
+                      . {describeConflict(conflict.error)}
+                    </ConflictReason>
+                  </ConflictRow>
+                ))}
+                <Spacer h={16} />
+                <Button onClick={onClearConflictsClick}>Clear</Button>
+              </>
+            )}
+          </>
+        )}
+        <Spacer h={32} />
+        <Button style="danger" onClick={onClose}>
+          Back
+        </Button>
+        <Spacer h={32} />
+      </Container>
+    </AppContainer>
+  );
+}
+
+function describeConflict(error: TicketError): string {
+  switch (error.name) {
+    case "AlreadyCheckedIn":
+      return (
+        `Already checked in by ${error.checker} at ` +
+        `${new Date(error.checkinTimestamp).toLocaleString()}.`
+      );
+    case "TicketRevoked":
+      return "The ticket was revoked.";
+    case "NotSuperuser":
+      return "You're not allowed to check in tickets for this event.";
+    default:
+      return "The server couldn't check the ticket in.";
+  }
+}
+
+const Container = styled.div`
+  padding: 16px;
+  width: 100%;
+  max-width: 100%;
+`;
+
+const ConflictRow = styled.div`
+  padding: 8px 0;
+  border-bottom: 1px solid rgba(var(--white-rgb), 0.2);
+`;
+
+const ConflictReason = styled.div`
+  opacity: 0.8;
+  font-size: 0.9em;
+`;
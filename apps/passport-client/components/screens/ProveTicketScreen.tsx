@@ -0,0 +1,185 @@
+import { ArgumentTypeName } from "@pcd/pcd-types";
+import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
+import {
+  EdDSATicketPCD,
+  EdDSATicketPCDPackage,
+  TicketFieldName,
+  TicketFieldsToReveal,
+  ZKTicketPCDPackage
+} from "@pcd/zk-ticket-pcd";
+import { useCallback, useState } from "react";
+import { useLocation } from "react-router-dom";
+import styled from "styled-components";
+import { useDispatch, useIdentity, usePCDCollection } from "../../src/appHooks";
+import { BigInput, Button, H2, Spacer, TextCenter } from "../core";
+import { RippleLoader } from "../core/RippleLoader";
+import { AppContainer } from "../shared/AppContainer";
+
+/**
+ * The fields of a ticket its holder can choose to reveal, in the order in
+ * which they are shown. The rest of them are never worth revealing.
+ */
+const REVEALABLE_FIELDS: { name: TicketFieldName; label: string }[] = [
+  { name: "eventId", label: "Event" },
+  { name: "productId", label: "Ticket type" },
+  { name: "eventName", label: "Event name" },
+  { name: "ticketName", label: "Ticket name" },
+  { name: "attendeeName", label: "Name" },
+  { name: "attendeeEmail", label: "Email address" },
+  { name: "isConsumed", label: "Whether it was used to check in" }
+];
+
+/**
+ * Lets the holder of a ticket that supports zero-knowledge proofs prove that
+ * they hold it, revealing only the fields of the ticket they choose to. The
+ * proof is added to their passport.
+ */
+export function ProveTicketScreen() {
+  const location = useLocation();
+  const dispatch = useDispatch();
+  const identity = useIdentity();
+  const pcds = usePCDCollection();
+  const params = new URLSearchParams(location.search);
+  const pcdId = params.get("id");
+  const ticket = pcdId
+    ? (pcds.getById(pcdId) as EdDSATicketPCD | undefined)
+    : undefined;
+  const [fieldsToReveal, setFieldsToReveal] = useState<TicketFieldsToReveal>({
+    eventId: true
+  });
+  const [watermark, setWatermark] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const onFieldToggle = useCallback((name: TicketFieldName) => {
+    setFieldsToReveal((fields) => ({ ...fields, [name]: !fields[name] }));
+  }, []);
+
+  const onProveClick = useCallback(async () => {
+    if (!ticket) {
+      return;
+    }
+
+    if (watermark !== "" && !/^\d+$/.test(watermark)) {
+      dispatch({
+        type: "error",
+        error: {
+          title: "Invalid watermark",
+          message: "The watermark has to be a number."
+        }
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const proof = await ZKTicketPCDPackage.prove({
+        ticket: {
+          argumentType: ArgumentTypeName.PCD,
+          value: await EdDSATicketPCDPackage.serialize(ticket)
+        },
+        identity: {
+          argumentType: ArgumentTypeName.PCD,
+          value: await SemaphoreIdentityPCDPackage.serialize(
+            await SemaphoreIdentityPCDPackage.prove({ identity })
+          )
+        },
+        fieldsToReveal: {
+          argumentType: ArgumentTypeName.Object,
+          value: fieldsToReveal
+        },
+        watermark: {
+          argumentType: ArgumentTypeName.BigInt,
+          value: watermark === "" ? "0" : watermark
+        }
+      });
+
+      await dispatch({
+        type: "add-pcds",
+        pcds: [await ZKTicketPCDPackage.serialize(proof)]
+      });
+      window.location.hash = "#/";
+    } catch (e) {
+      dispatch({
+        type: "error",
+        error: {
+          title: "Couldn't prove ticket",
+          message: e.message
+        }
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [dispatch, fieldsToReveal, identity, ticket, watermark]);
+
+  const onClose = useCallback(() => {
+    window.location.hash = "#/";
+  }, []);
+
+  return (
+    <AppContainer bg="primary">
+      <Container>
+        <Spacer h={64} />
+        <TextCenter>
+          <H2>PROVE TICKET</H2>
+        </TextCenter>
+        <Spacer h={32} />
+        {!ticket && <TextCenter>This ticket couldn't be found.</TextCenter>}
+        {ticket && (
+          <>
+            <TextCenter>
+              {`${ticket.claim.ticket.eventName} (${ticket.claim.ticket.ticketName})`}
+            </TextCenter>
+            <Spacer h={16} />
+            <TextCenter>
+              Prove that you hold this ticket, and that it hasn't been canceled,
+              while only revealing what you choose to:
+            </TextCenter>
+            <Spacer h={16} />
+            {REVEALABLE_FIELDS.map(({ name, label }) => (
+              <FieldRow key={name}>
+                <input
+                  type="checkbox"
+                  checked={!!fieldsToReveal[name]}
+                  onChange={() => onFieldToggle(name)}
+                  disabled={loading}
+                />
+                <span>{label}</span>
+              </FieldRow>
+            ))}
+            <Spacer h={16} />
+            <BigInput
+              placeholder="watermark (optional)"
+              value={watermark}
+              onChange={(e) => setWatermark(e.target.value)}
+              disabled={loading}
+            />
+            <Spacer h={16} />
+            {loading ? (
+              <RippleLoader />
+            ) : (
+              <Button onClick={onProveClick}>Prove</Button>
+            )}
+          </>
+        )}
+        <Spacer h={16} />
+        <Button style="danger" onClick={onClose}>
+          Back
+        </Button>
+      </Container>
+    </AppContainer>
+  );
+}
+
+const Container = styled.div`
+  padding: 16px;
+  width: 100%;
+  max-width: 100%;
+`;
+
+const FieldRow = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 4px 0;
+  cursor: pointer;
+`;
@@ -30,10 +30,11 @@ export function SyncExistingScreen() {
         console.log("downloading e2ee storage...");
         setIsLoading(true);
         const blobHash = await getHash(syncKey);
-        storage = await downloadEncryptedStorage(blobHash);
-        if (!storage) {
+        const response = await downloadEncryptedStorage(blobHash);
+        if (!response) {
           throw new Error("no e2ee for this sync key found");
         }
+        storage = response.encryptedStorage;
       } catch (e: unknown) {
         console.error(e);
         dispatch({
@@ -0,0 +1,130 @@
+import { getHash } from "@pcd/passport-crypto";
+import { E2EERevision } from "@pcd/passport-interface";
+import { useCallback, useEffect, useState } from "react";
+import styled from "styled-components";
+import { downloadEncryptedStorageHistory } from "../../src/api/endToEndEncryptionApi";
+import { useDispatch, useSyncKey } from "../../src/appHooks";
+import { Button, H2, Spacer, TextCenter } from "../core";
+import { RippleLoader } from "../core/RippleLoader";
+import { AppContainer } from "../shared/AppContainer";
+
+/**
+ * Lists the revisions of the user's end-to-end encrypted backup that the
+ * server still keeps, and lets the user roll their passport back to one of
+ * them.
+ */
+export function SyncHistoryScreen() {
+  const dispatch = useDispatch();
+  const syncKey = useSyncKey();
+  const [revisions, setRevisions] = useState<E2EERevision[] | undefined>();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!syncKey) {
+      return;
+    }
+
+    const load = async () => {
+      const blobHash = await getHash(syncKey);
+      const history = await downloadEncryptedStorageHistory(blobHash);
+      setRevisions(history.revisions);
+    };
+
+    load().catch((e) => {
+      console.error(e);
+      dispatch({
+        type: "error",
+        error: {
+          title: "Couldn't load backup history",
+          message: e.message
+        }
+      });
+    });
+  }, [syncKey, dispatch]);
+
+  const onRestoreClick = useCallback(
+    (revision: E2EERevision) => {
+      if (
+        !window.confirm(
+          "Are you sure you want to restore the backup from " +
+            `${formatRevisionDate(revision)}? ` +
+            "Any changes made to your passport since will be lost."
+        )
+      ) {
+        return;
+      }
+
+      setIsRestoring(true);
+      dispatch({
+        type: "restore-sync-revision",
+        revision: revision.revision
+      });
+    },
+    [dispatch]
+  );
+
+  const onClose = useCallback(() => {
+    window.location.hash = "#/";
+  }, []);
+
+  return (
+    <AppContainer bg="primary">
+      <Container>
+        <Spacer h={64} />
+        <TextCenter>
+          <H2>BACKUP HISTORY</H2>
+          <Spacer h={32} />
+          Your passport is backed up end-to-end encrypted every time it changes.
+          If something went wrong, you can roll it back to one of these backups.
+        </TextCenter>
+        <Spacer h={32} />
+        {(revisions === undefined || isRestoring) && <RippleLoader />}
+        {revisions !== undefined &&
+          !isRestoring &&
+          revisions.map((revision, i) => (
+            <RevisionRow key={revision.revision}>
+              <span>
+                {formatRevisionDate(revision)}
+                {i === 0 && " (current)"}
+              </span>
+              {i !== 0 && (
+                <RestoreButton>
+                  <Button size="small" onClick={() => onRestoreClick(revision)}>
+                    Restore
+                  </Button>
+                </RestoreButton>
+              )}
+            </RevisionRow>
+          ))}
+        <Spacer h={32} />
+        <Button style="danger" onClick={onClose}>
+          Back
+        </Button>
+        <Spacer h={32} />
+      </Container>
+    </AppContainer>
+  );
+}
+
+function formatRevisionDate(revision: E2EERevision): string {
+  return new Date(revision.timeCreated).toLocaleString();
+}
+
+const Container = styled.div`
+  padding: 16px;
+  width: 100%;
+  max-width: 100%;
+`;
+
+const RevisionRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  min-height: 48px;
+  padding: 8px 0;
+  border-bottom: 1px solid rgba(var(--white-rgb), 0.2);
+`;
+
+const RestoreButton = styled.div`
+  width: 120px;
+`;
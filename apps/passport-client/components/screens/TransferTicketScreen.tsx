@@ -0,0 +1,154 @@
+import {
+  getTicketTransferMessage,
+  TicketTransferError,
+  TransferTicketResponse
+} from "@pcd/passport-interface";
+import { getTicketData, RSATicketPCD } from "@pcd/rsa-ticket-pcd";
+import { useCallback, useState } from "react";
+import { useLocation } from "react-router-dom";
+import styled from "styled-components";
+import { requestTransferTicket } from "../../src/api/issuedPCDs";
+import { useDispatch, useIdentity, usePCDCollection } from "../../src/appHooks";
+import { createUserProof } from "../../src/createUserProof";
+import { BigInput, Button, H2, Spacer, TextCenter } from "../core";
+import { RippleLoader } from "../core/RippleLoader";
+import { AppContainer } from "../shared/AppContainer";
+
+/**
+ * Lets the holder of a ticket issued by the server give it to someone else.
+ * The ticket is issued to the recipient from then on, and removed from the
+ * holder's passport.
+ */
+export function TransferTicketScreen() {
+  const location = useLocation();
+  const dispatch = useDispatch();
+  const identity = useIdentity();
+  const pcds = usePCDCollection();
+  const params = new URLSearchParams(location.search);
+  const pcdId = params.get("id");
+  const ticket = pcdId
+    ? (pcds.getById(pcdId) as RSATicketPCD | undefined)
+    : undefined;
+  const ticketData = getTicketData(ticket);
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const onTransferClick = useCallback(async () => {
+    const email = recipientEmail.trim();
+    if (!ticketData.ticketId || email === "") {
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Are you sure you want to give this ticket to ${email}? ` +
+          `You won't be able to use it anymore.`
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    let response: TransferTicketResponse;
+    try {
+      response = await requestTransferTicket({
+        userProof: await createUserProof(
+          identity,
+          getTicketTransferMessage(ticketData.ticketId, email)
+        ),
+        ticketId: ticketData.ticketId,
+        recipientEmail: email
+      });
+    } catch (e) {
+      response = { success: false, error: { name: "ServerError" } };
+    }
+    setLoading(false);
+
+    if (response.success === false) {
+      dispatch({
+        type: "error",
+        error: {
+          title: "Couldn't transfer ticket",
+          message: getTransferErrorMessage(response.error)
+        }
+      });
+      return;
+    }
+
+    dispatch({ type: "remove-pcd", id: pcdId });
+    window.location.hash = "#/";
+  }, [dispatch, identity, pcdId, recipientEmail, ticketData.ticketId]);
+
+  const onClose = useCallback(() => {
+    window.location.hash = "#/";
+  }, []);
+
+  return (
+    <AppContainer bg="primary">
+      <Container>
+        <Spacer h={64} />
+        <TextCenter>
+          <H2>TRANSFER TICKET</H2>
+        </TextCenter>
+        <Spacer h={32} />
+        {!ticket && <TextCenter>This ticket couldn't be found.</TextCenter>}
+        {ticket && (
+          <>
+            <TextCenter>
+              {ticketData.eventName} ({ticketData.ticketName})
+            </TextCenter>
+            <Spacer h={16} />
+            <TextCenter>
+              Enter the email address of the person you want to give this ticket
+              to. It will show up in their passport once they log in with that
+              email address.
+            </TextCenter>
+            <Spacer h={16} />
+            <BigInput
+              type="email"
+              placeholder="email address"
+              value={recipientEmail}
+              onChange={(e) => setRecipientEmail(e.target.value)}
+              disabled={loading}
+            />
+            <Spacer h={16} />
+            {loading ? (
+              <RippleLoader />
+            ) : (
+              <Button onClick={onTransferClick}>Transfer</Button>
+            )}
+          </>
+        )}
+        <Spacer h={16} />
+        <Button style="danger" onClick={onClose}>
+          Back
+        </Button>
+      </Container>
+    </AppContainer>
+  );
+}
+
+function getTransferErrorMessage(error: TicketTransferError): string {
+  switch (error.name) {
+    case "NotTicketHolder":
+      return "This ticket isn't yours to transfer.";
+    case "InvalidTicket":
+      return "This ticket doesn't exist anymore.";
+    case "InvalidRecipient":
+      return "Please enter someone else's email address.";
+    case "AlreadyCheckedIn":
+      return "This ticket has already been used to check in.";
+    case "NotTransferable":
+      return "Tickets to this event can't be transferred.";
+    case "TransferLimitReached":
+      return `This ticket can only be transferred ${error.maxTransfers} times.`;
+    case "ServerError":
+      return "Please check your connection and try again.";
+  }
+}
+
+const Container = styled.div`
+  padding: 16px;
+  width: 100%;
+  max-width: 100%;
+`;
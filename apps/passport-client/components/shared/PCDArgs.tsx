@@ -475,10 +475,7 @@ export function PCDArgInput<T extends PCDPackage>({
               select
             </option>
             {pcdCollection
-              .getAll()
-              .filter((pcd) => {
-                return arg.pcdType === undefined || pcd.type === arg.pcdType;
-              })
+              .query({ ...arg.filter, type: arg.pcdType ?? arg.filter?.type })
               .map((pcd) => {
                 const pcdPackage = pcdCollection.getPackage(pcd.type);
                 return (
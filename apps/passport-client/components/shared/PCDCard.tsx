@@ -1,4 +1,6 @@
 import { PCD } from "@pcd/pcd-types";
+import { RSAPCDTypeName } from "@pcd/rsa-ticket-pcd";
+import { EdDSATicketPCDTypeName } from "@pcd/zk-ticket-pcd";
 import React, { useCallback, useContext, useMemo } from "react";
 import styled from "styled-components";
 import { appConfig } from "../../src/appConfig";
@@ -119,6 +121,26 @@ function CardFooterImpl({
   isMainIdentity: boolean;
 }) {
   const { dispatch } = useContext(StateContext);
+  const pcds = usePCDCollection();
+
+  // tickets issued by the server can be given to someone else
+  const folder = pcds.getFolder(pcd.id);
+  const isTransferable =
+    pcd.type === RSAPCDTypeName &&
+    folder !== undefined &&
+    pcds.getFolderMetadata(folder)?.issuedBy === appConfig.passportServer;
+
+  const onTransferClick = useCallback(() => {
+    window.location.hash = `#/transfer-ticket?id=${encodeURIComponent(pcd.id)}`;
+  }, [pcd]);
+
+  // tickets signed with a SNARK-friendly signature can be proven in zero
+  // knowledge, revealing only some of their fields
+  const isProvable = pcd.type === EdDSATicketPCDTypeName;
+
+  const onProveClick = useCallback(() => {
+    window.location.hash = `#/prove-ticket?id=${encodeURIComponent(pcd.id)}`;
+  }, [pcd]);
 
   const onRemoveClick = useCallback(() => {
     if (
@@ -136,6 +158,22 @@ function CardFooterImpl({
 
   return (
     <FooterContainer>
+      {isTransferable && (
+        <>
+          <Button size="small" onClick={onTransferClick}>
+            Transfer
+          </Button>
+          <Spacer w={8} />
+        </>
+      )}
+      {isProvable && (
+        <>
+          <Button size="small" onClick={onProveClick}>
+            Prove
+          </Button>
+          <Spacer w={8} />
+        </>
+      )}
       <Button style="danger" size="small" onClick={onRemoveClick}>
         Remove
       </Button>
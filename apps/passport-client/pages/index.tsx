@@ -3,6 +3,7 @@ import * as React from "react";
 import { createRoot } from "react-dom/client";
 import { HashRouter, Route, Routes } from "react-router-dom";
 import { AddScreen } from "../components/screens/AddScreen/AddScreen";
+import { CheckInDashboardScreen } from "../components/screens/CheckInDashboardScreen";
 import { DevconnectCheckinScreen } from "../components/screens/DevconnectCheckinScreen";
 import { DeviceLoginScreen } from "../components/screens/DeviceLoginScreen";
 import { GetWithoutProvingScreen } from "../components/screens/GetWithoutProvingScreen";
@@ -11,9 +12,13 @@ import { HomeScreen } from "../components/screens/HomeScreen";
 import { LoginScreen } from "../components/screens/LoginScreen";
 import { MissingScreen } from "../components/screens/MissingScreen";
 import { NewPassportScreen } from "../components/screens/NewPassportScreen";
+import { OfflineCheckinScreen } from "../components/screens/OfflineCheckinScreen";
 import { ProveScreen } from "../components/screens/ProveScreen/ProveScreen";
+import { ProveTicketScreen } from "../components/screens/ProveTicketScreen";
 import { ScanScreen } from "../components/screens/ScanScreen";
 import { SyncExistingScreen } from "../components/screens/SyncExistingScreen";
+import { SyncHistoryScreen } from "../components/screens/SyncHistoryScreen";
+import { TransferTicketScreen } from "../components/screens/TransferTicketScreen";
 import { VerifyScreen } from "../components/screens/VerifyScreen";
 import { AppContainer } from "../components/shared/AppContainer";
 import { RollbarProvider } from "../components/shared/RollbarProvider";
@@ -30,6 +35,7 @@ import {
   loadIdentity,
   loadPCDs,
   loadSelf,
+  loadSyncKeyRotated,
   loadUserInvalid,
   saveIdentity
 } from "../src/localstorage";
@@ -128,7 +134,15 @@ function RouterImpl() {
           <Route path="add" element={<AddScreen />} />
           <Route path="prove" element={<ProveScreen />} />
           <Route path="scan" element={<ScanScreen />} />
+          <Route path="offline-checkin" element={<OfflineCheckinScreen />} />
+          <Route
+            path="check-in-dashboard"
+            element={<CheckInDashboardScreen />}
+          />
+          <Route path="transfer-ticket" element={<TransferTicketScreen />} />
+          <Route path="prove-ticket" element={<ProveTicketScreen />} />
           <Route path="sync-existing" element={<SyncExistingScreen />} />
+          <Route path="sync-history" element={<SyncHistoryScreen />} />
           <Route
             path="verify"
             element={
@@ -159,11 +173,14 @@ async function loadInitialState(): Promise<AppState> {
   const pcds = await loadPCDs();
   const encryptionKey = await loadEncryptionKey();
   const userInvalid = loadUserInvalid();
+  const syncKeyRotated = loadSyncKeyRotated();
 
   let modal = "" as AppState["modal"];
 
   if (userInvalid) {
     modal = "invalid-participant";
+  } else if (syncKeyRotated) {
+    modal = "sync-key-rotated";
   } else if (self != null && !localStorage["savedSyncKey"]) {
     console.log("Asking existing user to save their sync key...");
     modal = "save-sync";
@@ -175,7 +192,8 @@ async function loadInitialState(): Promise<AppState> {
     pcds,
     identity,
     modal,
-    userInvalid: userInvalid
+    userInvalid: userInvalid,
+    syncKeyRotated
   };
 }
 
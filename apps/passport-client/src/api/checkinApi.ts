@@ -1,8 +1,22 @@
 import {
+  CheckInDashboardEventsRequest,
+  CheckInDashboardEventsResponse,
+  CheckInDashboardRequest,
+  CheckInDashboardResponse,
+  CheckInExportRequest,
+  CheckInExportResponse,
+  CheckInHistoryRequest,
+  CheckInHistoryResponse,
   CheckInRequest,
   CheckInResponse,
+  CheckInSnapshotRequest,
+  CheckInSnapshotResponse,
   CheckTicketRequest,
-  CheckTicketResponse
+  CheckTicketResponse,
+  ReconcileCheckInsRequest,
+  ReconcileCheckInsResponse,
+  UndoCheckInRequest,
+  UndoCheckInResponse
 } from "@pcd/passport-interface";
 import { appConfig } from "../appConfig";
 
@@ -70,3 +84,211 @@ export async function requestCheckTicket(
     };
   }
 }
+
+/**
+ * Reverses a mistaken check-in, so that the ticket can be checked in again.
+ */
+export async function requestUndoCheckIn(
+  request: UndoCheckInRequest
+): Promise<UndoCheckInResponse> {
+  try {
+    const url = `${appConfig.passportServer}/issue/undo-check-in`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return {
+        success: false,
+        error: { name: "ServerError" }
+      };
+    }
+    return (await response.json()) as UndoCheckInResponse;
+  } catch (e) {
+    return {
+      success: false,
+      error: { name: "ServerError" }
+    };
+  }
+}
+
+/**
+ * Lists the check-ins, undone check-ins and re-entries of a ticket.
+ */
+export async function requestCheckInHistory(
+  request: CheckInHistoryRequest
+): Promise<CheckInHistoryResponse> {
+  try {
+    const url = `${appConfig.passportServer}/issue/check-in-history`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return {
+        success: false,
+        error: { name: "ServerError" }
+      };
+    }
+    return (await response.json()) as CheckInHistoryResponse;
+  } catch (e) {
+    return {
+      success: false,
+      error: { name: "ServerError" }
+    };
+  }
+}
+
+/**
+ * Downloads a signed snapshot of the tickets that the checker can check in,
+ * for checking tickets in while offline.
+ */
+export async function requestCheckInSnapshot(
+  request: CheckInSnapshotRequest
+): Promise<CheckInSnapshotResponse> {
+  try {
+    const url = `${appConfig.passportServer}/issue/check-in-snapshot`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return {
+        success: false,
+        error: { name: "ServerError" }
+      };
+    }
+    return (await response.json()) as CheckInSnapshotResponse;
+  } catch (e) {
+    return {
+      success: false,
+      error: { name: "NetworkError" }
+    };
+  }
+}
+
+/**
+ * Records check-ins which happened while offline. Returns undefined if the
+ * server couldn't be reached.
+ */
+export async function requestReconcileCheckIns(
+  request: ReconcileCheckInsRequest
+): Promise<ReconcileCheckInsResponse | undefined> {
+  try {
+    const url = `${appConfig.passportServer}/issue/reconcile-check-ins`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return undefined;
+    }
+    return (await response.json()) as ReconcileCheckInsResponse;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the events whose check-in dashboard the checker can see. Returns
+ * undefined if the server couldn't be reached.
+ */
+export async function requestCheckInDashboardEvents(
+  request: CheckInDashboardEventsRequest
+): Promise<CheckInDashboardEventsResponse | undefined> {
+  try {
+    const url = `${appConfig.passportServer}/issue/check-in-dashboard/events`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return undefined;
+    }
+    return (await response.json()) as CheckInDashboardEventsResponse;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Summarizes how check-in is going for an event.
+ */
+export async function requestCheckInDashboard(
+  request: CheckInDashboardRequest
+): Promise<CheckInDashboardResponse> {
+  try {
+    const url = `${appConfig.passportServer}/issue/check-in-dashboard`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return {
+        success: false,
+        error: { name: "ServerError" }
+      };
+    }
+    return (await response.json()) as CheckInDashboardResponse;
+  } catch (e) {
+    return {
+      success: false,
+      error: { name: "ServerError" }
+    };
+  }
+}
+
+/**
+ * Exports the check-in state of every ticket of an event as CSV.
+ */
+export async function requestCheckInExport(
+  request: CheckInExportRequest
+): Promise<CheckInExportResponse> {
+  try {
+    const url = `${appConfig.passportServer}/issue/check-in-dashboard/export`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json"
+      }
+    });
+    if (response.status !== 200) {
+      return {
+        success: false,
+        error: { name: "ServerError" }
+      };
+    }
+    return (await response.json()) as CheckInExportResponse;
+  } catch (e) {
+    return {
+      success: false,
+      error: { name: "ServerError" }
+    };
+  }
+}
@@ -1,14 +1,42 @@
 import { EncryptedPacket } from "@pcd/passport-crypto";
 import {
+  LoadE2EEHistoryRequest,
+  LoadE2EEHistoryResponse,
   LoadE2EERequest,
   LoadE2EEResponse,
+  RestoreE2EERequest,
+  RestoreE2EEResponse,
+  RotateE2EEKeyRequest,
+  RotateE2EEKeyResponse,
+  SaveE2EEConflictResponse,
   SaveE2EERequest,
+  SaveE2EEResponse,
 } from "@pcd/passport-interface";
 import { appConfig } from "../appConfig";
 
+/**
+ * Thrown when the server no longer accepts requests for a sync key, because
+ * the storage was moved to a new sync key on another device.
+ */
+export class SyncKeyRotatedError extends Error {
+  public constructor() {
+    super("sync key was rotated");
+  }
+}
+
+/**
+ * Thrown when the server doesn't accept the proof that the client knows the
+ * encryption key whose storage it is trying to move to a new sync key.
+ */
+export class RotationProofRejectedError extends Error {
+  public constructor() {
+    super("rotation proof was rejected");
+  }
+}
+
 export async function downloadEncryptedStorage(
   blobKey: string
-): Promise<EncryptedPacket | null> {
+): Promise<LoadE2EEResponse | null> {
   const request: LoadE2EERequest = {
     blobKey,
   };
@@ -28,25 +56,76 @@ export async function downloadEncryptedStorage(
     return null;
   }
 
+  if (response.status === 410) {
+    throw new SyncKeyRotatedError();
+  }
+
   if (!response.ok) {
     throw new Error(await response.text());
   }
 
-  const res = (await response.json()) as LoadE2EEResponse;
-  return res.encryptedStorage as EncryptedPacket;
+  return (await response.json()) as LoadE2EEResponse;
 }
 
+export type UploadEncryptedStorageResult =
+  | { success: true; revision: number }
+  | { success: false; conflict: SaveE2EEConflictResponse };
+
+/**
+ * Saves the given encrypted storage, unless another device has saved since
+ * `knownRevision`, in which case the result contains what it saved.
+ */
 export async function uploadEncryptedStorage(
   blobKey: string,
-  encryptedStorage: EncryptedPacket
-): Promise<void> {
+  encryptedStorage: EncryptedPacket,
+  knownRevision: number,
+  rotationVerifier: string
+): Promise<UploadEncryptedStorageResult> {
   const request: SaveE2EERequest = {
     blobKey,
     encryptedBlob: JSON.stringify(encryptedStorage),
+    knownRevision,
+    rotationVerifier,
   };
 
   const url = `${appConfig.passportServer}/sync/save`;
-  await fetch(url, {
+  const response = await fetch(url, {
+    method: "POST",
+    body: JSON.stringify(request),
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+  });
+
+  if (response.status === 409) {
+    return {
+      success: false,
+      conflict: (await response.json()) as SaveE2EEConflictResponse,
+    };
+  }
+
+  if (response.status === 410) {
+    throw new SyncKeyRotatedError();
+  }
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  const res = (await response.json()) as SaveE2EEResponse;
+  return { success: true, revision: res.revision };
+}
+
+export async function downloadEncryptedStorageHistory(
+  blobKey: string
+): Promise<LoadE2EEHistoryResponse> {
+  const request: LoadE2EEHistoryRequest = {
+    blobKey,
+  };
+
+  const url = `${appConfig.passportServer}/sync/history`;
+  const response = await fetch(url, {
     method: "POST",
     body: JSON.stringify(request),
     headers: {
@@ -54,4 +133,94 @@ export async function uploadEncryptedStorage(
       Accept: "application/json",
     },
   });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return (await response.json()) as LoadE2EEHistoryResponse;
+}
+
+/**
+ * Saves the given revision from the history of the encrypted storage as its
+ * newest revision, overwriting whatever is currently saved.
+ */
+export async function restoreEncryptedStorage(
+  blobKey: string,
+  revision: number
+): Promise<RestoreE2EEResponse> {
+  const request: RestoreE2EERequest = {
+    blobKey,
+    revision,
+  };
+
+  const url = `${appConfig.passportServer}/sync/restore`;
+  const response = await fetch(url, {
+    method: "POST",
+    body: JSON.stringify(request),
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  return (await response.json()) as RestoreE2EEResponse;
+}
+
+/**
+ * Moves the encrypted storage to a new sync key, unless another device has
+ * saved since `knownRevision`, in which case the result contains what it
+ * saved. `oldEncryptionKey` is only needed for storage that has no rotation
+ * verifier, see {@link RotateE2EEKeyRequest#oldEncryptionKey}.
+ */
+export async function rotateEncryptedStorageKey(
+  oldBlobKey: string,
+  rotationProof: string,
+  newBlobKey: string,
+  newRotationVerifier: string,
+  encryptedStorage: EncryptedPacket,
+  knownRevision: number,
+  oldEncryptionKey?: string
+): Promise<UploadEncryptedStorageResult> {
+  const request: RotateE2EEKeyRequest = {
+    oldBlobKey,
+    rotationProof,
+    newBlobKey,
+    newRotationVerifier,
+    encryptedBlob: JSON.stringify(encryptedStorage),
+    knownRevision,
+    oldEncryptionKey,
+  };
+
+  const url = `${appConfig.passportServer}/sync/rotate`;
+  const response = await fetch(url, {
+    method: "POST",
+    body: JSON.stringify(request),
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+  });
+
+  if (response.status === 409) {
+    return {
+      success: false,
+      conflict: (await response.json()) as SaveE2EEConflictResponse,
+    };
+  }
+
+  if (response.status === 403) {
+    throw new RotationProofRejectedError();
+  }
+
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+
+  const res = (await response.json()) as RotateE2EEKeyResponse;
+  return { success: true, revision: res.revision };
 }
@@ -1,6 +1,31 @@
-import { IssuedPCDsRequest, IssuedPCDsResponse } from "@pcd/passport-interface";
+import {
+  IssuanceChallengeResponse,
+  IssuedPCDsRequest,
+  IssuedPCDsResponse,
+  TransferTicketRequest,
+  TransferTicketResponse,
+} from "@pcd/passport-interface";
 import { appConfig } from "../appConfig";
 
+/**
+ * Asks the server for a single-use nonce to include in the next request's
+ * signature, see `createUserProof`.
+ */
+export async function requestIssuanceChallenge(): Promise<
+  IssuanceChallengeResponse | undefined
+> {
+  try {
+    const url = `${appConfig.passportServer}/issue/challenge`;
+    const response = await fetch(url);
+    if (response.status !== 200) {
+      return undefined;
+    }
+    return (await response.json()) as IssuanceChallengeResponse;
+  } catch (e) {
+    return undefined;
+  }
+}
+
 /**
  * Given the information the server knows about the user, it is able to
  * 'issue' some pcds to the user. This function requests the set of PCDs
@@ -25,3 +50,29 @@ export async function requestIssuedPCDs(
     return undefined;
   }
 }
+
+/**
+ * Asks the server to transfer one of the user's tickets to someone else,
+ * so that it gets issued to them instead.
+ */
+export async function requestTransferTicket(
+  request: TransferTicketRequest
+): Promise<TransferTicketResponse> {
+  try {
+    const url = `${appConfig.passportServer}/issue/transfer-ticket`;
+    const response = await fetch(url, {
+      method: "POST",
+      body: JSON.stringify(request),
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+    });
+    if (response.status !== 200) {
+      return { success: false, error: { name: "ServerError" } };
+    }
+    return (await response.json()) as TransferTicketResponse;
+  } catch (e) {
+    return { success: false, error: { name: "ServerError" } };
+  }
+}
@@ -1,3 +1,5 @@
+import { ServerPublicKey } from "@pcd/passport-interface";
+
 interface AppConfig {
   // Development mode lets you bypass email auth, etc.
   devMode: boolean;
@@ -12,6 +14,10 @@ interface AppConfig {
   rollbarToken: string | undefined;
   // the environment to which the client uploads errors in rollbar
   rollbarEnvName: string | undefined;
+  // the keys the server signs tickets and check-in snapshots with. They are
+  // built into the app, rather than fetched, so that whatever could tamper
+  // with a stored snapshot can't also swap the key it is verified with
+  serverPublicKeys: ServerPublicKey[];
 }
 
 export const appConfig: AppConfig = {
@@ -21,6 +27,9 @@ export const appConfig: AppConfig = {
   isZuzalu: process.env.IS_ZUZALU === "true" ? true : false,
   rollbarToken: process.env.ROLLBAR_TOKEN,
   rollbarEnvName: process.env.ROLLBAR_ENV_NAME,
+  serverPublicKeys: process.env.SERVER_PUBLIC_KEYS_BASE64
+    ? JSON.parse(atob(process.env.SERVER_PUBLIC_KEYS_BASE64))
+    : [],
 };
 
 console.log("App Config: " + JSON.stringify(appConfig));
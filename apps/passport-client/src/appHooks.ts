@@ -1,5 +1,5 @@
 import { User } from "@pcd/passport-interface";
-import { PCDCollection } from "@pcd/pcd-collection";
+import { PCDCollection, PCDCollectionChangeType } from "@pcd/pcd-collection";
 import { PCD } from "@pcd/pcd-types";
 import { Identity } from "@semaphore-protocol/identity";
 import { useContext, useEffect, useState } from "react";
@@ -36,6 +36,48 @@ export function usePCDCollection(): PCDCollection {
   return pcds;
 }
 
+/**
+ * Returns the ids of the PCDs that were added to the collection while the
+ * calling component was mounted, for `durationMs` after they were added.
+ */
+export function useRecentlyAddedPCDIDs(durationMs: number): Set<string> {
+  const pcds = usePCDCollection();
+  const [ids, setIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    const unsubscribe = pcds.changeEmitter.listen((changes) => {
+      const added: string[] = [];
+      for (const change of changes) {
+        if (change.type === PCDCollectionChangeType.Added) {
+          added.push(change.pcd.id);
+        }
+      }
+
+      if (added.length === 0) {
+        return;
+      }
+
+      setIds((ids) => new Set([...ids, ...added]));
+      timeouts.push(
+        setTimeout(() => {
+          setIds(
+            (ids) => new Set([...ids].filter((id) => !added.includes(id)))
+          );
+        }, durationMs)
+      );
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach((timeout) => clearTimeout(timeout));
+    };
+  }, [pcds, durationMs]);
+
+  return ids;
+}
+
 export function useSelf(): User | undefined {
   return useSelector<User | undefined>((s) => s.self, []);
 }
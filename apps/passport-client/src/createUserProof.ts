@@ -0,0 +1,39 @@
+import { getChallengeMessage, ISSUANCE_STRING } from "@pcd/passport-interface";
+import { ArgumentTypeName, SerializedPCD } from "@pcd/pcd-types";
+import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
+import {
+  SemaphoreSignaturePCD,
+  SemaphoreSignaturePCDPackage
+} from "@pcd/semaphore-signature-pcd";
+import { Identity } from "@semaphore-protocol/identity";
+import { requestIssuanceChallenge } from "./api/issuedPCDs";
+
+/**
+ * Proves to the server that a request comes from the given identity, by
+ * signing the message the server asks for along with a fresh challenge from
+ * the server. Each proof is only accepted once.
+ */
+export async function createUserProof(
+  identity: Identity,
+  message = ISSUANCE_STRING
+): Promise<SerializedPCD<SemaphoreSignaturePCD>> {
+  const challenge = await requestIssuanceChallenge();
+  if (!challenge) {
+    throw new Error("Couldn't reach the server, please try again");
+  }
+
+  return SemaphoreSignaturePCDPackage.serialize(
+    await SemaphoreSignaturePCDPackage.prove({
+      identity: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await SemaphoreIdentityPCDPackage.serialize(
+          await SemaphoreIdentityPCDPackage.prove({ identity })
+        )
+      },
+      signedMessage: {
+        argumentType: ArgumentTypeName.String,
+        value: getChallengeMessage(message, challenge.nonce)
+      }
+    })
+  );
+}
@@ -1,4 +1,4 @@
-import { PCDCrypto } from "@pcd/passport-crypto";
+import { getHash, PCDCrypto } from "@pcd/passport-crypto";
 import {
   isSyncedEncryptedStorageV2,
   SyncedEncryptedStorage,
@@ -13,6 +13,10 @@ import {
 } from "@pcd/semaphore-identity-pcd";
 import { Identity } from "@semaphore-protocol/identity";
 import { createContext } from "react";
+import {
+  downloadEncryptedStorage,
+  SyncKeyRotatedError
+} from "./api/endToEndEncryptionApi";
 import { submitDeviceLogin, submitNewUser } from "./api/user";
 import { appConfig } from "./appConfig";
 import {
@@ -21,6 +25,7 @@ import {
   saveIdentity,
   savePCDs,
   saveSelf,
+  saveSyncKeyRotated,
   saveUserInvalid
 } from "./localstorage";
 import { getPackages } from "./pcdPackages";
@@ -29,6 +34,8 @@ import { sanitizeDateRanges } from "./user";
 import {
   downloadStorage,
   loadIssuedPCDs,
+  restoreStorage,
+  rotateStorageKey,
   uploadStorage
 } from "./useSyncE2EEStorage";
 
@@ -76,6 +83,9 @@ export type Action =
     }
   | { type: "add-pcds"; pcds: SerializedPCD[]; upsert?: boolean }
   | { type: "remove-pcd"; id: string }
+  | { type: "restore-sync-revision"; revision: number }
+  | { type: "rotate-sync-key" }
+  | { type: "set-rotated-sync-key"; encryptionKey: string }
   | { type: "sync" };
 
 export type StateContextState = {
@@ -119,6 +129,12 @@ export async function dispatch(
       return addPCDs(state, update, action.pcds, action.upsert);
     case "remove-pcd":
       return removePCD(state, update, action.id);
+    case "restore-sync-revision":
+      return restoreSyncRevision(update, action.revision);
+    case "rotate-sync-key":
+      return rotateSyncKey(update);
+    case "set-rotated-sync-key":
+      return setRotatedSyncKey(update, action.encryptionKey);
     case "participant-invalid":
       return userInvalid(update);
     case "sync":
@@ -309,6 +325,85 @@ async function removePCD(state: AppState, update: ZuUpdate, pcdId: string) {
   update({ pcds: state.pcds });
 }
 
+async function restoreSyncRevision(update: ZuUpdate, revision: number) {
+  try {
+    const pcds = await restoreStorage(revision);
+    update({ pcds, uploadedUploadId: await pcds.getHash() });
+    window.location.hash = "#/";
+  } catch (e) {
+    console.log(`[SYNC] failed to restore revision ${revision}`, e);
+    update({
+      error: {
+        title: "Restore failed",
+        message: "Couldn't restore your passport from its backup history.",
+        dismissToCurrentPage: true
+      }
+    });
+  }
+}
+
+async function rotateSyncKey(update: ZuUpdate) {
+  try {
+    const { encryptionKey, pcds } = await rotateStorageKey();
+    window.localStorage.removeItem("savedSyncKey");
+    update({
+      encryptionKey,
+      pcds,
+      uploadedUploadId: await pcds.getHash(),
+      modal: "save-sync"
+    });
+  } catch (e) {
+    console.log("[SYNC] failed to rotate sync key", e);
+    update({
+      error: {
+        title: "Changing sync key failed",
+        message: e.message,
+        dismissToCurrentPage: true
+      }
+    });
+  }
+}
+
+function syncKeyRotated(update: ZuUpdate) {
+  saveSyncKeyRotated(true);
+  update({
+    syncKeyRotated: true,
+    modal: "sync-key-rotated"
+  });
+}
+
+/**
+ * Switches to a sync key that was rotated on another device, and downloads
+ * the storage saved with it, merging any changes that weren't uploaded
+ * before the key was rotated.
+ */
+async function setRotatedSyncKey(update: ZuUpdate, encryptionKey: string) {
+  try {
+    if (!(await downloadEncryptedStorage(await getHash(encryptionKey)))) {
+      throw new Error("There is no backup saved with this sync key.");
+    }
+  } catch (e) {
+    update({
+      error: {
+        title: "Invalid sync key",
+        message: e.message,
+        dismissToCurrentPage: true
+      }
+    });
+    return;
+  }
+
+  saveEncryptionKey(encryptionKey);
+  saveSyncKeyRotated(false);
+  update({
+    encryptionKey,
+    syncKeyRotated: false,
+    modal: "",
+    downloadedPCDs: false,
+    uploadedUploadId: undefined
+  });
+}
+
 async function loadFromSync(
   encryptionKey: string,
   storage: SyncedEncryptedStorage,
@@ -380,20 +475,35 @@ async function sync(state: AppState, update: ZuUpdate) {
     return;
   }
 
+  if (state.syncKeyRotated) {
+    console.log("[SYNC] sync key was rotated, can't sync");
+    return;
+  }
+
   if (!state.downloadedPCDs && !state.downloadingPCDs) {
     console.log("[SYNC] sync action: download");
     update({
       downloadingPCDs: true
     });
 
-    const pcds = await downloadStorage();
+    let downloaded: Awaited<ReturnType<typeof downloadStorage>>;
+    try {
+      downloaded = await downloadStorage();
+    } catch (e) {
+      update({ downloadingPCDs: false });
+      if (e instanceof SyncKeyRotatedError) {
+        syncKeyRotated(update);
+        return;
+      }
+      throw e;
+    }
 
-    if (pcds != null) {
+    if (downloaded != null) {
       update({
         downloadedPCDs: true,
         downloadingPCDs: false,
-        pcds: pcds,
-        uploadedUploadId: await pcds.getHash()
+        pcds: downloaded.pcds,
+        uploadedUploadId: downloaded.downloadedHash
       });
     } else {
       console.log(`[SYNC] skipping download`);
@@ -421,8 +531,20 @@ async function sync(state: AppState, update: ZuUpdate) {
 
     try {
       const response = await loadIssuedPCDs(state);
-      const deserialized = await state.pcds.deserializeAll(response.pcds);
-      state.pcds.replaceFolderContents(response.folder, deserialized);
+      const folders = await Promise.all(
+        (response?.folders ?? []).map(async ({ folder, pcds }) => ({
+          folder,
+          pcds: await state.pcds.deserializeAll(pcds)
+        }))
+      );
+      state.pcds.batch((pcds) => {
+        for (const { folder, pcds: deserialized } of folders) {
+          pcds.replaceFolderContents(folder, deserialized);
+          pcds.createFolder(folder, {
+            issuedBy: appConfig.passportServer
+          });
+        }
+      });
       await savePCDs(state.pcds);
     } catch (e) {
       console.log(`[SYNC] failed to load issued PCDs, skipping this step`, e);
@@ -458,7 +580,27 @@ async function sync(state: AppState, update: ZuUpdate) {
   update({
     uploadingUploadId: uploadId
   });
-  await uploadStorage();
+  let merged: PCDCollection | undefined;
+  try {
+    merged = await uploadStorage();
+  } catch (e) {
+    update({ uploadingUploadId: undefined });
+    if (e instanceof SyncKeyRotatedError) {
+      syncKeyRotated(update);
+      return;
+    }
+    throw e;
+  }
+
+  if (merged) {
+    update({
+      uploadingUploadId: undefined,
+      uploadedUploadId: await merged.getHash(),
+      pcds: merged
+    });
+    return;
+  }
+
   update({
     uploadingUploadId: undefined,
     uploadedUploadId: uploadId
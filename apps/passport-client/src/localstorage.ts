@@ -1,10 +1,20 @@
-import { User } from "@pcd/passport-interface";
+import {
+  CheckInSnapshotResponse,
+  OfflineCheckIn,
+  TicketError,
+  User
+} from "@pcd/passport-interface";
 import { PCDCollection } from "@pcd/pcd-collection";
 import { Identity } from "@semaphore-protocol/identity";
 import { getPackages } from "./pcdPackages";
 
 const OLD_PCDS_KEY = "pcds"; // deprecated
 const COLLECTION_KEY = "pcd_collection";
+const SYNCED_REVISION_KEY = "synced_revision";
+const SYNCED_COLLECTION_KEY = "synced_pcd_collection";
+const CHECKIN_SNAPSHOT_KEY = "checkin_snapshot";
+const OFFLINE_CHECKINS_KEY = "offline_checkins";
+const OFFLINE_CHECKIN_CONFLICTS_KEY = "offline_checkin_conflicts";
 
 export async function savePCDs(pcds: PCDCollection): Promise<void> {
   const serialized = await pcds.serializeCollection();
@@ -27,6 +37,44 @@ export async function loadPCDs(): Promise<PCDCollection> {
   );
 }
 
+/**
+ * The revision of the e2ee storage that this passport last downloaded or
+ * uploaded, along with the PCDs it contained. Local changes are merged
+ * against these PCDs when another device has uploaded in the meantime.
+ */
+export interface SyncedState {
+  revision: number;
+  pcds: PCDCollection;
+}
+
+export async function saveSyncedState(state: SyncedState): Promise<void> {
+  window.localStorage[SYNCED_REVISION_KEY] = state.revision.toString();
+  window.localStorage[SYNCED_COLLECTION_KEY] =
+    await state.pcds.serializeCollection();
+}
+
+export async function loadSyncedState(): Promise<SyncedState | undefined> {
+  const revision = window.localStorage[SYNCED_REVISION_KEY];
+  const serializedCollection = window.localStorage[SYNCED_COLLECTION_KEY];
+
+  if (revision == null || serializedCollection == null) {
+    return undefined;
+  }
+
+  return {
+    revision: parseInt(revision, 10),
+    pcds: await PCDCollection.deserialize(
+      await getPackages(),
+      serializedCollection
+    )
+  };
+}
+
+export function clearSyncedState(): void {
+  window.localStorage.removeItem(SYNCED_REVISION_KEY);
+  window.localStorage.removeItem(SYNCED_COLLECTION_KEY);
+}
+
 export function saveEncryptionKey(key: string): void {
   window.localStorage["encryption_key"] = key;
 }
@@ -62,3 +110,69 @@ export function saveUserInvalid(userInvalid: boolean) {
 export function loadUserInvalid(): boolean {
   return JSON.parse(window.localStorage["participantInvalid"] ?? "false");
 }
+
+export function saveSyncKeyRotated(syncKeyRotated: boolean) {
+  window.localStorage["syncKeyRotated"] = syncKeyRotated;
+}
+
+export function loadSyncKeyRotated(): boolean {
+  return JSON.parse(window.localStorage["syncKeyRotated"] ?? "false");
+}
+
+/**
+ * A signed snapshot of the tickets that this device can check in while
+ * offline.
+ */
+export type StoredCheckInSnapshot = Extract<
+  CheckInSnapshotResponse,
+  { success: true }
+>;
+
+export function saveCheckInSnapshot(snapshot: StoredCheckInSnapshot): void {
+  window.localStorage[CHECKIN_SNAPSHOT_KEY] = JSON.stringify(snapshot);
+}
+
+export function loadCheckInSnapshot(): StoredCheckInSnapshot | undefined {
+  const snapshot = window.localStorage[CHECKIN_SNAPSHOT_KEY];
+  if (!snapshot) {
+    return undefined;
+  }
+  return JSON.parse(snapshot);
+}
+
+/**
+ * A check-in which happened on this device while offline, and which hasn't
+ * been sent to the server yet.
+ */
+export interface QueuedCheckIn extends OfflineCheckIn {
+  attendeeName?: string;
+  eventName?: string;
+}
+
+export function saveOfflineCheckIns(checkIns: QueuedCheckIn[]): void {
+  window.localStorage[OFFLINE_CHECKINS_KEY] = JSON.stringify(checkIns);
+}
+
+export function loadOfflineCheckIns(): QueuedCheckIn[] {
+  return JSON.parse(window.localStorage[OFFLINE_CHECKINS_KEY] ?? "[]");
+}
+
+/**
+ * An offline check-in which the server refused, e.g. because someone else
+ * checked the same ticket in first.
+ */
+export interface OfflineCheckInConflict {
+  checkIn: QueuedCheckIn;
+  error: TicketError;
+}
+
+export function saveOfflineCheckInConflicts(
+  conflicts: OfflineCheckInConflict[]
+): void {
+  window.localStorage[OFFLINE_CHECKIN_CONFLICTS_KEY] =
+    JSON.stringify(conflicts);
+}
+
+export function loadOfflineCheckInConflicts(): OfflineCheckInConflict[] {
+  return JSON.parse(window.localStorage[OFFLINE_CHECKIN_CONFLICTS_KEY] ?? "[]");
+}
@@ -0,0 +1,246 @@
+import { CheckInSnapshot, CheckTicketResponse } from "@pcd/passport-interface";
+import { SerializedPCD } from "@pcd/pcd-types";
+import {
+  getPublicKey,
+  getTicketData,
+  RSATicketPCD,
+  RSATicketPCDPackage
+} from "@pcd/rsa-ticket-pcd";
+import { SemaphoreSignaturePCD } from "@pcd/semaphore-signature-pcd";
+import { Identity } from "@semaphore-protocol/identity";
+import NodeRSA from "node-rsa";
+import {
+  requestCheckInSnapshot,
+  requestReconcileCheckIns
+} from "./api/checkinApi";
+import { appConfig } from "./appConfig";
+import { createUserProof } from "./createUserProof";
+import {
+  loadCheckInSnapshot,
+  loadOfflineCheckInConflicts,
+  loadOfflineCheckIns,
+  OfflineCheckInConflict,
+  saveCheckInSnapshot,
+  saveOfflineCheckInConflicts,
+  saveOfflineCheckIns
+} from "./localstorage";
+
+/**
+ * Proves to the server that the checker is who they say they are.
+ */
+export async function createCheckerProof(
+  checkerIdentity: Identity
+): Promise<SerializedPCD<SemaphoreSignaturePCD>> {
+  return createUserProof(checkerIdentity);
+}
+
+/**
+ * Downloads a signed snapshot of the tickets of every event the checker can
+ * check tickets in for, and stores it so that those tickets can be verified
+ * while offline. The snapshot and the tickets are verified against the
+ * server keys built into the app.
+ */
+export async function downloadCheckInSnapshot(
+  checkerIdentity: Identity
+): Promise<CheckInSnapshot> {
+  if (appConfig.serverPublicKeys.length === 0) {
+    throw new Error("This version of the app can't check tickets in offline");
+  }
+
+  const response = await requestCheckInSnapshot({
+    checkerProof: await createCheckerProof(checkerIdentity)
+  });
+  if (response.success === false) {
+    throw new Error(
+      response.error.name === "NotSuperuser"
+        ? "You are not allowed to check in tickets for any event"
+        : "Couldn't download tickets, please try again"
+    );
+  }
+
+  const snapshot = verifySnapshot(
+    response.snapshot,
+    response.signature,
+    response.keyId
+  );
+  if (!snapshot) {
+    throw new Error("The downloaded tickets weren't signed by the server");
+  }
+
+  saveCheckInSnapshot(response);
+  return snapshot;
+}
+
+/**
+ * The stored snapshot, or undefined if there is none or if its signature
+ * doesn't check out.
+ */
+export function getCheckInSnapshot(): CheckInSnapshot | undefined {
+  const stored = loadCheckInSnapshot();
+  if (!stored) {
+    return undefined;
+  }
+  return verifySnapshot(stored.snapshot, stored.signature, stored.keyId);
+}
+
+function verifySnapshot(
+  snapshot: string,
+  signature: string,
+  keyId: string
+): CheckInSnapshot | undefined {
+  const publicKey = appConfig.serverPublicKeys.find((k) => k.keyId === keyId);
+  if (!publicKey) {
+    return undefined;
+  }
+
+  try {
+    const key = new NodeRSA(publicKey.publicKey, "public");
+    if (
+      !key.verify(Buffer.from(snapshot, "utf8"), signature, "buffer", "base64")
+    ) {
+      return undefined;
+    }
+    return JSON.parse(snapshot) as CheckInSnapshot;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Checks whether a ticket can be checked in, using only the stored snapshot
+ * and the check-ins made on this device since it was downloaded.
+ */
+export async function checkTicketOffline(
+  ticket: RSATicketPCD
+): Promise<CheckTicketResponse> {
+  const snapshot = getCheckInSnapshot();
+  if (!snapshot) {
+    return { success: false, error: { name: "NetworkError" } };
+  }
+
+  const now = new Date();
+  const serverPublicKeys = appConfig.serverPublicKeys
+    .filter((k) => !k.retiredAt || new Date(k.retiredAt) > now)
+    .map((k) => new NodeRSA(k.publicKey, "public").exportKey("public"));
+  const ticketPublicKey = getPublicKey(ticket)?.exportKey("public");
+  if (
+    !ticketPublicKey ||
+    !serverPublicKeys.includes(ticketPublicKey) ||
+    !(await RSATicketPCDPackage.verify(ticket))
+  ) {
+    return { success: false, error: { name: "InvalidSignature" } };
+  }
+
+  const ticketData = getTicketData(ticket);
+  if (!snapshot.eventConfigIds.includes(ticketData.eventConfigId)) {
+    return { success: false, error: { name: "NotSuperuser" } };
+  }
+
+  const snapshotTicket = snapshot.tickets.find(
+    (t) => t.ticketId === ticketData.ticketId
+  );
+  if (!snapshotTicket) {
+    return { success: false, error: { name: "InvalidTicket" } };
+  }
+
+  if (snapshotTicket.isRevoked) {
+    return {
+      success: false,
+      error: { name: "TicketRevoked", revokedTimestamp: snapshot.timestamp }
+    };
+  }
+
+  // once a ticket has been transferred, only the ticket issued to whoever
+  // it was last transferred to can be used
+  if (
+    snapshotTicket.ownerEmail &&
+    ticketData.attendeeEmail !== snapshotTicket.ownerEmail
+  ) {
+    return { success: false, error: { name: "TicketTransferred" } };
+  }
+
+  if (snapshotTicket.isConsumed) {
+    return {
+      success: false,
+      error: {
+        name: "AlreadyCheckedIn",
+        checker: snapshotTicket.checker,
+        checkinTimestamp: snapshotTicket.checkinTimestamp
+      }
+    };
+  }
+
+  const queued = loadOfflineCheckIns().find(
+    (c) => c.ticketId === ticketData.ticketId
+  );
+  if (queued) {
+    return {
+      success: false,
+      error: {
+        name: "AlreadyCheckedIn",
+        checker: "this device (offline)",
+        checkinTimestamp: queued.checkinTimestamp
+      }
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Records a check-in on this device, to be sent to the server by
+ * {@link reconcileOfflineCheckIns} once it's reachable again.
+ */
+export function queueOfflineCheckIn(ticket: RSATicketPCD): void {
+  const ticketData = getTicketData(ticket);
+  saveOfflineCheckIns([
+    ...loadOfflineCheckIns(),
+    {
+      ticketId: ticketData.ticketId,
+      checkinTimestamp: new Date().toISOString(),
+      attendeeName: ticketData.attendeeName,
+      eventName: ticketData.eventName
+    }
+  ]);
+}
+
+/**
+ * Sends the queued offline check-ins to the server. Check-ins which the
+ * server refused, such as tickets that were also checked in elsewhere, are
+ * kept as conflicts for the checker to look at. Returns the new conflicts.
+ */
+export async function reconcileOfflineCheckIns(
+  checkerIdentity: Identity
+): Promise<OfflineCheckInConflict[]> {
+  const checkIns = loadOfflineCheckIns();
+  if (checkIns.length === 0) {
+    return [];
+  }
+
+  const response = await requestReconcileCheckIns({
+    checkerProof: await createCheckerProof(checkerIdentity),
+    checkIns: checkIns.map(({ ticketId, checkinTimestamp }) => ({
+      ticketId,
+      checkinTimestamp
+    }))
+  });
+  if (!response) {
+    throw new Error("Couldn't reach the server, please try again");
+  }
+
+  const conflicts: OfflineCheckInConflict[] = [];
+  response.results.forEach((result, i) => {
+    if (result.success === false) {
+      conflicts.push({ checkIn: checkIns[i], error: result.error });
+    }
+  });
+
+  // check-ins queued while the request was in flight are kept for next time
+  const sent = new Set(checkIns.map((c) => c.ticketId));
+  saveOfflineCheckIns(
+    loadOfflineCheckIns().filter((c) => !sent.has(c.ticketId))
+  );
+  saveOfflineCheckInConflicts([...loadOfflineCheckInConflicts(), ...conflicts]);
+
+  return conflicts;
+}
@@ -1,3 +1,4 @@
+import { EmailPCDPackage } from "@pcd/email-pcd";
 import { EthereumGroupPCDPackage } from "@pcd/ethereum-group-pcd";
 import { EthereumOwnershipPCDPackage } from "@pcd/ethereum-ownership-pcd";
 import { HaLoNoncePCDPackage } from "@pcd/halo-nonce-pcd";
@@ -9,6 +10,7 @@ import { SemaphoreGroupPCDPackage } from "@pcd/semaphore-group-pcd";
 import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
 import { SemaphoreSignaturePCDPackage } from "@pcd/semaphore-signature-pcd";
 import { WebAuthnPCDPackage } from "@pcd/webauthn-pcd";
+import { EdDSATicketPCDPackage, ZKTicketPCDPackage } from "@pcd/zk-ticket-pcd";
 import { JubJubSignaturePCDPackage } from "jubjub-signature-pcd";
 import { appConfig } from "./appConfig";
 import { makeEncodedVerifyLink } from "./qr";
@@ -71,6 +73,14 @@ async function loadPackages(): Promise<PCDPackage[]> {
     makeEncodedVerifyLink: makeEncodedVerifyLink,
   });
 
+  await ZKTicketPCDPackage.init({
+    wasmFilePath: "/zk-ticket-artifacts/zk-ticket.wasm",
+    zkeyFilePath: "/zk-ticket-artifacts/zk-ticket.zkey",
+    verificationKey: await loadZKTicketVerificationKey(
+      "/zk-ticket-artifacts/zk-ticket.vkey.json"
+    ),
+  });
+
   return [
     SemaphoreGroupPCDPackage,
     SemaphoreIdentityPCDPackage,
@@ -83,5 +93,18 @@ async function loadPackages(): Promise<PCDPackage[]> {
     HaLoNoncePCDPackage,
     RSAPCDPackage,
     RSATicketPCDPackage,
+    EdDSATicketPCDPackage,
+    ZKTicketPCDPackage,
+    EmailPCDPackage,
   ];
 }
+
+async function loadZKTicketVerificationKey(url: string): Promise<object> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(
+      `failed to load zk ticket verification key: ${res.status} ${res.statusText}`
+    );
+  }
+  return await res.json();
+}
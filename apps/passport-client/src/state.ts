@@ -19,7 +19,13 @@ export interface AppState {
 
   // View state
   pendingAction?: PendingAction;
-  modal: "info" | "settings" | "save-sync" | "invalid-participant" | "";
+  modal:
+    | "info"
+    | "settings"
+    | "save-sync"
+    | "invalid-participant"
+    | "sync-key-rotated"
+    | "";
 
   // User metadata.
   self?: User;
@@ -30,6 +36,10 @@ export interface AppState {
   // If set, the user has been invalidated server-side
   userInvalid?: boolean;
 
+  // If set, the sync key has been rotated on another device, and this
+  // passport can't sync until it is given the new one.
+  syncKeyRotated?: boolean;
+
   uploadedUploadId?: string;
   uploadingUploadId?: string;
   downloadedPCDs?: boolean;
@@ -1,47 +1,59 @@
 import {
+  EncryptedPacket,
   getHash,
+  getRotationProof,
   passportDecrypt,
-  passportEncrypt
+  passportEncrypt,
+  PCDCrypto
 } from "@pcd/passport-crypto";
 import {
-  ISSUANCE_STRING,
   IssuedPCDsRequest,
   IssuedPCDsResponse,
   isSyncedEncryptedStorageV2,
   SyncedEncryptedStorage,
-  SyncedEncryptedStorageV2
+  SyncedEncryptedStorageV2,
+  User
 } from "@pcd/passport-interface";
-import { PCDCollection } from "@pcd/pcd-collection";
-import { ArgumentTypeName } from "@pcd/pcd-types";
-import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
-import { SemaphoreSignaturePCDPackage } from "@pcd/semaphore-signature-pcd";
+import { mergePCDCollections, PCDCollection } from "@pcd/pcd-collection";
 import { useContext, useEffect, useState } from "react";
 import {
   downloadEncryptedStorage,
+  restoreEncryptedStorage,
+  rotateEncryptedStorageKey,
+  RotationProofRejectedError,
+  SyncKeyRotatedError,
   uploadEncryptedStorage
 } from "./api/endToEndEncryptionApi";
 import { requestIssuedPCDs } from "./api/issuedPCDs";
 import { usePCDCollectionWithHash, useUploadedId } from "./appHooks";
+import { createUserProof } from "./createUserProof";
 import { StateContext } from "./dispatch";
 import {
+  clearSyncedState,
   loadEncryptionKey,
   loadPCDs,
   loadSelf,
-  savePCDs
+  loadSyncedState,
+  saveEncryptionKey,
+  savePCDs,
+  saveSyncedState
 } from "./localstorage";
 import { getPackages } from "./pcdPackages";
 import { AppState } from "./state";
 import { useOnStateChange } from "./subscribe";
 
 /**
- * Uploads the state of this passport which is contained in localstorage
- * to the server, end to end encrypted.
+ * How many times {@link uploadStorage} merges in changes that another device
+ * uploaded concurrently and tries again before giving up.
  */
-export async function uploadStorage(): Promise<void> {
-  const user = loadSelf();
-  const pcds = await loadPCDs();
-  const encryptionKey = await loadEncryptionKey();
-  const encryptedStorage = await passportEncrypt(
+const MAX_UPLOAD_ATTEMPTS = 3;
+
+async function encryptStorage(
+  pcds: PCDCollection,
+  user: User | undefined,
+  encryptionKey: string
+): Promise<EncryptedPacket> {
+  return passportEncrypt(
     JSON.stringify({
       pcds: await pcds.serializeCollection(),
       self: user,
@@ -49,22 +61,165 @@ export async function uploadStorage(): Promise<void> {
     } satisfies SyncedEncryptedStorageV2),
     encryptionKey
   );
+}
+
+async function decryptStorage(
+  storage: EncryptedPacket,
+  encryptionKey: string
+): Promise<PCDCollection> {
+  const decrypted = await passportDecrypt(storage, encryptionKey);
+  const decryptedPacket = JSON.parse(decrypted) as SyncedEncryptedStorage;
+
+  if (isSyncedEncryptedStorageV2(decryptedPacket)) {
+    return PCDCollection.deserialize(await getPackages(), decryptedPacket.pcds);
+  }
+
+  const pcds = new PCDCollection(await getPackages());
+  await pcds.deserializeAllAndAdd(decryptedPacket.pcds);
+  return pcds;
+}
 
+/**
+ * The hash of the encryption key's rotation proof, which the server saves so
+ * that only someone who knows the key can rotate it.
+ */
+async function getRotationVerifier(encryptionKey: string): Promise<string> {
+  return getHash(await getRotationProof(encryptionKey));
+}
+
+/**
+ * Re-encrypts the e2ee storage with a newly generated encryption key, and
+ * moves it to the new key's sync key on the server. After that, other
+ * devices can't sync until they are given the new key. Local changes are
+ * uploaded first, so that none of them are lost.
+ */
+export async function rotateStorageKey(): Promise<{
+  encryptionKey: string;
+  pcds: PCDCollection;
+}> {
+  await uploadStorage();
+
+  const synced = await loadSyncedState();
+  const pcds = await loadPCDs();
+  const oldEncryptionKey = await loadEncryptionKey();
+  const crypto = await PCDCrypto.newInstance();
+  const encryptionKey = await crypto.generateRandomKey();
+
+  const encryptedStorage = await encryptStorage(
+    pcds,
+    loadSelf(),
+    encryptionKey
+  );
+  const rotate = async (revealOldEncryptionKey: boolean) =>
+    rotateEncryptedStorageKey(
+      await getHash(oldEncryptionKey),
+      await getRotationProof(oldEncryptionKey),
+      await getHash(encryptionKey),
+      await getRotationVerifier(encryptionKey),
+      encryptedStorage,
+      synced?.revision ?? 0,
+      revealOldEncryptionKey ? oldEncryptionKey : undefined
+    );
+
+  let result: Awaited<ReturnType<typeof rotate>>;
+  try {
+    result = await rotate(false);
+  } catch (e) {
+    if (!(e instanceof RotationProofRejectedError)) {
+      throw e;
+    }
+    // storage that was first saved before the server kept rotation
+    // verifiers can only be rotated by revealing the old key
+    result = await rotate(true);
+  }
+
+  if (!result.success) {
+    throw new Error(
+      "Your passport was changed on another device while changing its " +
+        "sync key. Please try again."
+    );
+  }
+
+  console.log("[SYNC] rotated e2ee storage key");
+  saveEncryptionKey(encryptionKey);
+  await saveSyncedState({ revision: result.revision, pcds });
+  return { encryptionKey, pcds };
+}
+
+/**
+ * Uploads the state of this passport which is contained in localstorage
+ * to the server, end to end encrypted. If another device has uploaded
+ * since this passport last synced, its changes are merged with the local
+ * ones before uploading again. In that case, the merged PCDs are saved to
+ * localstorage and returned, so that they can replace the in-memory ones.
+ */
+export async function uploadStorage(): Promise<PCDCollection | undefined> {
+  const user = loadSelf();
+  const encryptionKey = await loadEncryptionKey();
   const blobKey = await getHash(encryptionKey);
-  return uploadEncryptedStorage(blobKey, encryptedStorage)
-    .then(() => {
-      console.log("[SYNC] uploaded e2ee storage");
-    })
-    .catch((e) => {
-      console.log("[SYNC] failed to upload e2ee storage", e);
-    });
+  const rotationVerifier = await getRotationVerifier(encryptionKey);
+  let pcds = await loadPCDs();
+  let merged = false;
+
+  try {
+    for (let attempt = 0; attempt < MAX_UPLOAD_ATTEMPTS; attempt++) {
+      const synced = await loadSyncedState();
+      const result = await uploadEncryptedStorage(
+        blobKey,
+        await encryptStorage(pcds, user, encryptionKey),
+        synced?.revision ?? 0,
+        rotationVerifier
+      );
+
+      if (result.success === true) {
+        await saveSyncedState({ revision: result.revision, pcds });
+        console.log(`[SYNC] uploaded e2ee storage revision ${result.revision}`);
+        return merged ? pcds : undefined;
+      }
+
+      const { conflict } = result;
+      console.log(
+        `[SYNC] e2ee storage is at revision ${conflict.revision}, merging`
+      );
+
+      if (!conflict.encryptedStorage) {
+        clearSyncedState();
+        continue;
+      }
+
+      const remote = await decryptStorage(
+        conflict.encryptedStorage,
+        encryptionKey
+      );
+      pcds = await mergePCDCollections(synced?.pcds, pcds, remote);
+      merged = true;
+      await savePCDs(pcds);
+      await saveSyncedState({ revision: conflict.revision, pcds: remote });
+    }
+
+    console.log("[SYNC] gave up uploading e2ee storage after conflicts");
+  } catch (e) {
+    if (e instanceof SyncKeyRotatedError) {
+      throw e;
+    }
+    console.log("[SYNC] failed to upload e2ee storage", e);
+  }
+
+  return merged ? pcds : undefined;
 }
 
 /**
  * Given the encryption key in local storage, downloads the e2ee
- * encrypted storage from the server.
+ * encrypted storage from the server. If this passport has synced before,
+ * any changes made to it since are merged with the downloaded PCDs.
+ *
+ * Returns the resulting PCDs, along with the hash of the downloaded ones,
+ * which tells whether there are local changes left to upload.
  */
-export async function downloadStorage(): Promise<PCDCollection | null> {
+export async function downloadStorage(): Promise<{
+  pcds: PCDCollection;
+  downloadedHash: string;
+} | null> {
   console.log("[SYNC] downloading e2ee storage");
   const encryptionKey = await loadEncryptionKey();
   const blobHash = await getHash(encryptionKey);
@@ -74,51 +229,51 @@ export async function downloadStorage(): Promise<PCDCollection | null> {
     return null;
   }
 
-  const decrypted = await passportDecrypt(storage, encryptionKey);
-
   try {
-    const decryptedPacket = JSON.parse(decrypted) as SyncedEncryptedStorage;
-    let pcds: PCDCollection;
-
-    if (isSyncedEncryptedStorageV2(decryptedPacket)) {
-      pcds = await PCDCollection.deserialize(
-        await getPackages(),
-        decryptedPacket.pcds
-      );
-    } else {
-      pcds = new PCDCollection(await getPackages());
-      await pcds.deserializeAllAndAdd(decryptedPacket.pcds);
-    }
+    const remote = await decryptStorage(
+      storage.encryptedStorage,
+      encryptionKey
+    );
+    const synced = await loadSyncedState();
+    const pcds = synced
+      ? await mergePCDCollections(synced.pcds, await loadPCDs(), remote)
+      : remote;
 
     await savePCDs(pcds);
-    return pcds;
+    await saveSyncedState({ revision: storage.revision, pcds: remote });
+    return { pcds, downloadedHash: await remote.getHash() };
   } catch (e) {
     console.log("[SYNC] uploaded storage is corrupted - ignoring it");
     return null;
   }
 }
 
+/**
+ * Rolls the e2ee storage back to an earlier revision, and replaces the PCDs
+ * in localstorage with the ones from that revision.
+ */
+export async function restoreStorage(revision: number): Promise<PCDCollection> {
+  console.log(`[SYNC] restoring e2ee storage revision ${revision}`);
+  const encryptionKey = await loadEncryptionKey();
+  const blobHash = await getHash(encryptionKey);
+  const restored = await restoreEncryptedStorage(blobHash, revision);
+  const pcds = await decryptStorage(restored.encryptedStorage, encryptionKey);
+
+  await savePCDs(pcds);
+  await saveSyncedState({ revision: restored.revision, pcds });
+  return pcds;
+}
+
 export async function loadIssuedPCDs(
   state: AppState
 ): Promise<IssuedPCDsResponse | undefined> {
-  const request: IssuedPCDsRequest = {
-    userProof: await SemaphoreSignaturePCDPackage.serialize(
-      await SemaphoreSignaturePCDPackage.prove({
-        identity: {
-          argumentType: ArgumentTypeName.PCD,
-          value: await SemaphoreIdentityPCDPackage.serialize(
-            await SemaphoreIdentityPCDPackage.prove({
-              identity: state.identity
-            })
-          )
-        },
-        signedMessage: {
-          argumentType: ArgumentTypeName.String,
-          value: ISSUANCE_STRING
-        }
-      })
-    )
-  };
+  let request: IssuedPCDsRequest;
+  try {
+    request = { userProof: await createUserProof(state.identity) };
+  } catch (e) {
+    console.log("[ISSUED PCDS] unable to get an issuance challenge", e);
+    return undefined;
+  }
 
   const issuedPcdsResponse = await requestIssuedPCDs(request);
 
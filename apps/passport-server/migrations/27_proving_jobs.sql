@@ -0,0 +1,22 @@
+-- Server-side proving requests. Each row is a single `ProveRequest`, keyed
+-- by `hashProveRequest`, so that identical requests are only proven once and
+-- so that the queue and its results survive a server restart.
+create table proving_jobs (
+  hash VARCHAR NOT NULL PRIMARY KEY,
+  pcd_type VARCHAR NOT NULL,
+  -- JSON.stringify(ProveRequest)
+  request TEXT NOT NULL,
+  -- one of the values of `PendingPCDStatus`
+  status VARCHAR NOT NULL,
+  -- JSON.stringify(SerializedPCD), set once status = 'complete'
+  serialized_pcd TEXT,
+  -- set once status = 'error'
+  error TEXT,
+  -- how many times a worker has picked up this job
+  attempts INTEGER NOT NULL DEFAULT 0,
+  time_created TIMESTAMP NOT NULL DEFAULT NOW(),
+  time_started TIMESTAMP,
+  time_completed TIMESTAMP
+);
+
+create index proving_jobs_status_idx on proving_jobs (status, time_created);
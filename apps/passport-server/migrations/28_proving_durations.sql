@@ -0,0 +1,11 @@
+-- How long each successful server-side proof took, used to estimate when
+-- queued and in-progress proofs will complete. Kept separately from
+-- `proving_jobs`, as finished jobs are deleted after a while.
+create table proving_durations (
+  id SERIAL PRIMARY KEY,
+  pcd_type VARCHAR NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  time_created TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+create index proving_durations_pcd_type_idx on proving_durations (pcd_type, id);
@@ -0,0 +1,4 @@
+-- Every save of a user's end to end encrypted storage increments its
+-- revision, so that clients can detect when another device has saved in
+-- the meantime instead of silently overwriting its changes.
+alter table e2ee add column revision INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,13 @@
+-- The most recent revisions of each user's end to end encrypted storage,
+-- so that a user can roll back to one of them if their storage is
+-- overwritten with bad data.
+create table e2ee_history (
+  blob_key VARCHAR NOT NULL,
+  revision INTEGER NOT NULL,
+  encrypted_blob VARCHAR NOT NULL,
+  time_created TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (blob_key, revision)
+);
+
+insert into e2ee_history (blob_key, revision, encrypted_blob)
+select blob_key, revision, encrypted_blob from e2ee;
@@ -0,0 +1,7 @@
+-- Sync keys whose storage has been moved to a new sync key. Requests for
+-- these keys are rejected, so that devices which still use an old key find
+-- out that it was rotated, rather than recreating its storage.
+create table e2ee_rotated_keys (
+  blob_key VARCHAR PRIMARY KEY,
+  time_rotated TIMESTAMP NOT NULL DEFAULT NOW()
+);
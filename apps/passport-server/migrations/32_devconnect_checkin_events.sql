@@ -0,0 +1,23 @@
+-- Append-only log of everything that happened at the door for each
+-- Devconnect ticket. `devconnect_pretix_tickets.is_consumed`, `checker` and
+-- `checkin_timestamp` reflect the latest check-in that hasn't been undone.
+create table devconnect_checkin_events (
+  id SERIAL PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES devconnect_pretix_tickets(id),
+  -- one of 'check-in', 'undo' or 're-entry'
+  event_type VARCHAR NOT NULL,
+  -- email address of the superuser who recorded the event
+  checker VARCHAR NOT NULL,
+  -- why a check-in was undone
+  reason VARCHAR,
+  time_created TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+create index devconnect_checkin_events_ticket_id
+on devconnect_checkin_events (ticket_id);
+
+-- tickets checked in before this table existed
+insert into devconnect_checkin_events (ticket_id, event_type, checker, time_created)
+select id, 'check-in', coalesce(checker, ''), coalesce(checkin_timestamp, now())
+from devconnect_pretix_tickets
+where is_consumed = TRUE;
@@ -0,0 +1,9 @@
+-- When tickets of each item can be used, synced from Pretix. See
+-- `ITicketValidity` in @pcd/rsa-ticket-pcd.
+alter table devconnect_pretix_items_info
+-- array of { from?, to? } ISO 8601 timestamps, empty if valid at any time
+add column valid_date_ranges JSONB NOT NULL DEFAULT '[]',
+-- null if tickets can only be used to enter once
+add column max_entries_per_day INTEGER,
+-- array of { start, end } "HH:MM" UTC times of day, empty if valid all day
+add column entry_windows JSONB NOT NULL DEFAULT '[]';
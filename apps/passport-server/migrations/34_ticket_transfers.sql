@@ -0,0 +1,20 @@
+-- how many times each ticket of an event can be transferred to someone
+-- else, 0 meaning that its tickets can't be transferred
+alter table pretix_events_config
+add column max_ticket_transfers INTEGER NOT NULL DEFAULT 0;
+
+-- email address of whoever the ticket was last transferred to, which
+-- takes precedence over the email address on the Pretix order
+alter table devconnect_pretix_tickets
+add column owner_email_override VARCHAR;
+
+create table devconnect_ticket_transfers (
+  id SERIAL PRIMARY KEY,
+  ticket_id UUID NOT NULL REFERENCES devconnect_pretix_tickets(id),
+  from_email VARCHAR NOT NULL,
+  to_email VARCHAR NOT NULL,
+  time_created TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+create index devconnect_ticket_transfers_ticket_id
+on devconnect_ticket_transfers (ticket_id);
@@ -0,0 +1,9 @@
+-- nonces handed out by /issue/challenge, which users sign to prove who they
+-- are. each of them can only be used once, before it expires
+create table issuance_challenges (
+  nonce VARCHAR PRIMARY KEY,
+  expires_at TIMESTAMP NOT NULL
+);
+
+create index issuance_challenges_expires_at
+on issuance_challenges (expires_at);
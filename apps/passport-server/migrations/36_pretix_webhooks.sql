@@ -0,0 +1,4 @@
+-- secret that Pretix includes in the URL of the organizer's webhook, see
+-- /pretix/webhook. organizers without one can't use the webhook
+alter table pretix_organizers_config
+add column webhook_secret VARCHAR;
@@ -0,0 +1,15 @@
+-- where the last sync of each Devconnect event left off, so that the next
+-- sync only has to fetch the orders that were modified since then
+create table devconnect_pretix_sync_cursors (
+  pretix_events_config_id UUID PRIMARY KEY REFERENCES pretix_events_config(id),
+  -- the latest last_modified of any order fetched so far, null if the
+  -- event had no orders
+  orders_modified_since TIMESTAMP,
+  -- when every order of the event was last fetched. orders deleted on
+  -- Pretix are only noticed when every order is fetched
+  last_full_sync TIMESTAMP NOT NULL,
+  -- the event's active items during the last sync. orders don't have to
+  -- change for an item becoming active to add tickets, so changing them
+  -- requires fetching every order
+  active_item_ids VARCHAR[] NOT NULL
+);
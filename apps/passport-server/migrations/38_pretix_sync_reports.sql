@@ -0,0 +1,9 @@
+-- the problems with each Devconnect event's setup on Pretix that were found
+-- by its last sync, so that its superusers can see why it isn't syncing.
+-- see /issue/sync-report
+create table devconnect_pretix_sync_reports (
+  pretix_events_config_id UUID PRIMARY KEY REFERENCES pretix_events_config(id),
+  -- human-readable descriptions of the problems, empty if there are none
+  problems VARCHAR[] NOT NULL,
+  time_checked TIMESTAMP NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,8 @@
+-- organizers and events can be deactivated through the admin API, see
+-- /admin/pretix. inactive ones are no longer synced, but their tickets are
+-- kept as they were at the last sync
+alter table pretix_organizers_config
+add column is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+alter table pretix_events_config
+add column is_active BOOLEAN NOT NULL DEFAULT TRUE;
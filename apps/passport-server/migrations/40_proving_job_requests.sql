@@ -0,0 +1,10 @@
+-- Everyone who asked for a proving job. Identical `ProveRequest`s share a
+-- job, so each requester gets their own cancel token, and the job is only
+-- cancelled once all of them have cancelled it.
+create table proving_job_requests (
+  cancel_token VARCHAR NOT NULL PRIMARY KEY,
+  hash VARCHAR NOT NULL REFERENCES proving_jobs(hash) ON DELETE CASCADE,
+  time_created TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+create index proving_job_requests_hash_idx on proving_job_requests (hash);
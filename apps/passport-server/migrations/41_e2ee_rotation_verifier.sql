@@ -0,0 +1,5 @@
+-- The hash of a secret that clients derive from the encryption key, which
+-- they have to give to rotate the key. Knowing the sync key isn't enough, as
+-- it is sent with every request. Set by the first save that includes it, and
+-- never changed after that.
+alter table e2ee add column rotation_verifier VARCHAR;
@@ -0,0 +1,96 @@
+// Asks a passport server what syncing Devconnect tickets from Pretix would
+// change in its database, without changing anything, and prints the changes
+// of each event. Reads PASSPORT_SERVER_URL and ADMIN_API_TOKEN from `.env`.
+//
+// yarn dry-run-pretix-sync [organizer config id]
+//
+// Without an organizer config id, it covers every active organizer. With
+// one, it covers only that organizer, even if it isn't active yet.
+
+import {
+  PretixSyncDryRunChanges,
+  PretixSyncDryRunRequest,
+  PretixSyncDryRunResponse
+} from "@pcd/passport-interface";
+import dotenv from "dotenv";
+import path from "path";
+import { logger } from "../src/util/logger";
+import { requireEnv } from "../src/util/util";
+
+dotenv.config({ path: path.join(process.cwd(), ".env") });
+
+function logChanges(name: string, changes?: PretixSyncDryRunChanges): void {
+  if (!changes) {
+    logger(`    ${name}: not synced`);
+    return;
+  }
+
+  logger(
+    `    ${name}: ${changes.insertCount} to insert, ` +
+      `${changes.updateCount} to update, ${changes.deleteCount} to delete`
+  );
+  for (const row of changes.sampleInserts) {
+    logger(`      + ${JSON.stringify(row)}`);
+  }
+  for (const { before, after } of changes.sampleUpdates) {
+    logger(`      ~ ${JSON.stringify(before)}`);
+    logger(`     => ${JSON.stringify(after)}`);
+  }
+  for (const row of changes.sampleDeletes) {
+    logger(`      - ${JSON.stringify(row)}`);
+  }
+}
+
+async function dryRunPretixSync(): Promise<void> {
+  const serverUrl = requireEnv("PASSPORT_SERVER_URL");
+  const adminToken = requireEnv("ADMIN_API_TOKEN");
+  const request: PretixSyncDryRunRequest = {
+    organizerConfigId: process.argv[2]
+  };
+
+  const res = await fetch(`${serverUrl}/admin/pretix/dry-run`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(request)
+  });
+  if (res.status !== 200 && res.status !== 404) {
+    throw new Error(`dry run failed: ${res.status} ${res.statusText}`);
+  }
+
+  const response = (await res.json()) as PretixSyncDryRunResponse;
+  if (!response.success) {
+    throw new Error(`dry run failed: ${JSON.stringify(response.error)}`);
+  }
+
+  for (const organizer of response.organizers) {
+    logger();
+    logger(`ORGANIZER ${organizer.orgUrl} (${organizer.organizerConfigId})`);
+    if (organizer.error) {
+      logger(`  couldn't fetch from Pretix: ${organizer.error}`);
+    }
+    for (const event of organizer.events) {
+      logger(
+        `  EVENT '${event.eventName}' (${event.eventId}, ${event.eventConfigId})`
+      );
+      for (const problem of event.problems) {
+        logger(`    PROBLEM ${problem}`);
+      }
+      logChanges("event info", event.eventInfo);
+      logChanges("items", event.items);
+      logChanges("tickets", event.tickets);
+    }
+  }
+  logger();
+}
+
+dryRunPretixSync()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((e) => {
+    logger(e);
+    process.exit(1);
+  });
@@ -7,8 +7,15 @@ export interface IDevconnectPretixAPI {
   fetchOrders(
     orgUrl: string,
     token: string,
-    eventID: string
+    eventID: string,
+    modifiedSince?: Date
   ): Promise<DevconnectPretixOrder[]>;
+  fetchOrder(
+    orgUrl: string,
+    token: string,
+    eventID: string,
+    code: string
+  ): Promise<DevconnectPretixOrder>;
   fetchItems(
     orgUrl: string,
     token: string,
@@ -130,17 +137,27 @@ export class DevconnectPretixAPI implements IDevconnectPretixAPI {
     });
   }
 
-  // Fetch all orders for a given event.
+  // Fetch the orders of an event. If `modifiedSince` is given, only the
+  // orders that changed since then are fetched, including their canceled
+  // positions, so that the tickets of those positions can be removed.
   public async fetchOrders(
     orgUrl: string,
     token: string,
-    eventID: string
+    eventID: string,
+    modifiedSince?: Date
   ): Promise<DevconnectPretixOrder[]> {
-    return traced(TRACE_SERVICE, "fetchOrders", async () => {
+    return traced(TRACE_SERVICE, "fetchOrders", async (span) => {
       const orders: DevconnectPretixOrder[] = [];
+      span?.setAttribute("incremental", !!modifiedSince);
 
       // Fetch orders from paginated API
       let url = `${orgUrl}/events/${eventID}/orders/`;
+      if (modifiedSince) {
+        url += `?modified_since=${encodeURIComponent(
+          modifiedSince.toISOString()
+        )}&include_canceled_positions=true`;
+      }
+      let pages = 0;
       while (url != null) {
         logger(`[DEVCONNECT PRETIX] Fetching orders ${url}`);
         const res = await fetch(url, {
@@ -154,11 +171,36 @@ export class DevconnectPretixAPI implements IDevconnectPretixAPI {
         const page = await res.json();
         orders.push(...page.results);
         url = page.next;
+        pages++;
       }
 
+      span?.setAttribute("pages", pages);
+      span?.setAttribute("orders", orders.length);
       return orders;
     });
   }
+
+  // Fetch a single order, including its canceled positions.
+  public async fetchOrder(
+    orgUrl: string,
+    token: string,
+    eventID: string,
+    code: string
+  ): Promise<DevconnectPretixOrder> {
+    return traced(TRACE_SERVICE, "fetchOrder", async () => {
+      const url = `${orgUrl}/events/${eventID}/orders/${code}/?include_canceled_positions=true`;
+      logger(`[DEVCONNECT PRETIX] Fetching order ${url}`);
+      const res = await fetch(url, {
+        headers: { Authorization: `Token ${token}` }
+      });
+      if (!res.ok) {
+        throw new Error(
+          `[PRETIX] Error fetching ${url}: ${res.status} ${res.statusText}`
+        );
+      }
+      return res.json();
+    });
+  }
 }
 
 export async function getDevconnectPretixAPI(): Promise<IDevconnectPretixAPI | null> {
@@ -182,6 +224,7 @@ export interface DevconnectPretixOrder {
   testmode: boolean;
   secret: string;
   email: string;
+  last_modified: string; // ISO 8601 timestamp
   positions: DevconnectPretixPosition[]; // should have exactly one
 }
 
@@ -191,6 +234,12 @@ export interface DevconnectPretixItem {
   personalized: boolean;
   generate_tickets?: boolean | null;
   name: DevconnectPretixI18nMap;
+  // ISO 8601 timestamps bounding when tickets of this item can be used, if
+  // the item's "validity" setting is set to a fixed time frame
+  validity_fixed_from?: string | null;
+  validity_fixed_until?: string | null;
+  // custom metadata, see `getPretixItemValidity`
+  meta_data?: { [key: string]: string };
 }
 
 export interface DevconnectPretixEvent {
@@ -219,4 +268,26 @@ export interface DevconnectPretixPosition {
   attendee_email: string | null;
   subevent: number;
   secret: string;
+  // only included when fetching a single order, or the orders modified
+  // since a given time, see `fetchOrder` and `fetchOrders`
+  canceled?: boolean;
+  checkins?: DevconnectPretixCheckin[];
+}
+
+export interface DevconnectPretixCheckin {
+  list: number;
+  datetime: string; // ISO 8601 timestamp
+}
+
+/**
+ * The body of the requests Pretix sends to an organizer's webhook. Pretix
+ * only says which order changed, so the order has to be fetched to find out
+ * what changed about it.
+ */
+export interface DevconnectPretixWebhookNotification {
+  notification_id: number;
+  organizer: string;
+  event: string; // corresponds to `DevconnectPretixEvent.slug`
+  code: string; // the code of the order
+  action: string; // eg. "pretix.event.order.paid" or "pretix.event.checkin"
 }
@@ -1,6 +1,9 @@
 import { Pool } from "postgres-pool";
 import { PretixOrganizersConfig } from "../../database/models";
-import { fetchPretixConfiguration } from "../../database/queries/pretix_config/fetchPretixConfiguration";
+import {
+  fetchPretixConfiguration,
+  fetchPretixOrganizerConfiguration
+} from "../../database/queries/pretix_config/fetchPretixConfiguration";
 import { logger } from "../../util/logger";
 
 export async function getDevconnectPretixConfig(
@@ -21,27 +24,50 @@ export async function getDevconnectPretixConfig(
   }
 }
 
+/**
+ * Loads a single organizer's configuration, whether or not it is active, or
+ * null if there's no organizer with the given id.
+ */
+export async function getDevconnectPretixOrganizerConfig(
+  dbClient: Pool,
+  organizerConfigId: string
+): Promise<DevconnectPretixOrganizerConfig | null> {
+  const organizerDB = await fetchPretixOrganizerConfiguration(
+    dbClient,
+    organizerConfigId
+  );
+  return organizerDB
+    ? pretixOrganizerDBToDevconnectPretixOrganizerConfig(organizerDB)
+    : null;
+}
+
 function pretixConfigDBToDevconnectPretixConfig(
   pretixOrganizersDB: PretixOrganizersConfig[]
 ): DevconnectPretixConfig {
   return {
     organizers: pretixOrganizersDB.map(
-      (organizerDB) =>
-        ({
-          id: organizerDB.id,
-          orgURL: organizerDB.organizer_url,
-          events: organizerDB.events.map((eventDB) => ({
-            id: eventDB.id,
-            eventID: eventDB.event_id,
-            activeItemIDs: eventDB.active_item_ids,
-            superuserItemIds: eventDB.superuser_item_ids
-          })),
-          token: organizerDB.token
-        } satisfies DevconnectPretixOrganizerConfig)
+      pretixOrganizerDBToDevconnectPretixOrganizerConfig
     )
   };
 }
 
+function pretixOrganizerDBToDevconnectPretixOrganizerConfig(
+  organizerDB: PretixOrganizersConfig
+): DevconnectPretixOrganizerConfig {
+  return {
+    id: organizerDB.id,
+    orgURL: organizerDB.organizer_url,
+    events: organizerDB.events.map((eventDB) => ({
+      id: eventDB.id,
+      eventID: eventDB.event_id,
+      activeItemIDs: eventDB.active_item_ids,
+      superuserItemIds: eventDB.superuser_item_ids
+    })),
+    token: organizerDB.token,
+    webhookSecret: organizerDB.webhook_secret
+  };
+}
+
 // In-memory representation of Pretix event configuration
 export interface DevconnectPretixEventConfig {
   id: string;
@@ -55,6 +81,9 @@ export interface DevconnectPretixOrganizerConfig {
   id: string;
   orgURL: string;
   token: string;
+  // secret that Pretix includes in webhook notifications for the organizer,
+  // if it has a webhook set up
+  webhookSecret: string | null;
   events: DevconnectPretixEventConfig[];
 }
 
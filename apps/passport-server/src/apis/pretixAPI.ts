@@ -6,7 +6,7 @@ const TRACE_SERVICE = "Fetch";
 
 export interface IPretixAPI {
   config: PretixConfig;
-  fetchOrders(eventID: string): Promise<PretixOrder[]>;
+  fetchOrders(eventID: string, modifiedSince?: Date): Promise<PretixOrder[]>;
   fetchSubevents(eventID: string): Promise<PretixSubevent[]>;
 }
 
@@ -17,13 +17,24 @@ export class PretixAPI implements IPretixAPI {
     this.config = config;
   }
 
-  // Fetch all orders for a given event.
-  public async fetchOrders(eventID: string): Promise<PretixOrder[]> {
-    return traced(TRACE_SERVICE, "fetchOrders", async () => {
+  // Fetch all orders for a given event, or only those that changed since
+  // `modifiedSince` if it is given.
+  public async fetchOrders(
+    eventID: string,
+    modifiedSince?: Date
+  ): Promise<PretixOrder[]> {
+    return traced(TRACE_SERVICE, "fetchOrders", async (span) => {
       const orders: PretixOrder[] = [];
+      span?.setAttribute("incremental", !!modifiedSince);
 
       // Fetch orders from paginated API
       let url = `${this.config.orgUrl}/events/${eventID}/orders/`;
+      if (modifiedSince) {
+        url += `?modified_since=${encodeURIComponent(
+          modifiedSince.toISOString()
+        )}`;
+      }
+      let pages = 0;
       while (url != null) {
         logger(`[PRETIX] Fetching ${url}`);
         const res = await fetch(url, {
@@ -37,8 +48,11 @@ export class PretixAPI implements IPretixAPI {
         const page = await res.json();
         orders.push(...page.results);
         url = page.next;
+        pages++;
       }
 
+      span?.setAttribute("pages", pages);
+      span?.setAttribute("orders", orders.length);
       return orders;
     });
   }
@@ -113,6 +127,7 @@ export interface PretixOrder {
   testmode: boolean;
   secret: string;
   email: string;
+  last_modified: string; // ISO 8601 timestamp
   positions: PretixPosition[]; // should have exactly one
 }
 
@@ -1,4 +1,5 @@
 import { DateRange } from "@pcd/passport-interface";
+import { ITicketDateRange, ITicketEntryWindow } from "@pcd/rsa-ticket-pcd";
 
 /**
  * All zuzalu tickets get synced to our database into this data structure.
@@ -33,6 +34,8 @@ export interface DevconnectPretixTicket {
 
 export interface DevconnectPretixTicketDB extends DevconnectPretixTicket {
   id: string;
+  // email address of whoever the ticket was last transferred to, if anyone
+  owner_email_override?: string | null;
 }
 
 // DevconnectPretixTicket with all relevant fields for ticket PCD included,
@@ -44,6 +47,33 @@ export interface DevconnectPretixTicketDBWithEmailAndItem
   pretix_events_config_id: string;
 }
 
+// DevconnectPretixTicket along with the id of the event config it belongs to
+export interface DevconnectPretixTicketDBWithEventConfig
+  extends DevconnectPretixTicketDB {
+  pretix_events_config_id: string;
+}
+
+// DevconnectPretixTicket along with the event config it belongs to and the
+// validity rules of its item
+export interface DevconnectPretixTicketDBWithEventConfigAndValidity
+  extends DevconnectPretixTicketDBWithEventConfig,
+    ItemValidity {}
+
+// The validity rules of tickets of an item, see `ITicketValidity`
+export type ItemValidity = Pick<
+  PretixItemInfo,
+  "valid_date_ranges" | "max_entries_per_day" | "entry_windows"
+>;
+
+// DevconnectPretixTicket along with what's needed to decide whether it can
+// be transferred to someone else
+export interface DevconnectPretixTicketForTransfer
+  extends DevconnectPretixTicketDBWithEventConfig {
+  max_ticket_transfers: number;
+  transfer_count: number;
+  is_superuser_ticket: boolean;
+}
+
 export interface DevconnectSuperuser {
   ticket_id: string;
   email: string;
@@ -60,6 +90,30 @@ export interface DevconnectSuperuser {
   event_id: string;
 }
 
+// How many of the tickets of an item have been checked in
+export interface DevconnectCheckinCountByItem {
+  item_name: string;
+  total: number;
+  checked_in: number;
+}
+
+// How many tickets were checked in during a window of time
+export interface DevconnectCheckinCountByWindow {
+  window_start: Date;
+  checked_in: number;
+}
+
+// One row of the append-only log of check-ins, undone check-ins and
+// re-entries of a Devconnect ticket
+export interface DevconnectCheckinEvent {
+  id: number;
+  ticket_id: string;
+  event_type: "check-in" | "undo" | "re-entry";
+  checker: string;
+  reason: string | null;
+  time_created: Date;
+}
+
 /**
  * A zuzalu pretix-ticket-holder that has logged in to the passport.
  */
@@ -87,6 +141,15 @@ export interface CommitmentRow {
 export interface EncryptedStorageModel {
   blob_key: string;
   encrypted_blob: string;
+  revision: number;
+  rotation_verifier: string | null;
+}
+
+export interface EncryptedStorageRevisionModel {
+  blob_key: string;
+  revision: number;
+  encrypted_blob: string;
+  time_created: Date;
 }
 
 export interface HistoricSemaphoreGroup {
@@ -104,6 +167,8 @@ export interface PretixEventsConfig {
   pretix_organizers_config_id: string;
   active_item_ids: string[]; // relevant item IDs that correspond to ticket products
   superuser_item_ids: string[];
+  max_ticket_transfers: number;
+  is_active: boolean;
 }
 
 // Database representation of Pretix organizer configuration
@@ -111,6 +176,7 @@ export interface PretixOrganizersConfig {
   id: string;
   organizer_url: string;
   token: string;
+  webhook_secret: string | null;
   events: PretixEventsConfig[];
 }
 
@@ -118,6 +184,8 @@ export interface PretixOrganizerRow {
   id: string;
   organizer_url: string;
   token: string;
+  webhook_secret: string | null;
+  is_active: boolean;
 }
 
 export interface PretixEventInfo {
@@ -131,4 +199,36 @@ export interface PretixItemInfo {
   item_id: string;
   devconnect_pretix_events_info_id: string;
   item_name: string;
+  valid_date_ranges: ITicketDateRange[];
+  max_entries_per_day: number | null;
+  entry_windows: ITicketEntryWindow[];
+}
+
+// Where the last sync of a Devconnect event left off
+export interface DevconnectPretixSyncCursor {
+  pretix_events_config_id: string;
+  orders_modified_since: Date | null;
+  last_full_sync: Date;
+  active_item_ids: string[];
+}
+
+// The problems with a Devconnect event's setup found by its last sync
+export interface DevconnectPretixSyncReport {
+  pretix_events_config_id: string;
+  problems: string[];
+  time_checked: Date;
+}
+
+// Database representation of a server-side proving request
+export interface ProvingJob {
+  hash: string;
+  pcd_type: string;
+  request: string; // JSON.stringify(ProveRequest)
+  status: string; // one of the values of `PendingPCDStatus`
+  serialized_pcd: string | null;
+  error: string | null;
+  attempts: number;
+  time_created: Date;
+  time_started: Date | null;
+  time_completed: Date | null;
 }
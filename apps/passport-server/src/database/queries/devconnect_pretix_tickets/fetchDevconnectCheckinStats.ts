@@ -0,0 +1,112 @@
+import { Pool } from "postgres-pool";
+import {
+  DevconnectCheckinCountByItem,
+  DevconnectCheckinCountByWindow,
+  DevconnectPretixTicketDBWithEmailAndItem
+} from "../../models";
+import { sqlQuery } from "../../sqlQuery";
+
+/*
+ * Count the non-deleted tickets of each item of an event, and how many of
+ * them have been checked in.
+ */
+export async function fetchDevconnectCheckinCountsByItem(
+  client: Pool,
+  eventConfigID: string
+): Promise<Array<DevconnectCheckinCountByItem>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select i.item_name,
+    count(t.id)::int as total,
+    count(t.id) filter (where t.is_consumed = true)::int as checked_in
+    from devconnect_pretix_items_info i
+    join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
+    left join devconnect_pretix_tickets t
+    on t.devconnect_pretix_items_info_id = i.id and t.is_deleted = false
+    where e.pretix_events_config_id = $1
+    group by i.id, i.item_name
+    order by i.item_name asc`,
+    [eventConfigID]
+  );
+
+  return result.rows;
+}
+
+/*
+ * Count how many tickets of an event were checked in during each window of
+ * `windowSeconds`, leaving out windows without any check-ins.
+ */
+export async function fetchDevconnectCheckinCountsByWindow(
+  client: Pool,
+  eventConfigID: string,
+  windowSeconds: number
+): Promise<Array<DevconnectCheckinCountByWindow>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select to_timestamp(
+      floor(extract(epoch from t.checkin_timestamp) / $2) * $2
+    ) as window_start,
+    count(*)::int as checked_in
+    from devconnect_pretix_tickets t
+    join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
+    join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
+    where e.pretix_events_config_id = $1
+    and t.is_deleted = false
+    and t.is_consumed = true
+    and t.checkin_timestamp is not null
+    group by window_start
+    order by window_start asc`,
+    [eventConfigID, windowSeconds]
+  );
+
+  return result.rows;
+}
+
+/*
+ * Fetch the latest `limit` checked-in tickets of an event, newest first.
+ */
+export async function fetchRecentDevconnectCheckins(
+  client: Pool,
+  eventConfigID: string,
+  limit: number
+): Promise<Array<DevconnectPretixTicketDBWithEmailAndItem>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select t.*, e.event_name, i.item_name, e.pretix_events_config_id from devconnect_pretix_tickets t
+    join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
+    join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
+    where e.pretix_events_config_id = $1
+    and t.is_deleted = false
+    and t.is_consumed = true
+    order by t.checkin_timestamp desc nulls last
+    limit $2`,
+    [eventConfigID, limit]
+  );
+
+  return result.rows;
+}
+
+/*
+ * Fetch every non-deleted ticket of an event, along with its item.
+ */
+export async function fetchDevconnectPretixTicketsWithItemByEvent(
+  client: Pool,
+  eventConfigID: string
+): Promise<Array<DevconnectPretixTicketDBWithEmailAndItem>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select t.*, e.event_name, i.item_name, e.pretix_events_config_id from devconnect_pretix_tickets t
+    join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
+    join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
+    where e.pretix_events_config_id = $1
+    and t.is_deleted = false
+    order by t.id asc`,
+    [eventConfigID]
+  );
+
+  return result.rows;
+}
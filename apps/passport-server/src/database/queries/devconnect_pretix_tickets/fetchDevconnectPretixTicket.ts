@@ -1,8 +1,13 @@
 import { Pool } from "postgres-pool";
 import {
+  DevconnectCheckinEvent,
   DevconnectPretixTicketDB,
   DevconnectPretixTicketDBWithEmailAndItem,
-  DevconnectSuperuser
+  DevconnectPretixTicketDBWithEventConfig,
+  DevconnectPretixTicketDBWithEventConfigAndValidity,
+  DevconnectPretixTicketForTransfer,
+  DevconnectSuperuser,
+  ItemValidity
 } from "../../models";
 import { sqlQuery } from "../../sqlQuery";
 
@@ -45,16 +50,59 @@ export async function fetchDevconnectPretixTicketsByEvent(
 }
 
 /*
- * Fetch a devconnect ticket by its unique internal id.
+ * Fetch the non-deleted tickets with the given Pretix position ids.
+ */
+export async function fetchDevconnectPretixTicketsByPositionIds(
+  client: Pool,
+  positionIds: string[]
+): Promise<Array<DevconnectPretixTicketDB>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select * from devconnect_pretix_tickets
+    where position_id = any($1)
+    and is_deleted = false`,
+    [positionIds]
+  );
+
+  return result.rows;
+}
+
+/*
+ * Fetch all tickets of the given events, including deleted ones, along with
+ * the event each of them belongs to.
+ */
+export async function fetchDevconnectPretixTicketsByEventConfigIds(
+  client: Pool,
+  eventConfigIDs: string[]
+): Promise<Array<DevconnectPretixTicketDBWithEventConfig>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select t.*, e.pretix_events_config_id from devconnect_pretix_tickets t
+    join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
+    join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
+    where e.pretix_events_config_id = ANY($1)`,
+    [eventConfigIDs]
+  );
+
+  return result.rows;
+}
+
+/*
+ * Fetch a devconnect ticket by its unique internal id, along with the event
+ * it belongs to and the validity rules of its item.
  */
 export async function fetchDevconnectPretixTicketByTicketId(
   client: Pool,
   ticketId: string
-): Promise<DevconnectPretixTicketDB | undefined> {
+): Promise<DevconnectPretixTicketDBWithEventConfigAndValidity | undefined> {
   const result = await sqlQuery(
     client,
     `\
-    select t.* from devconnect_pretix_tickets t
+    select t.*, e.pretix_events_config_id,
+    i.valid_date_ranges, i.max_entries_per_day, i.entry_windows
+    from devconnect_pretix_tickets t
     join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
     join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
     where t.id = $1
@@ -65,17 +113,95 @@ export async function fetchDevconnectPretixTicketByTicketId(
   return result.rows[0];
 }
 
+/*
+ * Fetch a non-deleted devconnect ticket by its unique internal id, along
+ * with how many times it has been and can be transferred, and whether it
+ * makes its holder a superuser.
+ */
+export async function fetchDevconnectPretixTicketForTransfer(
+  client: Pool,
+  ticketId: string
+): Promise<DevconnectPretixTicketForTransfer | undefined> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select t.*, e.pretix_events_config_id, ec.max_ticket_transfers,
+    (select count(*) from devconnect_ticket_transfers tr where tr.ticket_id = t.id)::int as transfer_count,
+    i.item_id = ANY(ec.superuser_item_ids) as is_superuser_ticket
+    from devconnect_pretix_tickets t
+    join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
+    join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
+    join pretix_events_config ec on ec.id = e.pretix_events_config_id
+    where t.id = $1
+    and t.is_deleted = false`,
+    [ticketId]
+  );
+
+  return result.rows[0];
+}
+
+/*
+ * Fetch the check-in events of a devconnect ticket, oldest first.
+ */
+export async function fetchDevconnectCheckinEvents(
+  client: Pool,
+  ticketId: string
+): Promise<Array<DevconnectCheckinEvent>> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select * from devconnect_checkin_events
+    where ticket_id = $1
+    order by id asc`,
+    [ticketId]
+  );
+
+  return result.rows;
+}
+
+/*
+ * Count how many times a devconnect ticket has been used to enter since the
+ * given time, not counting check-ins that were undone.
+ */
+export async function fetchDevconnectEntryCountSince(
+  client: Pool,
+  ticketId: string,
+  since: Date
+): Promise<number> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select greatest(
+      count(*) filter (where event_type in ('check-in', 're-entry'))
+      - count(*) filter (where event_type = 'undo'),
+      0
+    )::int as count
+    from devconnect_checkin_events
+    where ticket_id = $1 and time_created >= $2`,
+    [ticketId, since]
+  );
+
+  return result.rows[0].count;
+}
+
+/*
+ * Fetch the devconnect tickets issued to an email address, which are those
+ * on Pretix orders for that email address, except for the ones that have
+ * been transferred to someone else, plus the ones transferred to it.
+ */
 export async function fetchDevconnectPretixTicketsByEmail(
   client: Pool,
   email: string
-): Promise<Array<DevconnectPretixTicketDBWithEmailAndItem>> {
+): Promise<Array<DevconnectPretixTicketDBWithEmailAndItem & ItemValidity>> {
   const result = await sqlQuery(
     client,
     `\
-    select t.*, e.event_name, i.item_name, e.pretix_events_config_id as pretix_events_config_id from devconnect_pretix_tickets t
+    select t.*, e.event_name, i.item_name, e.pretix_events_config_id as pretix_events_config_id,
+    i.valid_date_ranges, i.max_entries_per_day, i.entry_windows
+    from devconnect_pretix_tickets t
     join devconnect_pretix_items_info i on t.devconnect_pretix_items_info_id = i.id
     join devconnect_pretix_events_info e on e.id = i.devconnect_pretix_events_info_id
-    where t.email = $1
+    where coalesce(t.owner_email_override, t.email) = $1
     and t.is_deleted = false
     order by t.id asc
     `,
@@ -24,19 +24,109 @@ returning *`,
 /**
  * Updates a non-deleted, unconsumed pretix ticket in our database
  * to toggle on `is_consumed` state, returning the row if it exists.
+ * The check-in is recorded as happening at `checkinTimestamp`, which
+ * defaults to now, and is added to the ticket's check-in events.
  */
 export async function consumeDevconnectPretixTicket(
+  client: Pool,
+  id: string,
+  checkerEmail: string,
+  checkinTimestamp?: Date
+): Promise<boolean> {
+  const result = await sqlQuery(
+    client,
+    `with consumed as (
+      update devconnect_pretix_tickets
+      set is_consumed=TRUE, checker=$2, checkin_timestamp=coalesce($3, now())
+      where id=$1 and is_deleted=FALSE and is_consumed=FALSE
+      returning id, checker, checkin_timestamp
+    )
+    insert into devconnect_checkin_events
+    (ticket_id, event_type, checker, time_created)
+    select id, 'check-in', checker, checkin_timestamp from consumed
+    returning ticket_id`,
+    [id, checkerEmail, checkinTimestamp]
+  );
+  return result.rowCount === 1;
+}
+
+/**
+ * Reverses the check-in of a consumed pretix ticket, so that it can be
+ * checked in again, and records why in the ticket's check-in events.
+ * Returns whether the ticket was checked in.
+ */
+export async function undoConsumeDevconnectPretixTicket(
+  client: Pool,
+  id: string,
+  checkerEmail: string,
+  reason: string
+): Promise<boolean> {
+  const result = await sqlQuery(
+    client,
+    `with unconsumed as (
+      update devconnect_pretix_tickets
+      set is_consumed=FALSE, checker='', checkin_timestamp=NULL
+      where id=$1 and is_consumed=TRUE
+      returning id
+    )
+    insert into devconnect_checkin_events
+    (ticket_id, event_type, checker, reason)
+    select id, 'undo', $2, $3 from unconsumed
+    returning ticket_id`,
+    [id, checkerEmail, reason]
+  );
+  return result.rowCount === 1;
+}
+
+/**
+ * Records that the holder of a checked-in, non-deleted pretix ticket left
+ * and was let in again. Returns whether the ticket was checked in.
+ */
+export async function reenterDevconnectPretixTicket(
   client: Pool,
   id: string,
   checkerEmail: string
 ): Promise<boolean> {
   const result = await sqlQuery(
     client,
-    `update devconnect_pretix_tickets
-    set is_consumed=TRUE, checker=$2, checkin_timestamp=now()
-    where id=$1 and is_deleted=FALSE and is_consumed=FALSE
-    returning id`,
+    `insert into devconnect_checkin_events
+    (ticket_id, event_type, checker)
+    select id, 're-entry', $2 from devconnect_pretix_tickets
+    where id=$1 and is_deleted=FALSE and is_consumed=TRUE
+    returning ticket_id`,
     [id, checkerEmail]
   );
   return result.rowCount === 1;
 }
+
+/**
+ * Transfers a non-deleted, unconsumed pretix ticket from `fromEmail` to
+ * `toEmail`, so that it is issued to `toEmail` from then on, as long as
+ * it has been transferred fewer than `maxTransfers` times. Returns whether
+ * the ticket was transferred.
+ */
+export async function transferDevconnectPretixTicket(
+  client: Pool,
+  id: string,
+  fromEmail: string,
+  toEmail: string,
+  maxTransfers: number
+): Promise<boolean> {
+  const result = await sqlQuery(
+    client,
+    `with transferred as (
+      update devconnect_pretix_tickets
+      set owner_email_override=$3
+      where id=$1 and is_deleted=FALSE and is_consumed=FALSE
+      and coalesce(owner_email_override, email)=$2
+      and (select count(*) from devconnect_ticket_transfers where ticket_id=$1) < $4
+      returning id
+    )
+    insert into devconnect_ticket_transfers
+    (ticket_id, from_email, to_email)
+    select id, $2, $3 from transferred
+    returning ticket_id`,
+    [id, fromEmail, toEmail, maxTransfers]
+  );
+  return result.rowCount === 1;
+}
@@ -1,7 +1,15 @@
 import { Pool } from "postgres-pool";
-import { EncryptedStorageModel } from "../models";
+import {
+  EncryptedStorageModel,
+  EncryptedStorageRevisionModel
+} from "../models";
 import { sqlQuery } from "../sqlQuery";
 
+/**
+ * The Postgres error code of a statement that violates a unique constraint.
+ */
+const UNIQUE_VIOLATION = "23505";
+
 /**
  * Returns the encrypted data stored with a given key.
  */
@@ -23,18 +31,198 @@ export async function fetchEncryptedStorage(
 }
 
 /**
- * Replaces the encrypted data stored at a particular sync key.
+ * Records a revision of the encrypted data stored at a sync key in its
+ * history, as part of the statement that saves it. `saveStatement` must
+ * return the `blob_key`, `revision`, and `encrypted_blob` of the saved row,
+ * and may refer to any of the `precedingQueries`, which are named
+ * subqueries of the form `name as (...)`.
+ */
+function withHistory(
+  saveStatement: string,
+  precedingQueries: string[] = []
+): string {
+  return (
+    `with ${[...precedingQueries, `saved as (${saveStatement})`].join(", ")} ` +
+    "insert into e2ee_history(blob_key, revision, encrypted_blob) " +
+    "select blob_key, revision, encrypted_blob from saved returning revision;"
+  );
+}
+
+/**
+ * Replaces the encrypted data stored at a particular sync key, regardless of
+ * its current revision. Returns the new revision. `rotationVerifier` is only
+ * saved if nothing was stored at the sync key yet.
  */
 export async function insertEncryptedStorage(
   dbPool: Pool,
   blobKey: string,
-  encryptedBlob: string
+  encryptedBlob: string,
+  rotationVerifier?: string
+): Promise<number> {
+  const result = await sqlQuery(
+    dbPool,
+    withHistory(
+      "insert into e2ee(blob_key, encrypted_blob, rotation_verifier) values " +
+        "($1, $2, $3) on conflict(blob_key) do update set encrypted_blob = $2, " +
+        "revision = e2ee.revision + 1 returning *"
+    ),
+    [blobKey, encryptedBlob, rotationVerifier]
+  );
+  return result.rows[0].revision;
+}
+
+/**
+ * Replaces the encrypted data stored at a particular sync key, but only if
+ * its revision is still `knownRevision`. A `knownRevision` of 0 means that
+ * nothing is expected to be stored at the sync key yet. Returns the new
+ * revision if the data was replaced, and undefined otherwise.
+ * `rotationVerifier` is only saved if nothing was stored at the sync key yet.
+ */
+export async function updateEncryptedStorage(
+  dbPool: Pool,
+  blobKey: string,
+  encryptedBlob: string,
+  knownRevision: number,
+  rotationVerifier?: string
+): Promise<number | undefined> {
+  const result =
+    knownRevision === 0
+      ? await sqlQuery(
+          dbPool,
+          withHistory(
+            "insert into e2ee(blob_key, encrypted_blob, rotation_verifier) " +
+              "values ($1, $2, $3) on conflict(blob_key) do nothing returning *"
+          ),
+          [blobKey, encryptedBlob, rotationVerifier]
+        )
+      : await sqlQuery(
+          dbPool,
+          withHistory(
+            "update e2ee set encrypted_blob = $2, revision = revision + 1 " +
+              "where blob_key = $1 and revision = $3 returning *"
+          ),
+          [blobKey, encryptedBlob, knownRevision]
+        );
+
+  return result.rows[0]?.revision;
+}
+
+/**
+ * Moves the encrypted data stored at `oldBlobKey` to `newBlobKey`, replacing
+ * it with `encryptedBlob`, which is encrypted with the new key. This only
+ * happens if the data at `oldBlobKey` is still at `knownRevision`. The data
+ * and history at `oldBlobKey` are deleted, and `oldBlobKey` is recorded as
+ * rotated. Returns the revision at `newBlobKey` if the data was moved, and
+ * undefined otherwise, which includes when `newBlobKey` is already in use.
+ */
+export async function rotateEncryptedStorage(
+  dbPool: Pool,
+  oldBlobKey: string,
+  newBlobKey: string,
+  encryptedBlob: string,
+  knownRevision: number,
+  newRotationVerifier: string
+): Promise<number | undefined> {
+  try {
+    const result = await sqlQuery(
+      dbPool,
+      withHistory(
+        "insert into e2ee(blob_key, encrypted_blob, rotation_verifier) " +
+          "select $2, $3, $5 from old returning *",
+        [
+          "old as (delete from e2ee where blob_key = $1 and revision = $4 " +
+            "and not exists (select 1 from e2ee_rotated_keys " +
+            "where blob_key = $2) returning blob_key)",
+          "old_history as (delete from e2ee_history where blob_key in " +
+            "(select blob_key from old))",
+          "rotated as (insert into e2ee_rotated_keys(blob_key) " +
+            "select blob_key from old)"
+        ]
+      ),
+      [
+        oldBlobKey,
+        newBlobKey,
+        encryptedBlob,
+        knownRevision,
+        newRotationVerifier
+      ]
+    );
+    return result.rows[0]?.revision;
+  } catch (e: any) {
+    // something is already stored at `newBlobKey`, in which case the whole
+    // statement is rolled back, and the data at `oldBlobKey` stays where it is
+    if (e.code === UNIQUE_VIOLATION) {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Returns whether the storage at the given sync key has been moved to a new
+ * sync key.
+ */
+export async function isBlobKeyRotated(
+  dbPool: Pool,
+  blobKey: string
+): Promise<boolean> {
+  const result = await sqlQuery(
+    dbPool,
+    "select 1 from e2ee_rotated_keys where blob_key = $1;",
+    [blobKey]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Returns when each of the revisions in the history of a sync key was
+ * saved, newest first, without the encrypted data itself.
+ */
+export async function fetchEncryptedStorageHistory(
+  dbPool: Pool,
+  blobKey: string
+): Promise<Omit<EncryptedStorageRevisionModel, "encrypted_blob">[]> {
+  const result = await sqlQuery(
+    dbPool,
+    "select blob_key, revision, time_created from e2ee_history " +
+      "where blob_key = $1 order by revision desc;",
+    [blobKey]
+  );
+  return result.rows;
+}
+
+/**
+ * Returns a single revision from the history of a sync key, if it is still
+ * in the history.
+ */
+export async function fetchEncryptedStorageRevision(
+  dbPool: Pool,
+  blobKey: string,
+  revision: number
+): Promise<EncryptedStorageRevisionModel | undefined> {
+  const result = await sqlQuery(
+    dbPool,
+    "select * from e2ee_history where blob_key = $1 and revision = $2;",
+    [blobKey, revision]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Deletes all but the `keep` newest revisions from the history of a sync
+ * key.
+ */
+export async function deleteOldEncryptedStorageRevisions(
+  dbPool: Pool,
+  blobKey: string,
+  keep: number
 ): Promise<void> {
   await sqlQuery(
     dbPool,
-    "insert into e2ee(blob_key, encrypted_blob) values " +
-      "($1, $2) on conflict(blob_key) do update set encrypted_blob = $2;",
-    [blobKey, encryptedBlob]
+    "delete from e2ee_history where blob_key = $1 and revision in " +
+      "(select revision from e2ee_history where blob_key = $1 " +
+      "order by revision desc offset $2);",
+    [blobKey, keep]
   );
 }
 
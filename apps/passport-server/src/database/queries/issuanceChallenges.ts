@@ -0,0 +1,49 @@
+import { Pool } from "postgres-pool";
+import { sqlQuery } from "../sqlQuery";
+
+/**
+ * Stores a challenge nonce until it expires or is used.
+ */
+export async function insertIssuanceChallenge(
+  client: Pool,
+  nonce: string,
+  ttlMs: number
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `insert into issuance_challenges (nonce, expires_at)
+values ($1, now() + $2 * interval '1 millisecond')`,
+    [nonce, ttlMs]
+  );
+}
+
+/**
+ * Uses up a challenge nonce. Returns false if it was never handed out, has
+ * already been used or has expired.
+ */
+export async function consumeIssuanceChallenge(
+  client: Pool,
+  nonce: string
+): Promise<boolean> {
+  const result = await sqlQuery(
+    client,
+    `delete from issuance_challenges where nonce = $1 and expires_at > now()`,
+    [nonce]
+  );
+
+  return result.rowCount === 1;
+}
+
+/**
+ * Deletes the challenges that expired without being used.
+ */
+export async function deleteExpiredIssuanceChallenges(
+  client: Pool
+): Promise<number> {
+  const result = await sqlQuery(
+    client,
+    `delete from issuance_challenges where expires_at <= now()`
+  );
+
+  return result.rowCount;
+}
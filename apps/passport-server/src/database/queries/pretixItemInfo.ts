@@ -1,3 +1,4 @@
+import { ITicketValidity } from "@pcd/rsa-ticket-pcd";
 import { Pool } from "postgres-pool";
 import { PretixItemInfo } from "../models";
 import { sqlQuery } from "../sqlQuery";
@@ -22,15 +23,24 @@ export async function insertPretixItemsInfo(
   client: Pool,
   item_id: string,
   eventInfoId: string,
-  item_name: string
+  item_name: string,
+  validity?: ITicketValidity
 ): Promise<string> {
   const result = await sqlQuery(
     client,
     `\
-      insert into devconnect_pretix_items_info (item_id, devconnect_pretix_events_info_id, item_name)
-      values ($1, $2, $3)
+      insert into devconnect_pretix_items_info
+      (item_id, devconnect_pretix_events_info_id, item_name, valid_date_ranges, max_entries_per_day, entry_windows)
+      values ($1, $2, $3, $4, $5, $6)
       returning id`,
-    [item_id, eventInfoId, item_name]
+    [
+      item_id,
+      eventInfoId,
+      item_name,
+      JSON.stringify(validity?.dateRanges ?? []),
+      validity?.maxEntriesPerDay ?? null,
+      JSON.stringify(validity?.entryWindows ?? [])
+    ]
   );
   return result.rows[0].id;
 }
@@ -39,15 +49,24 @@ export async function updatePretixItemsInfo(
   client: Pool,
   id: string,
   item_name: string,
-  isDeleted: boolean
+  isDeleted: boolean,
+  validity: ITicketValidity
 ): Promise<Array<PretixItemInfo>> {
   const result = await sqlQuery(
     client,
     `\
       update devconnect_pretix_items_info
-      set item_name = $1, is_deleted = $3
+      set item_name = $1, is_deleted = $3,
+      valid_date_ranges = $4, max_entries_per_day = $5, entry_windows = $6
       where id=$2`,
-    [item_name, id, isDeleted]
+    [
+      item_name,
+      id,
+      isDeleted,
+      JSON.stringify(validity.dateRanges),
+      validity.maxEntriesPerDay ?? null,
+      JSON.stringify(validity.entryWindows)
+    ]
   );
   return result.rows;
 }
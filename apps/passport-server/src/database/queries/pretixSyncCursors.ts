@@ -0,0 +1,47 @@
+import { Pool } from "postgres-pool";
+import { DevconnectPretixSyncCursor } from "../models";
+import { sqlQuery } from "../sqlQuery";
+
+/**
+ * Fetches where the last sync of an event left off, or null if the event
+ * hasn't been synced yet.
+ */
+export async function fetchDevconnectPretixSyncCursor(
+  client: Pool,
+  eventConfigID: string
+): Promise<DevconnectPretixSyncCursor | null> {
+  const result = await sqlQuery(
+    client,
+    `\
+      select *
+      from devconnect_pretix_sync_cursors
+      where pretix_events_config_id = $1`,
+    [eventConfigID]
+  );
+
+  return result.rowCount ? result.rows[0] : null;
+}
+
+/**
+ * Records where a sync of an event left off, once it has succeeded.
+ */
+export async function upsertDevconnectPretixSyncCursor(
+  client: Pool,
+  cursor: DevconnectPretixSyncCursor
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `\
+      insert into devconnect_pretix_sync_cursors
+      (pretix_events_config_id, orders_modified_since, last_full_sync, active_item_ids)
+      values ($1, $2, $3, $4)
+      on conflict (pretix_events_config_id) do update
+      set orders_modified_since = $2, last_full_sync = $3, active_item_ids = $4`,
+    [
+      cursor.pretix_events_config_id,
+      cursor.orders_modified_since,
+      cursor.last_full_sync,
+      cursor.active_item_ids
+    ]
+  );
+}
@@ -0,0 +1,44 @@
+import { Pool } from "postgres-pool";
+import { DevconnectPretixSyncReport } from "../models";
+import { sqlQuery } from "../sqlQuery";
+
+/**
+ * Fetches the problems found by the last sync of an event, or null if the
+ * event hasn't been checked yet.
+ */
+export async function fetchDevconnectPretixSyncReport(
+  client: Pool,
+  eventConfigID: string
+): Promise<DevconnectPretixSyncReport | null> {
+  const result = await sqlQuery(
+    client,
+    `\
+      select *
+      from devconnect_pretix_sync_reports
+      where pretix_events_config_id = $1`,
+    [eventConfigID]
+  );
+
+  return result.rowCount ? result.rows[0] : null;
+}
+
+/**
+ * Replaces the problems found with an event by the previous sync with the
+ * ones found by the current sync.
+ */
+export async function upsertDevconnectPretixSyncReport(
+  client: Pool,
+  eventConfigID: string,
+  problems: string[]
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `\
+      insert into devconnect_pretix_sync_reports
+      (pretix_events_config_id, problems, time_checked)
+      values ($1, $2, now())
+      on conflict (pretix_events_config_id) do update
+      set problems = $2, time_checked = now()`,
+    [eventConfigID, problems]
+  );
+}
@@ -1,9 +1,14 @@
 import { Pool } from "postgres-pool";
-import { PretixOrganizersConfig } from "../../models";
+import {
+  PretixEventsConfig,
+  PretixOrganizerRow,
+  PretixOrganizersConfig
+} from "../../models";
 import { sqlQuery } from "../../sqlQuery";
 
 /**
- * Fetch the list of Pretix organizers from the database.
+ * Fetch the list of active Pretix organizers from the database, along with
+ * their active events.
  */
 export async function fetchPretixConfiguration(
   client: Pool
@@ -11,15 +16,40 @@ export async function fetchPretixConfiguration(
   const result = await sqlQuery(
     client,
     `\
-    select o.id, o.organizer_url, o.token, json_agg(e.*) as events
+    select o.id, o.organizer_url, o.token, o.webhook_secret, json_agg(e.*) as events
     from pretix_events_config e
     join pretix_organizers_config o on e.pretix_organizers_config_id = o.id
-    group by o.id, o.organizer_url, o.token`
+    where o.is_active and e.is_active
+    group by o.id, o.organizer_url, o.token, o.webhook_secret`
   );
 
   return result.rows;
 }
 
+/**
+ * Fetch a Pretix organizer from the database along with its active events,
+ * whether or not the organizer itself is active.
+ */
+export async function fetchPretixOrganizerConfiguration(
+  client: Pool,
+  organizerConfigId: string
+): Promise<PretixOrganizersConfig | null> {
+  const result = await sqlQuery(
+    client,
+    `\
+    select o.id, o.organizer_url, o.token, o.webhook_secret,
+    coalesce(json_agg(e.*) filter (where e.id is not null), '[]') as events
+    from pretix_organizers_config o
+    left join pretix_events_config e
+    on e.pretix_organizers_config_id = o.id and e.is_active
+    where o.id = $1
+    group by o.id, o.organizer_url, o.token, o.webhook_secret`,
+    [organizerConfigId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
 /**
  * Fetch the list of Pretix organizers from the database.
  */
@@ -41,3 +71,39 @@ export async function fetchEventConfiguration(
 
   return result.rows;
 }
+
+export async function fetchPretixOrganizerConfig(
+  client: Pool,
+  id: string
+): Promise<PretixOrganizerRow | null> {
+  const result = await sqlQuery(
+    client,
+    `select * from pretix_organizers_config where id = $1`,
+    [id]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+export async function fetchPretixEventConfig(
+  client: Pool,
+  id: string
+): Promise<PretixEventsConfig | null> {
+  const result = await sqlQuery(
+    client,
+    `select * from pretix_events_config where id = $1`,
+    [id]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Fetch the configuration of every Pretix event, including inactive ones.
+ */
+export async function fetchAllPretixEventConfigs(
+  client: Pool
+): Promise<PretixEventsConfig[]> {
+  const result = await sqlQuery(client, `select * from pretix_events_config`);
+  return result.rows;
+}
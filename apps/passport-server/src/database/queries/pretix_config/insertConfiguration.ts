@@ -5,14 +5,16 @@ import { sqlQuery } from "../../sqlQuery";
 export async function insertPretixOrganizerConfig(
   db: Pool,
   organizerUrl: string,
-  token: string
+  token: string,
+  webhookSecret?: string,
+  isActive = true
 ): Promise<string> {
   const id = await sqlQuery(
     db,
-    `insert into pretix_organizers_config(organizer_url, token) ` +
-      `values ($1, $2) ` +
+    `insert into pretix_organizers_config(organizer_url, token, webhook_secret, is_active) ` +
+      `values ($1, $2, $3, $4) ` +
       `returning id`,
-    [organizerUrl, token]
+    [organizerUrl, token, webhookSecret ?? null, isActive]
   );
 
   return id.rows[0].id;
@@ -30,27 +32,86 @@ export async function insertPretixEventConfig(
   organizerConfigId: string,
   activeItemIds: string[],
   superuserItemIds: string[],
-  eventId: string
+  eventId: string,
+  maxTicketTransfers = 0
 ): Promise<string> {
-  const activeItemIdsSet = new Set(activeItemIds);
-  superuserItemIds.forEach((superId) => {
-    if (!activeItemIdsSet.has(superId)) {
-      throw new Error(
-        "super user item id must be included in the active item ids set"
-      );
-    }
-  });
+  checkSuperuserItemIds(activeItemIds, superuserItemIds);
 
   const result = await sqlQuery(
     db,
-    `insert into pretix_events_config(pretix_organizers_config_id, active_item_ids, event_id, superuser_item_ids) ` +
-      `values ($1, $2, $3, $4) returning id`,
+    `insert into pretix_events_config(pretix_organizers_config_id, active_item_ids, event_id, superuser_item_ids, max_ticket_transfers) ` +
+      `values ($1, $2, $3, $4, $5) returning id`,
     [
       organizerConfigId,
       `{${activeItemIds.join(",")}}`,
       eventId,
-      `{${superuserItemIds.join(",")}}`
+      `{${superuserItemIds.join(",")}}`,
+      maxTicketTransfers
     ]
   );
   return result.rows[0].id;
 }
+
+/**
+ * Returns whether an organizer with the given id exists, and was updated.
+ */
+export async function updatePretixOrganizerConfig(
+  db: Pool,
+  id: string,
+  organizerUrl: string,
+  token: string,
+  webhookSecret: string | null,
+  isActive: boolean
+): Promise<boolean> {
+  const result = await sqlQuery(
+    db,
+    `update pretix_organizers_config ` +
+      `set organizer_url = $2, token = $3, webhook_secret = $4, is_active = $5 ` +
+      `where id = $1`,
+    [id, organizerUrl, token, webhookSecret, isActive]
+  );
+  return result.rowCount === 1;
+}
+
+/**
+ * Returns whether an event with the given id exists, and was updated.
+ */
+export async function updatePretixEventConfig(
+  db: Pool,
+  id: string,
+  activeItemIds: string[],
+  superuserItemIds: string[],
+  maxTicketTransfers: number,
+  isActive: boolean
+): Promise<boolean> {
+  checkSuperuserItemIds(activeItemIds, superuserItemIds);
+
+  const result = await sqlQuery(
+    db,
+    `update pretix_events_config ` +
+      `set active_item_ids = $2, superuser_item_ids = $3, max_ticket_transfers = $4, is_active = $5 ` +
+      `where id = $1`,
+    [
+      id,
+      `{${activeItemIds.join(",")}}`,
+      `{${superuserItemIds.join(",")}}`,
+      maxTicketTransfers,
+      isActive
+    ]
+  );
+  return result.rowCount === 1;
+}
+
+function checkSuperuserItemIds(
+  activeItemIds: string[],
+  superuserItemIds: string[]
+): void {
+  const activeItemIdsSet = new Set(activeItemIds);
+  superuserItemIds.forEach((superId) => {
+    if (!activeItemIdsSet.has(superId)) {
+      throw new Error(
+        "super user item id must be included in the active item ids set"
+      );
+    }
+  });
+}
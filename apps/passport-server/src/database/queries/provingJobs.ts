@@ -0,0 +1,314 @@
+import { PendingPCDStatus } from "@pcd/passport-interface";
+import { Pool } from "postgres-pool";
+import { ProvingJob } from "../models";
+import { sqlQuery } from "../sqlQuery";
+
+/**
+ * Inserts a new queued proving job, unless a job with the same hash already
+ * exists. A job that was previously cancelled is put back into the queue.
+ * Returns the job as it is stored in the database.
+ */
+export async function insertProvingJob(
+  client: Pool,
+  params: {
+    hash: string;
+    pcdType: string;
+    request: string;
+  }
+): Promise<ProvingJob> {
+  await sqlQuery(
+    client,
+    `\
+insert into proving_jobs (hash, pcd_type, request, status)
+values ($1, $2, $3, $4)
+on conflict (hash) do update
+set status = $4, attempts = 0, error = null, time_created = now(),
+time_started = null, time_completed = null
+where proving_jobs.status = $5`,
+    [
+      params.hash,
+      params.pcdType,
+      params.request,
+      PendingPCDStatus.QUEUED,
+      PendingPCDStatus.CANCELLED
+    ]
+  );
+
+  const job = await fetchProvingJob(client, params.hash);
+  if (!job) {
+    throw new Error(`failed to save proving job ${params.hash}`);
+  }
+  return job;
+}
+
+/**
+ * Fetches the proving job with the given hash, if it exists.
+ */
+export async function fetchProvingJob(
+  client: Pool,
+  hash: string
+): Promise<ProvingJob | null> {
+  const result = await sqlQuery(
+    client,
+    `select * from proving_jobs where hash = $1`,
+    [hash]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Atomically picks the oldest queued job, marks it as being proven, and
+ * returns it. Returns null if there is nothing to do. Uses `skip locked`
+ * so that multiple workers (or servers) never claim the same job.
+ */
+export async function claimNextProvingJob(
+  client: Pool
+): Promise<ProvingJob | null> {
+  const result = await sqlQuery(
+    client,
+    `\
+update proving_jobs
+set status = $2, attempts = attempts + 1, time_started = now()
+where hash = (
+  select hash from proving_jobs
+  where status = $1
+  order by time_created asc
+  for update skip locked
+  limit 1
+)
+returning *`,
+    [PendingPCDStatus.QUEUED, PendingPCDStatus.PROVING]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Records the successful result of a proving job. Does nothing if the job
+ * was cancelled while it was being proven.
+ */
+export async function completeProvingJob(
+  client: Pool,
+  hash: string,
+  serializedPCD: string
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `\
+update proving_jobs
+set status = $2, serialized_pcd = $3, error = null, time_completed = now()
+where hash = $1 and status = $4`,
+    [hash, PendingPCDStatus.COMPLETE, serializedPCD, PendingPCDStatus.PROVING]
+  );
+}
+
+/**
+ * Records a failed attempt at a proving job. If the job has been attempted
+ * fewer than `maxAttempts` times, it is put back into the queue, otherwise
+ * it is marked as failed. Does nothing if the job was cancelled while it was
+ * being proven.
+ */
+export async function failProvingJob(
+  client: Pool,
+  hash: string,
+  error: string,
+  maxAttempts: number
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `\
+update proving_jobs
+set
+  status = case when attempts < $4 then $2 else $3 end,
+  time_completed = case when attempts < $4 then null else now() end,
+  error = $5
+where hash = $1 and status = $6`,
+    [
+      hash,
+      PendingPCDStatus.QUEUED,
+      PendingPCDStatus.ERROR,
+      maxAttempts,
+      error,
+      PendingPCDStatus.PROVING
+    ]
+  );
+}
+
+/**
+ * Records that someone asked for the proving job with the given hash, so
+ * that they can later cancel it with the given cancel token.
+ */
+export async function insertProvingJobRequest(
+  client: Pool,
+  hash: string,
+  cancelToken: string
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `insert into proving_job_requests (cancel_token, hash) values ($1, $2)`,
+    [cancelToken, hash]
+  );
+}
+
+/**
+ * Withdraws the request made with the given cancel token, and cancels the
+ * job if it is queued or being proven and nobody else still wants it.
+ * Returns the job as it is stored in the database after the cancellation,
+ * or null if it doesn't exist.
+ */
+export async function cancelProvingJob(
+  client: Pool,
+  hash: string,
+  cancelToken: string
+): Promise<ProvingJob | null> {
+  const withdrawn = await sqlQuery(
+    client,
+    `delete from proving_job_requests where hash = $1 and cancel_token = $2`,
+    [hash, cancelToken]
+  );
+
+  if (withdrawn.rowCount > 0) {
+    await sqlQuery(
+      client,
+      `\
+update proving_jobs
+set status = $2, time_completed = now()
+where hash = $1 and status = any($3)
+and not exists (select 1 from proving_job_requests where hash = $1)`,
+      [
+        hash,
+        PendingPCDStatus.CANCELLED,
+        [PendingPCDStatus.QUEUED, PendingPCDStatus.PROVING]
+      ]
+    );
+  }
+
+  return fetchProvingJob(client, hash);
+}
+
+/**
+ * Returns the 1-indexed position of a queued job in the queue.
+ */
+export async function fetchProvingJobQueuePosition(
+  client: Pool,
+  job: ProvingJob
+): Promise<number> {
+  const result = await sqlQuery(
+    client,
+    `\
+select count(*) as count from proving_jobs
+where status = $1 and time_created < $2`,
+    [PendingPCDStatus.QUEUED, job.time_created]
+  );
+
+  return parseInt(result.rows[0].count, 10) + 1;
+}
+
+/**
+ * Puts jobs that started being proven more than `staleAfterMs` milliseconds
+ * ago back into the queue. Jobs that have been proving for that long were
+ * interrupted by a restart or crash of whichever server claimed them, while
+ * more recent ones may still be being proven by another server.
+ */
+export async function requeueInterruptedProvingJobs(
+  client: Pool,
+  staleAfterMs: number
+): Promise<number> {
+  const result = await sqlQuery(
+    client,
+    `\
+update proving_jobs
+set status = $1, time_started = null
+where status = $2
+and time_started < now() - ($3 * interval '1 millisecond')`,
+    [PendingPCDStatus.QUEUED, PendingPCDStatus.PROVING, staleAfterMs]
+  );
+
+  return result.rowCount;
+}
+
+/**
+ * Deletes finished jobs whose results are older than `ttlMs` milliseconds.
+ */
+export async function deleteExpiredProvingJobs(
+  client: Pool,
+  ttlMs: number
+): Promise<number> {
+  const result = await sqlQuery(
+    client,
+    `\
+delete from proving_jobs
+where status = any($1)
+and time_completed < now() - ($2 * interval '1 millisecond')`,
+    [
+      [
+        PendingPCDStatus.COMPLETE,
+        PendingPCDStatus.ERROR,
+        PendingPCDStatus.CANCELLED
+      ],
+      ttlMs
+    ]
+  );
+
+  return result.rowCount;
+}
+
+/**
+ * Records how long a successful proof of the given type took, and deletes
+ * all but the `keep` most recent durations of that type, as older ones are
+ * never looked at again.
+ */
+export async function insertProvingDuration(
+  client: Pool,
+  pcdType: string,
+  durationMs: number,
+  keep: number
+): Promise<void> {
+  await sqlQuery(
+    client,
+    `insert into proving_durations (pcd_type, duration_ms) values ($1, $2)`,
+    [pcdType, Math.round(durationMs)]
+  );
+
+  await sqlQuery(
+    client,
+    `\
+delete from proving_durations
+where pcd_type = $1
+and id < (
+  select min(id) from (
+    select id from proving_durations
+    where pcd_type = $1
+    order by id desc
+    limit $2
+  ) recent
+)`,
+    [pcdType, keep]
+  );
+}
+
+/**
+ * Returns the average duration of the most recent successful proofs of
+ * the given type, or null if there haven't been any yet.
+ */
+export async function fetchAverageProvingDuration(
+  client: Pool,
+  pcdType: string,
+  sampleSize: number
+): Promise<number | null> {
+  const result = await sqlQuery(
+    client,
+    `\
+select avg(duration_ms) as average from (
+  select duration_ms from proving_durations
+  where pcd_type = $1
+  order by id desc
+  limit $2
+) recent`,
+    [pcdType, sampleSize]
+  );
+
+  const average = result.rows[0]?.average;
+  return average == null ? null : parseFloat(average);
+}
@@ -0,0 +1,164 @@
+import {
+  CreatePretixEventRequest,
+  CreatePretixOrganizerRequest,
+  PretixConfigUpdateResponse,
+  PretixSyncDryRunRequest,
+  PretixSyncDryRunResponse,
+  UpdatePretixEventRequest,
+  UpdatePretixOrganizerRequest
+} from "@pcd/passport-interface";
+import express, { NextFunction, Request, Response } from "express";
+import { ApplicationContext, GlobalServices } from "../../types";
+import { logger } from "../../util/logger";
+
+/**
+ * Routes for managing which Pretix organizers and events are synced. Every
+ * request must have an `Authorization: Bearer <ADMIN_API_TOKEN>` header.
+ */
+export function initAdminRoutes(
+  app: express.Application,
+  _context: ApplicationContext,
+  { pretixConfigService, rollbarService }: GlobalServices
+): void {
+  logger("[INIT] initializing admin routes");
+
+  app.use("/admin", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!pretixConfigService) {
+        throw new Error("pretix config service not instantiated");
+      }
+      if (!pretixConfigService.isAdmin(req.headers.authorization)) {
+        res.sendStatus(401);
+        return;
+      }
+      next();
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.get("/admin/pretix/organizers", async (req: Request, res: Response) => {
+    try {
+      if (!pretixConfigService) {
+        throw new Error("pretix config service not instantiated");
+      }
+      const response = await pretixConfigService.handleGetOrganizersRequest();
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post("/admin/pretix/organizers", async (req: Request, res: Response) => {
+    try {
+      if (!pretixConfigService) {
+        throw new Error("pretix config service not instantiated");
+      }
+      const request = req.body as CreatePretixOrganizerRequest;
+      const response = await pretixConfigService.handleCreateOrganizerRequest(
+        request
+      );
+      sendConfigResponse(res, response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.put(
+    "/admin/pretix/organizers/:id",
+    async (req: Request, res: Response) => {
+      try {
+        if (!pretixConfigService) {
+          throw new Error("pretix config service not instantiated");
+        }
+        const request = req.body as UpdatePretixOrganizerRequest;
+        const response = await pretixConfigService.handleUpdateOrganizerRequest(
+          req.params.id,
+          request
+        );
+        sendConfigResponse(res, response);
+      } catch (e) {
+        rollbarService?.reportError(e);
+        logger(e);
+        res.sendStatus(500);
+      }
+    }
+  );
+
+  app.post(
+    "/admin/pretix/organizers/:id/events",
+    async (req: Request, res: Response) => {
+      try {
+        if (!pretixConfigService) {
+          throw new Error("pretix config service not instantiated");
+        }
+        const request = req.body as CreatePretixEventRequest;
+        const response = await pretixConfigService.handleCreateEventRequest(
+          req.params.id,
+          request
+        );
+        sendConfigResponse(res, response);
+      } catch (e) {
+        rollbarService?.reportError(e);
+        logger(e);
+        res.sendStatus(500);
+      }
+    }
+  );
+
+  app.put("/admin/pretix/events/:id", async (req: Request, res: Response) => {
+    try {
+      if (!pretixConfigService) {
+        throw new Error("pretix config service not instantiated");
+      }
+      const request = req.body as UpdatePretixEventRequest;
+      const response = await pretixConfigService.handleUpdateEventRequest(
+        req.params.id,
+        request
+      );
+      sendConfigResponse(res, response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  /**
+   * Fetches from Pretix and reports what a sync would change in the
+   * database, without changing anything.
+   */
+  app.post("/admin/pretix/dry-run", async (req: Request, res: Response) => {
+    try {
+      if (!pretixConfigService) {
+        throw new Error("pretix config service not instantiated");
+      }
+      const request = req.body as PretixSyncDryRunRequest;
+      const response = await pretixConfigService.handleDryRunRequest(request);
+      sendConfigResponse(res, response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+}
+
+function sendConfigResponse(
+  res: Response,
+  response: PretixConfigUpdateResponse | PretixSyncDryRunResponse
+): void {
+  if (response.success) {
+    res.status(200).json(response);
+  } else if (response.error.name === "NotFound") {
+    res.status(404).json(response);
+  } else {
+    res.status(400).json(response);
+  }
+}
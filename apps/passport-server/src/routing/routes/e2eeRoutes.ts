@@ -1,4 +1,10 @@
-import { LoadE2EERequest, SaveE2EERequest } from "@pcd/passport-interface";
+import {
+  LoadE2EEHistoryRequest,
+  LoadE2EERequest,
+  RestoreE2EERequest,
+  RotateE2EEKeyRequest,
+  SaveE2EERequest
+} from "@pcd/passport-interface";
 import express, { Request, Response } from "express";
 import { ApplicationContext, GlobalServices } from "../../types";
 import { logger } from "../../util/logger";
@@ -36,4 +42,59 @@ export function initE2EERoutes(
       res.sendStatus(500);
     }
   });
+
+  app.post("/sync/history", async (req: Request, res: Response) => {
+    try {
+      const request = req.body as LoadE2EEHistoryRequest;
+
+      if (request.blobKey === undefined) {
+        throw new Error("Can't load e2ee history: missing blobKey");
+      }
+
+      await e2eeService.handleLoadHistory(request, res);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post("/sync/restore", async (req: Request, res: Response) => {
+    try {
+      const request = req.body as RestoreE2EERequest;
+
+      if (request.blobKey === undefined || request.revision === undefined) {
+        throw new Error("Can't restore e2ee: missing blobKey or revision");
+      }
+
+      await e2eeService.handleRestore(request, res);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post("/sync/rotate", async (req: Request, res: Response) => {
+    try {
+      const request = req.body as RotateE2EEKeyRequest;
+
+      if (
+        request.oldBlobKey === undefined ||
+        request.rotationProof === undefined ||
+        request.newBlobKey === undefined ||
+        request.newRotationVerifier === undefined ||
+        request.encryptedBlob === undefined ||
+        request.knownRevision === undefined
+      ) {
+        throw new Error("Can't rotate e2ee key: missing parameters");
+      }
+
+      await e2eeService.handleRotateKey(request, res);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
 }
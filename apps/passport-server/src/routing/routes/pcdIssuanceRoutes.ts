@@ -1,7 +1,16 @@
 import {
+  CheckInDashboardEventsRequest,
+  CheckInDashboardRequest,
+  CheckInExportRequest,
+  CheckInHistoryRequest,
   CheckInRequest,
+  CheckInSnapshotRequest,
   CheckTicketRequest,
-  IssuedPCDsRequest
+  IssuedPCDsRequest,
+  PretixSyncReportRequest,
+  ReconcileCheckInsRequest,
+  TransferTicketRequest,
+  UndoCheckInRequest
 } from "@pcd/passport-interface";
 import express, { Request, Response } from "express";
 import { ApplicationContext, GlobalServices } from "../../types";
@@ -10,7 +19,7 @@ import { logger } from "../../util/logger";
 export function initPCDIssuanceRoutes(
   app: express.Application,
   _context: ApplicationContext,
-  { rollbarService, issuanceService }: GlobalServices
+  { rateLimitService, rollbarService, issuanceService }: GlobalServices
 ): void {
   logger("[INIT] initializing PCD issuance routes");
 
@@ -31,6 +40,63 @@ export function initPCDIssuanceRoutes(
     }
   });
 
+  app.get("/issue/public-keys", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+      res.json(issuanceService.getPublicKeys());
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.get("/issue/eddsa-public-key", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const publicKey = issuanceService.getEdDSAPublicKey();
+      if (!publicKey) {
+        res.sendStatus(404);
+        return;
+      }
+      res.json(publicKey);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.get("/issue/challenge", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      // challenges are stored until they're used or expire, so each client
+      // can only be handed so many of them
+      const rateLimitResult = rateLimitService.consumeChallengeToken(
+        req.ip ?? "unknown"
+      );
+      if (!rateLimitResult.allowed) {
+        res.setHeader("Retry-After", rateLimitResult.retryAfterSeconds);
+        res.sendStatus(429);
+        return;
+      }
+
+      res.json(await issuanceService.handleChallengeRequest());
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
   app.post("/issue/", async (req: Request, res: Response) => {
     try {
       if (!issuanceService) {
@@ -47,6 +113,24 @@ export function initPCDIssuanceRoutes(
     }
   });
 
+  app.post("/issue/transfer-ticket", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const request = req.body as TransferTicketRequest;
+      const response = await issuanceService.handleTransferTicketRequest(
+        request
+      );
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
   app.post("/issue/check-ticket", async (req: Request, res: Response) => {
     try {
       if (!issuanceService) {
@@ -78,4 +162,154 @@ export function initPCDIssuanceRoutes(
       res.sendStatus(500);
     }
   });
+
+  app.post("/issue/undo-check-in", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const request = req.body as UndoCheckInRequest;
+      const response = await issuanceService.handleUndoCheckInRequest(request);
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post("/issue/check-in-history", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const request = req.body as CheckInHistoryRequest;
+      const response = await issuanceService.handleCheckInHistoryRequest(
+        request
+      );
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post(
+    "/issue/check-in-dashboard/events",
+    async (req: Request, res: Response) => {
+      try {
+        if (!issuanceService) {
+          throw new Error("issuance service not instantiated");
+        }
+
+        const request = req.body as CheckInDashboardEventsRequest;
+        const response =
+          await issuanceService.handleCheckInDashboardEventsRequest(request);
+        res.status(200).json(response);
+      } catch (e) {
+        rollbarService?.reportError(e);
+        logger(e);
+        res.sendStatus(500);
+      }
+    }
+  );
+
+  app.post("/issue/check-in-dashboard", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const request = req.body as CheckInDashboardRequest;
+      const response = await issuanceService.handleCheckInDashboardRequest(
+        request
+      );
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post(
+    "/issue/check-in-dashboard/export",
+    async (req: Request, res: Response) => {
+      try {
+        if (!issuanceService) {
+          throw new Error("issuance service not instantiated");
+        }
+
+        const request = req.body as CheckInExportRequest;
+        const response = await issuanceService.handleCheckInExportRequest(
+          request
+        );
+        res.status(200).json(response);
+      } catch (e) {
+        rollbarService?.reportError(e);
+        logger(e);
+        res.sendStatus(500);
+      }
+    }
+  );
+
+  app.post("/issue/sync-report", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const request = req.body as PretixSyncReportRequest;
+      const response = await issuanceService.handlePretixSyncReportRequest(
+        request
+      );
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post("/issue/check-in-snapshot", async (req: Request, res: Response) => {
+    try {
+      if (!issuanceService) {
+        throw new Error("issuance service not instantiated");
+      }
+
+      const request = req.body as CheckInSnapshotRequest;
+      const response = await issuanceService.handleCheckInSnapshotRequest(
+        request
+      );
+      res.status(200).json(response);
+    } catch (e) {
+      rollbarService?.reportError(e);
+      logger(e);
+      res.sendStatus(500);
+    }
+  });
+
+  app.post(
+    "/issue/reconcile-check-ins",
+    async (req: Request, res: Response) => {
+      try {
+        if (!issuanceService) {
+          throw new Error("issuance service not instantiated");
+        }
+
+        const request = req.body as ReconcileCheckInsRequest;
+        const response = await issuanceService.handleReconcileCheckInsRequest(
+          request
+        );
+        res.status(200).json(response);
+      } catch (e) {
+        rollbarService?.reportError(e);
+        logger(e);
+        res.sendStatus(500);
+      }
+    }
+  );
 }
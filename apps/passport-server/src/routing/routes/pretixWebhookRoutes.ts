@@ -0,0 +1,45 @@
+import express, { Request, Response } from "express";
+import { DevconnectPretixWebhookNotification } from "../../apis/devconnect/devconnectPretixAPI";
+import { ApplicationContext, GlobalServices } from "../../types";
+import { logger } from "../../util/logger";
+
+/**
+ * Pretix notifies these routes of changes to orders, so that tickets show up
+ * without waiting for the next sync. Each organizer's webhook is set up in
+ * Pretix with the URL `/pretix/webhook?secret=<the organizer's webhook
+ * secret>`. Query strings are left out of the request log, so the secret
+ * doesn't end up in it.
+ */
+export function initPretixWebhookRoutes(
+  app: express.Application,
+  _context: ApplicationContext,
+  { devconnectPretixSyncService, rollbarService }: GlobalServices
+): void {
+  logger("[INIT] initializing pretix webhook routes");
+
+  app.post("/pretix/webhook", async (req: Request, res: Response) => {
+    try {
+      if (!devconnectPretixSyncService) {
+        throw new Error("devconnect pretix sync service not instantiated");
+      }
+
+      const secret = req.query.secret;
+      if (typeof secret !== "string" || secret === "") {
+        res.sendStatus(401);
+        return;
+      }
+
+      const notification = req.body as DevconnectPretixWebhookNotification;
+      const authorized = await devconnectPretixSyncService.handleWebhook(
+        secret,
+        notification
+      );
+      res.sendStatus(authorized ? 200 : 401);
+    } catch (e) {
+      // responding with an error makes Pretix retry the notification later
+      logger(e);
+      rollbarService?.reportError(e);
+      res.sendStatus(500);
+    }
+  });
+}
@@ -1,8 +1,12 @@
 import {
+  CancelRequest,
+  CancelResponse,
+  hashProveRequest,
   PendingPCD,
+  PendingPCDStatus,
   ProveRequest,
   StatusRequest,
-  StatusResponse,
+  StatusResponse
 } from "@pcd/passport-interface";
 import express, { Request, Response } from "express";
 import { ApplicationContext, GlobalServices } from "../../types";
@@ -11,7 +15,7 @@ import { logger } from "../../util/logger";
 export function initProvingRoutes(
   app: express.Application,
   _context: ApplicationContext,
-  { provingService, rollbarService }: GlobalServices
+  { provingService, rateLimitService, rollbarService }: GlobalServices
 ): void {
   logger("[INIT] initializing proving routes");
 
@@ -19,6 +23,23 @@ export function initProvingRoutes(
     logger("/pcds/prove received:", req.body);
     const request = req.body as ProveRequest;
     try {
+      const rateLimitResult = rateLimitService.consumeProvingTokens(
+        req.ip ?? "unknown",
+        req.headers.origin ?? "unknown",
+        request.pcdType
+      );
+      if (!rateLimitResult.allowed) {
+        const rateLimited: PendingPCD = {
+          status: PendingPCDStatus.RATE_LIMITED,
+          pcdType: request.pcdType,
+          hash: hashProveRequest(request),
+          retryAfterSeconds: rateLimitResult.retryAfterSeconds
+        };
+        res.setHeader("Retry-After", rateLimitResult.retryAfterSeconds);
+        res.status(429).json(rateLimited);
+        return;
+      }
+
       const pending: PendingPCD = await provingService.enqueueProofRequest(
         request
       );
@@ -43,9 +64,8 @@ export function initProvingRoutes(
   app.post("/pcds/status", async (req: Request, res: Response) => {
     const statusRequest = req.body as StatusRequest;
     try {
-      const statusResponse: StatusResponse = provingService.getPendingPCDStatus(
-        statusRequest.hash
-      );
+      const statusResponse: StatusResponse =
+        await provingService.getPendingPCDStatus(statusRequest.hash);
       res.json(statusResponse);
     } catch (e) {
       logger("/pcds/status error:", e);
@@ -53,4 +73,20 @@ export function initProvingRoutes(
       res.sendStatus(500);
     }
   });
+
+  app.post("/pcds/cancel", async (req: Request, res: Response) => {
+    const cancelRequest = req.body as CancelRequest;
+    try {
+      const cancelResponse: CancelResponse =
+        await provingService.cancelPendingPCD(
+          cancelRequest.hash,
+          cancelRequest.cancelToken
+        );
+      res.json(cancelResponse);
+    } catch (e) {
+      logger("/pcds/cancel error:", e);
+      rollbarService?.reportError(e);
+      res.sendStatus(500);
+    }
+  });
 }
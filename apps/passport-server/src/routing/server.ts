@@ -7,10 +7,12 @@ import { ApplicationContext, GlobalServices } from "../types";
 import { IS_PROD } from "../util/isProd";
 import { logger } from "../util/logger";
 import { tracingMiddleware } from "./middlewares/tracingMiddleware";
+import { initAdminRoutes } from "./routes/adminRoutes";
 import { initE2EERoutes } from "./routes/e2eeRoutes";
 import { initHealthcheckRoutes } from "./routes/healthCheckRoutes";
 import { initPCDIssuanceRoutes } from "./routes/pcdIssuanceRoutes";
 import { initPCDPassRoutes } from "./routes/pcdpassRoutes";
+import { initPretixWebhookRoutes } from "./routes/pretixWebhookRoutes";
 import { initProvingRoutes } from "./routes/provingRoutes";
 import { initSemaphoreRoutes } from "./routes/semaphoreRoutes";
 import { initStaticRoutes } from "./routes/staticRoutes";
@@ -26,8 +28,24 @@ export async function startServer(
       const port = IS_PROD ? process.env.PORT : 3002;
       const app = express();
 
+      if (IS_PROD) {
+        // the server is deployed behind a reverse proxy, whose address would
+        // otherwise be reported as `req.ip` for every request
+        app.set("trust proxy", 1);
+      }
+
       if (process.env.SUPPRESS_LOGGING !== "true") {
-        app.use(morgan("tiny"));
+        // like morgan's "tiny" format, but without query strings, which can
+        // carry secrets such as the one Pretix webhooks are authorized with
+        morgan.token<express.Request>(
+          "path",
+          (req) => req.originalUrl.split("?")[0]
+        );
+        app.use(
+          morgan(
+            ":method :path :status :res[content-length] - :response-time ms"
+          )
+        );
       }
 
       app.use(
@@ -53,7 +71,7 @@ export async function startServer(
           res: express.Response,
           _next: NextFunction
         ) => {
-          logger(`[ERROR] ${req.method} ${req.url}`);
+          logger(`[ERROR] ${req.method} ${req.path}`);
           logger(err.stack);
           globalServices.rollbarService?.reportError(err);
           res.status(500).send(err.message);
@@ -87,4 +105,6 @@ function initAllRoutes(
   initProvingRoutes(app, context, globalServices);
   initStaticRoutes(app, context);
   initPCDIssuanceRoutes(app, context, globalServices);
+  initPretixWebhookRoutes(app, context, globalServices);
+  initAdminRoutes(app, context, globalServices);
 }
@@ -5,8 +5,10 @@ import { startEmailService } from "./services/emailService";
 import { startEmailTokenService } from "./services/emailTokenService";
 import { startIssuanceService } from "./services/issuanceService";
 import { startMetricsService } from "./services/metricsService";
+import { startPretixConfigService } from "./services/pretixConfigService";
 import { startPretixSyncService } from "./services/pretixSyncService";
 import { startProvingService } from "./services/provingService";
+import { startRateLimitService } from "./services/rateLimitService";
 import { startRollbarService } from "./services/rollbarService";
 import { startSemaphoreService } from "./services/semaphoreService";
 import { startTelemetry } from "./services/telemetryService";
@@ -20,7 +22,8 @@ export async function startServices(
   await startTelemetry(context);
   const discordService = await startDiscordService();
   const rollbarService = startRollbarService();
-  const provingService = await startProvingService(rollbarService);
+  const provingService = await startProvingService(context, rollbarService);
+  const rateLimitService = startRateLimitService();
   const emailService = startEmailService(
     context,
     rollbarService,
@@ -38,6 +41,8 @@ export async function startServices(
     context,
     rollbarService,
     semaphoreService,
+    discordService,
+    emailService,
     apis.devconnectPretixAPI
   );
   const userService = startUserService(
@@ -50,6 +55,10 @@ export async function startServices(
   const e2eeService = startE2EEService(context, rollbarService);
   const metricsService = startMetricsService(context, rollbarService);
   const issuanceService = startIssuanceService(context);
+  const pretixConfigService = startPretixConfigService(
+    context,
+    devconnectPretixSyncService
+  );
   const services: GlobalServices = {
     semaphoreService,
     userService,
@@ -57,17 +66,20 @@ export async function startServices(
     emailTokenService,
     rollbarService,
     provingService,
+    rateLimitService,
     pretixSyncService,
     devconnectPretixSyncService,
     metricsService,
     issuanceService,
-    discordService
+    discordService,
+    pretixConfigService
   };
   return services;
 }
 
 export async function stopServices(services: GlobalServices): Promise<void> {
-  services.provingService.stop();
+  await services.provingService.stop();
+  services.rateLimitService.stop();
   services.semaphoreService.stop();
   services.pretixSyncService?.stop();
   services.metricsService.stop();
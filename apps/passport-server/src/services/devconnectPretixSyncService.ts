@@ -1,9 +1,16 @@
+import {
+  PretixSyncDryRunChanges,
+  PretixSyncDryRunEventReport,
+  PretixSyncDryRunOrganizerReport
+} from "@pcd/passport-interface";
+import _ from "lodash";
 import { Pool } from "postgres-pool";
 import {
   DevconnectPretixEvent,
   DevconnectPretixEventSettings,
   DevconnectPretixItem,
   DevconnectPretixOrder,
+  DevconnectPretixWebhookNotification,
   IDevconnectPretixAPI,
   getI18nString
 } from "../apis/devconnect/devconnectPretixAPI";
@@ -13,11 +20,24 @@ import {
   DevconnectPretixOrganizerConfig,
   getDevconnectPretixConfig
 } from "../apis/devconnect/organizer";
-import { DevconnectPretixTicket, PretixItemInfo } from "../database/models";
-import { fetchDevconnectPretixTicketsByEvent } from "../database/queries/devconnect_pretix_tickets/fetchDevconnectPretixTicket";
+import {
+  DevconnectPretixSyncCursor,
+  DevconnectPretixTicket,
+  DevconnectPretixTicketDB,
+  PretixEventInfo,
+  PretixItemInfo
+} from "../database/models";
+import {
+  fetchDevconnectPretixTicketsByEvent,
+  fetchDevconnectPretixTicketsByPositionIds,
+  fetchDevconnectSuperusersForEvent
+} from "../database/queries/devconnect_pretix_tickets/fetchDevconnectPretixTicket";
 import { insertDevconnectPretixTicket } from "../database/queries/devconnect_pretix_tickets/insertDevconnectPretixTicket";
 import { softDeleteDevconnectPretixTicket } from "../database/queries/devconnect_pretix_tickets/softDeleteDevconnectPretixTicket";
-import { updateDevconnectPretixTicket } from "../database/queries/devconnect_pretix_tickets/updateDevconnectPretixTicket";
+import {
+  consumeDevconnectPretixTicket,
+  updateDevconnectPretixTicket
+} from "../database/queries/devconnect_pretix_tickets/updateDevconnectPretixTicket";
 import {
   fetchPretixEventInfo,
   insertPretixEventsInfo,
@@ -29,21 +49,63 @@ import {
   softDeletePretixItemInfo,
   updatePretixItemsInfo
 } from "../database/queries/pretixItemInfo";
+import {
+  fetchDevconnectPretixSyncCursor,
+  upsertDevconnectPretixSyncCursor
+} from "../database/queries/pretixSyncCursors";
+import {
+  fetchDevconnectPretixSyncReport,
+  upsertDevconnectPretixSyncReport
+} from "../database/queries/pretixSyncReports";
 import { ApplicationContext } from "../types";
 import { pretixTicketsDifferent } from "../util/devconnectTicket";
 import { logger } from "../util/logger";
+import {
+  getPretixItemValidity,
+  itemInfoToValidity
+} from "../util/ticketValidity";
+import { secretsEqual } from "../util/util";
+import { DiscordService } from "./discordService";
+import { EmailService } from "./emailService";
 import { RollbarService } from "./rollbarService";
 import { SemaphoreService } from "./semaphoreService";
 import { setError, traced } from "./telemetryService";
 
 const NAME = "Devconnect Pretix";
 
+// recorded as the checker of tickets that were checked in on Pretix
+const PRETIX_CHECKER = "pretix";
+
 // Collection of API data for a single event
 interface EventData {
   settings: DevconnectPretixEventSettings;
   eventInfo: DevconnectPretixEvent;
   items: DevconnectPretixItem[];
+  // every order of the event if `isFullSync`, otherwise only the orders
+  // that were modified since the last sync
   tickets: DevconnectPretixOrder[];
+  isFullSync: boolean;
+  // where the sync leaves off once the data is saved
+  cursor: DevconnectPretixSyncCursor;
+}
+
+// How an event's item infos have to change to match Pretix
+interface ItemInfosDiff {
+  existingItemsInfo: PretixItemInfo[];
+  itemsToInsert: DevconnectPretixItem[];
+  itemsToUpdate: Array<{ oldItem: PretixItemInfo; item: DevconnectPretixItem }>;
+  itemsToRemove: PretixItemInfo[];
+}
+
+// How an event's tickets have to change to match Pretix
+interface TicketsDiff {
+  existingTickets: DevconnectPretixTicketDB[];
+  newTickets: DevconnectPretixTicket[];
+  updatedTickets: Array<{
+    oldTicket: DevconnectPretixTicketDB;
+    ticket: DevconnectPretixTicket;
+  }>;
+  removedTickets: DevconnectPretixTicketDB[];
 }
 
 /**
@@ -51,13 +113,28 @@ interface EventData {
  */
 export class DevconnectPretixSyncService {
   private static readonly SYNC_INTERVAL_MS = 1000 * 60;
+  /**
+   * How often to sync once every organizer has a webhook set up. Webhooks
+   * keep tickets up to date, so syncing only catches whatever they missed.
+   */
+  private static readonly RECONCILIATION_INTERVAL_MS = 1000 * 60 * 10;
+  /**
+   * How often to fetch all of an event's orders, rather than only the ones
+   * that were modified since the last sync. Pretix doesn't report orders
+   * that were deleted, so their tickets are only removed by a full sync.
+   */
+  private static readonly FULL_SYNC_INTERVAL_MS = 1000 * 60 * 60;
 
   private pretixAPI: IDevconnectPretixAPI;
   private rollbarService: RollbarService | null;
   private semaphoreService: SemaphoreService;
+  private discordService: DiscordService | null;
+  private emailService: EmailService | null;
   private db: Pool;
   private timeout: NodeJS.Timeout | undefined;
   private _hasCompletedSyncSinceStarting: boolean;
+  private webhooksEnabled: boolean;
+  private fullSyncRequested: boolean;
 
   public get hasCompletedSyncSinceStarting(): boolean {
     return this._hasCompletedSyncSinceStarting;
@@ -67,13 +144,19 @@ export class DevconnectPretixSyncService {
     context: ApplicationContext,
     pretixAPI: IDevconnectPretixAPI,
     rollbarService: RollbarService | null,
-    semaphoreService: SemaphoreService
+    semaphoreService: SemaphoreService,
+    discordService: DiscordService | null,
+    emailService: EmailService | null
   ) {
     this.db = context.dbPool;
     this.rollbarService = rollbarService;
     this.semaphoreService = semaphoreService;
+    this.discordService = discordService;
+    this.emailService = emailService;
     this.pretixAPI = pretixAPI;
     this._hasCompletedSyncSinceStarting = false;
+    this.webhooksEnabled = false;
+    this.fullSyncRequested = false;
   }
 
   public replaceApi(newAPI: IDevconnectPretixAPI): void {
@@ -85,6 +168,8 @@ export class DevconnectPretixSyncService {
 
     this.pretixAPI = newAPI;
     this._hasCompletedSyncSinceStarting = false;
+    // the cursors of the previous API don't apply to the new one
+    this.fullSyncRequested = true;
 
     if (wasRunning) {
       this.startSyncLoop();
@@ -98,7 +183,9 @@ export class DevconnectPretixSyncService {
       await this.trySync();
       this.timeout = setTimeout(
         () => trySync(),
-        DevconnectPretixSyncService.SYNC_INTERVAL_MS
+        this.webhooksEnabled
+          ? DevconnectPretixSyncService.RECONCILIATION_INTERVAL_MS
+          : DevconnectPretixSyncService.SYNC_INTERVAL_MS
       );
     };
 
@@ -114,8 +201,13 @@ export class DevconnectPretixSyncService {
         throw new Error("Pretix Config could not be loaded");
       }
 
+      this.webhooksEnabled =
+        devconnectPretixConfig.organizers.length > 0 &&
+        devconnectPretixConfig.organizers.every((o) => !!o.webhookSecret);
+
       logger("[DEVCONNECT PRETIX] Sync start");
       await this.sync(devconnectPretixConfig);
+      this.fullSyncRequested = false;
       await this.semaphoreService.reload();
       this._hasCompletedSyncSinceStarting = true;
       logger("[DEVCONNECT PRETIX] Sync successful");
@@ -131,6 +223,201 @@ export class DevconnectPretixSyncService {
     }
   }
 
+  /**
+   * Applies a notification from an organizer's Pretix webhook, so that the
+   * order it is about is up to date without waiting for the next sync.
+   * Returns false if the secret isn't the webhook secret of any organizer.
+   */
+  public async handleWebhook(
+    secret: string,
+    notification: DevconnectPretixWebhookNotification
+  ): Promise<boolean> {
+    return traced(NAME, "handleWebhook", async (span) => {
+      span?.setAttribute("action", notification.action);
+      span?.setAttribute("event_slug", notification.event);
+      span?.setAttribute("order_code", notification.code);
+
+      const devconnectPretixConfig = await getDevconnectPretixConfig(this.db);
+      if (!devconnectPretixConfig) {
+        throw new Error("Pretix Config could not be loaded");
+      }
+
+      const organizer = devconnectPretixConfig.organizers.find(
+        (o) => o.webhookSecret && secretsEqual(o.webhookSecret, secret)
+      );
+      if (!organizer) {
+        return false;
+      }
+      span?.setAttribute("org_url", organizer.orgURL);
+
+      const isOrderNotification =
+        notification.action.startsWith("pretix.event.order.") ||
+        notification.action.startsWith("pretix.event.checkin");
+      const event = organizer.events.find(
+        (e) => e.eventID === notification.event
+      );
+      if (!isOrderNotification || !event) {
+        logger(
+          `[DEVCONNECT PRETIX] Ignoring webhook notification ${notification.action} for ${organizer.orgURL} and ${notification.event}`
+        );
+        return true;
+      }
+
+      logger(
+        `[DEVCONNECT PRETIX] [${organizer.orgURL}::${event.eventID}] Received ${notification.action} for order ${notification.code}`
+      );
+      const order = await this.pretixAPI.fetchOrder(
+        organizer.orgURL,
+        organizer.token,
+        event.eventID,
+        notification.code
+      );
+      await this.syncOrders(organizer, event, [order]);
+      await this.semaphoreService.reload();
+
+      return true;
+    });
+  }
+
+  /**
+   * Fetch the given organizers' events from Pretix, and work out what a full
+   * sync of them would insert, update and soft-delete, without changing
+   * anything. Unlike a sync, this carries on past problems with an
+   * organizer's events, so that all of them show up at once.
+   */
+  public async dryRun(
+    organizers: DevconnectPretixOrganizerConfig[]
+  ): Promise<PretixSyncDryRunOrganizerReport[]> {
+    return traced(NAME, "dryRun", async (span) => {
+      span?.setAttribute("organizers_count", organizers.length);
+
+      const reports: PretixSyncDryRunOrganizerReport[] = [];
+      for (const organizer of organizers) {
+        reports.push(await this.dryRunOrganizer(organizer));
+      }
+      return reports;
+    });
+  }
+
+  private async dryRunOrganizer(
+    organizer: DevconnectPretixOrganizerConfig
+  ): Promise<PretixSyncDryRunOrganizerReport> {
+    return traced(NAME, "dryRunOrganizer", async (span) => {
+      span?.setAttribute("org_url", organizer.orgURL);
+      span?.setAttribute("events_count", organizer.events.length);
+
+      const report: PretixSyncDryRunOrganizerReport = {
+        organizerConfigId: organizer.id,
+        orgUrl: organizer.orgURL,
+        events: []
+      };
+
+      try {
+        for (const event of organizer.events) {
+          const eventData = await this.fetchEventData(organizer, event, true);
+          report.events.push(await this.dryRunEvent(event, eventData));
+        }
+      } catch (e) {
+        logger(
+          `[DEVCONNECT PRETIX] Dry run failed for organizer ${organizer.id}`,
+          e
+        );
+        setError(e, span);
+        report.error = `${e}`;
+      }
+
+      return report;
+    });
+  }
+
+  /**
+   * Works out what `syncEvent` would do with the given data, by going
+   * through the same steps without saving anything.
+   */
+  private async dryRunEvent(
+    event: DevconnectPretixEventConfig,
+    eventData: EventData
+  ): Promise<PretixSyncDryRunEventReport> {
+    const { eventInfo, items, tickets } = eventData;
+    const eventNameFromAPI = eventInfo.name.en;
+
+    const existingEventInfo = await fetchPretixEventInfo(this.db, event.id);
+    const eventInfoInserts = existingEventInfo
+      ? []
+      : [{ pretix_events_config_id: event.id, event_name: eventNameFromAPI }];
+    const eventInfoUpdates =
+      existingEventInfo && existingEventInfo.event_name !== eventNameFromAPI
+        ? [
+            {
+              before: existingEventInfo,
+              after: { ...existingEventInfo, event_name: eventNameFromAPI }
+            }
+          ]
+        : [];
+
+    const report: PretixSyncDryRunEventReport = {
+      eventConfigId: event.id,
+      eventId: event.eventID,
+      eventName: getI18nString(eventInfo.name),
+      problems: this.checkEventData(eventData, event),
+      eventInfo: dryRunChanges(eventInfoInserts, eventInfoUpdates, [])
+    };
+
+    let itemsDiff: ItemInfosDiff;
+    try {
+      itemsDiff = await this.diffItemInfos(event, existingEventInfo, items);
+    } catch (e) {
+      // the real sync stops at the same point
+      report.problems.push(e instanceof Error ? e.message : `${e}`);
+      return report;
+    }
+
+    // New items don't have ids until they're inserted, so tickets for them
+    // refer to placeholders instead.
+    const newItemsInfo: PretixItemInfo[] = itemsDiff.itemsToInsert.map(
+      (item) => {
+        const validity = getPretixItemValidity(item);
+        return {
+          id: `(new item ${item.id})`,
+          item_id: item.id.toString(),
+          devconnect_pretix_events_info_id: existingEventInfo?.id ?? "",
+          item_name: getI18nString(item.name),
+          valid_date_ranges: validity.dateRanges,
+          max_entries_per_day: validity.maxEntriesPerDay ?? null,
+          entry_windows: validity.entryWindows
+        };
+      }
+    );
+    report.items = dryRunChanges(
+      newItemsInfo,
+      itemsDiff.itemsToUpdate.map(({ oldItem, item }) => ({
+        before: oldItem,
+        after: {
+          ...oldItem,
+          item_name: getI18nString(item.name),
+          validity: getPretixItemValidity(item)
+        }
+      })),
+      itemsDiff.itemsToRemove
+    );
+
+    const ticketsDiff = await this.diffTickets(
+      event,
+      [...itemsDiff.existingItemsInfo, ...newItemsInfo],
+      tickets
+    );
+    report.tickets = dryRunChanges(
+      ticketsDiff.newTickets,
+      ticketsDiff.updatedTickets.map(({ oldTicket, ticket }) => ({
+        before: oldTicket,
+        after: ticket
+      })),
+      ticketsDiff.removedTickets
+    );
+
+    return report;
+  }
+
   /**
    * Download Pretix state, and apply a diff to our state so that it
    * reflects the state in Pretix.
@@ -148,7 +435,7 @@ export class DevconnectPretixSyncService {
       }
 
       try {
-        const results = await Promise.all(organizerSyncPromises);
+        await Promise.all(organizerSyncPromises);
       } catch (e) {
         logger(
           "[DEVCONNECT PRETIX] Failed to save tickets for one or more events",
@@ -159,6 +446,7 @@ export class DevconnectPretixSyncService {
       }
 
       const syncEnd = Date.now();
+      span?.setAttribute("duration_ms", syncEnd - syncStart);
 
       logger(
         `[DEVCONNECT PRETIX] Sync end. Completed in ${Math.floor(
@@ -262,15 +550,34 @@ export class DevconnectPretixSyncService {
 
   /**
    * Fetch all of the API responses from Pretix necessary to sync an event,
-   * so that we can inspect them before beginning a sync.
+   * so that we can inspect them before beginning a sync. Only the orders
+   * modified since the last sync are fetched, unless it's time for a full
+   * sync of the event.
    */
   private async fetchEventData(
     organizer: DevconnectPretixOrganizerConfig,
-    event: DevconnectPretixEventConfig
+    event: DevconnectPretixEventConfig,
+    forceFullSync = false
   ): Promise<EventData> {
-    return traced(NAME, "fetchEventData", async () => {
+    return traced(NAME, "fetchEventData", async (span) => {
       const { orgURL, token } = organizer;
-      const { eventID } = event;
+      const { eventID, activeItemIDs } = event;
+
+      const fetchStart = new Date();
+      const previousCursor = await fetchDevconnectPretixSyncCursor(
+        this.db,
+        event.id
+      );
+      const isFullSync =
+        forceFullSync ||
+        this.fullSyncRequested ||
+        !previousCursor ||
+        fetchStart.getTime() - previousCursor.last_full_sync.getTime() >
+          DevconnectPretixSyncService.FULL_SYNC_INTERVAL_MS ||
+        !_.isEqual(
+          _.sortBy(previousCursor.active_item_ids),
+          _.sortBy(activeItemIDs)
+        );
 
       const settings = await this.pretixAPI.fetchEventSettings(
         orgURL,
@@ -282,9 +589,31 @@ export class DevconnectPretixSyncService {
 
       const eventInfo = await this.pretixAPI.fetchEvent(orgURL, token, eventID);
 
-      const tickets = await this.pretixAPI.fetchOrders(orgURL, token, eventID);
+      const tickets = await this.pretixAPI.fetchOrders(
+        orgURL,
+        token,
+        eventID,
+        isFullSync
+          ? undefined
+          : previousCursor.orders_modified_since ?? undefined
+      );
 
-      return { settings, items, eventInfo, tickets };
+      const cursor: DevconnectPretixSyncCursor = {
+        pretix_events_config_id: event.id,
+        orders_modified_since:
+          _.max(tickets.map((t) => new Date(t.last_modified))) ??
+          (isFullSync ? null : previousCursor.orders_modified_since),
+        last_full_sync: isFullSync ? fetchStart : previousCursor.last_full_sync,
+        active_item_ids: activeItemIDs
+      };
+
+      span?.setAttribute("org_url", orgURL);
+      span?.setAttribute("event_slug", eventID);
+      span?.setAttribute("is_full_sync", isFullSync);
+      span?.setAttribute("orders_fetched", tickets.length);
+      span?.setAttribute("duration_ms", Date.now() - fetchStart.getTime());
+
+      return { settings, items, eventInfo, tickets, isFullSync, cursor };
     });
   }
 
@@ -332,7 +661,9 @@ export class DevconnectPretixSyncService {
 
         // Find errors in any of the event data
         for (const { data, event } of allEventData) {
-          errors.push(...this.checkEventData(data, event));
+          const eventErrors = this.checkEventData(data, event);
+          await this.saveSyncReport(organizer, event, data, eventErrors);
+          errors.push(...eventErrors);
         }
 
         if (errors.length > 0) {
@@ -361,11 +692,76 @@ export class DevconnectPretixSyncService {
     });
   }
 
+  /**
+   * Saves the problems found with an event's data, so that the event's
+   * superusers can look them up. Problems that weren't found by the previous
+   * sync are also sent to Discord and emailed to the event's superusers.
+   */
+  private async saveSyncReport(
+    organizer: DevconnectPretixOrganizerConfig,
+    event: DevconnectPretixEventConfig,
+    eventData: EventData,
+    problems: string[]
+  ): Promise<void> {
+    return traced(NAME, "saveSyncReport", async (span) => {
+      span?.setAttribute("org_url", organizer.orgURL);
+      span?.setAttribute("event_slug", event.eventID);
+      span?.setAttribute("problems_count", problems.length);
+
+      const previousReport = await fetchDevconnectPretixSyncReport(
+        this.db,
+        event.id
+      );
+      await upsertDevconnectPretixSyncReport(this.db, event.id, problems);
+
+      const newProblems = problems.filter(
+        (p) => !previousReport?.problems.includes(p)
+      );
+      span?.setAttribute("new_problems_count", newProblems.length);
+      if (newProblems.length === 0) {
+        return;
+      }
+
+      const eventName = getI18nString(eventData.eventInfo.name);
+      logger(
+        `[DEVCONNECT PRETIX] [${organizer.orgURL}::${eventName}] Found ${newProblems.length} new problems`
+      );
+      this.discordService?.sendAlert(
+        `Pretix sync of \`${eventName}\` (${organizer.orgURL}) found new problems:\n` +
+          newProblems.join("\n")
+      );
+
+      if (!this.emailService) {
+        return;
+      }
+      const superusers = await fetchDevconnectSuperusersForEvent(
+        this.db,
+        event.id
+      );
+      for (const email of _.uniq(superusers.map((s) => s.email))) {
+        try {
+          await this.emailService.sendPretixSyncReportEmail(
+            email,
+            eventName,
+            newProblems
+          );
+        } catch (e) {
+          // the problems are still saved, so this shouldn't stop the sync
+          logger(
+            `[DEVCONNECT PRETIX] Couldn't email sync problems to ${email}`,
+            e
+          );
+        }
+      }
+    });
+  }
+
   /**
    * Sync a single event.
    * This coordinates the syncing of event info, items, and tickets to the DB.
    * No actual fetching from Pretix happens here, as the data was already
-   * fetched when checking for validity.
+   * fetched when checking for validity. Once the tickets are saved, the
+   * event's cursor is saved, so that the next sync carries on from there.
    */
   private async syncEvent(
     organizer: DevconnectPretixOrganizerConfig,
@@ -374,10 +770,12 @@ export class DevconnectPretixSyncService {
   ): Promise<void> {
     return traced("Devconnect Sync", "syncEvent", async (span) => {
       try {
-        const { eventInfo, items, tickets } = eventData;
+        const { eventInfo, items, tickets, isFullSync, cursor } = eventData;
+        const syncStart = Date.now();
 
         span?.setAttribute("org_url", organizer.orgURL);
         span?.setAttribute("ticket_count", tickets.length);
+        span?.setAttribute("is_full_sync", isFullSync);
         span?.setAttribute("event_slug", eventInfo.slug);
         span?.setAttribute("event_name", eventInfo.name.en);
 
@@ -395,10 +793,15 @@ export class DevconnectPretixSyncService {
           return;
         }
 
-        if (!(await this.syncTickets(organizer, event, tickets))) {
+        if (!isFullSync) {
+          await this.syncOrders(organizer, event, tickets);
+        } else if (!(await this.syncTickets(organizer, event, tickets))) {
           logger(`[DEVCONNECT PRETIX] Error updating tickets`);
           return;
         }
+
+        await upsertDevconnectPretixSyncCursor(this.db, cursor);
+        span?.setAttribute("duration_ms", Date.now() - syncStart);
       } catch (e) {
         logger("[DEVCONNECT PRETIX] Sync aborted due to errors", e);
         setError(e, span);
@@ -478,7 +881,7 @@ export class DevconnectPretixSyncService {
       );
 
       const { orgURL } = organizer;
-      const { eventID, activeItemIDs, id: eventConfigID } = event;
+      const { eventID, id: eventConfigID } = event;
 
       try {
         const eventInfo = await fetchPretixEventInfo(this.db, eventConfigID);
@@ -491,34 +894,8 @@ export class DevconnectPretixSyncService {
 
         span?.setAttribute("event_name", eventInfo?.event_name);
 
-        const newItemIDsSet = new Set(itemsFromAPI.map((i) => i.id.toString()));
-        const activeItemIDsSet = new Set(activeItemIDs);
-        // Ensure all configured "active items" exist under the Pretix event's returned items.
-        // If any do not exist under active items, log an error and stop syncing.
-        if (activeItemIDs.some((i) => !newItemIDsSet.has(i))) {
-          throw new Error(
-            `One or more of event's active items no longer exist on Pretix.\n` +
-              `old event set: ${activeItemIDs.join(",")}\n` +
-              `new event set: ${Array.from(newItemIDsSet).join(",")}\n`
-          );
-        }
-        const newActiveItems = itemsFromAPI.filter((i) =>
-          activeItemIDsSet.has(i.id.toString())
-        );
-
-        const newActiveItemsByItemID = new Map(
-          newActiveItems.map((i) => [i.id.toString(), i])
-        );
-        const existingItemsInfo = await fetchPretixItemsInfoByEvent(
-          this.db,
-          eventInfo.id
-        );
-        const existingItemsInfoByItemID = new Map(
-          existingItemsInfo.map((i) => [i.item_id, i])
-        );
-        const itemsToInsert = newActiveItems.filter(
-          (i) => !existingItemsInfoByItemID.has(i.id.toString())
-        );
+        const { itemsToInsert, itemsToUpdate, itemsToRemove } =
+          await this.diffItemInfos(event, eventInfo, itemsFromAPI);
 
         // Step 1 of saving: insert items that are new
         logger(
@@ -534,26 +911,17 @@ export class DevconnectPretixSyncService {
             this.db,
             item.id.toString(),
             eventInfo.id,
-            getI18nString(item.name)
+            getI18nString(item.name),
+            getPretixItemValidity(item)
           );
         }
         span?.setAttribute("items_inserted", itemsToInsert.length);
 
         // Step 2 of saving: update items that have changed
-        // Filter to items that existed before, and filter to those that have changed.
-        const itemsToUpdate = newActiveItems
-          .filter((i) => existingItemsInfoByItemID.has(i.id.toString()))
-          .filter((i) => {
-            const oldItem = existingItemsInfoByItemID.get(i.id.toString())!;
-            return oldItem.item_name !== getI18nString(i.name);
-          });
-
-        // For the active item that have changed, update them in the database.
         logger(
           `[DEVCONNECT PRETIX] [${organizer.orgURL}::${eventInfo.event_name}] Updating ${itemsToUpdate.length} item infos`
         );
-        for (const item of itemsToUpdate) {
-          const oldItem = existingItemsInfoByItemID.get(item.id.toString())!;
+        for (const { oldItem, item } of itemsToUpdate) {
           logger(
             `[DEVCONNECT PRETIX] [${organizer.orgURL}::${
               eventInfo.event_name
@@ -561,22 +929,21 @@ export class DevconnectPretixSyncService {
               oldItem
             )} to ${JSON.stringify({
               ...oldItem,
-              item_name: getI18nString(item.name)
+              item_name: getI18nString(item.name),
+              validity: getPretixItemValidity(item)
             })}`
           );
           await updatePretixItemsInfo(
             this.db,
             oldItem.id,
             getI18nString(item.name),
-            false
+            false,
+            getPretixItemValidity(item)
           );
         }
         span?.setAttribute("items_updated", itemsToUpdate.length);
 
         // Step 3 of saving: remove items that are not active anymore
-        const itemsToRemove = existingItemsInfo.filter(
-          (existing) => !newActiveItemsByItemID.has(existing.item_id)
-        );
         logger(
           `[DEVCONNECT PRETIX] [${organizer.orgURL}::${eventInfo.event_name}]  Deleting ${itemsToRemove.length} item infos`
         );
@@ -603,6 +970,68 @@ export class DevconnectPretixSyncService {
     });
   }
 
+  /**
+   * Work out which of an event's item infos have to be inserted, updated and
+   * soft-deleted so that they match the event's active items on Pretix,
+   * without changing anything. Throws if any of the event's active items no
+   * longer exist on Pretix.
+   */
+  private async diffItemInfos(
+    event: DevconnectPretixEventConfig,
+    eventInfo: PretixEventInfo | null,
+    itemsFromAPI: DevconnectPretixItem[]
+  ): Promise<ItemInfosDiff> {
+    const { activeItemIDs } = event;
+
+    const newItemIDsSet = new Set(itemsFromAPI.map((i) => i.id.toString()));
+    const activeItemIDsSet = new Set(activeItemIDs);
+    // Ensure all configured "active items" exist under the Pretix event's returned items.
+    // If any do not exist under active items, log an error and stop syncing.
+    if (activeItemIDs.some((i) => !newItemIDsSet.has(i))) {
+      throw new Error(
+        `One or more of event's active items no longer exist on Pretix.\n` +
+          `old event set: ${activeItemIDs.join(",")}\n` +
+          `new event set: ${Array.from(newItemIDsSet).join(",")}\n`
+      );
+    }
+    const newActiveItems = itemsFromAPI.filter((i) =>
+      activeItemIDsSet.has(i.id.toString())
+    );
+
+    const newActiveItemsByItemID = new Map(
+      newActiveItems.map((i) => [i.id.toString(), i])
+    );
+    // an event that was never synced has no items yet
+    const existingItemsInfo = eventInfo
+      ? await fetchPretixItemsInfoByEvent(this.db, eventInfo.id)
+      : [];
+    const existingItemsInfoByItemID = new Map(
+      existingItemsInfo.map((i) => [i.item_id, i])
+    );
+    const itemsToInsert = newActiveItems.filter(
+      (i) => !existingItemsInfoByItemID.has(i.id.toString())
+    );
+
+    // Filter to items that existed before, and filter to those that have changed.
+    const itemsToUpdate = newActiveItems
+      .filter((i) => existingItemsInfoByItemID.has(i.id.toString()))
+      .map((i) => ({
+        oldItem: existingItemsInfoByItemID.get(i.id.toString())!,
+        item: i
+      }))
+      .filter(
+        ({ oldItem, item }) =>
+          oldItem.item_name !== getI18nString(item.name) ||
+          !_.isEqual(itemInfoToValidity(oldItem), getPretixItemValidity(item))
+      );
+
+    const itemsToRemove = existingItemsInfo.filter(
+      (existing) => !newActiveItemsByItemID.has(existing.item_id)
+    );
+
+    return { existingItemsInfo, itemsToInsert, itemsToUpdate, itemsToRemove };
+  }
+
   /**
    * Sync and update data for Pretix tickets under event.
    * Returns whether update was successful.
@@ -635,24 +1064,8 @@ export class DevconnectPretixSyncService {
           eventInfo.id
         );
 
-        const ticketsFromPretix = this.ordersToDevconnectTickets(
-          pretixOrders,
-          updatedItemsInfo
-        );
-
-        const newTicketsByPositionId = new Map(
-          ticketsFromPretix.map((t) => [t.position_id, t])
-        );
-        const existingTickets = await fetchDevconnectPretixTicketsByEvent(
-          this.db,
-          eventConfigID
-        );
-        const existingTicketsByPositionId = new Map(
-          existingTickets.map((t) => [t.position_id, t])
-        );
-        const newTickets = ticketsFromPretix.filter(
-          (t) => !existingTicketsByPositionId.has(t.position_id)
-        );
+        const { existingTickets, newTickets, updatedTickets, removedTickets } =
+          await this.diffTickets(event, updatedItemsInfo, pretixOrders);
 
         // Step 1 of saving: insert tickets that are new
         logger(
@@ -668,37 +1081,21 @@ export class DevconnectPretixSyncService {
         }
 
         // Step 2 of saving: update tickets that have changed
-        // Filter to tickets that existed before, and filter to those that have changed.
-        const updatedTickets = ticketsFromPretix
-          .filter((t) => existingTicketsByPositionId.has(t.position_id))
-          .filter((t) => {
-            const oldTicket = existingTicketsByPositionId.get(t.position_id)!;
-            const newTicket = t;
-            return pretixTicketsDifferent(oldTicket, newTicket);
-          });
-
-        // For the tickets that have changed, update them in the database.
         logger(
           `[DEVCONNECT PRETIX] [${organizer.orgURL}::${eventInfo.event_name}] Updating ${updatedTickets.length} tickets`
         );
-        for (const updatedTicket of updatedTickets) {
-          const oldTicket = existingTicketsByPositionId.get(
-            updatedTicket.position_id
-          );
+        for (const { oldTicket, ticket } of updatedTickets) {
           logger(
             `[DEVCONNECT PRETIX] [${organizer.orgURL}::${
               eventInfo.event_name
             }] Updating ticket ${JSON.stringify(oldTicket)} to ${JSON.stringify(
-              updatedTicket
+              ticket
             )}`
           );
-          await updateDevconnectPretixTicket(this.db, updatedTicket);
+          await updateDevconnectPretixTicket(this.db, ticket);
         }
 
         // Step 3 of saving: soft delete tickets that don't exist anymore
-        const removedTickets = existingTickets.filter(
-          (existing) => !newTicketsByPositionId.has(existing.position_id)
-        );
         logger(
           `[DEVCONNECT PRETIX] [${organizer.orgURL}::${eventInfo.event_name}] Deleting ${removedTickets.length} tickets`
         );
@@ -731,6 +1128,162 @@ export class DevconnectPretixSyncService {
     });
   }
 
+  /**
+   * Work out which of an event's tickets have to be inserted, updated and
+   * soft-deleted so that they match every order of the event on Pretix,
+   * without changing anything.
+   */
+  private async diffTickets(
+    event: DevconnectPretixEventConfig,
+    itemsInfo: PretixItemInfo[],
+    pretixOrders: DevconnectPretixOrder[]
+  ): Promise<TicketsDiff> {
+    const ticketsFromPretix = this.ordersToDevconnectTickets(
+      pretixOrders,
+      itemsInfo
+    );
+
+    const newTicketsByPositionId = new Map(
+      ticketsFromPretix.map((t) => [t.position_id, t])
+    );
+    const existingTickets = await fetchDevconnectPretixTicketsByEvent(
+      this.db,
+      event.id
+    );
+    const existingTicketsByPositionId = new Map(
+      existingTickets.map((t) => [t.position_id, t])
+    );
+    const newTickets = ticketsFromPretix.filter(
+      (t) => !existingTicketsByPositionId.has(t.position_id)
+    );
+
+    // Filter to tickets that existed before, and filter to those that have changed.
+    const updatedTickets = ticketsFromPretix
+      .filter((t) => existingTicketsByPositionId.has(t.position_id))
+      .map((t) => ({
+        oldTicket: existingTicketsByPositionId.get(t.position_id)!,
+        ticket: t
+      }))
+      .filter(({ oldTicket, ticket }) =>
+        pretixTicketsDifferent(oldTicket, ticket)
+      );
+
+    const removedTickets = existingTickets.filter(
+      (existing) => !newTicketsByPositionId.has(existing.position_id)
+    );
+
+    return { existingTickets, newTickets, updatedTickets, removedTickets };
+  }
+
+  /**
+   * Sync the tickets of the given orders, along with their check-ins on
+   * Pretix. Unlike `syncTickets`, this only touches the orders' tickets, so
+   * it can be done without fetching every order of the event. That also
+   * means that tickets of orders deleted on Pretix aren't removed.
+   */
+  private async syncOrders(
+    organizer: DevconnectPretixOrganizerConfig,
+    event: DevconnectPretixEventConfig,
+    orders: DevconnectPretixOrder[]
+  ): Promise<void> {
+    return traced(NAME, "syncOrders", async (span) => {
+      span?.setAttribute("org_url", organizer.orgURL);
+      span?.setAttribute("event_slug", event.eventID);
+      span?.setAttribute("orders_count", orders.length);
+
+      const eventInfo = await fetchPretixEventInfo(this.db, event.id);
+      if (!eventInfo) {
+        // the event will be picked up by the next sync, along with the order
+        throw new Error(
+          `Couldn't find an event info matching event config id ${event.id}`
+        );
+      }
+
+      const itemsInfo = await fetchPretixItemsInfoByEvent(
+        this.db,
+        eventInfo.id
+      );
+      const ticketsFromPretix = this.ordersToDevconnectTickets(
+        orders,
+        itemsInfo
+      );
+      const positions = orders.flatMap((o) => o.positions);
+      const newTicketsByPositionId = new Map(
+        ticketsFromPretix.map((t) => [t.position_id, t])
+      );
+      const existingTickets = await fetchDevconnectPretixTicketsByPositionIds(
+        this.db,
+        positions.map((p) => p.id.toString())
+      );
+      const existingTicketsByPositionId = new Map(
+        existingTickets.map((t) => [t.position_id, t])
+      );
+
+      for (const ticket of ticketsFromPretix) {
+        const oldTicket = existingTicketsByPositionId.get(ticket.position_id);
+        if (!oldTicket) {
+          logger(
+            `[DEVCONNECT PRETIX] [${organizer.orgURL}::${
+              eventInfo.event_name
+            }] Inserting ticket ${JSON.stringify(ticket)}`
+          );
+          await insertDevconnectPretixTicket(this.db, ticket);
+        } else if (pretixTicketsDifferent(oldTicket, ticket)) {
+          logger(
+            `[DEVCONNECT PRETIX] [${organizer.orgURL}::${
+              eventInfo.event_name
+            }] Updating ticket ${JSON.stringify(oldTicket)} to ${JSON.stringify(
+              ticket
+            )}`
+          );
+          await updateDevconnectPretixTicket(this.db, ticket);
+        }
+      }
+
+      // tickets of positions that were canceled, or of orders that are no
+      // longer paid for
+      const removedTickets = existingTickets.filter(
+        (existing) => !newTicketsByPositionId.has(existing.position_id)
+      );
+      for (const removedTicket of removedTickets) {
+        logger(
+          `[DEVCONNECT PRETIX] [${organizer.orgURL}::${
+            eventInfo.event_name
+          }] Deleting ticket ${JSON.stringify(removedTicket)}`
+        );
+        await softDeleteDevconnectPretixTicket(this.db, removedTicket);
+      }
+
+      // tickets that were checked in on Pretix can't be checked in again
+      const ticketsToConsume = await fetchDevconnectPretixTicketsByPositionIds(
+        this.db,
+        positions
+          .filter((p) => p.checkins && p.checkins.length > 0)
+          .map((p) => p.id.toString())
+      );
+      for (const ticket of ticketsToConsume.filter((t) => !t.is_consumed)) {
+        const position = positions.find(
+          (p) => p.id.toString() === ticket.position_id
+        );
+        const checkinTimestamp = _.max(
+          position?.checkins?.map((c) => new Date(c.datetime))
+        );
+        logger(
+          `[DEVCONNECT PRETIX] [${organizer.orgURL}::${eventInfo.event_name}] Checking in ticket ${ticket.id}, which was checked in on Pretix`
+        );
+        await consumeDevconnectPretixTicket(
+          this.db,
+          ticket.id,
+          PRETIX_CHECKER,
+          checkinTimestamp
+        );
+      }
+
+      span?.setAttribute("ticketsUpserted", ticketsFromPretix.length);
+      span?.setAttribute("ticketsDeleted", removedTickets.length);
+    });
+  }
+
   /**
    * Converts a given list of orders to tickets, and sets
    * all of their roles to equal the given role. When `subEvents`
@@ -760,10 +1313,11 @@ export class DevconnectPretixSyncService {
         item,
         attendee_name,
         attendee_email,
-        secret
+        secret,
+        canceled
       } of order.positions) {
         const existingItem = itemsInfoByItemID.get(item.toString());
-        if (existingItem) {
+        if (existingItem && !canceled) {
           // Try getting email from response to question; otherwise, default to email of purchaser
           if (!attendee_email) {
             logger(
@@ -793,6 +1347,24 @@ export class DevconnectPretixSyncService {
   }
 }
 
+// How many of each kind of change a dry run includes in its report
+const DRY_RUN_SAMPLE_SIZE = 5;
+
+function dryRunChanges(
+  inserts: object[],
+  updates: Array<{ before: object; after: object }>,
+  deletes: object[]
+): PretixSyncDryRunChanges {
+  return {
+    insertCount: inserts.length,
+    updateCount: updates.length,
+    deleteCount: deletes.length,
+    sampleInserts: inserts.slice(0, DRY_RUN_SAMPLE_SIZE),
+    sampleUpdates: updates.slice(0, DRY_RUN_SAMPLE_SIZE),
+    sampleDeletes: deletes.slice(0, DRY_RUN_SAMPLE_SIZE)
+  };
+}
+
 /**
  * Kick off a period sync from Pretix into PCDPassport
  */
@@ -800,6 +1372,8 @@ export async function startDevconnectPretixSyncService(
   context: ApplicationContext,
   rollbarService: RollbarService | null,
   semaphoreService: SemaphoreService,
+  discordService: DiscordService | null,
+  emailService: EmailService | null,
   devconnectPretixAPI: IDevconnectPretixAPI | null
 ): Promise<DevconnectPretixSyncService | null> {
   if (context.isZuzalu) {
@@ -818,7 +1392,9 @@ export async function startDevconnectPretixSyncService(
     context,
     devconnectPretixAPI,
     rollbarService,
-    semaphoreService
+    semaphoreService,
+    discordService,
+    emailService
   );
 
   pretixSyncService.startSyncLoop();
@@ -1,15 +1,32 @@
+import { getHash } from "@pcd/passport-crypto";
 import {
+  LoadE2EEHistoryRequest,
+  LoadE2EEHistoryResponse,
   LoadE2EERequest,
   LoadE2EEResponse,
+  RestoreE2EERequest,
+  RestoreE2EEResponse,
+  RotateE2EEKeyRequest,
+  RotateE2EEKeyResponse,
+  SaveE2EEConflictResponse,
   SaveE2EERequest,
+  SaveE2EEResponse,
 } from "@pcd/passport-interface";
 import { Response } from "express";
+import { EncryptedStorageModel } from "../database/models";
 import {
+  deleteOldEncryptedStorageRevisions,
   fetchEncryptedStorage,
+  fetchEncryptedStorageHistory,
+  fetchEncryptedStorageRevision,
   insertEncryptedStorage,
+  isBlobKeyRotated,
+  rotateEncryptedStorage,
+  updateEncryptedStorage,
 } from "../database/queries/e2ee";
 import { ApplicationContext } from "../types";
 import { logger } from "../util/logger";
+import { secretsEqual } from "../util/util";
 import { RollbarService } from "./rollbarService";
 
 /**
@@ -17,6 +34,12 @@ import { RollbarService } from "./rollbarService";
  * backups of users' PCDs.
  */
 export class E2EEService {
+  /**
+   * How many of the most recent revisions of each user's storage are kept
+   * for them to roll back to.
+   */
+  private static readonly HISTORY_LENGTH = 20;
+
   private context: ApplicationContext;
   private rollbarService: RollbarService | null;
 
@@ -40,6 +63,12 @@ export class E2EEService {
       );
 
       if (!storageModel) {
+        if (await isBlobKeyRotated(this.context.dbPool, request.blobKey)) {
+          logger(`can't load e2ee: rotated sync key ${request.blobKey}`);
+          res.sendStatus(410);
+          return;
+        }
+
         logger(`can't load e2ee: never saved sync key ${request.blobKey}`);
         res.sendStatus(404);
         return;
@@ -47,6 +76,7 @@ export class E2EEService {
 
       const result: LoadE2EEResponse = {
         encryptedStorage: JSON.parse(storageModel.encrypted_blob),
+        revision: storageModel.revision,
       };
 
       res.json(result);
@@ -62,21 +92,252 @@ export class E2EEService {
     res: Response
   ): Promise<void> {
     try {
-      logger(`[E2EE] Saving ${request.blobKey}`);
+      logger(
+        `[E2EE] Saving ${request.blobKey} (known revision ${request.knownRevision})`
+      );
+
+      // clients which don't send the revision they know haven't seen any
+      // changes made since, so they may only save if nothing is stored yet
+      const revision = await this.save(
+        request.blobKey,
+        request.encryptedBlob,
+        request.knownRevision ?? 0,
+        request.rotationVerifier,
+        res
+      );
+
+      if (revision !== undefined) {
+        const result: SaveE2EEResponse = { revision };
+        res.json(result);
+      }
+    } catch (e) {
+      logger(e);
+      this.rollbarService?.reportError(e);
+      res.sendStatus(500);
+    }
+  }
 
-      await insertEncryptedStorage(
+  public async handleLoadHistory(
+    request: LoadE2EEHistoryRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      logger(`[E2EE] Loading history of ${request.blobKey}`);
+      const history = await fetchEncryptedStorageHistory(
         this.context.dbPool,
+        request.blobKey
+      );
+
+      const result: LoadE2EEHistoryResponse = {
+        revisions: history.map((revision) => ({
+          revision: revision.revision,
+          timeCreated: revision.time_created.toISOString(),
+        })),
+      };
+
+      res.json(result);
+    } catch (e) {
+      logger(e);
+      this.rollbarService?.reportError(e);
+      res.sendStatus(500);
+    }
+  }
+
+  public async handleRestore(
+    request: RestoreE2EERequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      logger(
+        `[E2EE] Restoring revision ${request.revision} of ${request.blobKey}`
+      );
+      const restored = await fetchEncryptedStorageRevision(
+        this.context.dbPool,
+        request.blobKey,
+        request.revision
+      );
+
+      if (!restored) {
+        logger(
+          `can't restore e2ee: no revision ${request.revision} of ${request.blobKey}`
+        );
+        res.sendStatus(404);
+        return;
+      }
+
+      const revision = await this.save(
         request.blobKey,
-        request.encryptedBlob
+        restored.encrypted_blob,
+        request.knownRevision,
+        undefined,
+        res
+      );
+
+      if (revision !== undefined) {
+        const result: RestoreE2EEResponse = {
+          revision,
+          encryptedStorage: JSON.parse(restored.encrypted_blob),
+        };
+        res.json(result);
+      }
+    } catch (e) {
+      logger(e);
+      this.rollbarService?.reportError(e);
+      res.sendStatus(500);
+    }
+  }
+
+  public async handleRotateKey(
+    request: RotateE2EEKeyRequest,
+    res: Response
+  ): Promise<void> {
+    try {
+      logger(
+        `[E2EE] Rotating ${request.oldBlobKey} to ${request.newBlobKey} ` +
+          `(known revision ${request.knownRevision})`
       );
 
-      res.sendStatus(200);
+      const storageModel = await fetchEncryptedStorage(
+        this.context.dbPool,
+        request.oldBlobKey
+      );
+      if (
+        storageModel &&
+        !(await this.isRotationProven(request, storageModel))
+      ) {
+        logger(
+          `can't rotate e2ee: wrong rotation proof for ${request.oldBlobKey}`
+        );
+        res.sendStatus(403);
+        return;
+      }
+
+      const revision = await rotateEncryptedStorage(
+        this.context.dbPool,
+        request.oldBlobKey,
+        request.newBlobKey,
+        request.encryptedBlob,
+        request.knownRevision,
+        request.newRotationVerifier
+      );
+
+      if (revision === undefined) {
+        await this.respondWithConflict(
+          request.oldBlobKey,
+          request.knownRevision,
+          res
+        );
+        return;
+      }
+
+      const result: RotateE2EEKeyResponse = { revision };
+      res.json(result);
     } catch (e) {
       logger(e);
       this.rollbarService?.reportError(e);
       res.sendStatus(500);
     }
   }
+
+  /**
+   * Returns whether the request to rotate the given storage proves knowledge
+   * of its encryption key. Storage saved before rotation verifiers were kept
+   * has none, in which case the encryption key itself has to be given.
+   */
+  private async isRotationProven(
+    request: RotateE2EEKeyRequest,
+    storageModel: EncryptedStorageModel
+  ): Promise<boolean> {
+    if (storageModel.rotation_verifier) {
+      return secretsEqual(
+        await getHash(request.rotationProof),
+        storageModel.rotation_verifier
+      );
+    }
+
+    return (
+      request.oldEncryptionKey !== undefined &&
+      secretsEqual(await getHash(request.oldEncryptionKey), request.oldBlobKey)
+    );
+  }
+
+  /**
+   * Saves a new revision of the storage at the given sync key, along with
+   * its rotation verifier if nothing was stored at it yet, and prunes its
+   * history. If `knownRevision` is out of date, responds with a 409 and
+   * returns undefined, and if the sync key was rotated, responds with a 410
+   * and returns undefined. Otherwise returns the new revision without
+   * responding. If `knownRevision` is undefined, whatever is stored is
+   * overwritten.
+   */
+  private async save(
+    blobKey: string,
+    encryptedBlob: string,
+    knownRevision: number | undefined,
+    rotationVerifier: string | undefined,
+    res: Response
+  ): Promise<number | undefined> {
+    if (await isBlobKeyRotated(this.context.dbPool, blobKey)) {
+      logger(`[E2EE] Can't save rotated sync key ${blobKey}`);
+      res.sendStatus(410);
+      return undefined;
+    }
+
+    const revision =
+      knownRevision === undefined
+        ? await insertEncryptedStorage(
+            this.context.dbPool,
+            blobKey,
+            encryptedBlob,
+            rotationVerifier
+          )
+        : await updateEncryptedStorage(
+            this.context.dbPool,
+            blobKey,
+            encryptedBlob,
+            knownRevision,
+            rotationVerifier
+          );
+
+    if (revision === undefined) {
+      await this.respondWithConflict(blobKey, knownRevision, res);
+      return undefined;
+    }
+
+    await deleteOldEncryptedStorageRevisions(
+      this.context.dbPool,
+      blobKey,
+      E2EEService.HISTORY_LENGTH
+    );
+
+    return revision;
+  }
+
+  /**
+   * Responds to a request whose `knownRevision` is out of date with the
+   * storage that is currently saved at the sync key.
+   */
+  private async respondWithConflict(
+    blobKey: string,
+    knownRevision: number | undefined,
+    res: Response
+  ): Promise<void> {
+    const storageModel = await fetchEncryptedStorage(
+      this.context.dbPool,
+      blobKey
+    );
+    logger(
+      `[E2EE] Conflict saving ${blobKey}: known revision ` +
+        `${knownRevision}, stored revision ${storageModel?.revision}`
+    );
+    const conflict: SaveE2EEConflictResponse = {
+      revision: storageModel?.revision ?? 0,
+      encryptedStorage: storageModel
+        ? JSON.parse(storageModel.encrypted_blob)
+        : undefined,
+    };
+    res.status(409).json(conflict);
+  }
 }
 
 export function startE2EEService(
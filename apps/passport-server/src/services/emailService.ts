@@ -1,4 +1,5 @@
 import { readFile } from "fs/promises";
+import _ from "lodash";
 import * as path from "path";
 import { IEmailAPI } from "../apis/emailAPI";
 import { ApplicationContext } from "../types";
@@ -76,6 +77,46 @@ export class EmailService {
     };
   }
 
+  private async composePretixSyncReportEmail(
+    eventName: string,
+    problems: string[]
+  ): Promise<{ text: string; html: string }> {
+    const textTemplate = (
+      await readFile(
+        path.join(
+          this.context.resourcesDir,
+          "email/pretix-sync-report/email.txt"
+        )
+      )
+    ).toString();
+    const htmlTemplate = (
+      await readFile(
+        path.join(
+          this.context.resourcesDir,
+          "email/pretix-sync-report/email.html"
+        )
+      )
+    ).toString();
+
+    const text = textTemplate
+      .replace("{{eventName}}", eventName)
+      .replace("{{problems}}", problems.join("\n\n"));
+
+    const html = htmlTemplate
+      .replace("{{eventName}}", _.escape(eventName))
+      .replace(
+        "{{problems}}",
+        problems
+          .map((p) => `<li>${_.escape(p).replace(/\n/g, "<br />")}</li>`)
+          .join("\n")
+      );
+
+    return {
+      text,
+      html,
+    };
+  }
+
   public async sendPretixEmail(
     to: string,
     name: string,
@@ -128,6 +169,38 @@ export class EmailService {
       }
     });
   }
+
+  /**
+   * Lets a superuser of an event know about new problems with the event's
+   * setup on Pretix, which stop its tickets from being synced.
+   */
+  public async sendPretixSyncReportEmail(
+    to: string,
+    eventName: string,
+    problems: string[]
+  ): Promise<void> {
+    return traced("Email", "sendPretixSyncReportEmail", async (span) => {
+      span?.setAttribute("email", to);
+
+      const msg = {
+        to: to,
+        from: "passport@0xparc.org",
+        subject: `Problems syncing ${eventName} from Pretix`,
+        ...(await this.composePretixSyncReportEmail(eventName, problems)),
+      };
+
+      try {
+        if (!this.emailAPI) {
+          throw new Error("[EMAIL] no email client");
+        }
+        await this.emailAPI.send(msg);
+      } catch (e) {
+        logger(e);
+        this.rollbarService?.reportError(e);
+        throw new Error(`Email send error, failed to email ${to}`, {cause: e});
+      }
+    });
+  }
 }
 
 export function startEmailService(
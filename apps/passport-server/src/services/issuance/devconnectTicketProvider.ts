@@ -0,0 +1,183 @@
+import { getHash } from "@pcd/passport-crypto";
+import { ArgumentTypeName, SerializedPCD } from "@pcd/pcd-types";
+import { RSAPCDPackage } from "@pcd/rsa-pcd";
+import {
+  ITicketData,
+  RSATicketPCD,
+  RSATicketPCDPackage
+} from "@pcd/rsa-ticket-pcd";
+import {
+  EdDSATicketPCD,
+  EdDSATicketPCDPackage,
+  ITicketData as IZKTicketData
+} from "@pcd/zk-ticket-pcd";
+import { CommitmentRow } from "../../database/models";
+import { fetchDevconnectPretixTicketsByEmail } from "../../database/queries/devconnect_pretix_tickets/fetchDevconnectPretixTicket";
+import { ApplicationContext } from "../../types";
+import { itemInfoToValidity } from "../../util/ticketValidity";
+import { IssuanceKeys, IssuanceProvider } from "./issuanceProvider";
+
+/**
+ * Issues a ticket PCD for each of the Devconnect Pretix tickets held by
+ * the user, both as an RSA ticket PCD and, if an EdDSA key is configured,
+ * as a ticket PCD that its holder can make zero-knowledge proofs about.
+ */
+export class DevconnectTicketProvider implements IssuanceProvider {
+  public readonly name = "devconnect-tickets";
+  public readonly folder = "Devconnect";
+
+  private readonly context: ApplicationContext;
+
+  public constructor(context: ApplicationContext) {
+    this.context = context;
+  }
+
+  public async issuePCDs(
+    user: CommitmentRow,
+    keys: IssuanceKeys
+  ): Promise<SerializedPCD[]> {
+    const { rsaTickets, eddsaTickets } = await this.issueTicketPCDs(user, keys);
+
+    return [
+      ...(await Promise.all(
+        rsaTickets.map((pcd) => RSATicketPCDPackage.serialize(pcd))
+      )),
+      ...(await Promise.all(
+        eddsaTickets.map((pcd) => EdDSATicketPCDPackage.serialize(pcd))
+      ))
+    ];
+  }
+
+  private async ticketDataToTicketPCD(
+    ticketData: ITicketData,
+    rsaPrivateKey: string
+  ): Promise<RSATicketPCD> {
+    const serializedTicketData = JSON.stringify(ticketData);
+    const stableId = await getHash("issued-ticket-" + ticketData.ticketId);
+
+    const rsaPcd = await RSAPCDPackage.prove({
+      privateKey: {
+        argumentType: ArgumentTypeName.String,
+        value: rsaPrivateKey
+      },
+      signedMessage: {
+        argumentType: ArgumentTypeName.String,
+        value: serializedTicketData
+      },
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: undefined
+      }
+    });
+
+    const rsaTicketPCD = await RSATicketPCDPackage.prove({
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: stableId
+      },
+      rsaPCD: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await RSAPCDPackage.serialize(rsaPcd)
+      }
+    });
+
+    return rsaTicketPCD;
+  }
+
+  private async ticketDataToEdDSATicketPCD(
+    ticketData: IZKTicketData,
+    eddsaPrivateKey: string
+  ): Promise<EdDSATicketPCD> {
+    const stableId = await getHash(
+      "issued-eddsa-ticket-" + ticketData.ticketId
+    );
+
+    return EdDSATicketPCDPackage.prove({
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: stableId
+      },
+      privateKey: {
+        argumentType: ArgumentTypeName.String,
+        value: eddsaPrivateKey
+      },
+      ticket: {
+        argumentType: ArgumentTypeName.Object,
+        value: ticketData
+      }
+    });
+  }
+
+  /**
+   * Fetch all DevconnectPretixTicket entities under a given user's email.
+   */
+  private async issueTicketPCDs(
+    user: CommitmentRow,
+    keys: IssuanceKeys
+  ): Promise<{ rsaTickets: RSATicketPCD[]; eddsaTickets: EdDSATicketPCD[] }> {
+    const email = user.email;
+
+    if (email == null) {
+      return { rsaTickets: [], eddsaTickets: [] };
+    }
+
+    const ticketsDB = await fetchDevconnectPretixTicketsByEmail(
+      this.context.dbPool,
+      email
+    );
+
+    const rsaTickets = await Promise.all(
+      ticketsDB
+        // convert to ITicketData
+        .map(
+          (t) =>
+            ({
+              ticketId: t.id.toString(),
+              eventName: t.event_name,
+              ticketName: t.item_name,
+              timestamp: Date.now(),
+              attendeeEmail: email,
+              attendeeName: t.full_name,
+              isConsumed: t.is_consumed,
+              isRevoked: t.is_deleted,
+              eventConfigId: t.pretix_events_config_id,
+              validity: itemInfoToValidity(t)
+            }) satisfies ITicketData
+        )
+        // convert to serialized ticket PCD
+        .map((ticketData) =>
+          this.ticketDataToTicketPCD(ticketData, keys.rsaPrivateKey)
+        )
+    );
+
+    const eddsaPrivateKey = keys.eddsaPrivateKey;
+    if (eddsaPrivateKey == null) {
+      return { rsaTickets, eddsaTickets: [] };
+    }
+
+    const eddsaTickets = await Promise.all(
+      ticketsDB
+        .map(
+          (t) =>
+            ({
+              ticketId: t.id.toString(),
+              eventId: t.pretix_events_config_id,
+              productId: t.devconnect_pretix_items_info_id,
+              eventName: t.event_name,
+              ticketName: t.item_name,
+              attendeeName: t.full_name,
+              attendeeEmail: email,
+              attendeeSemaphoreId: user.commitment,
+              isConsumed: t.is_consumed,
+              isRevoked: t.is_deleted,
+              timestampSigned: Date.now()
+            }) satisfies IZKTicketData
+        )
+        .map((ticketData) =>
+          this.ticketDataToEdDSATicketPCD(ticketData, eddsaPrivateKey)
+        )
+    );
+
+    return { rsaTickets, eddsaTickets };
+  }
+}
@@ -0,0 +1,58 @@
+import { EmailPCDPackage, getEmailClaimMessage } from "@pcd/email-pcd";
+import { getHash } from "@pcd/passport-crypto";
+import { ArgumentTypeName, SerializedPCD } from "@pcd/pcd-types";
+import { RSAPCDPackage } from "@pcd/rsa-pcd";
+import { CommitmentRow } from "../../database/models";
+import { IssuanceKeys, IssuanceProvider } from "./issuanceProvider";
+
+/**
+ * Issues a PCD attesting that the user's semaphore identity controls the
+ * email address they verified when they logged in, which they can show to
+ * other sites without those having to call the server.
+ */
+export class EmailProvider implements IssuanceProvider {
+  public readonly name = "email";
+  public readonly folder = "Email";
+
+  public async issuePCDs(
+    user: CommitmentRow,
+    keys: IssuanceKeys
+  ): Promise<SerializedPCD[]> {
+    const message = getEmailClaimMessage({
+      emailAddress: user.email,
+      semaphoreId: user.commitment,
+      timestamp: Date.now()
+    });
+    const stableId = await getHash(
+      "issued-email-" + user.email + "-" + user.commitment
+    );
+
+    const rsaPcd = await RSAPCDPackage.prove({
+      privateKey: {
+        argumentType: ArgumentTypeName.String,
+        value: keys.rsaPrivateKey
+      },
+      signedMessage: {
+        argumentType: ArgumentTypeName.String,
+        value: message
+      },
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: undefined
+      }
+    });
+
+    const emailPCD = await EmailPCDPackage.prove({
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: stableId
+      },
+      rsaPCD: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await RSAPCDPackage.serialize(rsaPcd)
+      }
+    });
+
+    return [await EmailPCDPackage.serialize(emailPCD)];
+  }
+}
@@ -0,0 +1,31 @@
+import { SerializedPCD } from "@pcd/pcd-types";
+import { CommitmentRow } from "../../database/models";
+
+/**
+ * The keys that issued PCDs are signed with.
+ */
+export interface IssuanceKeys {
+  /**
+   * The PEM-encoded RSA private key that is currently active in the keyring.
+   */
+  rsaPrivateKey: string;
+
+  /**
+   * The hex-encoded EdDSA private key, if one is configured.
+   */
+  eddsaPrivateKey: string | null;
+}
+
+/**
+ * Issues some kind of PCD to users who have proven which user they are.
+ * Every provider issues into a single folder, whose contents the client
+ * replaces with whatever is issued into it every time it syncs.
+ */
+export interface IssuanceProvider {
+  /**
+   * Identifies the provider in logs.
+   */
+  name: string;
+  folder: string;
+  issuePCDs(user: CommitmentRow, keys: IssuanceKeys): Promise<SerializedPCD[]>;
+}
@@ -1,19 +1,43 @@
-import { getHash } from "@pcd/passport-crypto";
 import {
+  CheckInDashboardEventsRequest,
+  CheckInDashboardEventsResponse,
+  CheckInDashboardRequest,
+  CheckInDashboardResponse,
+  CheckInExportRequest,
+  CheckInExportResponse,
+  CheckInHistoryRequest,
+  CheckInHistoryResponse,
   CheckInRequest,
   CheckInResponse,
+  CheckInSnapshot,
+  CheckInSnapshotRequest,
+  CheckInSnapshotResponse,
   CheckTicketRequest,
   CheckTicketResponse,
+  getTicketTransferMessage,
+  IssuanceChallengeResponse,
   ISSUANCE_STRING,
+  IssuedPCDFolder,
   IssuedPCDsRequest,
-  IssuedPCDsResponse
+  IssuedPCDsResponse,
+  OfflineCheckIn,
+  parseChallengeMessage,
+  PretixSyncReportRequest,
+  PretixSyncReportResponse,
+  ReconcileCheckInsRequest,
+  ReconcileCheckInsResponse,
+  ReconciledCheckIn,
+  ServerPublicKeysResponse,
+  TicketError,
+  TransferTicketRequest,
+  TransferTicketResponse,
+  UndoCheckInRequest,
+  UndoCheckInResponse
 } from "@pcd/passport-interface";
-import { ArgumentTypeName, SerializedPCD } from "@pcd/pcd-types";
-import { RSAPCDPackage } from "@pcd/rsa-pcd";
+import { SerializedPCD } from "@pcd/pcd-types";
 import {
   getPublicKey,
   getTicketData,
-  ITicketData,
   RSATicketPCD,
   RSATicketPCDPackage
 } from "@pcd/rsa-ticket-pcd";
@@ -21,44 +45,237 @@ import {
   SemaphoreSignaturePCD,
   SemaphoreSignaturePCDPackage
 } from "@pcd/semaphore-signature-pcd";
+import { EdDSAPoint, getEdDSAPublicKey } from "@pcd/zk-ticket-pcd";
+import { randomBytes } from "crypto";
+import _ from "lodash";
 import NodeRSA from "node-rsa";
-import { CommitmentRow } from "../database/models";
+import {
+  CommitmentRow,
+  DevconnectPretixTicketDBWithEventConfig
+} from "../database/models";
 import { fetchCommitmentByPublicCommitment } from "../database/queries/commitments";
 import {
+  fetchDevconnectCheckinCountsByItem,
+  fetchDevconnectCheckinCountsByWindow,
+  fetchDevconnectPretixTicketsWithItemByEvent,
+  fetchRecentDevconnectCheckins
+} from "../database/queries/devconnect_pretix_tickets/fetchDevconnectCheckinStats";
+import {
+  fetchDevconnectCheckinEvents,
+  fetchDevconnectEntryCountSince,
   fetchDevconnectPretixTicketByTicketId,
-  fetchDevconnectPretixTicketsByEmail,
+  fetchDevconnectPretixTicketForTransfer,
+  fetchDevconnectPretixTicketsByEventConfigIds,
   fetchDevconnectSuperusersForEmail
 } from "../database/queries/devconnect_pretix_tickets/fetchDevconnectPretixTicket";
-import { consumeDevconnectPretixTicket } from "../database/queries/devconnect_pretix_tickets/updateDevconnectPretixTicket";
+import {
+  consumeDevconnectPretixTicket,
+  reenterDevconnectPretixTicket,
+  transferDevconnectPretixTicket,
+  undoConsumeDevconnectPretixTicket
+} from "../database/queries/devconnect_pretix_tickets/updateDevconnectPretixTicket";
+import {
+  consumeIssuanceChallenge,
+  deleteExpiredIssuanceChallenges,
+  insertIssuanceChallenge
+} from "../database/queries/issuanceChallenges";
+import { fetchDevconnectPretixSyncReport } from "../database/queries/pretixSyncReports";
 import { ApplicationContext } from "../types";
 import { logger } from "../util/logger";
+import {
+  DEFAULT_KEY_ID,
+  findVerificationKey,
+  getSigningKey,
+  parseRSAKeyring,
+  RSAKeyringEntry,
+  toServerPublicKey
+} from "../util/rsaKeyring";
+import {
+  checkTicketValidity,
+  itemInfoToValidity,
+  startOfUTCDay
+} from "../util/ticketValidity";
+import { normalizeEmail, toCSV, validateEmail } from "../util/util";
+import { DevconnectTicketProvider } from "./issuance/devconnectTicketProvider";
+import { EmailProvider } from "./issuance/emailProvider";
+import { IssuanceKeys, IssuanceProvider } from "./issuance/issuanceProvider";
 
 export class IssuanceService {
+  /**
+   * How many of the latest check-ins are shown on the check-in dashboard.
+   */
+  private static readonly RECENT_CHECKINS_LIMIT = 20;
+
+  /**
+   * How long clients have to use a challenge nonce after requesting it.
+   */
+  private static readonly CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
   private readonly context: ApplicationContext;
-  private readonly rsaPrivateKey: NodeRSA;
-  private readonly exportedPrivateKey: string;
-  private readonly exportedPublicKey: string;
+  private readonly keyring: RSAKeyringEntry[];
+  // hex-encoded key that zero-knowledge ticket PCDs are signed with, they
+  // aren't issued at all if it isn't configured
+  private readonly eddsaPrivateKey: string | null;
+  private readonly providers: IssuanceProvider[];
 
-  public constructor(context: ApplicationContext, rsaPrivateKey: NodeRSA) {
+  public constructor(
+    context: ApplicationContext,
+    keyring: RSAKeyringEntry[],
+    eddsaPrivateKey: string | null,
+    providers: IssuanceProvider[]
+  ) {
     this.context = context;
-    this.rsaPrivateKey = rsaPrivateKey;
-    this.exportedPrivateKey = this.rsaPrivateKey.exportKey("private");
-    this.exportedPublicKey = this.rsaPrivateKey.exportKey("public");
+    this.keyring = keyring;
+    this.eddsaPrivateKey = eddsaPrivateKey;
+    this.providers = providers;
   }
 
+  /**
+   * The public key that tickets are currently signed with.
+   */
   public getPublicKey(): string {
-    return this.exportedPublicKey;
+    return this.getCurrentSigningKey().key.exportKey("public");
+  }
+
+  public getPublicKeys(): ServerPublicKeysResponse {
+    const now = new Date();
+    return {
+      keys: this.keyring.map((entry) => toServerPublicKey(entry, now))
+    };
+  }
+
+  public getEdDSAPublicKey(): EdDSAPoint | null {
+    return this.eddsaPrivateKey
+      ? getEdDSAPublicKey(this.eddsaPrivateKey)
+      : null;
+  }
+
+  /**
+   * Hands out a nonce which the client includes in the message it signs for
+   * its next request, so that the signature can't be replayed.
+   */
+  public async handleChallengeRequest(): Promise<IssuanceChallengeResponse> {
+    const nonce = randomBytes(32).toString("hex");
+    await deleteExpiredIssuanceChallenges(this.context.dbPool);
+    await insertIssuanceChallenge(
+      this.context.dbPool,
+      nonce,
+      IssuanceService.CHALLENGE_TTL_MS
+    );
+
+    return {
+      nonce,
+      expiresAt: new Date(
+        Date.now() + IssuanceService.CHALLENGE_TTL_MS
+      ).toISOString()
+    };
   }
 
   public async handleIssueRequest(
     request: IssuedPCDsRequest
   ): Promise<IssuedPCDsResponse> {
-    const pcds = await this.issueDevconnectPretixTicketPCDs(request);
-    const serialized = await Promise.all(
-      pcds.map((pcd) => RSATicketPCDPackage.serialize(pcd))
+    const user = await this.checkUserExists(request.userProof);
+    if (user == null) {
+      return { folders: [] };
+    }
+
+    const keys: IssuanceKeys = {
+      rsaPrivateKey: this.getCurrentSigningKey().key.exportKey("private"),
+      eddsaPrivateKey: this.eddsaPrivateKey
+    };
+    const folders: IssuedPCDFolder[] = [];
+    // folders which some provider failed to issue into are left out of the
+    // response, so that the client keeps whatever was issued into them before
+    const failedFolders = new Set<string>();
+
+    for (const provider of this.providers) {
+      try {
+        const pcds = await provider.issuePCDs(user, keys);
+        const folder = folders.find((f) => f.folder === provider.folder);
+        if (folder) {
+          folder.pcds.push(...pcds);
+        } else {
+          folders.push({ folder: provider.folder, pcds });
+        }
+      } catch (e) {
+        logger(`[ISSUANCE] ${provider.name} failed to issue PCDs`, e);
+        failedFolders.add(provider.folder);
+      }
+    }
+
+    return { folders: folders.filter((f) => !failedFolders.has(f.folder)) };
+  }
+
+  /**
+   * Transfers a ticket from its holder to someone else, so that from then
+   * on it is issued to the recipient rather than to the holder. How many
+   * times each ticket can be transferred is configured per event.
+   */
+  public async handleTransferTicketRequest(
+    request: TransferTicketRequest
+  ): Promise<TransferTicketResponse> {
+    const holder = await this.checkUserExists(
+      request.userProof,
+      getTicketTransferMessage(request.ticketId, request.recipientEmail)
+    );
+    if (!holder) {
+      return { success: false, error: { name: "NotTicketHolder" } };
+    }
+
+    const recipientEmail = normalizeEmail(request.recipientEmail);
+    if (!validateEmail(recipientEmail) || recipientEmail === holder.email) {
+      return { success: false, error: { name: "InvalidRecipient" } };
+    }
+
+    const ticket = await fetchDevconnectPretixTicketForTransfer(
+      this.context.dbPool,
+      request.ticketId
+    );
+    if (!ticket) {
+      return { success: false, error: { name: "InvalidTicket" } };
+    }
+
+    if ((ticket.owner_email_override ?? ticket.email) !== holder.email) {
+      return { success: false, error: { name: "NotTicketHolder" } };
+    }
+
+    if (ticket.is_consumed) {
+      return { success: false, error: { name: "AlreadyCheckedIn" } };
+    }
+
+    // superuser tickets grant permissions to whoever is on the Pretix
+    // order, so moving them elsewhere would be misleading
+    if (ticket.is_superuser_ticket || ticket.max_ticket_transfers === 0) {
+      return { success: false, error: { name: "NotTransferable" } };
+    }
+
+    if (ticket.transfer_count >= ticket.max_ticket_transfers) {
+      return {
+        success: false,
+        error: {
+          name: "TransferLimitReached",
+          maxTransfers: ticket.max_ticket_transfers
+        }
+      };
+    }
+
+    const transferred = await transferDevconnectPretixTicket(
+      this.context.dbPool,
+      ticket.id,
+      holder.email,
+      recipientEmail,
+      ticket.max_ticket_transfers
+    );
+    if (!transferred) {
+      return { success: false, error: { name: "ServerError" } };
+    }
+
+    logger(
+      `[ISSUANCE] ${holder.email} transferred ticket ${ticket.id} to ` +
+        `${recipientEmail}`
     );
 
-    return { pcds: serialized, folder: "Devconnect" };
+    return { success: true };
   }
 
   public async handleCheckInRequest(
@@ -69,8 +286,10 @@ export class IssuanceService {
         request.ticket.pcd
       );
 
-      const ticketValid = await this.checkTicket(ticketPCD);
-
+      const ticketValid = await this.checkTicket(
+        ticketPCD,
+        request.reentry === true
+      );
       if (!ticketValid.success) {
         return ticketValid;
       }
@@ -100,11 +319,28 @@ export class IssuanceService {
         return { success: false, error: { name: "NotSuperuser" } };
       }
 
-      const successfullyConsumed = await consumeDevconnectPretixTicket(
+      // checked-in tickets which can be used to enter several times a day,
+      // or whose holder is being let back in, are let in again rather than
+      // checked in
+      const ticketInDb = await fetchDevconnectPretixTicketByTicketId(
         this.context.dbPool,
-        ticketData.ticketId ?? "",
-        checker.email
+        ticketData.ticketId ?? ""
       );
+      const isAnotherEntry =
+        ticketInDb?.is_consumed === true &&
+        (ticketInDb.max_entries_per_day !== null || request.reentry === true);
+
+      const successfullyConsumed = isAnotherEntry
+        ? await reenterDevconnectPretixTicket(
+            this.context.dbPool,
+            ticketData.ticketId ?? "",
+            checker.email
+          )
+        : await consumeDevconnectPretixTicket(
+            this.context.dbPool,
+            ticketData.ticketId ?? "",
+            checker.email
+          );
 
       if (successfullyConsumed) {
         return {
@@ -118,10 +354,235 @@ export class IssuanceService {
       };
     } catch (e) {
       logger("Error when consuming devconnect ticket", { error: e });
-      throw new Error("failed to check in", {cause: e});
+      throw new Error("failed to check in", { cause: e });
     }
   }
 
+  /**
+   * Reverses a mistaken check-in, so that the ticket can be checked in
+   * again. The reason is kept in the ticket's check-in history.
+   */
+  public async handleUndoCheckInRequest(
+    request: UndoCheckInRequest
+  ): Promise<UndoCheckInResponse> {
+    const result = await this.fetchTicketForSuperuser(
+      request.checkerProof,
+      request.ticketId
+    );
+    if ("error" in result) {
+      return { success: false, error: result.error };
+    }
+
+    const successfullyUndone = await undoConsumeDevconnectPretixTicket(
+      this.context.dbPool,
+      result.ticket.id,
+      result.checker.email,
+      request.reason
+    );
+
+    if (!successfullyUndone) {
+      return { success: false, error: { name: "NotCheckedIn" } };
+    }
+
+    logger(
+      `[ISSUANCE] ${result.checker.email} undid the check-in of ticket ` +
+        `${result.ticket.id}: ${request.reason}`
+    );
+
+    return { success: true };
+  }
+
+  /**
+   * Lists every check-in, undone check-in and re-entry of a ticket.
+   */
+  public async handleCheckInHistoryRequest(
+    request: CheckInHistoryRequest
+  ): Promise<CheckInHistoryResponse> {
+    const result = await this.fetchTicketForSuperuser(
+      request.checkerProof,
+      request.ticketId
+    );
+    if ("error" in result) {
+      return { success: false, error: result.error };
+    }
+
+    const events = await fetchDevconnectCheckinEvents(
+      this.context.dbPool,
+      result.ticket.id
+    );
+
+    return {
+      success: true,
+      events: events.map((e) => ({
+        type: e.event_type,
+        checker: e.checker,
+        reason: e.reason ?? undefined,
+        timestamp: e.time_created.toISOString()
+      }))
+    };
+  }
+
+  /**
+   * Lists the events whose check-in dashboard the checker can see.
+   */
+  public async handleCheckInDashboardEventsRequest(
+    request: CheckInDashboardEventsRequest
+  ): Promise<CheckInDashboardEventsResponse> {
+    const checker = await this.checkUserExists(request.checkerProof);
+    if (!checker) {
+      return { events: [] };
+    }
+
+    const permissions = await fetchDevconnectSuperusersForEmail(
+      this.context.dbPool,
+      checker.email
+    );
+
+    return {
+      events: _.uniqBy(permissions, (p) => p.pretix_events_config_id).map(
+        (p) => ({
+          eventConfigId: p.pretix_events_config_id,
+          eventName: p.event_name
+        })
+      )
+    };
+  }
+
+  /**
+   * Summarizes how check-in is going for an event.
+   */
+  public async handleCheckInDashboardRequest(
+    request: CheckInDashboardRequest
+  ): Promise<CheckInDashboardResponse> {
+    const eventName = await this.checkSuperuserForEvent(
+      request.checkerProof,
+      request.eventConfigId
+    );
+    if (eventName === undefined) {
+      return { success: false, error: { name: "NotSuperuser" } };
+    }
+
+    const windowMinutes =
+      request.windowMinutes && request.windowMinutes > 0
+        ? request.windowMinutes
+        : 60;
+    const [items, windows, recentCheckIns] = await Promise.all([
+      fetchDevconnectCheckinCountsByItem(
+        this.context.dbPool,
+        request.eventConfigId
+      ),
+      fetchDevconnectCheckinCountsByWindow(
+        this.context.dbPool,
+        request.eventConfigId,
+        windowMinutes * 60
+      ),
+      fetchRecentDevconnectCheckins(
+        this.context.dbPool,
+        request.eventConfigId,
+        IssuanceService.RECENT_CHECKINS_LIMIT
+      )
+    ]);
+
+    return {
+      success: true,
+      dashboard: {
+        eventName,
+        items: items.map((i) => ({
+          itemName: i.item_name,
+          checkedIn: i.checked_in,
+          total: i.total
+        })),
+        windows: windows.map((w) => ({
+          start: w.window_start.toISOString(),
+          checkedIn: w.checked_in
+        })),
+        recentCheckIns: recentCheckIns.map((t) => ({
+          ticketId: t.id.toString(),
+          attendeeName: t.full_name,
+          itemName: t.item_name,
+          checker: t.checker ?? "",
+          checkinTimestamp: t.checkin_timestamp
+            ? new Date(t.checkin_timestamp).toISOString()
+            : ""
+        }))
+      }
+    };
+  }
+
+  /**
+   * Exports the check-in state of every ticket of an event as CSV.
+   */
+  public async handleCheckInExportRequest(
+    request: CheckInExportRequest
+  ): Promise<CheckInExportResponse> {
+    const eventName = await this.checkSuperuserForEvent(
+      request.checkerProof,
+      request.eventConfigId
+    );
+    if (eventName === undefined) {
+      return { success: false, error: { name: "NotSuperuser" } };
+    }
+
+    const tickets = await fetchDevconnectPretixTicketsWithItemByEvent(
+      this.context.dbPool,
+      request.eventConfigId
+    );
+
+    return {
+      success: true,
+      csv: toCSV([
+        [
+          "ticket_id",
+          "name",
+          "email",
+          "item",
+          "checked_in",
+          "checker",
+          "checkin_timestamp"
+        ],
+        ...tickets.map((t) => [
+          t.id,
+          t.full_name,
+          t.email,
+          t.item_name,
+          t.is_consumed,
+          t.checker ?? "",
+          t.checkin_timestamp ? new Date(t.checkin_timestamp).toISOString() : ""
+        ])
+      ])
+    };
+  }
+
+  /**
+   * Lists the problems with an event's setup on Pretix that were found the
+   * last time it was synced.
+   */
+  public async handlePretixSyncReportRequest(
+    request: PretixSyncReportRequest
+  ): Promise<PretixSyncReportResponse> {
+    const eventName = await this.checkSuperuserForEvent(
+      request.checkerProof,
+      request.eventConfigId
+    );
+    if (eventName === undefined) {
+      return { success: false, error: { name: "NotSuperuser" } };
+    }
+
+    const report = await fetchDevconnectPretixSyncReport(
+      this.context.dbPool,
+      request.eventConfigId
+    );
+
+    return {
+      success: true,
+      report: {
+        eventName,
+        problems: report?.problems ?? [],
+        checkedAt: report?.time_checked.toISOString()
+      }
+    };
+  }
+
   public async handleCheckTicketRequest(
     request: CheckTicketRequest
   ): Promise<CheckTicketResponse> {
@@ -138,8 +599,106 @@ export class IssuanceService {
     }
   }
 
+  /**
+   * Signs a snapshot of the tickets of every event that the checker can
+   * check tickets in for, which lets them verify tickets while offline.
+   */
+  public async handleCheckInSnapshotRequest(
+    request: CheckInSnapshotRequest
+  ): Promise<CheckInSnapshotResponse> {
+    const checker = await this.checkUserExists(request.checkerProof);
+    const eventConfigIds = checker
+      ? await this.getSuperuserEventConfigIds(checker.email)
+      : [];
+
+    if (eventConfigIds.length === 0) {
+      return { success: false, error: { name: "NotSuperuser" } };
+    }
+
+    const tickets = await fetchDevconnectPretixTicketsByEventConfigIds(
+      this.context.dbPool,
+      eventConfigIds
+    );
+
+    const snapshot: CheckInSnapshot = {
+      timestamp: Date.now(),
+      eventConfigIds,
+      tickets: tickets.map((t) => ({
+        ticketId: t.id.toString(),
+        eventConfigId: t.pretix_events_config_id,
+        isConsumed: t.is_consumed,
+        isRevoked: t.is_deleted,
+        checker: t.checker ?? undefined,
+        checkinTimestamp: t.checkin_timestamp ?? undefined,
+        ownerEmail: t.owner_email_override ?? undefined
+      }))
+    };
+    const serializedSnapshot = JSON.stringify(snapshot);
+    const signingKey = this.getCurrentSigningKey();
+
+    return {
+      success: true,
+      snapshot: serializedSnapshot,
+      signature: signingKey.key.sign(
+        Buffer.from(serializedSnapshot, "utf8"),
+        "base64"
+      ),
+      keyId: signingKey.keyId
+    };
+  }
+
+  /**
+   * Records check-ins which happened while the checker was offline, at the
+   * time they happened. Tickets which were checked in by someone else in
+   * the meantime are reported as conflicts, rather than checked in again.
+   */
+  public async handleReconcileCheckInsRequest(
+    request: ReconcileCheckInsRequest
+  ): Promise<ReconcileCheckInsResponse> {
+    const checker = await this.checkUserExists(request.checkerProof);
+    const eventConfigIds = checker
+      ? await this.getSuperuserEventConfigIds(checker.email)
+      : [];
+    const tickets = new Map(
+      (
+        await fetchDevconnectPretixTicketsByEventConfigIds(
+          this.context.dbPool,
+          eventConfigIds
+        )
+      ).map((t) => [t.id.toString(), t])
+    );
+
+    const results: ReconciledCheckIn[] = [];
+
+    for (const checkIn of request.checkIns) {
+      const ticket = tickets.get(checkIn.ticketId);
+      const result =
+        checker && ticket
+          ? await this.reconcileCheckIn(checker.email, ticket, checkIn)
+          : ({
+              success: false,
+              error: { name: "NotSuperuser" }
+            } satisfies CheckInResponse);
+      results.push({ ticketId: checkIn.ticketId, ...result });
+    }
+
+    logger(
+      `[ISSUANCE] reconciled ${results.length} offline check-ins by ` +
+        `${checker?.email}, ${results.filter((r) => !r.success).length} failed`
+    );
+
+    return { results };
+  }
+
+  /**
+   * Checks whether a ticket can be used to enter its event now. Checked-in
+   * tickets can only be used again if they allow several entries a day, or
+   * if `reentry` is set to let their holder back in, and either way only
+   * within the ticket's validity rules.
+   */
   public async checkTicket(
-    ticketPCD: RSATicketPCD
+    ticketPCD: RSATicketPCD,
+    reentry = false
   ): Promise<CheckTicketResponse> {
     try {
       const proofPublicKey = getPublicKey(ticketPCD)?.exportKey("public");
@@ -150,15 +709,20 @@ export class IssuanceService {
         };
       }
 
-      const serverPublicKey = this.getPublicKey();
-      if (serverPublicKey !== proofPublicKey) {
+      // tickets signed with any key that hasn't been retired yet are
+      // accepted, so that rotating the key doesn't invalidate the tickets
+      // which were issued before it was rotated
+      if (
+        !findVerificationKey(this.keyring, proofPublicKey, new Date()) ||
+        !(await RSATicketPCDPackage.verify(ticketPCD))
+      ) {
         return {
           success: false,
           error: { name: "InvalidSignature" }
         };
       }
 
-      const { ticketId } = getTicketData(ticketPCD);
+      const { ticketId, attendeeEmail } = getTicketData(ticketPCD);
       if (!ticketId) {
         return {
           success: false,
@@ -185,7 +749,26 @@ export class IssuanceService {
         };
       }
 
-      if (ticketInDb.is_consumed) {
+      // once a ticket has been transferred, only the ticket issued to
+      // whoever it was last transferred to can be used
+      if (
+        ticketInDb.owner_email_override &&
+        attendeeEmail !== ticketInDb.owner_email_override
+      ) {
+        return {
+          success: false,
+          error: { name: "TicketTransferred" }
+        };
+      }
+
+      // tickets with a maximum number of entries per day can be used again
+      // once they have been checked in
+      const validity = itemInfoToValidity(ticketInDb);
+      if (
+        ticketInDb.is_consumed &&
+        validity.maxEntriesPerDay === undefined &&
+        !reentry
+      ) {
         return {
           success: false,
           error: {
@@ -197,6 +780,17 @@ export class IssuanceService {
         };
       }
 
+      const now = new Date();
+      const entriesToday = await fetchDevconnectEntryCountSince(
+        this.context.dbPool,
+        ticketId,
+        startOfUTCDay(now)
+      );
+      const validityError = checkTicketValidity(validity, entriesToday, now);
+      if (validityError) {
+        return { success: false, error: validityError };
+      }
+
       return { success: true };
     } catch (e) {
       logger("Error when checking ticket", { error: e });
@@ -208,8 +802,128 @@ export class IssuanceService {
     }
   }
 
+  private async reconcileCheckIn(
+    checkerEmail: string,
+    ticket: DevconnectPretixTicketDBWithEventConfig,
+    checkIn: OfflineCheckIn
+  ): Promise<CheckInResponse> {
+    if (ticket.is_deleted) {
+      return {
+        success: false,
+        error: { name: "TicketRevoked", revokedTimestamp: Date.now() }
+      };
+    }
+
+    if (ticket.is_consumed) {
+      return {
+        success: false,
+        error: {
+          name: "AlreadyCheckedIn",
+          checker: ticket.checker,
+          checkinTimestamp: ticket.checkin_timestamp
+        }
+      };
+    }
+
+    // check-ins can't have happened in the future
+    const checkinTimestamp = new Date(checkIn.checkinTimestamp);
+    const successfullyConsumed = await consumeDevconnectPretixTicket(
+      this.context.dbPool,
+      checkIn.ticketId,
+      checkerEmail,
+      isNaN(checkinTimestamp.getTime()) || checkinTimestamp > new Date()
+        ? undefined
+        : checkinTimestamp
+    );
+
+    if (successfullyConsumed) {
+      return { success: true };
+    }
+
+    return { success: false, error: { name: "ServerError" } };
+  }
+
+  /**
+   * Fetches a ticket on behalf of a checker, as long as they are a
+   * superuser of the ticket's event.
+   */
+  private async fetchTicketForSuperuser(
+    checkerProof: SerializedPCD<SemaphoreSignaturePCD>,
+    ticketId: string
+  ): Promise<
+    | {
+        checker: CommitmentRow;
+        ticket: DevconnectPretixTicketDBWithEventConfig;
+      }
+    | { error: TicketError }
+  > {
+    const checker = await this.checkUserExists(checkerProof);
+    if (!checker) {
+      return { error: { name: "NotSuperuser" } };
+    }
+
+    const ticket = await fetchDevconnectPretixTicketByTicketId(
+      this.context.dbPool,
+      ticketId
+    );
+    if (!ticket) {
+      return { error: { name: "InvalidTicket" } };
+    }
+
+    const eventConfigIds = await this.getSuperuserEventConfigIds(checker.email);
+    if (!eventConfigIds.includes(ticket.pretix_events_config_id)) {
+      return { error: { name: "NotSuperuser" } };
+    }
+
+    return { checker, ticket };
+  }
+
+  /**
+   * Returns the name of the event if the checker is one of its superusers,
+   * or undefined otherwise.
+   */
+  private async checkSuperuserForEvent(
+    checkerProof: SerializedPCD<SemaphoreSignaturePCD>,
+    eventConfigId: string
+  ): Promise<string | undefined> {
+    const checker = await this.checkUserExists(checkerProof);
+    if (!checker) {
+      return undefined;
+    }
+
+    const permissions = await fetchDevconnectSuperusersForEmail(
+      this.context.dbPool,
+      checker.email
+    );
+    return permissions.find(
+      (p) => p.pretix_events_config_id.toString() === eventConfigId.toString()
+    )?.event_name;
+  }
+
+  private async getSuperuserEventConfigIds(email: string): Promise<string[]> {
+    const permissions = await fetchDevconnectSuperusersForEmail(
+      this.context.dbPool,
+      email
+    );
+    return [...new Set(permissions.map((p) => p.pretix_events_config_id))];
+  }
+
+  private getCurrentSigningKey(): RSAKeyringEntry {
+    const signingKey = getSigningKey(this.keyring, new Date());
+    if (!signingKey) {
+      throw new Error("no active signing key in the keyring");
+    }
+    return signingKey;
+  }
+
+  /**
+   * Returns the user who signed the given message along with an unused
+   * challenge nonce, or null if the signature isn't valid or the nonce was
+   * already used or has expired.
+   */
   private async checkUserExists(
-    proof: SerializedPCD<SemaphoreSignaturePCD>
+    proof: SerializedPCD<SemaphoreSignaturePCD>,
+    signedMessage = ISSUANCE_STRING
   ): Promise<CommitmentRow | null> {
     const deserializedSignature =
       await SemaphoreSignaturePCDPackage.deserialize(proof.pcd);
@@ -224,11 +938,23 @@ export class IssuanceService {
       return null;
     }
 
-    if (deserializedSignature.claim.signedMessage !== ISSUANCE_STRING) {
+    const challenge = parseChallengeMessage(
+      deserializedSignature.claim.signedMessage
+    );
+    if (challenge?.message !== signedMessage) {
       logger(`can't issue PCDs, wrong message signed by user`);
       return null;
     }
 
+    // the nonce is used up before anything else is done with the request,
+    // so that the same signature is never accepted twice
+    if (
+      !(await consumeIssuanceChallenge(this.context.dbPool, challenge.nonce))
+    ) {
+      logger(`can't issue PCDs, the challenge was reused or has expired`);
+      return null;
+    }
+
     const requestingFor = deserializedSignature.claim.identityCommitment;
     const storedCommitment = await fetchCommitmentByPublicCommitment(
       this.context.dbPool,
@@ -245,83 +971,6 @@ export class IssuanceService {
 
     return storedCommitment;
   }
-
-  private async ticketDataToTicketPCD(
-    ticketData: ITicketData
-  ): Promise<RSATicketPCD> {
-    const serializedTicketData = JSON.stringify(ticketData);
-    const stableId = await getHash("issued-ticket-" + ticketData.ticketId);
-
-    const rsaPcd = await RSAPCDPackage.prove({
-      privateKey: {
-        argumentType: ArgumentTypeName.String,
-        value: this.exportedPrivateKey
-      },
-      signedMessage: {
-        argumentType: ArgumentTypeName.String,
-        value: serializedTicketData
-      },
-      id: {
-        argumentType: ArgumentTypeName.String,
-        value: undefined
-      }
-    });
-
-    const rsaTicketPCD = await RSATicketPCDPackage.prove({
-      id: {
-        argumentType: ArgumentTypeName.String,
-        value: stableId
-      },
-      rsaPCD: {
-        argumentType: ArgumentTypeName.PCD,
-        value: await RSAPCDPackage.serialize(rsaPcd)
-      }
-    });
-
-    return rsaTicketPCD;
-  }
-
-  /**
-   * Fetch all DevconnectPretixTicket entities under a given user's email.
-   */
-  private async issueDevconnectPretixTicketPCDs(
-    request: IssuedPCDsRequest
-  ): Promise<RSATicketPCD[]> {
-    const commitment = await this.checkUserExists(request.userProof);
-    const email = commitment?.email;
-
-    if (email == null) {
-      return [];
-    }
-
-    const ticketsDB = await fetchDevconnectPretixTicketsByEmail(
-      this.context.dbPool,
-      email
-    );
-
-    const tickets = await Promise.all(
-      ticketsDB
-        // convert to ITicketData
-        .map(
-          (t) =>
-            ({
-              ticketId: t.id.toString(),
-              eventName: t.event_name,
-              ticketName: t.item_name,
-              timestamp: Date.now(),
-              attendeeEmail: email,
-              attendeeName: t.full_name,
-              isConsumed: t.is_consumed,
-              isRevoked: t.is_deleted,
-              eventConfigId: t.pretix_events_config_id
-            }) satisfies ITicketData
-        )
-        // convert to serialized ticket PCD
-        .map((ticketData) => this.ticketDataToTicketPCD(ticketData))
-    );
-
-    return tickets;
-  }
 }
 
 export function startIssuanceService(
@@ -332,17 +981,59 @@ export function startIssuanceService(
     return null;
   }
 
-  const pkey = loadPrivateKey();
+  const keyring = loadKeyring();
 
-  if (pkey == null) {
+  if (keyring == null) {
     logger("[INIT] can't start issuance service, missing private key");
     return null;
   }
 
-  const issuanceService = new IssuanceService(context, pkey);
+  const eddsaPrivateKey = loadEdDSAPrivateKey();
+  const issuanceService = new IssuanceService(
+    context,
+    keyring,
+    eddsaPrivateKey,
+    [new DevconnectTicketProvider(context), new EmailProvider()]
+  );
   return issuanceService;
 }
 
+/**
+ * Loads the keys tickets are signed with from `SERVER_RSA_KEYRING_BASE64`,
+ * or, if there is no keyring, the single key in
+ * `SERVER_RSA_PRIVATE_KEY_BASE64`.
+ */
+function loadKeyring(): RSAKeyringEntry[] | null {
+  const keyringEnv = process.env.SERVER_RSA_KEYRING_BASE64;
+
+  if (keyringEnv != null) {
+    try {
+      const keyring = parseRSAKeyring(
+        Buffer.from(keyringEnv, "base64").toString("utf-8")
+      );
+      if (!getSigningKey(keyring, new Date())) {
+        logger("[INIT] none of the keys in the RSA keyring are active");
+        return null;
+      }
+      logger(
+        `[INIT] loaded RSA keyring with keys ` +
+          keyring.map((k) => k.keyId).join(", ")
+      );
+      return keyring;
+    } catch (e) {
+      logger("failed to parse RSA keyring", e);
+      return null;
+    }
+  }
+
+  const pkey = loadPrivateKey();
+  if (pkey == null) {
+    return null;
+  }
+
+  return [{ keyId: DEFAULT_KEY_ID, key: pkey, activeFrom: new Date(0) }];
+}
+
 function loadPrivateKey(): NodeRSA | null {
   const pkeyEnv = process.env.SERVER_RSA_PRIVATE_KEY_BASE64;
 
@@ -363,3 +1054,22 @@ function loadPrivateKey(): NodeRSA | null {
 
   return null;
 }
+
+function loadEdDSAPrivateKey(): string | null {
+  const pkeyEnv = process.env.SERVER_EDDSA_PRIVATE_KEY;
+
+  if (pkeyEnv == null) {
+    logger(
+      "[INIT] missing environment variable SERVER_EDDSA_PRIVATE_KEY, " +
+        "not issuing zero-knowledge ticket PCDs"
+    );
+    return null;
+  }
+
+  if (!/^[0-9a-fA-F]{64}$/.test(pkeyEnv)) {
+    logger("[INIT] SERVER_EDDSA_PRIVATE_KEY must be 32 hex-encoded bytes");
+    return null;
+  }
+
+  return pkeyEnv;
+}
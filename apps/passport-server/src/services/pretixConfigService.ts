@@ -0,0 +1,401 @@
+import {
+  CreatePretixEventRequest,
+  CreatePretixOrganizerRequest,
+  PretixConfigError,
+  PretixConfigUpdateResponse,
+  PretixEventAdminConfig,
+  PretixOrganizersConfigResponse,
+  PretixSyncDryRunRequest,
+  PretixSyncDryRunResponse,
+  UpdatePretixEventRequest,
+  UpdatePretixOrganizerRequest
+} from "@pcd/passport-interface";
+import { Pool } from "postgres-pool";
+import {
+  DevconnectPretixOrganizerConfig,
+  getDevconnectPretixConfig,
+  getDevconnectPretixOrganizerConfig
+} from "../apis/devconnect/organizer";
+import { PretixEventsConfig } from "../database/models";
+import {
+  fetchAllPretixEventConfigs,
+  fetchPretixEventConfig,
+  fetchPretixOrganizerConfig
+} from "../database/queries/pretix_config/fetchPretixConfiguration";
+import {
+  getAllOrganizers,
+  insertPretixEventConfig,
+  insertPretixOrganizerConfig,
+  updatePretixEventConfig,
+  updatePretixOrganizerConfig
+} from "../database/queries/pretix_config/insertConfiguration";
+import { ApplicationContext } from "../types";
+import { logger } from "../util/logger";
+import { secretsEqual } from "../util/util";
+import { DevconnectPretixSyncService } from "./devconnectPretixSyncService";
+import { traced } from "./telemetryService";
+
+const NAME = "PretixConfigService";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Lets admins change which Pretix organizers and events are synced, without
+ * restarting the server. The Devconnect Pretix sync reloads its configuration
+ * from the database on every sync, so changes take effect on the next one.
+ */
+export class PretixConfigService {
+  private readonly db: Pool;
+  private readonly devconnectPretixSyncService: DevconnectPretixSyncService | null;
+  private readonly adminToken: string;
+
+  public constructor(
+    context: ApplicationContext,
+    devconnectPretixSyncService: DevconnectPretixSyncService | null,
+    adminToken: string
+  ) {
+    this.db = context.dbPool;
+    this.devconnectPretixSyncService = devconnectPretixSyncService;
+    this.adminToken = adminToken;
+  }
+
+  /**
+   * Whether the value of a request's `Authorization` header is
+   * `Bearer <ADMIN_API_TOKEN>`.
+   */
+  public isAdmin(authorization: string | undefined): boolean {
+    const prefix = "Bearer ";
+    if (!authorization?.startsWith(prefix)) {
+      return false;
+    }
+    return secretsEqual(
+      authorization.substring(prefix.length),
+      this.adminToken
+    );
+  }
+
+  public async handleGetOrganizersRequest(): Promise<PretixOrganizersConfigResponse> {
+    return traced(NAME, "handleGetOrganizersRequest", async () => {
+      const organizers = await getAllOrganizers(this.db);
+      const events = await fetchAllPretixEventConfigs(this.db);
+
+      return {
+        organizers: organizers.map((organizer) => ({
+          id: organizer.id,
+          orgUrl: organizer.organizer_url,
+          hasWebhookSecret: !!organizer.webhook_secret,
+          isActive: organizer.is_active,
+          events: events
+            .filter((e) => e.pretix_organizers_config_id === organizer.id)
+            .map(eventConfigToAdminConfig)
+        }))
+      };
+    });
+  }
+
+  public async handleCreateOrganizerRequest(
+    request: CreatePretixOrganizerRequest
+  ): Promise<PretixConfigUpdateResponse> {
+    return traced(NAME, "handleCreateOrganizerRequest", async (span) => {
+      const problem =
+        checkOrgUrl(request.orgUrl) ??
+        checkNonEmptyString(request.token, "token") ??
+        checkOptionalString(request.webhookSecret, "webhookSecret") ??
+        checkOptionalBoolean(request.isActive, "isActive");
+      if (problem) {
+        return invalidConfig(problem);
+      }
+
+      const id = await insertPretixOrganizerConfig(
+        this.db,
+        request.orgUrl,
+        request.token,
+        request.webhookSecret,
+        request.isActive
+      );
+      span?.setAttribute("organizer_config_id", id);
+      logger(`[PRETIX CONFIG] added organizer ${request.orgUrl} (${id})`);
+      return { success: true, id };
+    });
+  }
+
+  public async handleUpdateOrganizerRequest(
+    id: string,
+    request: UpdatePretixOrganizerRequest
+  ): Promise<PretixConfigUpdateResponse> {
+    return traced(NAME, "handleUpdateOrganizerRequest", async (span) => {
+      span?.setAttribute("organizer_config_id", id);
+
+      const organizer = UUID_REGEX.test(id)
+        ? await fetchPretixOrganizerConfig(this.db, id)
+        : null;
+      if (!organizer) {
+        return notFound();
+      }
+
+      const problem =
+        (request.orgUrl !== undefined ? checkOrgUrl(request.orgUrl) : null) ??
+        checkOptionalString(request.token, "token") ??
+        checkOptionalString(request.webhookSecret, "webhookSecret") ??
+        checkOptionalBoolean(request.isActive, "isActive");
+      if (problem) {
+        return invalidConfig(problem);
+      }
+
+      span?.setAttribute("token_rotated", request.token !== undefined);
+      await updatePretixOrganizerConfig(
+        this.db,
+        id,
+        request.orgUrl ?? organizer.organizer_url,
+        request.token ?? organizer.token,
+        request.webhookSecret ?? organizer.webhook_secret,
+        request.isActive ?? organizer.is_active
+      );
+      logger(`[PRETIX CONFIG] updated organizer ${id}`);
+      return { success: true, id };
+    });
+  }
+
+  public async handleCreateEventRequest(
+    organizerId: string,
+    request: CreatePretixEventRequest
+  ): Promise<PretixConfigUpdateResponse> {
+    return traced(NAME, "handleCreateEventRequest", async (span) => {
+      span?.setAttribute("organizer_config_id", organizerId);
+
+      const organizer = UUID_REGEX.test(organizerId)
+        ? await fetchPretixOrganizerConfig(this.db, organizerId)
+        : null;
+      if (!organizer) {
+        return notFound();
+      }
+
+      const problem =
+        checkNonEmptyString(request.eventId, "eventId") ??
+        checkItemIds(request.activeItemIds, request.superuserItemIds) ??
+        checkMaxTicketTransfers(request.maxTicketTransfers);
+      if (problem) {
+        return invalidConfig(problem);
+      }
+
+      const existingEvents = await fetchAllPretixEventConfigs(this.db);
+      if (
+        existingEvents.some(
+          (e) =>
+            e.pretix_organizers_config_id === organizerId &&
+            e.event_id === request.eventId
+        )
+      ) {
+        return invalidConfig(
+          `event ${request.eventId} is already configured for this organizer`
+        );
+      }
+
+      const id = await insertPretixEventConfig(
+        this.db,
+        organizerId,
+        request.activeItemIds,
+        request.superuserItemIds,
+        request.eventId,
+        request.maxTicketTransfers
+      );
+      span?.setAttribute("event_config_id", id);
+      logger(
+        `[PRETIX CONFIG] added event ${request.eventId} (${id}) of organizer ${organizerId}`
+      );
+      return { success: true, id };
+    });
+  }
+
+  public async handleUpdateEventRequest(
+    id: string,
+    request: UpdatePretixEventRequest
+  ): Promise<PretixConfigUpdateResponse> {
+    return traced(NAME, "handleUpdateEventRequest", async (span) => {
+      span?.setAttribute("event_config_id", id);
+
+      const event = UUID_REGEX.test(id)
+        ? await fetchPretixEventConfig(this.db, id)
+        : null;
+      if (!event) {
+        return notFound();
+      }
+
+      const activeItemIds = request.activeItemIds ?? event.active_item_ids;
+      const superuserItemIds =
+        request.superuserItemIds ?? event.superuser_item_ids;
+      const problem =
+        checkItemIds(activeItemIds, superuserItemIds) ??
+        checkMaxTicketTransfers(request.maxTicketTransfers) ??
+        checkOptionalBoolean(request.isActive, "isActive");
+      if (problem) {
+        return invalidConfig(problem);
+      }
+
+      await updatePretixEventConfig(
+        this.db,
+        id,
+        activeItemIds,
+        superuserItemIds,
+        request.maxTicketTransfers ?? event.max_ticket_transfers,
+        request.isActive ?? event.is_active
+      );
+      logger(`[PRETIX CONFIG] updated event ${id}`);
+      return { success: true, id };
+    });
+  }
+
+  public async handleDryRunRequest(
+    request: PretixSyncDryRunRequest
+  ): Promise<PretixSyncDryRunResponse> {
+    return traced(NAME, "handleDryRunRequest", async (span) => {
+      if (!this.devconnectPretixSyncService) {
+        throw new Error("devconnect pretix sync service not instantiated");
+      }
+
+      let organizers: DevconnectPretixOrganizerConfig[];
+      if (request.organizerConfigId !== undefined) {
+        span?.setAttribute("organizer_config_id", request.organizerConfigId);
+        const organizer =
+          typeof request.organizerConfigId === "string" &&
+          UUID_REGEX.test(request.organizerConfigId)
+            ? await getDevconnectPretixOrganizerConfig(
+                this.db,
+                request.organizerConfigId
+              )
+            : null;
+        if (!organizer) {
+          return notFound();
+        }
+        organizers = [organizer];
+      } else {
+        const config = await getDevconnectPretixConfig(this.db);
+        if (!config) {
+          throw new Error("Pretix Config could not be loaded");
+        }
+        organizers = config.organizers;
+      }
+
+      return {
+        success: true,
+        organizers: await this.devconnectPretixSyncService.dryRun(organizers)
+      };
+    });
+  }
+}
+
+function eventConfigToAdminConfig(
+  event: PretixEventsConfig
+): PretixEventAdminConfig {
+  return {
+    id: event.id,
+    eventId: event.event_id,
+    activeItemIds: event.active_item_ids,
+    superuserItemIds: event.superuser_item_ids,
+    maxTicketTransfers: event.max_ticket_transfers,
+    isActive: event.is_active
+  };
+}
+
+function notFound(): { success: false; error: PretixConfigError } {
+  return { success: false, error: { name: "NotFound" } };
+}
+
+function invalidConfig(detail: string): {
+  success: false;
+  error: PretixConfigError;
+} {
+  return { success: false, error: { name: "InvalidConfig", detail } };
+}
+
+// The checks below return a description of what's wrong with a field of a
+// request, or null if nothing is.
+
+function checkOrgUrl(orgUrl: unknown): string | null {
+  if (typeof orgUrl !== "string") {
+    return "orgUrl must be a string";
+  }
+  try {
+    const url = new URL(orgUrl);
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "orgUrl must be an http(s) URL";
+    }
+  } catch (e) {
+    return "orgUrl must be a valid URL";
+  }
+  return null;
+}
+
+function checkNonEmptyString(value: unknown, name: string): string | null {
+  if (typeof value !== "string" || value === "") {
+    return `${name} must be a non-empty string`;
+  }
+  return null;
+}
+
+function checkOptionalString(value: unknown, name: string): string | null {
+  return value === undefined ? null : checkNonEmptyString(value, name);
+}
+
+function checkOptionalBoolean(value: unknown, name: string): string | null {
+  if (value !== undefined && typeof value !== "boolean") {
+    return `${name} must be a boolean`;
+  }
+  return null;
+}
+
+function checkItemIds(
+  activeItemIds: unknown,
+  superuserItemIds: unknown
+): string | null {
+  const isStringArray = (ids: unknown): ids is string[] =>
+    Array.isArray(ids) &&
+    ids.every((id) => typeof id === "string" && /^[0-9]+$/.test(id));
+
+  if (!isStringArray(activeItemIds)) {
+    return "activeItemIds must be an array of Pretix item ids";
+  }
+  if (!isStringArray(superuserItemIds)) {
+    return "superuserItemIds must be an array of Pretix item ids";
+  }
+  if (!superuserItemIds.every((id) => activeItemIds.includes(id))) {
+    return "superuserItemIds must be a subset of activeItemIds";
+  }
+  return null;
+}
+
+function checkMaxTicketTransfers(value: unknown): string | null {
+  if (value !== undefined && (!Number.isInteger(value) || Number(value) < 0)) {
+    return "maxTicketTransfers must be a non-negative integer";
+  }
+  return null;
+}
+
+/**
+ * The admin API is only enabled if `ADMIN_API_TOKEN` is set. Admins
+ * authenticate with it as a bearer token.
+ */
+export function startPretixConfigService(
+  context: ApplicationContext,
+  devconnectPretixSyncService: DevconnectPretixSyncService | null
+): PretixConfigService | null {
+  if (context.isZuzalu) {
+    logger("[INIT] not starting pretix config service for zuzalu");
+    return null;
+  }
+
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    logger(
+      "[INIT] missing ADMIN_API_TOKEN, not starting pretix config service"
+    );
+    return null;
+  }
+
+  return new PretixConfigService(
+    context,
+    devconnectPretixSyncService,
+    adminToken
+  );
+}
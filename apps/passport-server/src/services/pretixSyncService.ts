@@ -1,4 +1,5 @@
 import { DateRange } from "@pcd/passport-interface";
+import _ from "lodash";
 import { Pool } from "postgres-pool";
 import { IPretixAPI, PretixOrder, PretixSubevent } from "../apis/pretixAPI";
 import { ZuzaluPretixTicket, ZuzaluUserRole } from "../database/models";
@@ -18,16 +19,35 @@ import { traced } from "./telemetryService";
 
 const SERVICE_NAME_FOR_TRACING = "Pretix";
 
+// The orders of an event as of the last sync. Zuzalu users are derived from
+// all of the orders together, so they are kept in memory, and only the orders
+// that changed since the last sync are fetched from Pretix.
+interface EventOrders {
+  ordersByCode: Map<string, PretixOrder>;
+  // the latest modification of any of the orders, fetched again next time
+  modifiedSince: Date | undefined;
+  // when all of the orders of the event were last fetched
+  fullyFetchedAt: number;
+}
+
 /**
  * Responsible for syncing users from Pretix into an internal representation.
  */
 export class PretixSyncService {
+  /**
+   * How often to fetch all of an event's orders, rather than only the ones
+   * that changed since the last sync. Pretix doesn't report orders that were
+   * deleted, so they're only noticed by fetching every order.
+   */
+  private static readonly FULL_SYNC_INTERVAL_MS = 1000 * 60 * 60;
+
   private pretixAPI: IPretixAPI;
   private rollbarService: RollbarService | null;
   private semaphoreService: SemaphoreService;
   private context: ApplicationContext;
   private timeout: NodeJS.Timeout | undefined;
   private _hasCompletedSyncSinceStarting: boolean;
+  private ordersByEventId: Map<string, EventOrders>;
 
   public get hasCompletedSyncSinceStarting(): boolean {
     return this._hasCompletedSyncSinceStarting;
@@ -44,6 +64,7 @@ export class PretixSyncService {
     this.semaphoreService = semaphoreService;
     this.pretixAPI = pretixAPI;
     this._hasCompletedSyncSinceStarting = false;
+    this.ordersByEventId = new Map();
   }
 
   public replaceApi(newAPI: IPretixAPI): void {
@@ -55,6 +76,7 @@ export class PretixSyncService {
 
     this.pretixAPI = newAPI;
     this._hasCompletedSyncSinceStarting = false;
+    this.ordersByEventId = new Map();
 
     if (wasRunning) {
       this.startSyncLoop();
@@ -224,9 +246,7 @@ export class PretixSyncService {
       logger("[PRETIX] Fetching residents");
 
       // Fetch orders
-      const orders = await this.pretixAPI.fetchOrders(
-        this.pretixAPI.config.zuEventID
-      );
+      const orders = await this.fetchOrders(this.pretixAPI.config.zuEventID);
 
       // Extract organizers
       const orgOrders = orders.filter(
@@ -268,7 +288,7 @@ export class PretixSyncService {
       const subevents = await this.pretixAPI.fetchSubevents(
         this.pretixAPI.config.zuVisitorEventID
       );
-      const visitorOrders = await this.pretixAPI.fetchOrders(
+      const visitorOrders = await this.fetchOrders(
         this.pretixAPI.config.zuVisitorEventID
       );
 
@@ -286,6 +306,55 @@ export class PretixSyncService {
     });
   }
 
+  /**
+   * Returns all of the orders of an event. Only the orders that changed
+   * since the last sync are fetched from Pretix, except for every
+   * `FULL_SYNC_INTERVAL_MS`, when all of them are.
+   */
+  private async fetchOrders(eventID: string): Promise<PretixOrder[]> {
+    return traced(SERVICE_NAME_FOR_TRACING, "fetchOrders", async (span) => {
+      const fetchStart = Date.now();
+      const previous = this.ordersByEventId.get(eventID);
+      const isFullSync =
+        !previous ||
+        fetchStart - previous.fullyFetchedAt >
+          PretixSyncService.FULL_SYNC_INTERVAL_MS;
+
+      const orders = await this.pretixAPI.fetchOrders(
+        eventID,
+        isFullSync ? undefined : previous.modifiedSince
+      );
+
+      const ordersByCode: Map<string, PretixOrder> = isFullSync
+        ? new Map()
+        : previous.ordersByCode;
+      for (const order of orders) {
+        ordersByCode.set(order.code, order);
+      }
+
+      this.ordersByEventId.set(eventID, {
+        ordersByCode,
+        modifiedSince:
+          _.max(orders.map((o) => new Date(o.last_modified))) ??
+          previous?.modifiedSince,
+        fullyFetchedAt: isFullSync ? fetchStart : previous.fullyFetchedAt
+      });
+
+      span?.setAttribute("event_id", eventID);
+      span?.setAttribute("is_full_sync", isFullSync);
+      span?.setAttribute("orders_fetched", orders.length);
+      span?.setAttribute("orders_total", ordersByCode.size);
+      span?.setAttribute("duration_ms", Date.now() - fetchStart);
+      logger(
+        `[PRETIX] fetched ${orders.length} ${
+          isFullSync ? "" : "modified "
+        }orders of ${eventID} in ${Date.now() - fetchStart}ms`
+      );
+
+      return [...ordersByCode.values()];
+    });
+  }
+
   /**
    * Converts a given list of orders to tickets, and sets
    * all of their roles to equal the given role. When `subEvents`
@@ -4,7 +4,7 @@ import {
   PendingPCDStatus,
   ProveRequest,
   StatusResponse,
-  SupportedPCDsResponse,
+  SupportedPCDsResponse
 } from "@pcd/passport-interface";
 import { PCDPackage } from "@pcd/pcd-types";
 import { RLNPCDPackage } from "@pcd/rln-pcd";
@@ -12,29 +12,53 @@ import { RSAPCDPackage } from "@pcd/rsa-pcd";
 import { RSATicketPCDPackage } from "@pcd/rsa-ticket-pcd";
 import { SemaphoreGroupPCDPackage } from "@pcd/semaphore-group-pcd";
 import { SemaphoreSignaturePCDPackage } from "@pcd/semaphore-signature-pcd";
+import { randomBytes } from "crypto";
 import { JubJubSignaturePCDPackage } from "jubjub-signature-pcd";
 import path from "path";
+import { ProvingJob } from "../database/models";
+import {
+  cancelProvingJob,
+  claimNextProvingJob,
+  completeProvingJob,
+  deleteExpiredProvingJobs,
+  failProvingJob,
+  fetchAverageProvingDuration,
+  fetchProvingJob,
+  fetchProvingJobQueuePosition,
+  insertProvingDuration,
+  insertProvingJob,
+  insertProvingJobRequest,
+  requeueInterruptedProvingJobs
+} from "../database/queries/provingJobs";
+import { ApplicationContext } from "../types";
 import { logger } from "../util/logger";
 import { RollbarService } from "./rollbarService";
+import { traced } from "./telemetryService";
 
 /**
  * Responsible for server-side proving that can optionally be used by clients.
+ *
+ * Requests are stored in the `proving_jobs` table, and are picked up by up to
+ * `concurrency` workers at a time, so that one slow proof doesn't hold up the
+ * rest of the queue, and so that pending and completed requests survive a
+ * restart of the server.
  */
 export class ProvingService {
-  private rollbarService: RollbarService | null;
-  /**
-   * In-memory queue of ProveRequests that requested server-side proving.
-   */
-  private queue: Array<ProveRequest> = [];
+  private static readonly POLL_INTERVAL_MS = 1000;
+  private static readonly CLEANUP_INTERVAL_MS = 1000 * 60 * 10;
+  private static readonly RESULT_TTL_MS = 1000 * 60 * 60 * 24;
+  private static readonly STALE_JOB_MS = 1000 * 60 * 5;
+  private static readonly MAX_ATTEMPTS = 3;
+  private static readonly DURATION_SAMPLE_SIZE = 20;
 
-  /**
-   * Stores the current StatusResponse of a specific hashed request, which will
-   * also include the a full SerialziedPCD if status === COMPLETE
-   */
-  private pendingPCDResponse: Map<string, StatusResponse> = new Map<
-    string,
-    StatusResponse
-  >();
+  private context: ApplicationContext;
+  private rollbarService: RollbarService | null;
+  private concurrency: number;
+  private activeWorkers: number;
+  private idleListeners: Array<() => void>;
+  private stopped: boolean;
+  private pollTimeout: NodeJS.Timeout | undefined;
+  private cleanupTimeout: NodeJS.Timeout | undefined;
 
   /**
    * Each PCD type that the proving server supports has to go into this array,
@@ -46,15 +70,66 @@ export class ProvingService {
     JubJubSignaturePCDPackage,
     RLNPCDPackage,
     RSAPCDPackage,
-    RSATicketPCDPackage,
+    RSATicketPCDPackage
   ];
 
-  public constructor(rollbarService: RollbarService | null) {
+  public constructor(
+    context: ApplicationContext,
+    rollbarService: RollbarService | null,
+    concurrency: number
+  ) {
+    this.context = context;
     this.rollbarService = rollbarService;
+    this.concurrency = concurrency;
+    this.activeWorkers = 0;
+    this.idleListeners = [];
+    this.stopped = false;
+  }
+
+  /**
+   * Starts the loops which pick up queued jobs, and which re-queue
+   * interrupted jobs and clean up expired results.
+   */
+  public async start(): Promise<void> {
+    const poll = async (): Promise<void> => {
+      await this.tryStartWorkers();
+      if (!this.stopped) {
+        this.pollTimeout = setTimeout(
+          () => poll(),
+          ProvingService.POLL_INTERVAL_MS
+        );
+      }
+    };
+
+    const cleanup = async (): Promise<void> => {
+      await this.tryCleanup();
+      if (!this.stopped) {
+        this.cleanupTimeout = setTimeout(
+          () => cleanup(),
+          ProvingService.CLEANUP_INTERVAL_MS
+        );
+      }
+    };
+
+    poll();
+    cleanup();
   }
 
-  public stop(): void {
-    this.queue = [];
+  /**
+   * Stops picking up new jobs, and waits for the jobs that are already being
+   * proven to be saved, so that they aren't left half-processed.
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+    }
+    if (this.cleanupTimeout) {
+      clearTimeout(this.cleanupTimeout);
+    }
+    if (this.activeWorkers > 0) {
+      await new Promise<void>((resolve) => this.idleListeners.push(resolve));
+    }
   }
 
   private getPackage(name: string): PCDPackage {
@@ -67,131 +142,299 @@ export class ProvingService {
     return matching;
   }
 
+  private hasPackage(name: string): boolean {
+    return this.packages.find((p) => p.name === name) !== undefined;
+  }
+
   public async enqueueProofRequest(request: ProveRequest): Promise<PendingPCD> {
     const hash = hashProveRequest(request);
 
     // don't add identical proof requests to queue to prevent accidental or
     // malicious DoS attacks on the proving queue
-    if (!this.pendingPCDResponse.has(hash)) {
-      this.queue.push(request);
-      if (this.queue.length == 1) {
-        this.pendingPCDResponse.set(hash, {
-          status: PendingPCDStatus.PROVING,
-          serializedPCD: undefined,
-          error: undefined,
-        });
+    const job = await insertProvingJob(this.context.dbPool, {
+      hash,
+      pcdType: request.pcdType,
+      request: JSON.stringify(request)
+    });
 
-        // we don't wait for this to end; we let it work in the background
-        this.serverProve(request);
-      } else {
-        this.pendingPCDResponse.set(hash, {
-          status: PendingPCDStatus.QUEUED,
-          serializedPCD: undefined,
-          error: undefined,
-        });
-      }
-    }
+    // the hash can be recomputed by anyone who knows the request, so each
+    // requester gets a secret token which lets only them cancel it
+    const cancelToken = randomBytes(32).toString("hex");
+    await insertProvingJobRequest(this.context.dbPool, hash, cancelToken);
 
-    const requestResponse = this.pendingPCDResponse.get(hash);
-    if (requestResponse === undefined) {
-      throw new Error("PCD status not defined");
+    if (job.status === PendingPCDStatus.QUEUED) {
+      // we don't wait for this to end; we let it work in the background
+      this.tryStartWorkers();
     }
 
     const pending: PendingPCD = {
       pcdType: request.pcdType,
       hash: hash,
-      status: requestResponse.status,
+      status: job.status as PendingPCDStatus,
+      cancelToken
     };
 
     return pending;
   }
 
-  public getPendingPCDStatus(hash: string): StatusResponse {
-    const response = this.pendingPCDResponse.get(hash);
-    if (response !== undefined) return response;
-    return {
-      serializedPCD: undefined,
-      error: undefined,
-      status: PendingPCDStatus.NONE,
-    };
+  public async getPendingPCDStatus(hash: string): Promise<StatusResponse> {
+    const job = await fetchProvingJob(this.context.dbPool, hash);
+
+    if (!job) {
+      return {
+        serializedPCD: undefined,
+        error: undefined,
+        status: PendingPCDStatus.NONE
+      };
+    }
+
+    return this.getStatusResponse(job);
+  }
+
+  /**
+   * Cancels a pending PCD that is queued or being proven, once everyone who
+   * requested it has cancelled it. A proof that is already in progress runs
+   * to completion, but its result is discarded.
+   */
+  public async cancelPendingPCD(
+    hash: string,
+    cancelToken: string
+  ): Promise<StatusResponse> {
+    const job = await cancelProvingJob(this.context.dbPool, hash, cancelToken);
+
+    if (!job) {
+      return {
+        serializedPCD: undefined,
+        error: undefined,
+        status: PendingPCDStatus.NONE
+      };
+    }
+
+    if (job.status === PendingPCDStatus.CANCELLED) {
+      logger(`[PROVING] cancelled PCD request ${hash}`);
+    }
+    return this.getStatusResponse(job);
   }
 
   /**
-   * Performs proof of current ProveRequest, and then checks if there are any other
-   * proofs in the queue waiting to start.
+   * Converts a job into a {@link StatusResponse}, including its position in
+   * the queue and an estimate of when it will be done, based on how long
+   * previous proofs of the same type took.
    */
-  private async serverProve(proveRequest: ProveRequest): Promise<void> {
-    const currentHash = hashProveRequest(proveRequest);
+  private async getStatusResponse(job: ProvingJob): Promise<StatusResponse> {
+    const status = job.status as PendingPCDStatus;
+    const response: StatusResponse = {
+      status,
+      serializedPCD:
+        status === PendingPCDStatus.COMPLETE
+          ? job.serialized_pcd ?? undefined
+          : undefined,
+      error:
+        status === PendingPCDStatus.ERROR ? job.error ?? undefined : undefined,
+      startedAt: job.time_started?.getTime()
+    };
+
+    if (
+      status !== PendingPCDStatus.QUEUED &&
+      status !== PendingPCDStatus.PROVING
+    ) {
+      return response;
+    }
+
+    const averageDuration = await fetchAverageProvingDuration(
+      this.context.dbPool,
+      job.pcd_type,
+      ProvingService.DURATION_SAMPLE_SIZE
+    );
+
+    if (status === PendingPCDStatus.PROVING) {
+      if (averageDuration != null && job.time_started) {
+        response.estimatedCompletion = Math.round(
+          job.time_started.getTime() + averageDuration
+        );
+      }
+      return response;
+    }
+
+    response.queuePosition = await fetchProvingJobQueuePosition(
+      this.context.dbPool,
+      job
+    );
+
+    if (averageDuration != null) {
+      // Rough estimate: assumes that the jobs ahead of this one take about as
+      // long as this one, and that they are spread evenly across the workers.
+      const rounds = Math.ceil(response.queuePosition / this.concurrency);
+      response.estimatedCompletion = Math.round(
+        Date.now() + rounds * averageDuration
+      );
+    }
+
+    return response;
+  }
 
+  /**
+   * Claims queued jobs until either the queue is empty or all of the workers
+   * are busy. Each claimed job runs in the background, and claims the next
+   * job once it's done.
+   */
+  private async tryStartWorkers(): Promise<void> {
     try {
-      const pcdPackage = this.getPackage(proveRequest.pcdType);
-      const pcd = await pcdPackage.prove(proveRequest.args);
-      const serializedPCD = await pcdPackage.serialize(pcd);
+      while (!this.stopped && this.activeWorkers < this.concurrency) {
+        // reserve the worker before claiming so that concurrent calls to
+        // this function can't exceed the concurrency limit
+        this.activeWorkers++;
 
-      // artificial lengthen to test multiple incoming requests
-      // await sleep(5000);
+        let job: ProvingJob | null;
+        try {
+          job = await claimNextProvingJob(this.context.dbPool);
+        } catch (e) {
+          this.releaseWorker();
+          throw e;
+        }
 
-      logger(`finished PCD request ${currentHash}`, serializedPCD);
-      this.pendingPCDResponse.set(currentHash, {
-        status: PendingPCDStatus.COMPLETE,
-        serializedPCD: JSON.stringify(serializedPCD),
-        error: undefined,
-      });
-    } catch (e: any) {
-      logger(e);
+        if (!job) {
+          this.releaseWorker();
+          return;
+        }
+
+        this.serverProve(job).finally(() => {
+          this.releaseWorker();
+          this.tryStartWorkers();
+        });
+      }
+    } catch (e) {
+      logger("[PROVING] failed to start proving workers", e);
       this.rollbarService?.reportError(e);
-      this.pendingPCDResponse.set(currentHash, {
-        status: PendingPCDStatus.ERROR,
-        serializedPCD: undefined,
-        error: e.message,
-      });
     }
+  }
+
+  /**
+   * Frees up a worker, and lets {@link stop} return once none are busy.
+   */
+  private releaseWorker(): void {
+    this.activeWorkers--;
+    if (this.activeWorkers === 0) {
+      const listeners = this.idleListeners;
+      this.idleListeners = [];
+      listeners.forEach((listener) => listener());
+    }
+  }
 
-    // finish current job
-    this.queue.shift();
-
-    // check if there's another job
-    if (this.queue.length > 0) {
-      const topHash = hashProveRequest(this.queue[0]);
-      const topResponse = this.pendingPCDResponse.get(topHash);
-      if (
-        topResponse !== undefined &&
-        topResponse.status !== PendingPCDStatus.PROVING
-      ) {
-        this.pendingPCDResponse.set(topHash, {
-          status: PendingPCDStatus.PROVING,
-          serializedPCD: undefined,
-          error: undefined,
-        });
-        this.serverProve(this.queue[0]);
+  /**
+   * Performs the proof of a claimed job, and saves the result.
+   */
+  private async serverProve(job: ProvingJob): Promise<void> {
+    return traced("Proving", "serverProve", async (span) => {
+      span?.setAttribute("pcd_type", job.pcd_type);
+      span?.setAttribute("attempt", job.attempts);
+
+      const proveRequest = JSON.parse(job.request) as ProveRequest;
+
+      try {
+        const pcdPackage = this.getPackage(proveRequest.pcdType);
+        const proveStart = Date.now();
+        const pcd = await pcdPackage.prove(proveRequest.args);
+        const serializedPCD = await pcdPackage.serialize(pcd);
+        await insertProvingDuration(
+          this.context.dbPool,
+          job.pcd_type,
+          Date.now() - proveStart,
+          ProvingService.DURATION_SAMPLE_SIZE
+        );
+
+        logger(`finished PCD request ${job.hash}`, serializedPCD);
+        await completeProvingJob(
+          this.context.dbPool,
+          job.hash,
+          JSON.stringify(serializedPCD)
+        );
+      } catch (e: any) {
+        logger(e);
+        this.rollbarService?.reportError(e);
+
+        try {
+          // a request for a package we don't have will never succeed,
+          // so there's no point in retrying it
+          await failProvingJob(
+            this.context.dbPool,
+            job.hash,
+            e.message,
+            this.hasPackage(proveRequest.pcdType)
+              ? ProvingService.MAX_ATTEMPTS
+              : 0
+          );
+        } catch (e) {
+          logger(`[PROVING] failed to save error for ${job.hash}`, e);
+          this.rollbarService?.reportError(e);
+        }
+      }
+    });
+  }
+
+  private async tryCleanup(): Promise<void> {
+    try {
+      const requeued = await requeueInterruptedProvingJobs(
+        this.context.dbPool,
+        ProvingService.STALE_JOB_MS
+      );
+      if (requeued > 0) {
+        logger(`[PROVING] re-queued ${requeued} interrupted proving jobs`);
       }
+
+      const deleted = await deleteExpiredProvingJobs(
+        this.context.dbPool,
+        ProvingService.RESULT_TTL_MS
+      );
+      logger(`[PROVING] deleted ${deleted} expired proving jobs`);
+    } catch (e) {
+      logger("[PROVING] failed to clean up proving jobs", e);
+      this.rollbarService?.reportError(e);
     }
   }
 
   public getSupportedPCDTypes(): SupportedPCDsResponse {
     return {
-      names: this.packages.map((p) => p.name),
+      names: this.packages.map((p) => p.name)
     };
   }
 }
 
 export async function startProvingService(
+  context: ApplicationContext,
   rollbarService: RollbarService | null
 ): Promise<ProvingService> {
   const fullPath = path.join(__dirname, "../../public/semaphore-artifacts");
 
-  await SemaphoreGroupPCDPackage.init!({
+  await initPackage(SemaphoreGroupPCDPackage, {
     wasmFilePath: fullPath + "/16.wasm",
-    zkeyFilePath: fullPath + "/16.zkey",
+    zkeyFilePath: fullPath + "/16.zkey"
   });
 
-  await SemaphoreSignaturePCDPackage.init!({
+  await initPackage(SemaphoreSignaturePCDPackage, {
     wasmFilePath: fullPath + "/16.wasm",
-    zkeyFilePath: fullPath + "/16.zkey",
+    zkeyFilePath: fullPath + "/16.zkey"
   });
 
-  await RSATicketPCDPackage.init!({ makeEncodedVerifyLink: undefined });
+  await initPackage(RSATicketPCDPackage, { makeEncodedVerifyLink: undefined });
+
+  const concurrency = parseInt(process.env.PROVING_CONCURRENCY ?? "", 10);
 
-  const provingService = new ProvingService(rollbarService);
+  const provingService = new ProvingService(
+    context,
+    rollbarService,
+    isNaN(concurrency) || concurrency < 1 ? 2 : concurrency
+  );
+  await provingService.start();
   return provingService;
 }
+
+async function initPackage<I>(
+  pcdPackage: PCDPackage<any, any, any, I>,
+  initArgs: I
+): Promise<void> {
+  if (!pcdPackage.init) {
+    throw new Error(`${pcdPackage.name} can't be initialized`);
+  }
+  await pcdPackage.init(initArgs);
+}
@@ -0,0 +1,276 @@
+import { logger } from "../util/logger";
+
+/**
+ * Configuration of a single token bucket. A bucket starts out full, and
+ * is refilled continuously at `refillPerMinute` tokens per minute, up to
+ * `capacity`.
+ */
+export interface TokenBucketConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  perIP: TokenBucketConfig;
+  perOrigin: TokenBucketConfig;
+  /**
+   * How many tokens a proof of a given PCD type costs. Types that aren't
+   * in this map cost {@link RateLimitService.DEFAULT_COST}.
+   */
+  costWeights: Record<string, number>;
+
+  /**
+   * How many issuance challenges each IP can be handed. Every challenge is
+   * stored until it is used or expires, so this also bounds how many rows
+   * a single client can add.
+   */
+  challengesPerIP: TokenBucketConfig;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+}
+
+/**
+ * Default weights for the PCD types the proving server supports, roughly
+ * proportional to how long they take to prove.
+ */
+const DEFAULT_COST_WEIGHTS: Record<string, number> = {
+  "semaphore-group-signal": 5,
+  "semaphore-signature-pcd": 3,
+  "rln-pcd": 5,
+  "jubjub-signature-pcd": 2,
+  "rsa-pcd": 1,
+  "rsa-ticket-pcd": 1
+};
+
+/**
+ * Responsible for limiting how much server-side proving any single client
+ * can request, so that nobody can flood the proving queue, and how many
+ * issuance challenges it can be handed. Keeps an in-memory token bucket for
+ * each IP address and each origin that has recently made a request.
+ */
+export class RateLimitService {
+  private static readonly DEFAULT_COST = 1;
+  private static readonly PRUNE_INTERVAL_MS = 1000 * 60 * 5;
+
+  private config: RateLimitConfig;
+  private ipBuckets: Map<string, TokenBucket>;
+  private originBuckets: Map<string, TokenBucket>;
+  private challengeBuckets: Map<string, TokenBucket>;
+  private pruneInterval: NodeJS.Timeout | undefined;
+
+  public constructor(config: RateLimitConfig) {
+    this.config = config;
+    this.ipBuckets = new Map();
+    this.originBuckets = new Map();
+    this.challengeBuckets = new Map();
+  }
+
+  public start(): void {
+    this.pruneInterval = setInterval(
+      () => this.prune(),
+      RateLimitService.PRUNE_INTERVAL_MS
+    );
+  }
+
+  public stop(): void {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+    }
+  }
+
+  public getCost(pcdType: string): number {
+    return this.config.costWeights[pcdType] ?? RateLimitService.DEFAULT_COST;
+  }
+
+  /**
+   * Takes the cost of proving a PCD of the given type out of both the IP's
+   * and the origin's bucket. If either bucket doesn't have enough tokens,
+   * nothing is taken from either, and the result says how long the client
+   * should wait before trying again.
+   */
+  public consumeProvingTokens(
+    ip: string,
+    origin: string,
+    pcdType: string,
+    now: number = Date.now()
+  ): RateLimitResult {
+    const cost = this.getCost(pcdType);
+
+    const ipBucket = this.getBucket(this.ipBuckets, ip, this.config.perIP, now);
+    const originBucket = this.getBucket(
+      this.originBuckets,
+      origin,
+      this.config.perOrigin,
+      now
+    );
+
+    const retryAfterSeconds = Math.max(
+      this.secondsUntilAvailable(ipBucket, this.config.perIP, cost),
+      this.secondsUntilAvailable(originBucket, this.config.perOrigin, cost)
+    );
+
+    if (retryAfterSeconds > 0) {
+      logger(
+        `[RATE LIMIT] rejecting ${pcdType} request from ip=${ip} origin=${origin}, ` +
+          `retry after ${retryAfterSeconds}s`
+      );
+      return { allowed: false, retryAfterSeconds };
+    }
+
+    ipBucket.tokens -= Math.min(cost, this.config.perIP.capacity);
+    originBucket.tokens -= Math.min(cost, this.config.perOrigin.capacity);
+    return { allowed: true };
+  }
+
+  /**
+   * Takes a token out of the IP's bucket of issuance challenges. If it is
+   * empty, the result says how long the client should wait before asking
+   * for another challenge.
+   */
+  public consumeChallengeToken(
+    ip: string,
+    now: number = Date.now()
+  ): RateLimitResult {
+    const bucket = this.getBucket(
+      this.challengeBuckets,
+      ip,
+      this.config.challengesPerIP,
+      now
+    );
+
+    const retryAfterSeconds = this.secondsUntilAvailable(
+      bucket,
+      this.config.challengesPerIP,
+      1
+    );
+    if (retryAfterSeconds > 0) {
+      logger(
+        `[RATE LIMIT] rejecting challenge request from ip=${ip}, ` +
+          `retry after ${retryAfterSeconds}s`
+      );
+      return { allowed: false, retryAfterSeconds };
+    }
+
+    bucket.tokens -= 1;
+    return { allowed: true };
+  }
+
+  private getBucket(
+    buckets: Map<string, TokenBucket>,
+    key: string,
+    config: TokenBucketConfig,
+    now: number
+  ): TokenBucket {
+    let bucket = buckets.get(key);
+
+    if (!bucket) {
+      bucket = { tokens: config.capacity, lastRefill: now };
+      buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsedMinutes = Math.max(0, now - bucket.lastRefill) / (1000 * 60);
+    bucket.tokens = Math.min(
+      config.capacity,
+      bucket.tokens + elapsedMinutes * config.refillPerMinute
+    );
+    bucket.lastRefill = now;
+    return bucket;
+  }
+
+  /**
+   * Returns 0 if the bucket has enough tokens to pay for `cost`, otherwise
+   * the number of seconds until it will. Requests which cost more than the
+   * bucket's capacity can never be paid for, and are treated as costing the
+   * full capacity.
+   */
+  private secondsUntilAvailable(
+    bucket: TokenBucket,
+    config: TokenBucketConfig,
+    cost: number
+  ): number {
+    const needed = Math.min(cost, config.capacity) - bucket.tokens;
+
+    if (needed <= 0) {
+      return 0;
+    }
+
+    if (config.refillPerMinute <= 0) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+
+    return Math.ceil((needed / config.refillPerMinute) * 60);
+  }
+
+  /**
+   * Forgets buckets that have refilled completely, as they are
+   * indistinguishable from new ones.
+   */
+  private prune(now: number = Date.now()): void {
+    for (const [buckets, config] of [
+      [this.ipBuckets, this.config.perIP],
+      [this.originBuckets, this.config.perOrigin],
+      [this.challengeBuckets, this.config.challengesPerIP]
+    ] as const) {
+      for (const [key, bucket] of buckets.entries()) {
+        const elapsedMinutes = (now - bucket.lastRefill) / (1000 * 60);
+        if (
+          bucket.tokens + elapsedMinutes * config.refillPerMinute >=
+          config.capacity
+        ) {
+          buckets.delete(key);
+        }
+      }
+    }
+  }
+}
+
+function parseNumberEnv(name: string, defaultValue: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return isNaN(value) || value < 0 ? defaultValue : value;
+}
+
+function parseCostWeightsEnv(): Record<string, number> {
+  const weightsEnv = process.env.PROVING_COST_WEIGHTS;
+
+  if (!weightsEnv) {
+    return DEFAULT_COST_WEIGHTS;
+  }
+
+  try {
+    return { ...DEFAULT_COST_WEIGHTS, ...JSON.parse(weightsEnv) };
+  } catch (e) {
+    logger("[INIT] failed to parse PROVING_COST_WEIGHTS, using defaults", e);
+    return DEFAULT_COST_WEIGHTS;
+  }
+}
+
+export function startRateLimitService(): RateLimitService {
+  const config: RateLimitConfig = {
+    perIP: {
+      capacity: parseNumberEnv("PROVING_RATE_LIMIT_IP_CAPACITY", 30),
+      refillPerMinute: parseNumberEnv("PROVING_RATE_LIMIT_IP_REFILL", 15)
+    },
+    perOrigin: {
+      capacity: parseNumberEnv("PROVING_RATE_LIMIT_ORIGIN_CAPACITY", 300),
+      refillPerMinute: parseNumberEnv("PROVING_RATE_LIMIT_ORIGIN_REFILL", 150)
+    },
+    costWeights: parseCostWeightsEnv(),
+    challengesPerIP: {
+      capacity: parseNumberEnv("CHALLENGE_RATE_LIMIT_IP_CAPACITY", 120),
+      refillPerMinute: parseNumberEnv("CHALLENGE_RATE_LIMIT_IP_REFILL", 60)
+    }
+  };
+
+  logger("[INIT] starting rate limit service", JSON.stringify(config));
+  const rateLimitService = new RateLimitService(config);
+  rateLimitService.start();
+  return rateLimitService;
+}
@@ -11,8 +11,10 @@ import { E2EEService } from "./services/e2eeService";
 import { EmailTokenService } from "./services/emailTokenService";
 import { IssuanceService } from "./services/issuanceService";
 import { MetricsService } from "./services/metricsService";
+import { PretixConfigService } from "./services/pretixConfigService";
 import { PretixSyncService } from "./services/pretixSyncService";
 import { ProvingService } from "./services/provingService";
+import { RateLimitService } from "./services/rateLimitService";
 import { RollbarService } from "./services/rollbarService";
 import { SemaphoreService } from "./services/semaphoreService";
 import { UserService } from "./services/userService";
@@ -34,11 +36,13 @@ export interface GlobalServices {
   emailTokenService: EmailTokenService;
   rollbarService: RollbarService | null;
   provingService: ProvingService;
+  rateLimitService: RateLimitService;
   pretixSyncService: PretixSyncService | null;
   devconnectPretixSyncService: DevconnectPretixSyncService | null;
   metricsService: MetricsService;
   issuanceService: IssuanceService | null;
   discordService: DiscordService | null;
+  pretixConfigService: PretixConfigService | null;
 }
 
 export interface PCDPass {
@@ -71,4 +75,15 @@ export interface EnvironmentVariables {
   PRETIX_VISITOR_EVENT_ID?: string;
   ROLLBAR_TOKEN?: string;
   SUPPRESS_LOGGING?: string;
+  PROVING_CONCURRENCY?: string;
+  PROVING_RATE_LIMIT_IP_CAPACITY?: string;
+  PROVING_RATE_LIMIT_IP_REFILL?: string;
+  PROVING_RATE_LIMIT_ORIGIN_CAPACITY?: string;
+  PROVING_RATE_LIMIT_ORIGIN_REFILL?: string;
+  PROVING_COST_WEIGHTS?: string;
+  CHALLENGE_RATE_LIMIT_IP_CAPACITY?: string;
+  CHALLENGE_RATE_LIMIT_IP_REFILL?: string;
+  SERVER_RSA_KEYRING_BASE64?: string;
+  SERVER_EDDSA_PRIVATE_KEY?: string;
+  ADMIN_API_TOKEN?: string;
 }
@@ -0,0 +1,120 @@
+import { ServerPublicKey } from "@pcd/passport-interface";
+import NodeRSA from "node-rsa";
+
+/**
+ * A key the server signs tickets and check-in snapshots with. Keys are
+ * rotated by adding a new key which becomes active at some point, and
+ * retiring the old key once tickets signed with it are no longer in use.
+ */
+export interface RSAKeyringEntry {
+  keyId: string;
+  key: NodeRSA;
+
+  /**
+   * When the key starts being used to sign. The most recently activated
+   * key which isn't retired is the one that is used.
+   */
+  activeFrom: Date;
+
+  /**
+   * When tickets signed with the key stop being accepted.
+   */
+  retiredAt?: Date;
+}
+
+/**
+ * The format of each key in `SERVER_RSA_KEYRING_BASE64`, which is a
+ * base64-encoded JSON array of them.
+ */
+interface RSAKeyringEntryConfig {
+  keyId: string;
+  privateKey: string;
+  activeFrom: string;
+  retiredAt?: string;
+}
+
+/**
+ * The id of the key loaded from `SERVER_RSA_PRIVATE_KEY_BASE64` when no
+ * keyring is configured.
+ */
+export const DEFAULT_KEY_ID = "default";
+
+/**
+ * Parses a keyring from its JSON representation, throwing if any of its keys
+ * are invalid or if two keys share an id.
+ */
+export function parseRSAKeyring(json: string): RSAKeyringEntry[] {
+  const configs = JSON.parse(json) as RSAKeyringEntryConfig[];
+  if (!Array.isArray(configs) || configs.length === 0) {
+    throw new Error("keyring must be a non-empty array");
+  }
+
+  const keyring = configs.map((config) => {
+    const activeFrom = new Date(config.activeFrom);
+    const retiredAt =
+      config.retiredAt != null ? new Date(config.retiredAt) : undefined;
+    if (
+      !config.keyId ||
+      isNaN(activeFrom.getTime()) ||
+      (retiredAt && isNaN(retiredAt.getTime()))
+    ) {
+      throw new Error(`invalid keyring entry ${config.keyId}`);
+    }
+
+    return {
+      keyId: config.keyId,
+      key: new NodeRSA(config.privateKey, "private"),
+      activeFrom,
+      retiredAt
+    } satisfies RSAKeyringEntry;
+  });
+
+  if (new Set(keyring.map((k) => k.keyId)).size !== keyring.length) {
+    throw new Error("keyring contains duplicate key ids");
+  }
+
+  return keyring;
+}
+
+export function isKeyRetired(entry: RSAKeyringEntry, now: Date): boolean {
+  return entry.retiredAt !== undefined && entry.retiredAt <= now;
+}
+
+/**
+ * The key that new tickets are signed with at the given time, if any.
+ */
+export function getSigningKey(
+  keyring: RSAKeyringEntry[],
+  now: Date
+): RSAKeyringEntry | undefined {
+  return keyring
+    .filter((k) => k.activeFrom <= now && !isKeyRetired(k, now))
+    .sort((a, b) => b.activeFrom.getTime() - a.activeFrom.getTime())[0];
+}
+
+/**
+ * The key with the given PEM-encoded public key, if it is in the keyring and
+ * tickets signed with it are still accepted at the given time.
+ */
+export function findVerificationKey(
+  keyring: RSAKeyringEntry[],
+  publicKey: string,
+  now: Date
+): RSAKeyringEntry | undefined {
+  return keyring.find(
+    (k) => !isKeyRetired(k, now) && k.key.exportKey("public") === publicKey
+  );
+}
+
+export function toServerPublicKey(
+  entry: RSAKeyringEntry,
+  now: Date
+): ServerPublicKey {
+  return {
+    keyId: entry.keyId,
+    publicKey: entry.key.exportKey("public"),
+    activeFrom: entry.activeFrom.toISOString(),
+    retiredAt: entry.retiredAt?.toISOString(),
+    isRetired: isKeyRetired(entry, now)
+  };
+}
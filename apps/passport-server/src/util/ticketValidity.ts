@@ -0,0 +1,139 @@
+import { TicketError } from "@pcd/passport-interface";
+import { ITicketEntryWindow, ITicketValidity } from "@pcd/rsa-ticket-pcd";
+import { DevconnectPretixItem } from "../apis/devconnect/devconnectPretixAPI";
+import { PretixItemInfo } from "../database/models";
+
+/**
+ * Pretix item metadata key holding how many times a day a ticket of the
+ * item can be used to enter, eg. "2".
+ */
+export const MAX_ENTRIES_PER_DAY_META_KEY = "max_entries_per_day";
+
+/**
+ * Pretix item metadata key holding the comma-separated windows of the day,
+ * in UTC, during which tickets of the item can be used, eg.
+ * "09:00-12:00,14:00-18:00".
+ */
+export const ENTRY_WINDOWS_META_KEY = "entry_windows";
+
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Derives the validity rules of tickets of an item from its Pretix settings.
+ * Invalid metadata values are ignored rather than failing the sync.
+ */
+export function getPretixItemValidity(
+  item: DevconnectPretixItem
+): ITicketValidity {
+  const validity: ITicketValidity = { dateRanges: [], entryWindows: [] };
+
+  if (item.validity_fixed_from || item.validity_fixed_until) {
+    validity.dateRanges.push({
+      from: item.validity_fixed_from ?? undefined,
+      to: item.validity_fixed_until ?? undefined
+    });
+  }
+
+  const maxEntriesPerDay = parseInt(
+    item.meta_data?.[MAX_ENTRIES_PER_DAY_META_KEY] ?? "",
+    10
+  );
+  if (maxEntriesPerDay > 0) {
+    validity.maxEntriesPerDay = maxEntriesPerDay;
+  }
+
+  validity.entryWindows = (item.meta_data?.[ENTRY_WINDOWS_META_KEY] ?? "")
+    .split(",")
+    .map((window) => window.trim().split("-"))
+    .filter(
+      (window) =>
+        window.length === 2 &&
+        window.every((time) => TIME_OF_DAY_REGEX.test(time))
+    )
+    .map(([start, end]) => ({ start, end }));
+
+  return validity;
+}
+
+/**
+ * The validity rules stored alongside an item's info.
+ */
+export function itemInfoToValidity(
+  itemInfo: Pick<
+    PretixItemInfo,
+    "valid_date_ranges" | "max_entries_per_day" | "entry_windows"
+  >
+): ITicketValidity {
+  return {
+    dateRanges: itemInfo.valid_date_ranges ?? [],
+    maxEntriesPerDay: itemInfo.max_entries_per_day ?? undefined,
+    entryWindows: itemInfo.entry_windows ?? []
+  };
+}
+
+/**
+ * Checks whether a ticket with the given validity rules can be used to
+ * enter at `now`, given how many times it has been used to enter today.
+ * Returns the reason it can't, or undefined if it can.
+ */
+export function checkTicketValidity(
+  validity: ITicketValidity,
+  entriesToday: number,
+  now: Date
+): TicketError | undefined {
+  const withinDateRange =
+    validity.dateRanges.length === 0 ||
+    validity.dateRanges.some(
+      (range) =>
+        (!range.from || new Date(range.from) <= now) &&
+        (!range.to || now <= new Date(range.to))
+    );
+  if (!withinDateRange) {
+    return { name: "NotValidNow", validity };
+  }
+
+  const withinEntryWindow =
+    validity.entryWindows.length === 0 ||
+    validity.entryWindows.some((window) => isWithinWindow(window, now));
+  if (!withinEntryWindow) {
+    return { name: "NotValidNow", validity };
+  }
+
+  if (
+    validity.maxEntriesPerDay !== undefined &&
+    entriesToday >= validity.maxEntriesPerDay
+  ) {
+    return {
+      name: "MaxEntriesReached",
+      maxEntriesPerDay: validity.maxEntriesPerDay
+    };
+  }
+
+  return undefined;
+}
+
+function isWithinWindow(window: ITicketEntryWindow, now: Date): boolean {
+  const minutes = now.getUTCHours() * 60 + now.getUTCMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  // windows that end before they start span midnight
+  return start <= end
+    ? start <= minutes && minutes < end
+    : start <= minutes || minutes < end;
+}
+
+function toMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(":").map((n) => parseInt(n, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Midnight UTC of the day `date` is on, which is when the entries of
+ * tickets with a maximum number of entries per day reset.
+ */
+export function startOfUTCDay(date: Date): Date {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
@@ -1,3 +1,4 @@
+import { timingSafeEqual } from "crypto";
 import validator from "email-validator";
 
 /**
@@ -59,3 +60,24 @@ export function randomEmailToken(): string {
 export function validateEmail(email: string): boolean {
   return validator.validate(email);
 }
+
+/**
+ * Formats rows of values as CSV, quoting every value.
+ */
+export function toCSV(rows: Array<Array<string | number | boolean>>): string {
+  return rows
+    .map((row) =>
+      row.map((value) => `"${value.toString().replace(/"/g, '""')}"`).join(",")
+    )
+    .join("\n");
+}
+
+/**
+ * Compares secrets in constant time, so that how long the comparison takes
+ * doesn't give away how much of a guess was right.
+ */
+export function secretsEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a);
+  const bBuffer = Buffer.from(b);
+  return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer);
+}
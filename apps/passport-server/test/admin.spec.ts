@@ -0,0 +1,429 @@
+import {
+  PretixConfigUpdateResponse,
+  PretixOrganizersConfigResponse,
+  PretixSyncDryRunResponse
+} from "@pcd/passport-interface";
+import chai, { expect } from "chai";
+import "mocha";
+import { step } from "mocha-steps";
+import { Pool } from "postgres-pool";
+import { getDevconnectPretixConfig } from "../src/apis/devconnect/organizer";
+import { stopApplication } from "../src/application";
+import { DevconnectPretixTicket, PretixItemInfo } from "../src/database/models";
+import { getDB } from "../src/database/postgresPool";
+import { fetchDevconnectPretixTicketsByEvent } from "../src/database/queries/devconnect_pretix_tickets/fetchDevconnectPretixTicket";
+import { fetchPretixEventInfo } from "../src/database/queries/pretixEventInfo";
+import { fetchPretixItemsInfoByEvent } from "../src/database/queries/pretixItemInfo";
+import { DevconnectPretixSyncService } from "../src/services/devconnectPretixSyncService";
+import { PCDPass } from "../src/types";
+import {
+  requestCreatePretixEvent,
+  requestCreatePretixOrganizer,
+  requestPretixOrganizers,
+  requestPretixSyncDryRun,
+  requestUpdatePretixEvent,
+  requestUpdatePretixOrganizer
+} from "./admin/admin";
+import { DevconnectPretixDataMocker } from "./pretix/devconnectPretixDataMocker";
+import { getDevconnectMockPretixAPI } from "./pretix/mockDevconnectPretixApi";
+import { overrideEnvironment, pcdpassTestingEnv } from "./util/env";
+import { startTestingApp } from "./util/startTestingApplication";
+
+describe("admin api", function () {
+  this.timeout(30_000);
+
+  let application: PCDPass;
+  let db: Pool;
+  let mocker: DevconnectPretixDataMocker;
+  let devconnectPretixSyncService: DevconnectPretixSyncService;
+  let organizerConfigId: string;
+  let eventConfigId: string;
+  const adminToken = pcdpassTestingEnv.ADMIN_API_TOKEN as string;
+
+  this.beforeAll(async () => {
+    await overrideEnvironment(pcdpassTestingEnv);
+    db = await getDB();
+
+    mocker = new DevconnectPretixDataMocker();
+    const devconnectPretixAPI = getDevconnectMockPretixAPI(mocker.get());
+    application = await startTestingApp({ devconnectPretixAPI });
+
+    if (!application.services.devconnectPretixSyncService) {
+      throw new Error("expected there to be a pretix sync service");
+    }
+    devconnectPretixSyncService =
+      application.services.devconnectPretixSyncService;
+  });
+
+  this.afterAll(async () => {
+    await stopApplication(application);
+    await db.end();
+  });
+
+  step("should require the admin token", async function () {
+    const withoutToken = await chai
+      .request(application.expressContext.app)
+      .get("/admin/pretix/organizers")
+      .send();
+    expect(withoutToken.status).to.eq(401);
+
+    const withWrongToken = await requestPretixOrganizers(
+      application,
+      "wrong-token"
+    );
+    expect(withWrongToken.status).to.eq(401);
+  });
+
+  step("should be able to add an organizer", async function () {
+    const response = await requestCreatePretixOrganizer(
+      application,
+      adminToken,
+      {
+        orgUrl: mocker.get().organizer1.orgUrl,
+        token: mocker.get().organizer1.token
+      }
+    );
+    expect(response.status).to.eq(200);
+    const body = response.body as PretixConfigUpdateResponse;
+    if (!body.success) {
+      throw new Error("expected the organizer to be added");
+    }
+    organizerConfigId = body.id;
+  });
+
+  step("should reject an invalid organizer", async function () {
+    const response = await requestCreatePretixOrganizer(
+      application,
+      adminToken,
+      { orgUrl: "not a url", token: "token" }
+    );
+    expect(response.status).to.eq(400);
+    expect(response.body).to.deep.eq({
+      success: false,
+      error: { name: "InvalidConfig", detail: "orgUrl must be a valid URL" }
+    } satisfies PretixConfigUpdateResponse);
+  });
+
+  step("should reject superuser items that aren't active", async function () {
+    const response = await requestCreatePretixEvent(
+      application,
+      adminToken,
+      organizerConfigId,
+      {
+        eventId: mocker.get().organizer1.eventA.slug,
+        activeItemIds: [mocker.get().organizer1.eventAItem1.id + ""],
+        superuserItemIds: [mocker.get().organizer1.eventAItem2.id + ""]
+      }
+    );
+    expect(response.status).to.eq(400);
+  });
+
+  step("should be able to add an event", async function () {
+    const response = await requestCreatePretixEvent(
+      application,
+      adminToken,
+      organizerConfigId,
+      {
+        eventId: mocker.get().organizer1.eventA.slug,
+        activeItemIds: [
+          mocker.get().organizer1.eventAItem1.id + "",
+          mocker.get().organizer1.eventAItem2.id + ""
+        ],
+        superuserItemIds: [mocker.get().organizer1.eventAItem2.id + ""]
+      }
+    );
+    expect(response.status).to.eq(200);
+    const body = response.body as PretixConfigUpdateResponse;
+    if (!body.success) {
+      throw new Error("expected the event to be added");
+    }
+    eventConfigId = body.id;
+  });
+
+  step("should not add the same event twice", async function () {
+    const response = await requestCreatePretixEvent(
+      application,
+      adminToken,
+      organizerConfigId,
+      {
+        eventId: mocker.get().organizer1.eventA.slug,
+        activeItemIds: [],
+        superuserItemIds: []
+      }
+    );
+    expect(response.status).to.eq(400);
+  });
+
+  step("should list organizers without their tokens", async function () {
+    const response = await requestPretixOrganizers(application, adminToken);
+    expect(response.status).to.eq(200);
+    expect(response.body).to.deep.eq({
+      organizers: [
+        {
+          id: organizerConfigId,
+          orgUrl: mocker.get().organizer1.orgUrl,
+          hasWebhookSecret: false,
+          isActive: true,
+          events: [
+            {
+              id: eventConfigId,
+              eventId: mocker.get().organizer1.eventA.slug,
+              activeItemIds: [
+                mocker.get().organizer1.eventAItem1.id + "",
+                mocker.get().organizer1.eventAItem2.id + ""
+              ],
+              superuserItemIds: [mocker.get().organizer1.eventAItem2.id + ""],
+              maxTicketTransfers: 0,
+              isActive: true
+            }
+          ]
+        }
+      ]
+    } satisfies PretixOrganizersConfigResponse);
+  });
+
+  step("the next sync should pick up the new event", async function () {
+    await devconnectPretixSyncService.trySync();
+
+    const eventInfo = await fetchPretixEventInfo(db, eventConfigId);
+    expect(eventInfo?.event_name).to.eq(mocker.get().organizer1.eventA.name.en);
+    const tickets = await fetchDevconnectPretixTicketsByEvent(
+      db,
+      eventConfigId
+    );
+    expect(tickets.length).to.be.greaterThan(0);
+  });
+
+  step("should be able to rotate an organizer's token", async function () {
+    const response = await requestUpdatePretixOrganizer(
+      application,
+      adminToken,
+      organizerConfigId,
+      { token: "rotated-token", webhookSecret: "webhook-secret" }
+    );
+    expect(response.status).to.eq(200);
+
+    const config = await getDevconnectPretixConfig(db);
+    expect(config?.organizers[0].token).to.eq("rotated-token");
+    expect(config?.organizers[0].webhookSecret).to.eq("webhook-secret");
+    expect(config?.organizers[0].orgURL).to.eq(mocker.get().organizer1.orgUrl);
+
+    await requestUpdatePretixOrganizer(
+      application,
+      adminToken,
+      organizerConfigId,
+      { token: mocker.get().organizer1.token }
+    );
+  });
+
+  step("should be able to change an event's items", async function () {
+    const response = await requestUpdatePretixEvent(
+      application,
+      adminToken,
+      eventConfigId,
+      {
+        activeItemIds: [mocker.get().organizer1.eventAItem1.id + ""],
+        superuserItemIds: [],
+        maxTicketTransfers: 2
+      }
+    );
+    expect(response.status).to.eq(200);
+
+    const config = await getDevconnectPretixConfig(db);
+    expect(config?.organizers[0].events).to.deep.eq([
+      {
+        id: eventConfigId,
+        eventID: mocker.get().organizer1.eventA.slug,
+        activeItemIDs: [mocker.get().organizer1.eventAItem1.id + ""],
+        superuserItemIds: []
+      }
+    ]);
+  });
+
+  step(
+    "a dry run should report what the next sync would change",
+    async function () {
+      const eventInfo = await fetchPretixEventInfo(db, eventConfigId);
+      const itemsInfo = await fetchPretixItemsInfoByEvent(
+        db,
+        eventInfo?.id as string
+      );
+      const removedItemInfo = itemsInfo.find(
+        (i) => i.item_id === mocker.get().organizer1.eventAItem2.id + ""
+      );
+
+      const order = mocker
+        .get()
+        .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug)
+        ?.find((o) =>
+          o.positions.some(
+            (p) => p.item === mocker.get().organizer1.eventAItem1.id
+          )
+        );
+      if (!order) {
+        throw new Error("expected an order for the first item of event A");
+      }
+      const position = order.positions.find(
+        (p) => p.item === mocker.get().organizer1.eventAItem1.id
+      );
+      const ticketBefore = (
+        await fetchDevconnectPretixTicketsByEvent(db, eventConfigId)
+      ).find((t) => t.position_id === position?.id.toString());
+      mocker.updateOrder(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        order.code,
+        (order) => {
+          order.positions.forEach((p) => (p.attendee_name = "Dry Run"));
+        }
+      );
+
+      const response = await requestPretixSyncDryRun(
+        application,
+        adminToken,
+        {}
+      );
+      expect(response.status).to.eq(200);
+      const body = response.body as PretixSyncDryRunResponse;
+      if (!body.success) {
+        throw new Error("expected the dry run to succeed");
+      }
+
+      expect(body.organizers.length).to.eq(1);
+      expect(body.organizers[0].error).to.eq(undefined);
+      const [eventReport] = body.organizers[0].events;
+      expect(eventReport.eventConfigId).to.eq(eventConfigId);
+      expect(eventReport.problems).to.deep.eq([]);
+      expect(eventReport.eventInfo.insertCount).to.eq(0);
+      expect(eventReport.eventInfo.updateCount).to.eq(0);
+      expect(eventReport.items?.insertCount).to.eq(0);
+      expect(eventReport.items?.deleteCount).to.eq(1);
+      expect(
+        (eventReport.items?.sampleDeletes as PretixItemInfo[]).map((i) => i.id)
+      ).to.deep.eq([removedItemInfo?.id]);
+      expect(eventReport.tickets?.insertCount).to.eq(0);
+      expect(eventReport.tickets?.deleteCount).to.eq(0);
+      const ticketUpdate = eventReport.tickets?.sampleUpdates.find(
+        (u) =>
+          (u.before as DevconnectPretixTicket).position_id ===
+          ticketBefore?.position_id
+      );
+      expect(ticketUpdate?.before).to.include({
+        id: ticketBefore?.id,
+        full_name: ticketBefore?.full_name
+      });
+      expect(ticketUpdate?.after).to.include({ full_name: "Dry Run" });
+
+      // nothing was changed
+      const ticketAfter = (
+        await fetchDevconnectPretixTicketsByEvent(db, eventConfigId)
+      ).find((t) => t.position_id === position?.id.toString());
+      expect(ticketAfter).to.deep.eq(ticketBefore);
+      const itemsInfoAfter = await fetchPretixItemsInfoByEvent(
+        db,
+        eventInfo?.id as string
+      );
+      expect(itemsInfoAfter).to.deep.eq(itemsInfo);
+    }
+  );
+
+  step(
+    "a dry run should cover new organizers before they're activated",
+    async function () {
+      const organizerResponse = await requestCreatePretixOrganizer(
+        application,
+        adminToken,
+        {
+          orgUrl: mocker.get().organizer2.orgUrl,
+          token: mocker.get().organizer2.token,
+          isActive: false
+        }
+      );
+      const organizer = organizerResponse.body as PretixConfigUpdateResponse;
+      if (!organizer.success) {
+        throw new Error("expected the organizer to be added");
+      }
+      const eventResponse = await requestCreatePretixEvent(
+        application,
+        adminToken,
+        organizer.id,
+        {
+          eventId: mocker.get().organizer2.eventA.slug,
+          activeItemIds: [mocker.get().organizer2.eventAItem1.id + ""],
+          superuserItemIds: []
+        }
+      );
+      const event = eventResponse.body as PretixConfigUpdateResponse;
+      if (!event.success) {
+        throw new Error("expected the event to be added");
+      }
+
+      const response = await requestPretixSyncDryRun(application, adminToken, {
+        organizerConfigId: organizer.id
+      });
+      expect(response.status).to.eq(200);
+      const body = response.body as PretixSyncDryRunResponse;
+      if (!body.success) {
+        throw new Error("expected the dry run to succeed");
+      }
+
+      expect(body.organizers.length).to.eq(1);
+      expect(body.organizers[0].organizerConfigId).to.eq(organizer.id);
+      const [eventReport] = body.organizers[0].events;
+      expect(eventReport.eventInfo.insertCount).to.eq(1);
+      expect(eventReport.items?.insertCount).to.eq(1);
+      expect(eventReport.tickets?.insertCount).to.be.greaterThan(0);
+      expect(eventReport.tickets?.updateCount).to.eq(0);
+      expect(eventReport.tickets?.deleteCount).to.eq(0);
+
+      // the organizer isn't active, so it isn't synced either
+      await devconnectPretixSyncService.trySync();
+      expect(await fetchPretixEventInfo(db, event.id)).to.eq(null);
+    }
+  );
+
+  step("a dry run of an unknown organizer should fail", async function () {
+    const response = await requestPretixSyncDryRun(application, adminToken, {
+      organizerConfigId: "00000000-0000-0000-0000-000000000000"
+    });
+    expect(response.status).to.eq(404);
+  });
+
+  step("should not update events that don't exist", async function () {
+    const unknownId = await requestUpdatePretixEvent(
+      application,
+      adminToken,
+      "00000000-0000-0000-0000-000000000000",
+      { isActive: false }
+    );
+    expect(unknownId.status).to.eq(404);
+
+    const invalidId = await requestUpdatePretixEvent(
+      application,
+      adminToken,
+      "not-a-uuid",
+      { isActive: false }
+    );
+    expect(invalidId.status).to.eq(404);
+  });
+
+  step("deactivated events should no longer be synced", async function () {
+    const response = await requestUpdatePretixEvent(
+      application,
+      adminToken,
+      eventConfigId,
+      { isActive: false }
+    );
+    expect(response.status).to.eq(200);
+
+    const config = await getDevconnectPretixConfig(db);
+    expect(config?.organizers).to.deep.eq([]);
+
+    // tickets that were synced before are kept
+    const tickets = await fetchDevconnectPretixTicketsByEvent(
+      db,
+      eventConfigId
+    );
+    expect(tickets.length).to.be.greaterThan(0);
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  CreatePretixEventRequest,
+  CreatePretixOrganizerRequest,
+  PretixSyncDryRunRequest,
+  UpdatePretixEventRequest,
+  UpdatePretixOrganizerRequest
+} from "@pcd/passport-interface";
+import chai from "chai";
+import { Response } from "superagent";
+import { PCDPass } from "../../src/types";
+
+export async function requestPretixOrganizers(
+  application: PCDPass,
+  adminToken: string
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .get("/admin/pretix/organizers")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send();
+}
+
+export async function requestCreatePretixOrganizer(
+  application: PCDPass,
+  adminToken: string,
+  request: CreatePretixOrganizerRequest
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .post("/admin/pretix/organizers")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send(request);
+}
+
+export async function requestUpdatePretixOrganizer(
+  application: PCDPass,
+  adminToken: string,
+  organizerConfigId: string,
+  request: UpdatePretixOrganizerRequest
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .put(`/admin/pretix/organizers/${organizerConfigId}`)
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send(request);
+}
+
+export async function requestCreatePretixEvent(
+  application: PCDPass,
+  adminToken: string,
+  organizerConfigId: string,
+  request: CreatePretixEventRequest
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .post(`/admin/pretix/organizers/${organizerConfigId}/events`)
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send(request);
+}
+
+export async function requestUpdatePretixEvent(
+  application: PCDPass,
+  adminToken: string,
+  eventConfigId: string,
+  request: UpdatePretixEventRequest
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .put(`/admin/pretix/events/${eventConfigId}`)
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send(request);
+}
+
+export async function requestPretixSyncDryRun(
+  application: PCDPass,
+  adminToken: string,
+  request: PretixSyncDryRunRequest
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .post("/admin/pretix/dry-run")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send(request);
+}
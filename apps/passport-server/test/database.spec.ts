@@ -12,8 +12,12 @@ import {
   removeCommitment
 } from "../src/database/queries/commitments";
 import {
+  deleteOldEncryptedStorageRevisions,
   fetchEncryptedStorage,
-  insertEncryptedStorage
+  fetchEncryptedStorageHistory,
+  fetchEncryptedStorageRevision,
+  insertEncryptedStorage,
+  updateEncryptedStorage
 } from "../src/database/queries/e2ee";
 import {
   fetchEmailToken,
@@ -213,6 +217,60 @@ describe("database reads and writes", function () {
     }
     expect(updatedStorage.blob_key).to.eq(key);
     expect(updatedStorage.encrypted_blob).to.eq(updatedValue);
+    expect(updatedStorage.revision).to.eq(insertedStorage.revision + 1);
+  });
+
+  step("e2ee saves should be rejected at stale revisions", async function () {
+    const key = "revisioned-key";
+
+    expect(await updateEncryptedStorage(db, key, "value", 0)).to.eq(1);
+    expect(await updateEncryptedStorage(db, key, "value2", 0)).to.eq(undefined);
+    expect(await updateEncryptedStorage(db, key, "value2", 1)).to.eq(2);
+    expect(await updateEncryptedStorage(db, key, "value3", 1)).to.eq(undefined);
+
+    const storage = await fetchEncryptedStorage(db, key);
+    expect(storage?.encrypted_blob).to.eq("value2");
+    expect(storage?.revision).to.eq(2);
+  });
+
+  step(
+    "e2ee rotation verifiers should only be saved with new storage",
+    async function () {
+      const key = "verified-key";
+
+      await insertEncryptedStorage(db, key, "value", "verifier");
+      await insertEncryptedStorage(db, key, "value2", "other verifier");
+      await updateEncryptedStorage(db, key, "value3", 2, "other verifier");
+
+      const storage = await fetchEncryptedStorage(db, key);
+      expect(storage?.revision).to.eq(3);
+      expect(storage?.rotation_verifier).to.eq("verifier");
+
+      // storage saved before rotation verifiers were kept can't be claimed
+      const legacyKey = "legacy-key";
+      await insertEncryptedStorage(db, legacyKey, "value");
+      await insertEncryptedStorage(db, legacyKey, "value2", "verifier");
+      await updateEncryptedStorage(db, legacyKey, "value3", 2, "verifier");
+      expect(
+        (await fetchEncryptedStorage(db, legacyKey))?.rotation_verifier
+      ).to.eq(null);
+    }
+  );
+
+  step("e2ee history should keep the newest revisions", async function () {
+    const key = "history-key";
+
+    for (let i = 1; i <= 5; i++) {
+      await insertEncryptedStorage(db, key, `value${i}`);
+    }
+    await deleteOldEncryptedStorageRevisions(db, key, 3);
+
+    const history = await fetchEncryptedStorageHistory(db, key);
+    expect(history.map((r) => r.revision)).to.deep.eq([5, 4, 3]);
+
+    const revision = await fetchEncryptedStorageRevision(db, key, 4);
+    expect(revision?.encrypted_blob).to.eq("value4");
+    expect(await fetchEncryptedStorageRevision(db, key, 2)).to.eq(undefined);
   });
 
   step("pcdpass user representation should work", async function () {
@@ -1,18 +1,43 @@
+import { EmailPCDPackage } from "@pcd/email-pcd";
 import {
+  CheckInDashboardEventsResponse,
+  CheckInDashboardResponse,
+  CheckInExportResponse,
+  CheckInHistoryResponse,
   CheckInResponse,
+  CheckInSnapshot,
+  CheckInSnapshotResponse,
+  getChallengeMessage,
   ISSUANCE_STRING,
+  IssuedPCDsRequest,
   IssuedPCDsResponse,
-  User
+  PretixSyncReportResponse,
+  ReconcileCheckInsResponse,
+  ServerPublicKeysResponse,
+  TransferTicketResponse,
+  UndoCheckInResponse,
+  User,
+  verifyEmailPCD
 } from "@pcd/passport-interface";
 import { ArgumentTypeName, SerializedPCD } from "@pcd/pcd-types";
 import { RSAPCDPackage } from "@pcd/rsa-pcd";
-import { RSATicketPCD, RSATicketPCDPackage } from "@pcd/rsa-ticket-pcd";
+import {
+  getTicketData,
+  RSATicketPCD,
+  RSATicketPCDPackage
+} from "@pcd/rsa-ticket-pcd";
+import {
+  EdDSAPoint,
+  EdDSATicketPCDPackage,
+  getEdDSAPublicKey
+} from "@pcd/zk-ticket-pcd";
 import { Identity } from "@semaphore-protocol/identity";
 import { expect } from "chai";
 import _ from "lodash";
 import "mocha";
 import NodeRSA from "node-rsa";
 import { Pool } from "postgres-pool";
+import { DevconnectPretixOrder } from "../src/apis/devconnect/devconnectPretixAPI";
 import {
   DevconnectPretixConfig,
   getDevconnectPretixConfig
@@ -22,24 +47,55 @@ import { stopApplication } from "../src/application";
 import { getDB } from "../src/database/postgresPool";
 import {
   fetchAllNonDeletedDevconnectPretixTickets,
-  fetchDevconnectDeviceLoginTicket
+  fetchDevconnectDeviceLoginTicket,
+  fetchDevconnectPretixTicketByTicketId,
+  fetchDevconnectPretixTicketsByPositionIds
 } from "../src/database/queries/devconnect_pretix_tickets/fetchDevconnectPretixTicket";
+import { insertIssuanceChallenge } from "../src/database/queries/issuanceChallenges";
 import { fetchPretixEventInfo } from "../src/database/queries/pretixEventInfo";
 import { fetchPretixItemsInfoByEvent } from "../src/database/queries/pretixItemInfo";
+import {
+  fetchDevconnectPretixSyncCursor,
+  upsertDevconnectPretixSyncCursor
+} from "../src/database/queries/pretixSyncCursors";
 import {
   insertPretixEventConfig,
   insertPretixOrganizerConfig
 } from "../src/database/queries/pretix_config/insertConfiguration";
 import { DevconnectPretixSyncService } from "../src/services/devconnectPretixSyncService";
+import { IssuanceProvider } from "../src/services/issuance/issuanceProvider";
+import { IssuanceService } from "../src/services/issuanceService";
 import { PretixSyncStatus } from "../src/services/types";
 import { PCDPass } from "../src/types";
+import { DEFAULT_KEY_ID } from "../src/util/rsaKeyring";
+import {
+  ENTRY_WINDOWS_META_KEY,
+  MAX_ENTRIES_PER_DAY_META_KEY
+} from "../src/util/ticketValidity";
 import {
+  getIssuedPCDs,
+  makeCheckerProof,
+  makeSignatureProof,
   requestCheckIn,
+  requestCheckInDashboard,
+  requestCheckInDashboardEvents,
+  requestCheckInExport,
+  requestCheckInHistory,
+  requestCheckInSnapshot,
+  requestIssuanceChallenge,
   requestIssuedPCDs,
-  requestServerPublicKey
+  requestPretixSyncReport,
+  requestReconcileCheckIns,
+  requestServerEdDSAPublicKey,
+  requestServerPublicKey,
+  requestServerPublicKeys,
+  requestTransferTicket,
+  requestUndoCheckIn,
+  sendIssuanceRequest
 } from "./issuance/issuance";
 import { DevconnectPretixDataMocker } from "./pretix/devconnectPretixDataMocker";
 import { getDevconnectMockPretixAPI } from "./pretix/mockDevconnectPretixApi";
+import { sendDevconnectPretixWebhook } from "./pretix/sendDevconnectPretixWebhook";
 import { waitForDevconnectPretixSyncStatus } from "./pretix/waitForDevconnectPretixSyncStatus";
 import { testDeviceLogin, testFailedDeviceLogin } from "./user/testDeviceLogin";
 import { testLoginPCDPass } from "./user/testLoginPCDPass";
@@ -50,7 +106,7 @@ describe("devconnect functionality", function () {
   this.timeout(30_000);
 
   let application: PCDPass;
-  let _emailAPI: IEmailAPI;
+  let emailAPI: IEmailAPI;
   let mocker: DevconnectPretixDataMocker;
 
   let devconnectPretixSyncService: DevconnectPretixSyncService;
@@ -59,6 +115,7 @@ describe("devconnect functionality", function () {
   let eventAConfigId: string;
   let eventBConfigId: string;
   let eventCConfigId: string;
+  const webhookSecret = "pretix-webhook-secret";
 
   this.beforeAll(async () => {
     await overrideEnvironment(pcdpassTestingEnv);
@@ -69,7 +126,8 @@ describe("devconnect functionality", function () {
     organizerConfigId = await insertPretixOrganizerConfig(
       db,
       mocker.get().organizer1.orgUrl,
-      mocker.get().organizer1.token
+      mocker.get().organizer1.token,
+      webhookSecret
     );
 
     eventAConfigId = await insertPretixEventConfig(
@@ -80,7 +138,8 @@ describe("devconnect functionality", function () {
         mocker.get().organizer1.eventAItem2.id + ""
       ],
       [mocker.get().organizer1.eventAItem2.id + ""],
-      mocker.get().organizer1.eventA.slug
+      mocker.get().organizer1.eventA.slug,
+      1
     );
 
     eventBConfigId = await insertPretixEventConfig(
@@ -123,6 +182,7 @@ describe("devconnect functionality", function () {
           id: organizerConfigId,
           orgURL: mocker.get().organizer1.orgUrl,
           token: mocker.get().organizer1.token,
+          webhookSecret,
           events: [
             {
               id: eventAConfigId,
@@ -152,7 +212,7 @@ describe("devconnect functionality", function () {
     if (!application.apis.emailAPI) {
       throw new Error("email client should have been mocked");
     }
-    _emailAPI = application.apis.emailAPI;
+    emailAPI = application.apis.emailAPI;
   });
 
   step("devconnect pretix status should sync to completion", async function () {
@@ -187,16 +247,6 @@ describe("devconnect functionality", function () {
       const [{ id: item1EventAInfoID }, { id: item2EventAInfoID }] =
         await fetchPretixItemsInfoByEvent(db, eventAItemInfo.id);
 
-      // Get item info IDs for event B
-      const eventBItemInfo = await fetchPretixEventInfo(db, eventBConfigId);
-      if (!eventBItemInfo) {
-        throw new Error("expected to be able to fetch corresponding item info");
-      }
-      const [{ id: item1EventBInfoID }] = await fetchPretixItemsInfoByEvent(
-        db,
-        eventBItemInfo.id
-      );
-
       expect(ticketsWithEmailEventAndItems).to.have.deep.members([
         {
           email: mocker.get().organizer1.EMAIL_4,
@@ -516,9 +566,46 @@ describe("devconnect functionality", function () {
     }
   );
 
+  step("should sync the validity rules of items", async function () {
+    const eventInfo = await fetchPretixEventInfo(db, eventBConfigId);
+    if (!eventInfo) {
+      throw new Error(`Could not fetch event info for ${eventBConfigId}`);
+    }
+
+    mocker.updateItem(
+      mocker.get().organizer1.orgUrl,
+      mocker.get().organizer1.eventB.slug,
+      mocker.get().organizer1.eventBItem3.id,
+      (item) => {
+        item.validity_fixed_from = "2023-11-13T00:00:00Z";
+        item.validity_fixed_until = "2023-11-19T23:59:59Z";
+        item.meta_data = {
+          [MAX_ENTRIES_PER_DAY_META_KEY]: "2",
+          [ENTRY_WINDOWS_META_KEY]: "09:00-12:00, 14:00-18:00, invalid"
+        };
+      }
+    );
+
+    devconnectPretixSyncService.replaceApi(
+      getDevconnectMockPretixAPI(mocker.get())
+    );
+    await devconnectPretixSyncService.trySync();
+
+    const item = (await fetchPretixItemsInfoByEvent(db, eventInfo.id))[0];
+    expect(item.valid_date_ranges).to.deep.eq([
+      { from: "2023-11-13T00:00:00Z", to: "2023-11-19T23:59:59Z" }
+    ]);
+    expect(item.max_entries_per_day).to.eq(2);
+    expect(item.entry_windows).to.deep.eq([
+      { start: "09:00", end: "12:00" },
+      { start: "14:00", end: "18:00" }
+    ]);
+  });
+
   let user: User;
   let identity: Identity;
   let publicKey: NodeRSA;
+  let eddsaPublicKey: EdDSAPoint;
 
   step(
     "anyone should be able to request the server's public key",
@@ -532,6 +619,32 @@ describe("devconnect functionality", function () {
     }
   );
 
+  step(
+    "anyone should be able to list the keys the server signs tickets with",
+    async function () {
+      const response = await requestServerPublicKeys(application);
+      expect(response.status).to.eq(200);
+
+      const { keys } = response.body as ServerPublicKeysResponse;
+      expect(keys.length).to.eq(1);
+      expect(keys[0].keyId).to.eq(DEFAULT_KEY_ID);
+      expect(keys[0].isRetired).to.eq(false);
+      expect(keys[0].publicKey).to.eq(publicKey.exportKey("public"));
+    }
+  );
+
+  step(
+    "anyone should be able to request the server's EdDSA public key",
+    async function () {
+      const publicKeyResponse = await requestServerEdDSAPublicKey(application);
+      expect(publicKeyResponse.status).to.eq(200);
+      eddsaPublicKey = publicKeyResponse.body as EdDSAPoint;
+      expect(eddsaPublicKey).to.deep.eq(
+        getEdDSAPublicKey(pcdpassTestingEnv.SERVER_EDDSA_PRIVATE_KEY as string)
+      );
+    }
+  );
+
   step("should be able to log in", async function () {
     const result = await testLoginPCDPass(
       application,
@@ -561,16 +674,23 @@ describe("devconnect functionality", function () {
       );
       const responseBody = response.body as IssuedPCDsResponse;
 
-      expect(responseBody.folder).to.eq("Devconnect");
+      expect(responseBody.folders.map((f) => f.folder)).to.deep.eq([
+        "Devconnect",
+        "Email"
+      ]);
+      const pcds = getIssuedPCDs(responseBody, "Devconnect");
 
-      expect(Array.isArray(responseBody.pcds)).to.eq(true);
       // originally there were 6 orders in the mock data
       // but one was deleted in an earlier test
       // since we don't fetch tickets with is_deleted = true
-      // there will only be 5 PCDs
-      expect(responseBody.pcds.length).to.eq(5);
+      // there will only be 5 tickets, each of which is issued both as an
+      // RSA ticket PCD and as an EdDSA ticket PCD
+      expect(pcds.length).to.eq(10);
+      expect(
+        pcds.filter((pcd) => pcd.type === RSATicketPCDPackage.name).length
+      ).to.eq(5);
 
-      const ticketPCD = responseBody.pcds[0];
+      const ticketPCD = pcds[0];
 
       expect(ticketPCD.type).to.eq(RSATicketPCDPackage.name);
 
@@ -594,6 +714,73 @@ describe("devconnect functionality", function () {
     }
   );
 
+  step(
+    "user should be issued EdDSA tickets they can make zero-knowledge proofs about",
+    async function () {
+      const response = await requestIssuedPCDs(
+        application,
+        identity,
+        ISSUANCE_STRING
+      );
+      const responseBody = response.body as IssuedPCDsResponse;
+
+      const tickets = await Promise.all(
+        getIssuedPCDs(responseBody, "Devconnect")
+          .filter((pcd) => pcd.type === EdDSATicketPCDPackage.name)
+          .map((pcd) => EdDSATicketPCDPackage.deserialize(pcd.pcd))
+      );
+      expect(tickets.length).to.eq(5);
+
+      for (const ticket of tickets) {
+        expect(await EdDSATicketPCDPackage.verify(ticket)).to.eq(true);
+        expect(ticket.claim.publicKey).to.deep.eq(eddsaPublicKey);
+        expect(ticket.claim.ticket.attendeeEmail).to.eq(user.email);
+        expect(ticket.claim.ticket.attendeeSemaphoreId).to.eq(
+          identity.getCommitment().toString()
+        );
+        expect(ticket.claim.ticket.isRevoked).to.eq(false);
+      }
+    }
+  );
+
+  step(
+    "user should be issued an email PCD that others can verify",
+    async function () {
+      const response = await requestIssuedPCDs(
+        application,
+        identity,
+        ISSUANCE_STRING
+      );
+      const [emailPCD] = getIssuedPCDs(
+        response.body as IssuedPCDsResponse,
+        "Email"
+      );
+      expect(emailPCD.type).to.eq(EmailPCDPackage.name);
+
+      const result = await verifyEmailPCD(emailPCD, {
+        trustedPublicKeys: [publicKey.exportKey("public")],
+        identityCommitment: identity.getCommitment().toString(),
+        maxAgeMs: 60_000
+      });
+      if (!result.valid) {
+        throw new Error(`expected a valid email PCD, got ${result.reason}`);
+      }
+      expect(result.claim.emailAddress).to.eq(user.email);
+
+      expect(
+        await verifyEmailPCD(emailPCD, {
+          trustedPublicKeys: [new NodeRSA({ b: 512 }).exportKey("public")]
+        })
+      ).to.deep.eq({ valid: false, reason: "UntrustedIssuer" });
+      expect(
+        await verifyEmailPCD(emailPCD, {
+          trustedPublicKeys: [publicKey.exportKey("public")],
+          identityCommitment: new Identity().getCommitment().toString()
+        })
+      ).to.deep.eq({ valid: false, reason: "WrongIdentity" });
+    }
+  );
+
   step("issued pcds should have stable ids", async function () {
     const expressResponse1 = await requestIssuedPCDs(
       application,
@@ -609,10 +796,14 @@ describe("devconnect functionality", function () {
     const response2 = expressResponse2.body as IssuedPCDsResponse;
 
     const pcds1 = await Promise.all(
-      response1.pcds.map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
+      getIssuedPCDs(response1, "Devconnect")
+        .filter((pcd) => pcd.type === RSATicketPCDPackage.name)
+        .map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
     );
     const pcds2 = await Promise.all(
-      response2.pcds.map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
+      getIssuedPCDs(response2, "Devconnect")
+        .filter((pcd) => pcd.type === RSATicketPCDPackage.name)
+        .map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
     );
 
     expect(pcds1.length).to.eq(pcds2.length);
@@ -622,6 +813,45 @@ describe("devconnect functionality", function () {
     });
   });
 
+  step(
+    "issuance providers should each issue PCDs into their own folder",
+    async function () {
+      const badgeProvider: IssuanceProvider = {
+        name: "badges",
+        folder: "Badges",
+        issuePCDs: async (user) => [{ type: "badge", pcd: user.email }]
+      };
+      const failingProvider: IssuanceProvider = {
+        name: "failing",
+        folder: "Failing",
+        issuePCDs: async () => {
+          throw new Error("failed to issue");
+        }
+      };
+      const issuanceService = new IssuanceService(
+        application.context,
+        [
+          {
+            keyId: DEFAULT_KEY_ID,
+            key: new NodeRSA({ b: 512 }),
+            activeFrom: new Date(0)
+          }
+        ],
+        null,
+        [badgeProvider, failingProvider]
+      );
+
+      const response = await issuanceService.handleIssueRequest({
+        userProof: await makeCheckerProof(application, identity)
+      });
+
+      // the folder of the failing provider is left out, rather than emptied
+      expect(response.folders).to.deep.eq([
+        { folder: "Badges", pcds: [{ type: "badge", pcd: user.email }] }
+      ]);
+    }
+  );
+
   let checkerUser: User;
   let checkerIdentity: Identity;
   step("should be able to log in", async function () {
@@ -652,8 +882,10 @@ describe("devconnect functionality", function () {
     );
     const issueResponseBody = issueResponse.body as IssuedPCDsResponse;
 
-    const serializedTicket = issueResponseBody
-      .pcds[1] as SerializedPCD<RSATicketPCD>;
+    const serializedTicket = getIssuedPCDs(
+      issueResponseBody,
+      "Devconnect"
+    )[1] as SerializedPCD<RSATicketPCD>;
     ticket = await RSATicketPCDPackage.deserialize(serializedTicket.pcd);
 
     const checkinResponse = await requestCheckIn(
@@ -686,160 +918,864 @@ describe("devconnect functionality", function () {
     }
   );
 
+  let snapshot: CheckInSnapshot;
   step(
-    "should not able to check in with a ticket not signed by the server",
+    "superusers should be able to download a signed check-in snapshot",
     async function () {
-      const key = new NodeRSA({ b: 2048 });
-      const exportedKey = key.exportKey("private");
-      const message = "test message";
-      const rsaPCD = await RSAPCDPackage.prove({
-        privateKey: {
-          argumentType: ArgumentTypeName.String,
-          value: exportedKey
-        },
-        signedMessage: {
-          argumentType: ArgumentTypeName.String,
-          value: message
-        },
-        id: {
-          argumentType: ArgumentTypeName.String,
-          value: undefined
-        }
-      });
-      const ticket = await RSATicketPCDPackage.prove({
-        id: {
-          argumentType: ArgumentTypeName.String,
-          value: undefined
-        },
-        rsaPCD: {
-          argumentType: ArgumentTypeName.PCD,
-          value: await RSAPCDPackage.serialize(rsaPCD)
-        }
-      });
-
-      const checkinResponse = await requestCheckIn(
+      const response = await requestCheckInSnapshot(
         application,
-        ticket,
         checkerIdentity
       );
-      const responseBody = checkinResponse.body as CheckInResponse;
-      expect(checkinResponse.status).to.eq(200);
-      expect(responseBody.success).to.eq(false);
+      const responseBody = response.body as CheckInSnapshotResponse;
+
+      expect(response.status).to.eq(200);
       if (!responseBody.success) {
-        expect(responseBody.error.name).to.eq("InvalidSignature");
+        throw new Error("expected to be able to download a snapshot");
       }
+
+      expect(
+        publicKey.verify(
+          Buffer.from(responseBody.snapshot, "utf8"),
+          responseBody.signature,
+          "buffer",
+          "base64"
+        )
+      ).to.eq(true);
+      expect(responseBody.keyId).to.eq(DEFAULT_KEY_ID);
+
+      snapshot = JSON.parse(responseBody.snapshot);
+      const { ticketId } = getTicketData(ticket);
+      const snapshotTicket = snapshot.tickets.find(
+        (t) => t.ticketId === ticketId
+      );
+      expect(snapshotTicket?.isConsumed).to.eq(true);
+      expect(snapshotTicket?.checker).to.eq(checkerUser.email);
     }
   );
 
   step(
-    "should not be able to check in with a ticket that has already been used to check in",
+    "non-superusers should not be able to download a check-in snapshot",
     async function () {
-      // TODO
-      expect(true).to.eq(true);
+      const response = await requestCheckInSnapshot(
+        application,
+        new Identity()
+      );
+      const responseBody = response.body as CheckInSnapshotResponse;
+
+      expect(response.status).to.eq(200);
+      expect(responseBody.success).to.eq(false);
     }
   );
 
   step(
-    "should not be able to check in with a ticket that has been revoked",
+    "should be able to reconcile offline check-ins, reporting conflicts",
     async function () {
-      // TODO
-      expect(true).to.eq(true);
+      const unconsumedTicket = snapshot.tickets.find(
+        (t) => !t.isConsumed && !t.isRevoked
+      );
+      if (!unconsumedTicket) {
+        throw new Error("expected an unconsumed ticket in the snapshot");
+      }
+
+      const checkinTimestamp = new Date(Date.now() - 1000 * 60).toISOString();
+      const response = await requestReconcileCheckIns(
+        application,
+        [
+          { ticketId: unconsumedTicket.ticketId, checkinTimestamp },
+          {
+            ticketId: getTicketData(ticket).ticketId ?? "",
+            checkinTimestamp
+          },
+          { ticketId: "-1", checkinTimestamp }
+        ],
+        checkerIdentity
+      );
+      const { results } = response.body as ReconcileCheckInsResponse;
+
+      expect(response.status).to.eq(200);
+      expect(results.map((r) => r.success)).to.deep.eq([true, false, false]);
+      if (!results[1].success) {
+        expect(results[1].error.name).to.eq("AlreadyCheckedIn");
+      }
+      if (!results[2].success) {
+        expect(results[2].error.name).to.eq("NotSuperuser");
+      }
+
+      const reconciledTicket = await fetchDevconnectPretixTicketByTicketId(
+        db,
+        unconsumedTicket.ticketId
+      );
+      expect(reconciledTicket?.is_consumed).to.eq(true);
+      expect(new Date(reconciledTicket?.checkin_timestamp ?? "")).to.deep.eq(
+        new Date(checkinTimestamp)
+      );
     }
   );
 
   step(
-    "shouldn't be able to issue pcds for the incorrect 'issuance string'",
+    "should be able to let the holder of a checked-in ticket in again",
     async function () {
-      const expressResponse = await requestIssuedPCDs(
+      const checkinResponse = await requestCheckIn(
         application,
-        identity,
-        "asdf"
+        ticket,
+        checkerIdentity,
+        true
       );
-      const response = expressResponse.body as IssuedPCDsResponse;
-      expect(response.pcds).to.deep.eq([]);
+      const checkinResponseBody = checkinResponse.body as CheckInResponse;
+
+      expect(checkinResponse.status).to.eq(200);
+      expect(checkinResponseBody.success).to.eq(true);
     }
   );
 
   step(
-    "shouldn't be able to issue pcds for a user that doesn't exist",
+    "should not be able to let the holder of a checked-in ticket in again outside of its entry windows",
     async function () {
-      const expressResponse = await requestIssuedPCDs(
-        application,
-        new Identity(),
-        ISSUANCE_STRING
+      const { eventConfigId, ticketName } = getTicketData(ticket);
+      const { orgUrl, eventA, eventB, eventAItem1, eventAItem2, eventBItem3 } =
+        mocker.get().organizer1;
+      const event = eventConfigId === eventAConfigId ? eventA : eventB;
+      const item = [eventAItem1, eventAItem2, eventBItem3].find(
+        (i) => i.name.en === ticketName
       );
-      const response = expressResponse.body as IssuedPCDsResponse;
-      expect(response.pcds).to.deep.eq([]);
-    }
-  );
+      if (!item) {
+        throw new Error("expected to find the item of the ticket");
+      }
+      const originalMetadata = item.meta_data;
+
+      // an entry window that closed an hour ago
+      const now = new Date();
+      const toTimeOfDay = (hoursAgo: number): string => {
+        const hours = (now.getUTCHours() + 24 - hoursAgo) % 24;
+        return `${hours.toString().padStart(2, "0")}:00`;
+      };
+      mocker.updateItem(orgUrl, event.slug, item.id, (pretixItem) => {
+        pretixItem.meta_data = {
+          ...pretixItem.meta_data,
+          [ENTRY_WINDOWS_META_KEY]: `${toTimeOfDay(3)}-${toTimeOfDay(1)}`
+        };
+      });
+      devconnectPretixSyncService.replaceApi(
+        getDevconnectMockPretixAPI(mocker.get())
+      );
+      await devconnectPretixSyncService.trySync();
 
-  step("should be able to log in with a device login", async function () {
-    const positions = _.flatMap(
-      mocker
-        .get()
-        .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug),
-      (order) => order.positions
-    );
+      const checkinResponse = await requestCheckIn(
+        application,
+        ticket,
+        checkerIdentity,
+        true
+      );
+      const checkinResponseBody = checkinResponse.body as CheckInResponse;
 
-    const secret = positions.find(
-      (position) =>
-        position.attendee_email == mocker.get().organizer1.EMAIL_1 &&
-        // in "mock pretix api config matches load from DB" we set 10002 as a superuserItemId
-        position.item == 10002
-    )?.secret;
+      expect(checkinResponse.status).to.eq(200);
+      expect(checkinResponseBody.success).to.eq(false);
+      if (!checkinResponseBody.success) {
+        expect(checkinResponseBody.error.name).to.eq("NotValidNow");
+      }
 
-    if (!secret) {
-      throw new Error("No secret found");
+      mocker.updateItem(orgUrl, event.slug, item.id, (pretixItem) => {
+        pretixItem.meta_data = originalMetadata;
+      });
+      devconnectPretixSyncService.replaceApi(
+        getDevconnectMockPretixAPI(mocker.get())
+      );
+      await devconnectPretixSyncService.trySync();
     }
+  );
 
-    const fetchedDeviceLogin = await fetchDevconnectDeviceLoginTicket(
-      db,
-      mocker.get().organizer1.EMAIL_1,
-      secret
-    );
-
-    expect(fetchedDeviceLogin).is.not.undefined;
-
-    const result = await testDeviceLogin(
-      application,
-      mocker.get().organizer1.EMAIL_1,
-      secret
-    );
+  step(
+    "non-superusers should not be able to undo a check-in",
+    async function () {
+      const response = await requestUndoCheckIn(
+        application,
+        getTicketData(ticket).ticketId ?? "",
+        "mistake",
+        new Identity()
+      );
+      const responseBody = response.body as UndoCheckInResponse;
 
-    if (!result) {
-      throw new Error("Not able to login with device login");
+      expect(response.status).to.eq(200);
+      expect(responseBody.success).to.eq(false);
+      if (!responseBody.success) {
+        expect(responseBody.error.name).to.eq("NotSuperuser");
+      }
     }
-
-    expect(result.user).to.include({ email: mocker.get().organizer1.EMAIL_1 });
-  });
+  );
 
   step(
-    "should not be able to log in with a device login for non-superuser",
+    "superusers should be able to undo a check-in, but only once",
     async function () {
-      const positions = _.flatMap(
-        mocker
-          .get()
-          .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug),
-        (order) => order.positions
+      const ticketId = getTicketData(ticket).ticketId ?? "";
+      const response = await requestUndoCheckIn(
+        application,
+        ticketId,
+        "scanned the wrong ticket",
+        checkerIdentity
       );
+      expect(response.status).to.eq(200);
+      expect((response.body as UndoCheckInResponse).success).to.eq(true);
 
-      const secret = positions.find(
-        (position) => position.attendee_email == mocker.get().organizer1.EMAIL_3
-      )?.secret;
+      const undoneTicket = await fetchDevconnectPretixTicketByTicketId(
+        db,
+        ticketId
+      );
+      expect(undoneTicket?.is_consumed).to.eq(false);
+      expect(undoneTicket?.checker).to.eq("");
 
-      if (!secret) {
-        throw new Error("No secret found");
+      const secondResponse = await requestUndoCheckIn(
+        application,
+        ticketId,
+        "scanned the wrong ticket",
+        checkerIdentity
+      );
+      const secondResponseBody = secondResponse.body as UndoCheckInResponse;
+      expect(secondResponseBody.success).to.eq(false);
+      if (!secondResponseBody.success) {
+        expect(secondResponseBody.error.name).to.eq("NotCheckedIn");
       }
+    }
+  );
 
-      const fetchedDeviceLogin = await fetchDevconnectDeviceLoginTicket(
-        db,
-        mocker.get().organizer1.EMAIL_3,
-        secret
+  step(
+    "should be able to check in a ticket whose check-in was undone",
+    async function () {
+      const checkinResponse = await requestCheckIn(
+        application,
+        ticket,
+        checkerIdentity
       );
+      const checkinResponseBody = checkinResponse.body as CheckInResponse;
 
-      expect(fetchedDeviceLogin).is.undefined;
+      expect(checkinResponse.status).to.eq(200);
+      expect(checkinResponseBody.success).to.eq(true);
+    }
+  );
 
-      testFailedDeviceLogin(
+  step(
+    "superusers should be able to see the check-in history of a ticket",
+    async function () {
+      const response = await requestCheckInHistory(
+        application,
+        getTicketData(ticket).ticketId ?? "",
+        checkerIdentity
+      );
+      const responseBody = response.body as CheckInHistoryResponse;
+
+      expect(response.status).to.eq(200);
+      if (!responseBody.success) {
+        throw new Error("expected to be able to see the check-in history");
+      }
+      expect(responseBody.events.map((e) => e.type)).to.deep.eq([
+        "check-in",
+        "re-entry",
+        "undo",
+        "check-in"
+      ]);
+      expect(responseBody.events[2].reason).to.eq("scanned the wrong ticket");
+      responseBody.events.forEach((e) =>
+        expect(e.checker).to.eq(checkerUser.email)
+      );
+
+      const nonSuperuserResponse = await requestCheckInHistory(
+        application,
+        getTicketData(ticket).ticketId ?? "",
+        new Identity()
+      );
+      expect(
+        (nonSuperuserResponse.body as CheckInHistoryResponse).success
+      ).to.eq(false);
+    }
+  );
+
+  step(
+    "superusers should be able to see which events they have dashboards for",
+    async function () {
+      const response = await requestCheckInDashboardEvents(
+        application,
+        checkerIdentity
+      );
+      const { events } = response.body as CheckInDashboardEventsResponse;
+
+      expect(response.status).to.eq(200);
+      const eventConfigIds = events.map((e) => e.eventConfigId.toString());
+      expect(eventConfigIds).to.include(eventAConfigId.toString());
+      expect(eventConfigIds).to.not.include(eventCConfigId.toString());
+    }
+  );
+
+  step(
+    "superusers should be able to see the check-in dashboard of their event",
+    async function () {
+      const response = await requestCheckInDashboard(
+        application,
+        eventAConfigId,
+        checkerIdentity
+      );
+      const responseBody = response.body as CheckInDashboardResponse;
+
+      expect(response.status).to.eq(200);
+      if (!responseBody.success) {
+        throw new Error("expected to be able to see the dashboard");
+      }
+
+      const { dashboard } = responseBody;
+      const eventATicketIds = snapshot.tickets
+        .filter((t) => t.eventConfigId.toString() === eventAConfigId.toString())
+        .map((t) => t.ticketId);
+      const tickets = (
+        await fetchAllNonDeletedDevconnectPretixTickets(db)
+      ).filter((t) => eventATicketIds.includes(t.id.toString()));
+      const checkedIn = tickets.filter((t) => t.is_consumed).length;
+
+      expect(_.sumBy(dashboard.items, (i) => i.total)).to.eq(tickets.length);
+      expect(_.sumBy(dashboard.items, (i) => i.checkedIn)).to.eq(checkedIn);
+      expect(_.sumBy(dashboard.windows, (w) => w.checkedIn)).to.eq(checkedIn);
+      expect(dashboard.recentCheckIns.length).to.eq(checkedIn);
+      expect(dashboard.recentCheckIns[0].ticketId).to.eq(
+        getTicketData(ticket).ticketId
+      );
+    }
+  );
+
+  step(
+    "superusers should be able to export the check-ins of their event",
+    async function () {
+      const response = await requestCheckInExport(
+        application,
+        eventAConfigId,
+        checkerIdentity
+      );
+      const responseBody = response.body as CheckInExportResponse;
+
+      expect(response.status).to.eq(200);
+      if (!responseBody.success) {
+        throw new Error("expected to be able to export check-ins");
+      }
+
+      const lines = responseBody.csv.split("\n");
+      expect(lines[0]).to.eq(
+        '"ticket_id","name","email","item","checked_in","checker","checkin_timestamp"'
+      );
+      expect(
+        lines.filter((l) => l.includes(`"${checkerUser.email}"`)).length
+      ).to.be.greaterThan(0);
+    }
+  );
+
+  step(
+    "non-superusers should not be able to see an event's check-ins",
+    async function () {
+      const dashboardResponse = await requestCheckInDashboard(
+        application,
+        eventAConfigId,
+        new Identity()
+      );
+      expect(
+        (dashboardResponse.body as CheckInDashboardResponse).success
+      ).to.eq(false);
+
+      const exportResponse = await requestCheckInExport(
+        application,
+        eventCConfigId,
+        checkerIdentity
+      );
+      expect((exportResponse.body as CheckInExportResponse).success).to.eq(
+        false
+      );
+    }
+  );
+
+  step(
+    "superusers should be told about new problems with their event's setup",
+    async function () {
+      const oldSettings = mocker.getEventSettings(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug
+      );
+      mocker.setEventSettings(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        { attendee_emails_asked: false, attendee_emails_required: false }
+      );
+
+      const emailedTo: string[] = [];
+      const send = emailAPI.send;
+      emailAPI.send = async (args): Promise<void> => {
+        emailedTo.push(args.to);
+        return send(args);
+      };
+      try {
+        await devconnectPretixSyncService.trySync();
+        // problems are only emailed about once
+        await devconnectPretixSyncService.trySync();
+      } finally {
+        emailAPI.send = send;
+        mocker.setEventSettings(
+          mocker.get().organizer1.orgUrl,
+          mocker.get().organizer1.eventA.slug,
+          oldSettings
+        );
+      }
+      expect(emailedTo.filter((e) => e === checkerUser.email)).to.have.length(
+        1
+      );
+
+      const response = await requestPretixSyncReport(
+        application,
+        eventAConfigId,
+        checkerIdentity
+      );
+      const responseBody = response.body as PretixSyncReportResponse;
+      expect(response.status).to.eq(200);
+      if (!responseBody.success) {
+        throw new Error("expected to be able to see the sync report");
+      }
+      expect(responseBody.report.problems).to.have.length(1);
+      expect(responseBody.report.problems[0]).to.include(
+        "Ask for email addresses per ticket"
+      );
+    }
+  );
+
+  step(
+    "problems should be removed from the sync report once they're fixed",
+    async function () {
+      await devconnectPretixSyncService.trySync();
+
+      const response = await requestPretixSyncReport(
+        application,
+        eventAConfigId,
+        checkerIdentity
+      );
+      const responseBody = response.body as PretixSyncReportResponse;
+      if (!responseBody.success) {
+        throw new Error("expected to be able to see the sync report");
+      }
+      expect(responseBody.report.problems).to.deep.eq([]);
+      expect(responseBody.report.checkedAt).to.not.eq(undefined);
+    }
+  );
+
+  step(
+    "non-superusers should not be able to see an event's sync report",
+    async function () {
+      const response = await requestPretixSyncReport(
+        application,
+        eventCConfigId,
+        checkerIdentity
+      );
+      expect((response.body as PretixSyncReportResponse).success).to.eq(false);
+    }
+  );
+
+  step(
+    "should not able to check in with a ticket not signed by the server",
+    async function () {
+      const key = new NodeRSA({ b: 2048 });
+      const exportedKey = key.exportKey("private");
+      const message = "test message";
+      const rsaPCD = await RSAPCDPackage.prove({
+        privateKey: {
+          argumentType: ArgumentTypeName.String,
+          value: exportedKey
+        },
+        signedMessage: {
+          argumentType: ArgumentTypeName.String,
+          value: message
+        },
+        id: {
+          argumentType: ArgumentTypeName.String,
+          value: undefined
+        }
+      });
+      const ticket = await RSATicketPCDPackage.prove({
+        id: {
+          argumentType: ArgumentTypeName.String,
+          value: undefined
+        },
+        rsaPCD: {
+          argumentType: ArgumentTypeName.PCD,
+          value: await RSAPCDPackage.serialize(rsaPCD)
+        }
+      });
+
+      const checkinResponse = await requestCheckIn(
+        application,
+        ticket,
+        checkerIdentity
+      );
+      const responseBody = checkinResponse.body as CheckInResponse;
+      expect(checkinResponse.status).to.eq(200);
+      expect(responseBody.success).to.eq(false);
+      if (!responseBody.success) {
+        expect(responseBody.error.name).to.eq("InvalidSignature");
+      }
+    }
+  );
+
+  step(
+    "should not be able to check in with a ticket that has already been used to check in",
+    async function () {
+      // TODO
+      expect(true).to.eq(true);
+    }
+  );
+
+  step(
+    "should not be able to check in with a ticket that has been revoked",
+    async function () {
+      // TODO
+      expect(true).to.eq(true);
+    }
+  );
+
+  step(
+    "shouldn't be able to issue pcds for the incorrect 'issuance string'",
+    async function () {
+      const expressResponse = await requestIssuedPCDs(
+        application,
+        identity,
+        "asdf"
+      );
+      const response = expressResponse.body as IssuedPCDsResponse;
+      expect(response.folders).to.deep.eq([]);
+    }
+  );
+
+  step(
+    "shouldn't be able to issue pcds for a user that doesn't exist",
+    async function () {
+      const expressResponse = await requestIssuedPCDs(
+        application,
+        new Identity(),
+        ISSUANCE_STRING
+      );
+      const response = expressResponse.body as IssuedPCDsResponse;
+      expect(response.folders).to.deep.eq([]);
+    }
+  );
+
+  step("should hand out a different challenge every time", async function () {
+    const first = await requestIssuanceChallenge(application);
+    const second = await requestIssuanceChallenge(application);
+
+    expect(first.nonce).to.not.eq(second.nonce);
+    expect(new Date(first.expiresAt).getTime()).to.be.greaterThan(Date.now());
+  });
+
+  step(
+    "shouldn't be able to issue pcds with a reused signature",
+    async function () {
+      const request: IssuedPCDsRequest = {
+        userProof: await makeCheckerProof(application, identity)
+      };
+
+      const firstResponse = await sendIssuanceRequest(application, request);
+      expect(
+        (firstResponse.body as IssuedPCDsResponse).folders.length
+      ).to.be.greaterThan(0);
+
+      const replayedResponse = await sendIssuanceRequest(application, request);
+      expect((replayedResponse.body as IssuedPCDsResponse).folders).to.deep.eq(
+        []
+      );
+    }
+  );
+
+  step(
+    "shouldn't be able to issue pcds without a challenge from the server",
+    async function () {
+      for (const signedMessage of [
+        ISSUANCE_STRING,
+        getChallengeMessage(ISSUANCE_STRING, "made-up-nonce")
+      ]) {
+        const expressResponse = await sendIssuanceRequest(application, {
+          userProof: await makeSignatureProof(identity, signedMessage)
+        });
+        const response = expressResponse.body as IssuedPCDsResponse;
+        expect(response.folders).to.deep.eq([]);
+      }
+    }
+  );
+
+  step(
+    "shouldn't be able to issue pcds with an expired challenge",
+    async function () {
+      const nonce = "expired-nonce";
+      await insertIssuanceChallenge(application.context.dbPool, nonce, -1000);
+
+      const expressResponse = await sendIssuanceRequest(application, {
+        userProof: await makeSignatureProof(
+          identity,
+          getChallengeMessage(ISSUANCE_STRING, nonce)
+        )
+      });
+      const response = expressResponse.body as IssuedPCDsResponse;
+      expect(response.folders).to.deep.eq([]);
+    }
+  );
+
+  let transferredTicket: RSATicketPCD;
+  step(
+    "should be able to transfer a ticket to someone else",
+    async function () {
+      const issueResponse = await requestIssuedPCDs(
+        application,
+        checkerIdentity,
+        ISSUANCE_STRING
+      );
+      const tickets = await Promise.all(
+        getIssuedPCDs(issueResponse.body as IssuedPCDsResponse, "Devconnect")
+          .filter((pcd) => pcd.type === RSATicketPCDPackage.name)
+          .map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
+      );
+      const ticketToTransfer = tickets.find((t) => {
+        const ticketData = getTicketData(t);
+        return (
+          ticketData.eventConfigId === eventAConfigId &&
+          ticketData.ticketName ===
+            mocker.get().organizer1.eventAItem1.name.en &&
+          !ticketData.isConsumed
+        );
+      });
+      if (!ticketToTransfer) {
+        throw new Error("expected a ticket that can be transferred");
+      }
+      transferredTicket = ticketToTransfer;
+      const { ticketId } = getTicketData(transferredTicket);
+
+      const transferResponse = await requestTransferTicket(
+        application,
+        ticketId ?? "",
+        user.email,
+        checkerIdentity
+      );
+      expect(transferResponse.status).to.eq(200);
+      expect((transferResponse.body as TransferTicketResponse).success).to.eq(
+        true
+      );
+
+      const holderResponse = await requestIssuedPCDs(
+        application,
+        checkerIdentity,
+        ISSUANCE_STRING
+      );
+      const holderTickets = await Promise.all(
+        getIssuedPCDs(holderResponse.body as IssuedPCDsResponse, "Devconnect")
+          .filter((pcd) => pcd.type === RSATicketPCDPackage.name)
+          .map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
+      );
+      expect(holderTickets.length).to.eq(tickets.length - 1);
+      expect(
+        holderTickets.map((t) => getTicketData(t).ticketId)
+      ).to.not.include(ticketId);
+
+      const recipientResponse = await requestIssuedPCDs(
+        application,
+        identity,
+        ISSUANCE_STRING
+      );
+      const recipientTickets = await Promise.all(
+        getIssuedPCDs(
+          recipientResponse.body as IssuedPCDsResponse,
+          "Devconnect"
+        )
+          .filter((pcd) => pcd.type === RSATicketPCDPackage.name)
+          .map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
+      );
+      const recipientTicket = recipientTickets.find(
+        (t) => getTicketData(t).ticketId === ticketId
+      );
+      expect(recipientTicket).to.not.eq(undefined);
+      expect(getTicketData(recipientTicket!).attendeeEmail).to.eq(user.email);
+    }
+  );
+
+  step(
+    "should not be able to check in with a ticket that has been transferred",
+    async function () {
+      const checkinResponse = await requestCheckIn(
+        application,
+        transferredTicket,
+        checkerIdentity
+      );
+      const checkinResponseBody = checkinResponse.body as CheckInResponse;
+
+      expect(checkinResponse.status).to.eq(200);
+      expect(checkinResponseBody.success).to.eq(false);
+      if (!checkinResponseBody.success) {
+        expect(checkinResponseBody.error.name).to.eq("TicketTransferred");
+      }
+    }
+  );
+
+  step(
+    "check-in snapshots should say who a transferred ticket belongs to",
+    async function () {
+      const response = await requestCheckInSnapshot(
+        application,
+        checkerIdentity
+      );
+      const responseBody = response.body as CheckInSnapshotResponse;
+      if (!responseBody.success) {
+        throw new Error("expected to be able to download a snapshot");
+      }
+
+      const { ticketId } = getTicketData(transferredTicket);
+      const snapshotTicket = (
+        JSON.parse(responseBody.snapshot) as CheckInSnapshot
+      ).tickets.find((t) => t.ticketId === ticketId);
+      expect(snapshotTicket?.ownerEmail).to.eq(user.email);
+      expect(getTicketData(transferredTicket).attendeeEmail).to.not.eq(
+        user.email
+      );
+    }
+  );
+
+  step(
+    "should not be able to transfer a ticket one no longer holds",
+    async function () {
+      const response = await requestTransferTicket(
+        application,
+        getTicketData(transferredTicket).ticketId ?? "",
+        mocker.get().organizer1.EMAIL_3,
+        checkerIdentity
+      );
+      const responseBody = response.body as TransferTicketResponse;
+
+      expect(response.status).to.eq(200);
+      expect(responseBody.success).to.eq(false);
+      if (!responseBody.success) {
+        expect(responseBody.error.name).to.eq("NotTicketHolder");
+      }
+    }
+  );
+
+  step(
+    "should not be able to transfer a ticket more times than its event allows",
+    async function () {
+      const response = await requestTransferTicket(
+        application,
+        getTicketData(transferredTicket).ticketId ?? "",
+        mocker.get().organizer1.EMAIL_3,
+        identity
+      );
+      const responseBody = response.body as TransferTicketResponse;
+
+      expect(response.status).to.eq(200);
+      expect(responseBody.success).to.eq(false);
+      if (!responseBody.success) {
+        expect(responseBody.error).to.deep.eq({
+          name: "TransferLimitReached",
+          maxTransfers: 1
+        });
+      }
+    }
+  );
+
+  step("should not be able to transfer superuser tickets", async function () {
+    const issueResponse = await requestIssuedPCDs(
+      application,
+      identity,
+      ISSUANCE_STRING
+    );
+    const tickets = await Promise.all(
+      getIssuedPCDs(issueResponse.body as IssuedPCDsResponse, "Devconnect")
+        .filter((pcd) => pcd.type === RSATicketPCDPackage.name)
+        .map((pcd) => RSATicketPCDPackage.deserialize(pcd.pcd))
+    );
+    const superuserTicket = tickets.find(
+      (t) =>
+        getTicketData(t).ticketName ===
+        mocker.get().organizer1.eventAItem2.name.en
+    );
+    if (!superuserTicket) {
+      throw new Error("expected a superuser ticket");
+    }
+
+    const response = await requestTransferTicket(
+      application,
+      getTicketData(superuserTicket).ticketId ?? "",
+      mocker.get().organizer1.EMAIL_3,
+      identity
+    );
+    const responseBody = response.body as TransferTicketResponse;
+
+    expect(response.status).to.eq(200);
+    expect(responseBody.success).to.eq(false);
+    if (!responseBody.success) {
+      expect(responseBody.error.name).to.eq("NotTransferable");
+    }
+  });
+
+  step("should be able to log in with a device login", async function () {
+    const positions = _.flatMap(
+      mocker
+        .get()
+        .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug),
+      (order) => order.positions
+    );
+
+    const secret = positions.find(
+      (position) =>
+        position.attendee_email == mocker.get().organizer1.EMAIL_1 &&
+        // in "mock pretix api config matches load from DB" we set 10002 as a superuserItemId
+        position.item == 10002
+    )?.secret;
+
+    if (!secret) {
+      throw new Error("No secret found");
+    }
+
+    const fetchedDeviceLogin = await fetchDevconnectDeviceLoginTicket(
+      db,
+      mocker.get().organizer1.EMAIL_1,
+      secret
+    );
+
+    expect(fetchedDeviceLogin).is.not.undefined;
+
+    const result = await testDeviceLogin(
+      application,
+      mocker.get().organizer1.EMAIL_1,
+      secret
+    );
+
+    if (!result) {
+      throw new Error("Not able to login with device login");
+    }
+
+    expect(result.user).to.include({ email: mocker.get().organizer1.EMAIL_1 });
+  });
+
+  step(
+    "should not be able to log in with a device login for non-superuser",
+    async function () {
+      const positions = _.flatMap(
+        mocker
+          .get()
+          .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug),
+        (order) => order.positions
+      );
+
+      const secret = positions.find(
+        (position) => position.attendee_email == mocker.get().organizer1.EMAIL_3
+      )?.secret;
+
+      if (!secret) {
+        throw new Error("No secret found");
+      }
+
+      const fetchedDeviceLogin = await fetchDevconnectDeviceLoginTicket(
+        db,
+        mocker.get().organizer1.EMAIL_3,
+        secret
+      );
+
+      expect(fetchedDeviceLogin).is.undefined;
+
+      testFailedDeviceLogin(
         application,
         mocker.get().organizer1.EMAIL_3,
         secret
@@ -847,6 +1783,215 @@ describe("devconnect functionality", function () {
     }
   );
 
+  step(
+    "pretix webhook should reject notifications without the organizer's secret",
+    async function () {
+      const response = await sendDevconnectPretixWebhook(
+        application,
+        "not-the-secret",
+        {
+          organizer: "organizer",
+          event: mocker.get().organizer1.eventA.slug,
+          code: "ABCDE",
+          action: "pretix.event.order.paid"
+        }
+      );
+      expect(response.status).to.eq(401);
+    }
+  );
+
+  let webhookOrder: DevconnectPretixOrder;
+  step(
+    "pretix webhook should add the tickets of a new order",
+    async function () {
+      webhookOrder = mocker.addOrder(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        mocker.get().organizer1.EMAIL_3,
+        [[mocker.get().organizer1.eventAItem1.id, "webhook@test.com"]]
+      );
+
+      const response = await sendDevconnectPretixWebhook(
+        application,
+        webhookSecret,
+        {
+          organizer: "organizer",
+          event: mocker.get().organizer1.eventA.slug,
+          code: webhookOrder.code,
+          action: "pretix.event.order.paid"
+        }
+      );
+      expect(response.status).to.eq(200);
+
+      const tickets = await fetchDevconnectPretixTicketsByPositionIds(db, [
+        webhookOrder.positions[0].id.toString()
+      ]);
+      expect(tickets).to.have.length(1);
+      expect(tickets[0]).to.include({
+        email: "webhook@test.com",
+        is_consumed: false
+      });
+    }
+  );
+
+  step(
+    "pretix webhook should check in tickets checked in on pretix",
+    async function () {
+      const checkinTime = new Date("2023-11-13T10:00:00Z");
+      mocker.updateOrder(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        webhookOrder.code,
+        (order) => {
+          order.positions[0].checkins = [
+            { list: 1, datetime: checkinTime.toISOString() }
+          ];
+        }
+      );
+
+      const response = await sendDevconnectPretixWebhook(
+        application,
+        webhookSecret,
+        {
+          organizer: "organizer",
+          event: mocker.get().organizer1.eventA.slug,
+          code: webhookOrder.code,
+          action: "pretix.event.checkin"
+        }
+      );
+      expect(response.status).to.eq(200);
+
+      const [ticket] = await fetchDevconnectPretixTicketsByPositionIds(db, [
+        webhookOrder.positions[0].id.toString()
+      ]);
+      expect(ticket.is_consumed).to.eq(true);
+      expect(ticket.checker).to.eq("pretix");
+      expect(new Date(ticket.checkin_timestamp ?? "").getTime()).to.eq(
+        checkinTime.getTime()
+      );
+    }
+  );
+
+  step(
+    "pretix webhook should delete the tickets of canceled orders",
+    async function () {
+      mocker.updateOrder(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        webhookOrder.code,
+        (order) => {
+          order.status = "c";
+        }
+      );
+
+      const response = await sendDevconnectPretixWebhook(
+        application,
+        webhookSecret,
+        {
+          organizer: "organizer",
+          event: mocker.get().organizer1.eventA.slug,
+          code: webhookOrder.code,
+          action: "pretix.event.order.canceled"
+        }
+      );
+      expect(response.status).to.eq(200);
+
+      const tickets = await fetchDevconnectPretixTicketsByPositionIds(db, [
+        webhookOrder.positions[0].id.toString()
+      ]);
+      expect(tickets).to.have.length(0);
+    }
+  );
+
+  step(
+    "pretix webhook should ignore notifications for events that aren't synced",
+    async function () {
+      const response = await sendDevconnectPretixWebhook(
+        application,
+        webhookSecret,
+        {
+          organizer: "organizer",
+          event: "some-other-event",
+          code: webhookOrder.code,
+          action: "pretix.event.order.paid"
+        }
+      );
+      expect(response.status).to.eq(200);
+    }
+  );
+
+  step(
+    "syncing should pick up orders modified since the last sync",
+    async function () {
+      const order = mocker
+        .get()
+        .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug)!
+        .find((o) => o.email === mocker.get().organizer1.EMAIL_4)!;
+
+      mocker.updateOrder(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        order.code,
+        (order) => {
+          order.positions[0].attendee_name = "Incrementally Synced";
+        }
+      );
+      await devconnectPretixSyncService.trySync();
+
+      const [ticket] = await fetchDevconnectPretixTicketsByPositionIds(db, [
+        order.positions[0].id.toString()
+      ]);
+      expect(ticket.full_name).to.eq("Incrementally Synced");
+
+      // the next sync carries on from the latest modification
+      const cursor = await fetchDevconnectPretixSyncCursor(db, eventAConfigId);
+      expect(cursor?.orders_modified_since?.getTime()).to.eq(
+        new Date(order.last_modified).getTime()
+      );
+    }
+  );
+
+  step(
+    "tickets of deleted orders should only be removed by a full sync",
+    async function () {
+      const order = mocker
+        .get()
+        .organizer1.ordersByEventID.get(mocker.get().organizer1.eventA.slug)!
+        .find((o) => o.email === mocker.get().organizer1.EMAIL_4)!;
+      const positionIds = order.positions.map((p) => p.id.toString());
+
+      mocker.removeOrder(
+        mocker.get().organizer1.orgUrl,
+        mocker.get().organizer1.eventA.slug,
+        order.code
+      );
+      await devconnectPretixSyncService.trySync();
+      expect(
+        await fetchDevconnectPretixTicketsByPositionIds(db, positionIds)
+      ).to.have.length(1);
+
+      // pretend that the last full sync was long ago
+      const cursor = await fetchDevconnectPretixSyncCursor(db, eventAConfigId);
+      if (!cursor) {
+        throw new Error("expected event A to have a sync cursor");
+      }
+      await upsertDevconnectPretixSyncCursor(db, {
+        ...cursor,
+        last_full_sync: new Date(0)
+      });
+      await devconnectPretixSyncService.trySync();
+      expect(
+        await fetchDevconnectPretixTicketsByPositionIds(db, positionIds)
+      ).to.have.length(0);
+
+      const updatedCursor = await fetchDevconnectPretixSyncCursor(
+        db,
+        eventAConfigId
+      );
+      expect(updatedCursor?.last_full_sync.getTime()).to.be.greaterThan(0);
+    }
+  );
+
   // TODO: More tests
   // 1. Test that item_name in ItemInfo and event_name EventInfo always syncs with Pretix.
   // 2. Test deleting positions within orders (not just entire orders).
@@ -322,7 +322,9 @@ describe("database reads and writes for devconnect ticket features", function ()
                 (item) =>
                   item.dbEventInfoId === e.dbEventInfoId && item.isSuperUser
               )
-              .map((item) => item.itemId)
+              .map((item) => item.itemId),
+            max_ticket_transfers: 0,
+            is_active: true
           }))
       );
     }
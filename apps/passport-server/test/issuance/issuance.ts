@@ -1,9 +1,23 @@
 import {
+  CheckInDashboardEventsRequest,
+  CheckInDashboardRequest,
+  CheckInExportRequest,
+  CheckInHistoryRequest,
   CheckInRequest,
+  CheckInSnapshotRequest,
+  getChallengeMessage,
+  getTicketTransferMessage,
+  IssuanceChallengeResponse,
   ISSUANCE_STRING,
-  IssuedPCDsRequest
+  IssuedPCDsRequest,
+  IssuedPCDsResponse,
+  OfflineCheckIn,
+  PretixSyncReportRequest,
+  ReconcileCheckInsRequest,
+  TransferTicketRequest,
+  UndoCheckInRequest
 } from "@pcd/passport-interface";
-import { ArgumentTypeName } from "@pcd/pcd-types";
+import { ArgumentTypeName, SerializedPCD } from "@pcd/pcd-types";
 import { RSATicketPCD, RSATicketPCDPackage } from "@pcd/rsa-ticket-pcd";
 import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
 import { SemaphoreSignaturePCDPackage } from "@pcd/semaphore-signature-pcd";
@@ -42,30 +56,49 @@ export async function requestServerPublicKey(
   });
 }
 
+export async function requestServerPublicKeys(
+  application: PCDPass
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .get("/issue/public-keys")
+    .send();
+}
+
+export async function requestServerEdDSAPublicKey(
+  application: PCDPass
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .get("/issue/eddsa-public-key")
+    .send();
+}
+
+export async function requestIssuanceChallenge(
+  application: PCDPass
+): Promise<IssuanceChallengeResponse> {
+  const response = await chai
+    .request(application.expressContext.app)
+    .get("/issue/challenge")
+    .send();
+
+  return response.body as IssuanceChallengeResponse;
+}
+
 export async function requestIssuedPCDs(
   application: PCDPass,
   identity: Identity,
   signedMessage: string
 ): Promise<Response> {
-  const request: IssuedPCDsRequest = {
-    userProof: await SemaphoreSignaturePCDPackage.serialize(
-      await SemaphoreSignaturePCDPackage.prove({
-        identity: {
-          argumentType: ArgumentTypeName.PCD,
-          value: await SemaphoreIdentityPCDPackage.serialize(
-            await SemaphoreIdentityPCDPackage.prove({
-              identity
-            })
-          )
-        },
-        signedMessage: {
-          argumentType: ArgumentTypeName.String,
-          value: signedMessage
-        }
-      })
-    )
-  };
+  return sendIssuanceRequest(application, {
+    userProof: await makeCheckerProof(application, identity, signedMessage)
+  });
+}
 
+export async function sendIssuanceRequest(
+  application: PCDPass,
+  request: IssuedPCDsRequest
+): Promise<Response> {
   return new Promise((resolve, reject) => {
     const { expressContext } = application;
 
@@ -83,29 +116,92 @@ export async function requestIssuedPCDs(
   });
 }
 
+/**
+ * The PCDs issued into a folder, or none if nothing was issued into it.
+ */
+export function getIssuedPCDs(
+  response: IssuedPCDsResponse,
+  folder: string
+): SerializedPCD[] {
+  return response.folders.find((f) => f.folder === folder)?.pcds ?? [];
+}
+
+/**
+ * Signs the given message along with a fresh challenge from the server, the
+ * way clients prove who they are to the issuance service.
+ */
+export async function makeCheckerProof(
+  application: PCDPass,
+  checkerIdentity: Identity,
+  signedMessage = ISSUANCE_STRING
+): Promise<CheckInRequest["checkerProof"]> {
+  const { nonce } = await requestIssuanceChallenge(application);
+  return makeSignatureProof(
+    checkerIdentity,
+    getChallengeMessage(signedMessage, nonce)
+  );
+}
+
+export async function makeSignatureProof(
+  identity: Identity,
+  signedMessage: string
+): Promise<CheckInRequest["checkerProof"]> {
+  return SemaphoreSignaturePCDPackage.serialize(
+    await SemaphoreSignaturePCDPackage.prove({
+      identity: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await SemaphoreIdentityPCDPackage.serialize(
+          await SemaphoreIdentityPCDPackage.prove({ identity })
+        )
+      },
+      signedMessage: {
+        argumentType: ArgumentTypeName.String,
+        value: signedMessage
+      }
+    })
+  );
+}
+
+export async function requestCheckInSnapshot(
+  application: PCDPass,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: CheckInSnapshotRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity)
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/check-in-snapshot")
+    .send(request);
+}
+
+export async function requestReconcileCheckIns(
+  application: PCDPass,
+  checkIns: OfflineCheckIn[],
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: ReconcileCheckInsRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    checkIns
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/reconcile-check-ins")
+    .send(request);
+}
+
 export async function requestCheckIn(
   application: PCDPass,
   ticket: RSATicketPCD,
-  checkerIdentity: Identity
+  checkerIdentity: Identity,
+  reentry?: boolean
 ): Promise<Response> {
   const request: CheckInRequest = {
     ticket: await RSATicketPCDPackage.serialize(ticket),
-    checkerProof: await SemaphoreSignaturePCDPackage.serialize(
-      await SemaphoreSignaturePCDPackage.prove({
-        identity: {
-          argumentType: ArgumentTypeName.PCD,
-          value: await SemaphoreIdentityPCDPackage.serialize(
-            await SemaphoreIdentityPCDPackage.prove({
-              identity: checkerIdentity
-            })
-          )
-        },
-        signedMessage: {
-          argumentType: ArgumentTypeName.String,
-          value: ISSUANCE_STRING
-        }
-      })
-    )
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    reentry
   };
 
   return new Promise((resolve, reject) => {
@@ -124,3 +220,121 @@ export async function requestCheckIn(
       });
   });
 }
+
+export async function requestUndoCheckIn(
+  application: PCDPass,
+  ticketId: string,
+  reason: string,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: UndoCheckInRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    ticketId,
+    reason
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/undo-check-in")
+    .send(request);
+}
+
+export async function requestTransferTicket(
+  application: PCDPass,
+  ticketId: string,
+  recipientEmail: string,
+  holderIdentity: Identity
+): Promise<Response> {
+  const request: TransferTicketRequest = {
+    userProof: await makeCheckerProof(
+      application,
+      holderIdentity,
+      getTicketTransferMessage(ticketId, recipientEmail)
+    ),
+    ticketId,
+    recipientEmail
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/transfer-ticket")
+    .send(request);
+}
+
+export async function requestCheckInHistory(
+  application: PCDPass,
+  ticketId: string,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: CheckInHistoryRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    ticketId
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/check-in-history")
+    .send(request);
+}
+
+export async function requestCheckInDashboardEvents(
+  application: PCDPass,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: CheckInDashboardEventsRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity)
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/check-in-dashboard/events")
+    .send(request);
+}
+
+export async function requestCheckInDashboard(
+  application: PCDPass,
+  eventConfigId: string,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: CheckInDashboardRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    eventConfigId
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/check-in-dashboard")
+    .send(request);
+}
+
+export async function requestCheckInExport(
+  application: PCDPass,
+  eventConfigId: string,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: CheckInExportRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    eventConfigId
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/check-in-dashboard/export")
+    .send(request);
+}
+
+export async function requestPretixSyncReport(
+  application: PCDPass,
+  eventConfigId: string,
+  checkerIdentity: Identity
+): Promise<Response> {
+  const request: PretixSyncReportRequest = {
+    checkerProof: await makeCheckerProof(application, checkerIdentity),
+    eventConfigId
+  };
+
+  return chai
+    .request(application.expressContext.app)
+    .post("/issue/sync-report")
+    .send(request);
+}
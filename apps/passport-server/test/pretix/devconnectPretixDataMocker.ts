@@ -75,6 +75,7 @@ export class DevconnectPretixDataMocker {
       throw new Error(`couldn't find order ${code}`);
     }
     update(order);
+    order.last_modified = new Date().toISOString();
   }
 
   public addOrder(
@@ -293,6 +294,7 @@ export class DevconnectPretixDataMocker {
       testmode: false,
       secret: this.randomSecret(),
       email: orderEmail,
+      last_modified: new Date().toISOString(),
       positions: itemsAndEmails.map(([item, email]) =>
         this.newPosition(orderId, email, item, this.nextId())
       )
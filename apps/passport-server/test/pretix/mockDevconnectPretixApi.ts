@@ -63,19 +63,40 @@ export function getDevconnectMockPretixAPI(
     fetchOrders: async (
       orgUrl: string,
       token: string,
-      eventID: string
+      eventID: string,
+      modifiedSince?: Date
     ): Promise<DevconnectPretixOrder[]> => {
       const org = mockData.organizersByOrgUrl.get(orgUrl);
       if (!org) throw new Error(`missing org ${orgUrl}`);
       if (org.token !== token)
         throw new Error(`incorrect token ${token} for org ${orgUrl}`);
-      const result = org.ordersByEventID.get(eventID) ?? [];
+      const result = (org.ordersByEventID.get(eventID) ?? []).filter(
+        (o) => !modifiedSince || new Date(o.last_modified) >= modifiedSince
+      );
       logger(
         `[MOCK] fetchOrders('${eventID}') =>`,
         JSON.stringify(result, null, 2)
       );
       return result;
     },
+    fetchOrder: async (
+      orgUrl: string,
+      token: string,
+      eventID: string,
+      code: string
+    ): Promise<DevconnectPretixOrder> => {
+      const org = mockData.organizersByOrgUrl.get(orgUrl);
+      if (!org) throw new Error(`missing org ${orgUrl}`);
+      if (org.token !== token)
+        throw new Error(`incorrect token ${token} for org ${orgUrl}`);
+      const order = (org.ordersByEventID.get(eventID) ?? []).find(
+        (o) => o.code === code
+      );
+      if (order) {
+        return order;
+      }
+      throw new Error("404 order not found");
+    },
     fetchEventSettings: async (
       orgUrl: string,
       token: string,
@@ -34,8 +34,13 @@ export function getMockPretixAPI(
 
   return {
     config: mockData.config,
-    fetchOrders: async (eventID: string): Promise<PretixOrder[]> => {
-      const result = mockData.ordersByEventId.get(eventID) ?? [];
+    fetchOrders: async (
+      eventID: string,
+      modifiedSince?: Date
+    ): Promise<PretixOrder[]> => {
+      const result = (mockData.ordersByEventId.get(eventID) ?? []).filter(
+        (o) => !modifiedSince || new Date(o.last_modified) >= modifiedSince
+      );
       if (options?.throwOnFetchOrders) {
         throw new Error(`[MOCK] throwing for 'fetchOrders'`);
       }
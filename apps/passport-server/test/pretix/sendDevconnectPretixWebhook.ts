@@ -0,0 +1,16 @@
+import chai from "chai";
+import { Response } from "superagent";
+import { DevconnectPretixWebhookNotification } from "../../src/apis/devconnect/devconnectPretixAPI";
+import { PCDPass } from "../../src/types";
+
+export async function sendDevconnectPretixWebhook(
+  application: PCDPass,
+  secret: string,
+  notification: Omit<DevconnectPretixWebhookNotification, "notification_id">
+): Promise<Response> {
+  return chai
+    .request(application.expressContext.app)
+    .post("/pretix/webhook")
+    .query({ secret })
+    .send({ notification_id: Date.now(), ...notification });
+}
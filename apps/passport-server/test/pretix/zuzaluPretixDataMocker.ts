@@ -64,6 +64,7 @@ export class ZuzaluPretixDataMocker {
       throw new Error(`couldn't find order ${code}`);
     }
     update(order);
+    order.last_modified = new Date().toISOString();
   }
 
   public updateVisitor(
@@ -79,6 +80,7 @@ export class ZuzaluPretixDataMocker {
       throw new Error(`couldn't find order ${code}`);
     }
     update(order);
+    order.last_modified = new Date().toISOString();
   }
 
   public addVisitor(): PretixOrder {
@@ -164,6 +166,7 @@ export class ZuzaluPretixDataMocker {
       testmode: false,
       secret: "",
       email: email,
+      last_modified: new Date().toISOString(),
       positions: [this.newPosition(orderId, email, this.nextId(), subevent.id)]
     };
   }
@@ -178,6 +181,7 @@ export class ZuzaluPretixDataMocker {
       testmode: false,
       secret: "",
       email: email,
+      last_modified: new Date().toISOString(),
       positions: [
         this.newPosition(
           orderId,
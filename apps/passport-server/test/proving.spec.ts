@@ -1,4 +1,6 @@
 import {
+  hashProveRequest,
+  PendingPCD,
   PendingPCDStatus,
   ProveRequest,
   StatusResponse
@@ -10,9 +12,23 @@ import { Identity } from "@semaphore-protocol/identity";
 import { expect } from "chai";
 import "mocha";
 import { step } from "mocha-steps";
+import { Response } from "superagent";
 import { stopApplication } from "../src/application";
+import {
+  fetchAverageProvingDuration,
+  fetchProvingJob,
+  insertProvingDuration,
+  requeueInterruptedProvingJobs
+} from "../src/database/queries/provingJobs";
+import { sqlQuery } from "../src/database/sqlQuery";
 import { PCDPass } from "../src/types";
-import { submitAndWaitForPendingPCD } from "./proving/proving";
+import {
+  sendCancelRequest,
+  sendProveRequest,
+  sendStatusRequest,
+  submitAndWaitForPendingPCD,
+  waitForSettledStatus
+} from "./proving/proving";
 import { overrideEnvironment, zuzaluTestingEnv } from "./util/env";
 import { startTestingApp } from "./util/startTestingApplication";
 
@@ -20,6 +36,7 @@ describe("server-side proving functionality", function () {
   this.timeout(15_000);
 
   let application: PCDPass;
+  let completedHash: string;
 
   this.beforeAll(async () => {
     await overrideEnvironment(zuzaluTestingEnv);
@@ -88,6 +105,255 @@ describe("server-side proving functionality", function () {
           true
         );
       });
+
+      completedHash = hashProveRequest(proveRequest);
+    }
+  );
+
+  step("proving jobs should be persisted to the database", async function () {
+    const job = await fetchProvingJob(
+      application.context.dbPool,
+      completedHash
+    );
+    expect(job?.status).to.eq(PendingPCDStatus.COMPLETE);
+    expect(job?.attempts).to.eq(1);
+  });
+
+  step(
+    "only jobs that have been proving for a while should be re-queued",
+    async function () {
+      const request = JSON.stringify({ pcdType: "unknown-pcd", args: {} });
+      const staleStart = new Date(Date.now() - 1000 * 60 * 10);
+      const recentStart = new Date();
+      for (const [hash, timeStarted] of [
+        ["stale-job", staleStart],
+        ["recent-job", recentStart]
+      ] as const) {
+        await sqlQuery(
+          application.context.dbPool,
+          `\
+insert into proving_jobs (hash, pcd_type, request, status, attempts, time_started)
+values ($1, 'unknown-pcd', $2, $3, 1, $4)`,
+          [hash, request, PendingPCDStatus.PROVING, timeStarted]
+        );
+      }
+
+      const requeued = await requeueInterruptedProvingJobs(
+        application.context.dbPool,
+        1000 * 60 * 5
+      );
+      expect(requeued).to.eq(1);
+
+      // the stale job may be picked up again straight away, but then it has
+      // a new start time
+      const staleJob = await fetchProvingJob(
+        application.context.dbPool,
+        "stale-job"
+      );
+      expect(staleJob?.time_started?.getTime()).to.not.eq(staleStart.getTime());
+
+      const recentJob = await fetchProvingJob(
+        application.context.dbPool,
+        "recent-job"
+      );
+      expect(recentJob?.status).to.eq(PendingPCDStatus.PROVING);
+      expect(recentJob?.time_started?.getTime()).to.eq(recentStart.getTime());
+
+      await sqlQuery(
+        application.context.dbPool,
+        `delete from proving_jobs where hash = any($1)`,
+        [["stale-job", "recent-job"]]
+      );
     }
   );
+
+  step(
+    "status of a completed proof should survive a server restart",
+    async function () {
+      await stopApplication(application);
+      application = await startTestingApp();
+
+      const response = await sendStatusRequest(application, {
+        hash: completedHash
+      });
+      const statusResponse = response.body as StatusResponse;
+
+      expect(statusResponse.status).to.eq(PendingPCDStatus.COMPLETE);
+      expect(statusResponse.serializedPCD).to.not.eq(undefined);
+    }
+  );
+
+  step("should record how long proofs take", async function () {
+    const averageDuration = await fetchAverageProvingDuration(
+      application.context.dbPool,
+      SemaphoreSignaturePCDPackage.name,
+      10
+    );
+    expect(averageDuration).to.not.eq(null);
+    expect(averageDuration).to.be.greaterThan(0);
+  });
+
+  step(
+    "only the most recent proof durations should be kept",
+    async function () {
+      for (let i = 1; i <= 5; i++) {
+        await insertProvingDuration(
+          application.context.dbPool,
+          "pruned-pcd",
+          i * 1000,
+          3
+        );
+      }
+
+      const result = await sqlQuery(
+        application.context.dbPool,
+        `select duration_ms from proving_durations where pcd_type = $1`,
+        ["pruned-pcd"]
+      );
+      expect(result.rows.map((r) => r.duration_ms).sort()).to.deep.eq([
+        3000, 4000, 5000
+      ]);
+      expect(
+        await fetchAverageProvingDuration(
+          application.context.dbPool,
+          SemaphoreSignaturePCDPackage.name,
+          10
+        )
+      ).to.not.eq(null);
+    }
+  );
+
+  step("should be able to cancel a pending proof", async function () {
+    const proveRequest: ProveRequest<typeof SemaphoreSignaturePCDPackage> = {
+      args: {
+        identity: {
+          argumentType: ArgumentTypeName.PCD,
+          pcdType: SemaphoreIdentityPCDPackage.name,
+          value: await SemaphoreIdentityPCDPackage.serialize(
+            await SemaphoreIdentityPCDPackage.prove({
+              identity: new Identity()
+            })
+          )
+        },
+        signedMessage: {
+          argumentType: ArgumentTypeName.String,
+          value: "cancel me"
+        }
+      },
+      pcdType: SemaphoreSignaturePCDPackage.name
+    };
+
+    const proveResponse = await sendProveRequest(
+      application,
+      proveRequest,
+      async (r) => {
+        const pending = r.body as PendingPCD;
+        expect(r.statusCode).to.eq(200);
+        expect([PendingPCDStatus.QUEUED, PendingPCDStatus.PROVING]).to.include(
+          pending.status
+        );
+      }
+    );
+    const { hash, cancelToken } = proveResponse.body as PendingPCD;
+    expect(cancelToken).to.be.a("string");
+
+    const wrongTokenResponse = await sendCancelRequest(application, {
+      hash,
+      cancelToken: "not the cancel token"
+    });
+    expect(wrongTokenResponse.statusCode).to.eq(200);
+    expect([PendingPCDStatus.QUEUED, PendingPCDStatus.PROVING]).to.include(
+      (wrongTokenResponse.body as StatusResponse).status
+    );
+
+    const cancelResponse = await sendCancelRequest(application, {
+      hash,
+      cancelToken: cancelToken as string
+    });
+    expect(cancelResponse.statusCode).to.eq(200);
+    expect((cancelResponse.body as StatusResponse).status).to.eq(
+      PendingPCDStatus.CANCELLED
+    );
+
+    // a proof that was already in progress may finish after cancellation,
+    // but its result should be discarded
+    const settledResponse = await waitForSettledStatus(application, { hash });
+    const settledStatus = settledResponse.body as StatusResponse;
+    expect(settledStatus.status).to.eq(PendingPCDStatus.CANCELLED);
+    expect(settledStatus.serializedPCD).to.eq(undefined);
+  });
+
+  step(
+    "a proof requested twice should only be cancelled by both requesters",
+    async function () {
+      const proveRequest: ProveRequest<typeof SemaphoreSignaturePCDPackage> = {
+        args: {
+          identity: {
+            argumentType: ArgumentTypeName.PCD,
+            pcdType: SemaphoreIdentityPCDPackage.name,
+            value: await SemaphoreIdentityPCDPackage.serialize(
+              await SemaphoreIdentityPCDPackage.prove({
+                identity: new Identity()
+              })
+            )
+          },
+          signedMessage: {
+            argumentType: ArgumentTypeName.String,
+            value: "cancel me twice"
+          }
+        },
+        pcdType: SemaphoreSignaturePCDPackage.name
+      };
+
+      const expectQueued = async (r: Response): Promise<void> => {
+        expect(r.statusCode).to.eq(200);
+      };
+      const first = (
+        await sendProveRequest(application, proveRequest, expectQueued)
+      ).body as PendingPCD;
+      const second = (
+        await sendProveRequest(application, proveRequest, expectQueued)
+      ).body as PendingPCD;
+      expect(first.hash).to.eq(second.hash);
+      expect(first.cancelToken).to.not.eq(second.cancelToken);
+
+      const firstCancelResponse = await sendCancelRequest(application, {
+        hash: first.hash,
+        cancelToken: first.cancelToken as string
+      });
+      expect([PendingPCDStatus.QUEUED, PendingPCDStatus.PROVING]).to.include(
+        (firstCancelResponse.body as StatusResponse).status
+      );
+
+      const secondCancelResponse = await sendCancelRequest(application, {
+        hash: second.hash,
+        cancelToken: second.cancelToken as string
+      });
+      expect((secondCancelResponse.body as StatusResponse).status).to.eq(
+        PendingPCDStatus.CANCELLED
+      );
+    }
+  );
+
+  step(
+    "cancelling an unknown request should respond with 'none'",
+    async function () {
+      const response = await sendCancelRequest(application, {
+        hash: "not a real hash",
+        cancelToken: "not a real token"
+      });
+      expect((response.body as StatusResponse).status).to.eq(
+        PendingPCDStatus.NONE
+      );
+    }
+  );
+
+  step("status of an unknown request should be 'none'", async function () {
+    const response = await sendStatusRequest(application, {
+      hash: "not a real hash"
+    });
+    const statusResponse = response.body as StatusResponse;
+
+    expect(statusResponse.status).to.eq(PendingPCDStatus.NONE);
+  });
 });
@@ -1,4 +1,5 @@
 import {
+  CancelRequest,
   isSettledPendingPCDStatus,
   PendingPCD,
   ProveRequest,
@@ -56,6 +57,18 @@ export async function sendStatusRequest(
   });
 }
 
+export async function sendCancelRequest(
+  application: PCDPass,
+  cancelRequest: CancelRequest
+): Promise<Response> {
+  const { expressContext } = application;
+
+  return chai
+    .request(expressContext.app)
+    .post("/pcds/cancel")
+    .send(cancelRequest);
+}
+
 export async function waitForSettledStatus(
   application: PCDPass,
   statusRequest: StatusRequest,
@@ -0,0 +1,123 @@
+import { expect } from "chai";
+import "mocha";
+import { RateLimitService } from "../src/services/rateLimitService";
+
+describe("rate limiting of server-side proving", function () {
+  const start = Date.now();
+  let rateLimitService: RateLimitService;
+
+  this.beforeEach(() => {
+    rateLimitService = new RateLimitService({
+      perIP: { capacity: 4, refillPerMinute: 2 },
+      perOrigin: { capacity: 10, refillPerMinute: 60 },
+      costWeights: { "expensive-pcd": 2 },
+      challengesPerIP: { capacity: 3, refillPerMinute: 6 }
+    });
+  });
+
+  it("should allow requests until the ip's bucket is empty", () => {
+    for (let i = 0; i < 4; i++) {
+      expect(
+        rateLimitService.consumeProvingTokens("1.1.1.1", "a", "cheap", start)
+          .allowed
+      ).to.eq(true);
+    }
+
+    const result = rateLimitService.consumeProvingTokens(
+      "1.1.1.1",
+      "a",
+      "cheap",
+      start
+    );
+    expect(result.allowed).to.eq(false);
+    if (!result.allowed) {
+      expect(result.retryAfterSeconds).to.eq(30);
+    }
+  });
+
+  it("should limit each ip separately", () => {
+    for (let i = 0; i < 4; i++) {
+      rateLimitService.consumeProvingTokens("1.1.1.1", "a", "cheap", start);
+    }
+
+    expect(
+      rateLimitService.consumeProvingTokens("2.2.2.2", "a", "cheap", start)
+        .allowed
+    ).to.eq(true);
+  });
+
+  it("should limit each origin across ips", () => {
+    for (let i = 0; i < 10; i++) {
+      rateLimitService.consumeProvingTokens(`ip-${i}`, "a", "cheap", start);
+    }
+
+    expect(
+      rateLimitService.consumeProvingTokens("1.1.1.1", "a", "cheap", start)
+        .allowed
+    ).to.eq(false);
+    expect(
+      rateLimitService.consumeProvingTokens("1.1.1.1", "b", "cheap", start)
+        .allowed
+    ).to.eq(true);
+  });
+
+  it("should charge more for more expensive pcd types", () => {
+    expect(rateLimitService.getCost("expensive-pcd")).to.eq(2);
+    expect(rateLimitService.getCost("cheap")).to.eq(1);
+
+    for (let i = 0; i < 2; i++) {
+      rateLimitService.consumeProvingTokens(
+        "1.1.1.1",
+        "a",
+        "expensive-pcd",
+        start
+      );
+    }
+
+    expect(
+      rateLimitService.consumeProvingTokens("1.1.1.1", "a", "cheap", start)
+        .allowed
+    ).to.eq(false);
+  });
+
+  it("should refill buckets over time", () => {
+    for (let i = 0; i < 4; i++) {
+      rateLimitService.consumeProvingTokens("1.1.1.1", "a", "cheap", start);
+    }
+
+    expect(
+      rateLimitService.consumeProvingTokens(
+        "1.1.1.1",
+        "a",
+        "cheap",
+        start + 1000 * 30
+      ).allowed
+    ).to.eq(true);
+  });
+
+  it("should limit how many challenges each ip is handed", () => {
+    for (let i = 0; i < 3; i++) {
+      expect(
+        rateLimitService.consumeChallengeToken("1.1.1.1", start).allowed
+      ).to.eq(true);
+    }
+
+    const result = rateLimitService.consumeChallengeToken("1.1.1.1", start);
+    expect(result.allowed).to.eq(false);
+    if (!result.allowed) {
+      expect(result.retryAfterSeconds).to.eq(10);
+    }
+
+    expect(
+      rateLimitService.consumeChallengeToken("2.2.2.2", start).allowed
+    ).to.eq(true);
+    expect(
+      rateLimitService.consumeProvingTokens("1.1.1.1", "a", "cheap", start)
+        .allowed
+    ).to.eq(true);
+    expect(
+      rateLimitService.consumeChallengeToken("1.1.1.1", start + 1000 * 10)
+        .allowed
+    ).to.eq(true);
+  });
+});
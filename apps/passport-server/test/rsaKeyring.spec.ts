@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import "mocha";
+import NodeRSA from "node-rsa";
+import {
+  findVerificationKey,
+  getSigningKey,
+  parseRSAKeyring,
+  toServerPublicKey
+} from "../src/util/rsaKeyring";
+
+describe("RSA keyring", function () {
+  this.timeout(30_000);
+
+  const oldKey = new NodeRSA({ b: 512 });
+  const currentKey = new NodeRSA({ b: 512 });
+  const nextKey = new NodeRSA({ b: 512 });
+  const now = new Date("2023-11-15T00:00:00Z");
+
+  const keyringJSON = JSON.stringify([
+    {
+      keyId: "old",
+      privateKey: oldKey.exportKey("private"),
+      activeFrom: "2023-01-01T00:00:00Z",
+      retiredAt: "2023-11-01T00:00:00Z"
+    },
+    {
+      keyId: "current",
+      privateKey: currentKey.exportKey("private"),
+      activeFrom: "2023-10-01T00:00:00Z"
+    },
+    {
+      keyId: "next",
+      privateKey: nextKey.exportKey("private"),
+      activeFrom: "2023-12-01T00:00:00Z"
+    }
+  ]);
+
+  it("should sign with the most recently activated key", () => {
+    const keyring = parseRSAKeyring(keyringJSON);
+
+    expect(getSigningKey(keyring, now)?.keyId).to.eq("current");
+    expect(
+      getSigningKey(keyring, new Date("2023-12-02T00:00:00Z"))?.keyId
+    ).to.eq("next");
+  });
+
+  it("should not sign with a retired key", () => {
+    const keyring = parseRSAKeyring(keyringJSON);
+
+    expect(
+      getSigningKey(
+        keyring.filter((k) => k.keyId === "old"),
+        now
+      )
+    ).to.eq(undefined);
+  });
+
+  it("should accept tickets signed with any key that isn't retired", () => {
+    const keyring = parseRSAKeyring(keyringJSON);
+
+    expect(
+      findVerificationKey(keyring, currentKey.exportKey("public"), now)?.keyId
+    ).to.eq("current");
+    expect(
+      findVerificationKey(keyring, nextKey.exportKey("public"), now)?.keyId
+    ).to.eq("next");
+    expect(
+      findVerificationKey(
+        keyring,
+        oldKey.exportKey("public"),
+        new Date("2023-10-15T00:00:00Z")
+      )?.keyId
+    ).to.eq("old");
+    expect(findVerificationKey(keyring, oldKey.exportKey("public"), now)).to.eq(
+      undefined
+    );
+    expect(
+      findVerificationKey(
+        keyring,
+        new NodeRSA({ b: 512 }).exportKey("public"),
+        now
+      )
+    ).to.eq(undefined);
+  });
+
+  it("should only list public keys", () => {
+    const keyring = parseRSAKeyring(keyringJSON);
+    const listed = keyring.map((k) => toServerPublicKey(k, now));
+
+    expect(listed.map((k) => [k.keyId, k.isRetired])).to.deep.eq([
+      ["old", true],
+      ["current", false],
+      ["next", false]
+    ]);
+    for (const key of listed) {
+      expect(new NodeRSA(key.publicKey, "public").isPrivate()).to.eq(false);
+    }
+  });
+
+  it("should reject invalid keyrings", () => {
+    expect(() => parseRSAKeyring("[]")).to.throw();
+    expect(() =>
+      parseRSAKeyring(
+        JSON.stringify([
+          {
+            keyId: "a",
+            privateKey: currentKey.exportKey("private"),
+            activeFrom: "not a date"
+          }
+        ])
+      )
+    ).to.throw();
+    expect(() =>
+      parseRSAKeyring(
+        JSON.stringify(
+          ["a", "a"].map((keyId) => ({
+            keyId,
+            privateKey: currentKey.exportKey("private"),
+            activeFrom: "2023-10-01T00:00:00Z"
+          }))
+        )
+      )
+    ).to.throw();
+  });
+});
@@ -0,0 +1,100 @@
+import { ITicketValidity } from "@pcd/rsa-ticket-pcd";
+import { expect } from "chai";
+import "mocha";
+import {
+  checkTicketValidity,
+  ENTRY_WINDOWS_META_KEY,
+  getPretixItemValidity,
+  MAX_ENTRIES_PER_DAY_META_KEY,
+  startOfUTCDay
+} from "../src/util/ticketValidity";
+
+describe("ticket validity rules", function () {
+  const noRules: ITicketValidity = { dateRanges: [], entryWindows: [] };
+
+  it("should derive no rules from an item without validity settings", () => {
+    expect(
+      getPretixItemValidity({
+        id: 1,
+        admission: true,
+        personalized: true,
+        name: { en: "item" }
+      })
+    ).to.deep.eq(noRules);
+  });
+
+  it("should ignore invalid item metadata", () => {
+    expect(
+      getPretixItemValidity({
+        id: 1,
+        admission: true,
+        personalized: true,
+        name: { en: "item" },
+        meta_data: {
+          [MAX_ENTRIES_PER_DAY_META_KEY]: "many",
+          [ENTRY_WINDOWS_META_KEY]: "9-12,25:00-26:00"
+        }
+      })
+    ).to.deep.eq(noRules);
+  });
+
+  it("should allow tickets without rules at any time", () => {
+    expect(checkTicketValidity(noRules, 10, new Date())).to.eq(undefined);
+  });
+
+  it("should only allow tickets within their date ranges", () => {
+    const validity: ITicketValidity = {
+      dateRanges: [
+        { from: "2023-11-13T00:00:00Z", to: "2023-11-14T00:00:00Z" },
+        { from: "2023-11-16T00:00:00Z" }
+      ],
+      entryWindows: []
+    };
+
+    expect(
+      checkTicketValidity(validity, 0, new Date("2023-11-13T12:00:00Z"))
+    ).to.eq(undefined);
+    expect(
+      checkTicketValidity(validity, 0, new Date("2023-11-15T12:00:00Z"))?.name
+    ).to.eq("NotValidNow");
+    expect(
+      checkTicketValidity(validity, 0, new Date("2023-12-01T12:00:00Z"))
+    ).to.eq(undefined);
+  });
+
+  it("should only allow tickets within their entry windows", () => {
+    const validity: ITicketValidity = {
+      dateRanges: [],
+      entryWindows: [
+        { start: "09:00", end: "12:00" },
+        { start: "22:00", end: "02:00" }
+      ]
+    };
+
+    expect(
+      checkTicketValidity(validity, 0, new Date("2023-11-13T09:00:00Z"))
+    ).to.eq(undefined);
+    expect(
+      checkTicketValidity(validity, 0, new Date("2023-11-13T12:00:00Z"))?.name
+    ).to.eq("NotValidNow");
+    expect(
+      checkTicketValidity(validity, 0, new Date("2023-11-13T01:30:00Z"))
+    ).to.eq(undefined);
+  });
+
+  it("should limit the number of entries per day", () => {
+    const validity: ITicketValidity = {
+      dateRanges: [],
+      maxEntriesPerDay: 2,
+      entryWindows: []
+    };
+    const now = new Date("2023-11-13T12:00:00Z");
+
+    expect(checkTicketValidity(validity, 1, now)).to.eq(undefined);
+    expect(checkTicketValidity(validity, 2, now)).to.deep.eq({
+      name: "MaxEntriesReached",
+      maxEntriesPerDay: 2
+    });
+    expect(startOfUTCDay(now).toISOString()).to.eq("2023-11-13T00:00:00.000Z");
+  });
+});
@@ -1,17 +1,29 @@
 import {
+  getHash,
+  getRotationProof,
   passportDecrypt,
   passportEncrypt,
   PCDCrypto
 } from "@pcd/passport-crypto";
 import {
+  LoadE2EEHistoryResponse,
   LoadE2EERequest,
   LoadE2EEResponse,
-  SaveE2EERequest
+  RestoreE2EEResponse,
+  RotateE2EEKeyRequest,
+  RotateE2EEKeyResponse,
+  SaveE2EEConflictResponse,
+  SaveE2EERequest,
+  SaveE2EEResponse
 } from "@pcd/passport-interface";
 import { expect } from "chai";
 import "chai-spies";
 import "mocha";
 import httpMocks from "node-mocks-http";
+import {
+  fetchEncryptedStorage,
+  insertEncryptedStorage
+} from "../../src/database/queries/e2ee";
 import { PCDPass } from "../../src/types";
 
 export async function testUserSync(application: PCDPass): Promise<void> {
@@ -39,7 +51,8 @@ export async function testUserSync(application: PCDPass): Promise<void> {
 
   const saveRequest: SaveE2EERequest = {
     blobKey: syncKey,
-    encryptedBlob: JSON.stringify(encryptedData)
+    encryptedBlob: JSON.stringify(encryptedData),
+    rotationVerifier: await getHash(await getRotationProof(syncKey))
   };
 
   const saveResponse = httpMocks.createResponse();
@@ -56,4 +69,268 @@ export async function testUserSync(application: PCDPass): Promise<void> {
     syncKey
   );
   expect(JSON.parse(decrypted)).to.deep.eq(plaintextData);
+
+  const firstRevision = loadResponseJson.revision;
+  expect((saveResponse._getJSONData() as SaveE2EEResponse).revision).to.eq(
+    firstRevision
+  );
+
+  const updatedData = await passportEncrypt(
+    JSON.stringify({ ...plaintextData, two: 2 }),
+    syncKey
+  );
+  const revisionedSaveResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(
+    {
+      blobKey: syncKey,
+      encryptedBlob: JSON.stringify(updatedData),
+      knownRevision: firstRevision
+    },
+    revisionedSaveResponse
+  );
+  expect(revisionedSaveResponse.statusCode).to.eq(200);
+  const secondRevision = (
+    revisionedSaveResponse._getJSONData() as SaveE2EEResponse
+  ).revision;
+  expect(secondRevision).to.be.greaterThan(firstRevision);
+
+  // another device that hasn't seen the second revision can't overwrite it
+  const conflictingSaveResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(
+    {
+      blobKey: syncKey,
+      encryptedBlob: JSON.stringify(encryptedData),
+      knownRevision: firstRevision
+    },
+    conflictingSaveResponse
+  );
+  expect(conflictingSaveResponse.statusCode).to.eq(409);
+  const conflict =
+    conflictingSaveResponse._getJSONData() as SaveE2EEConflictResponse;
+  expect(conflict.revision).to.eq(secondRevision);
+  if (!conflict.encryptedStorage) {
+    throw new Error("expected conflict to contain the stored data");
+  }
+  expect(
+    JSON.parse(await passportDecrypt(conflict.encryptedStorage, syncKey))
+  ).to.deep.eq({ ...plaintextData, two: 2 });
+
+  // nor can a device which thinks nothing has been saved yet
+  const conflictingFirstSaveResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(
+    {
+      blobKey: syncKey,
+      encryptedBlob: JSON.stringify(encryptedData),
+      knownRevision: 0
+    },
+    conflictingFirstSaveResponse
+  );
+  expect(conflictingFirstSaveResponse.statusCode).to.eq(409);
+
+  // nor can a client which doesn't keep track of revisions
+  const unrevisionedSaveResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(
+    {
+      blobKey: syncKey,
+      encryptedBlob: JSON.stringify(encryptedData)
+    },
+    unrevisionedSaveResponse
+  );
+  expect(unrevisionedSaveResponse.statusCode).to.eq(409);
+  expect(
+    (unrevisionedSaveResponse._getJSONData() as SaveE2EEConflictResponse)
+      .revision
+  ).to.eq(secondRevision);
+
+  const historyResponse = httpMocks.createResponse();
+  await e2eeService.handleLoadHistory({ blobKey: syncKey }, historyResponse);
+  const history = historyResponse._getJSONData() as LoadE2EEHistoryResponse;
+  expect(history.revisions.map((r) => r.revision)).to.deep.eq([
+    secondRevision,
+    firstRevision
+  ]);
+
+  const restoreResponse = httpMocks.createResponse();
+  await e2eeService.handleRestore(
+    {
+      blobKey: syncKey,
+      revision: firstRevision,
+      knownRevision: secondRevision
+    },
+    restoreResponse
+  );
+  expect(restoreResponse.statusCode).to.eq(200);
+  const restored = restoreResponse._getJSONData() as RestoreE2EEResponse;
+  expect(restored.revision).to.be.greaterThan(secondRevision);
+
+  const restoredLoadResponse = httpMocks.createResponse();
+  await e2eeService.handleLoad(loadRequest, restoredLoadResponse);
+  const restoredLoad = restoredLoadResponse._getJSONData() as LoadE2EEResponse;
+  expect(restoredLoad.revision).to.eq(restored.revision);
+  expect(
+    JSON.parse(await passportDecrypt(restoredLoad.encryptedStorage, syncKey))
+  ).to.deep.eq(plaintextData);
+
+  const missingRestoreResponse = httpMocks.createResponse();
+  await e2eeService.handleRestore(
+    { blobKey: syncKey, revision: restored.revision + 100 },
+    missingRestoreResponse
+  );
+  expect(missingRestoreResponse.statusCode).to.eq(404);
+
+  const newSyncKey = await crypto.generateRandomKey();
+  const reencryptedData = await passportEncrypt(
+    JSON.stringify(plaintextData),
+    newSyncKey
+  );
+  const rotateRequest: RotateE2EEKeyRequest = {
+    oldBlobKey: syncKey,
+    rotationProof: await getRotationProof(syncKey),
+    newBlobKey: newSyncKey,
+    newRotationVerifier: await getHash(await getRotationProof(newSyncKey)),
+    encryptedBlob: JSON.stringify(reencryptedData),
+    knownRevision: restored.revision
+  };
+
+  const staleRotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(
+    { ...rotateRequest, knownRevision: firstRevision },
+    staleRotateResponse
+  );
+  expect(staleRotateResponse.statusCode).to.eq(409);
+
+  // knowing the sync key isn't enough to rotate it
+  const unprovenRotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(
+    { ...rotateRequest, rotationProof: syncKey },
+    unprovenRotateResponse
+  );
+  expect(unprovenRotateResponse.statusCode).to.eq(403);
+
+  // the storage can't be moved to a sync key that is already in use
+  const usedSyncKey = await crypto.generateRandomKey();
+  const usedSaveResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(
+    { blobKey: usedSyncKey, encryptedBlob: JSON.stringify(encryptedData) },
+    usedSaveResponse
+  );
+  expect(usedSaveResponse.statusCode).to.eq(200);
+  const usedKeyRotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(
+    { ...rotateRequest, newBlobKey: usedSyncKey },
+    usedKeyRotateResponse
+  );
+  expect(usedKeyRotateResponse.statusCode).to.eq(409);
+
+  const rotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(rotateRequest, rotateResponse);
+  expect(rotateResponse.statusCode).to.eq(200);
+  expect(
+    (rotateResponse._getJSONData() as RotateE2EEKeyResponse).revision
+  ).to.eq(1);
+
+  const rotatedLoadResponse = httpMocks.createResponse();
+  await e2eeService.handleLoad({ blobKey: newSyncKey }, rotatedLoadResponse);
+  const rotatedLoad = rotatedLoadResponse._getJSONData() as LoadE2EEResponse;
+  expect(
+    JSON.parse(await passportDecrypt(rotatedLoad.encryptedStorage, newSyncKey))
+  ).to.deep.eq(plaintextData);
+
+  // devices which still use the old key find out that it was rotated
+  const oldKeyLoadResponse = httpMocks.createResponse();
+  await e2eeService.handleLoad(loadRequest, oldKeyLoadResponse);
+  expect(oldKeyLoadResponse.statusCode).to.eq(410);
+
+  const oldKeySaveResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(saveRequest, oldKeySaveResponse);
+  expect(oldKeySaveResponse.statusCode).to.eq(410);
+
+  await testLegacyKeyRotation(application);
+}
+
+/**
+ * Storage that was saved before the server kept rotation verifiers can't be
+ * claimed by a later save, and can only be rotated with the encryption key.
+ */
+async function testLegacyKeyRotation(application: PCDPass): Promise<void> {
+  const crypto = await PCDCrypto.newInstance();
+  const encryptionKey = await crypto.generateRandomKey();
+  const blobKey = await getHash(encryptionKey);
+  const encryptedBlob = JSON.stringify(
+    await passportEncrypt(JSON.stringify({ legacy: true }), encryptionKey)
+  );
+
+  const { e2eeService } = application.services;
+
+  // a row as it was stored before the rotation verifier column existed
+  const legacyRevision = await insertEncryptedStorage(
+    application.context.dbPool,
+    blobKey,
+    encryptedBlob
+  );
+
+  // anyone who knows the sync key can save, but that doesn't let them
+  // choose who can rotate it
+  const attackerKey = await crypto.generateRandomKey();
+  const claimResponse = httpMocks.createResponse();
+  await e2eeService.handleSave(
+    {
+      blobKey,
+      encryptedBlob,
+      knownRevision: legacyRevision,
+      rotationVerifier: await getHash(await getRotationProof(attackerKey))
+    },
+    claimResponse
+  );
+  expect(claimResponse.statusCode).to.eq(200);
+  const knownRevision = (claimResponse._getJSONData() as SaveE2EEResponse)
+    .revision;
+
+  const newEncryptionKey = await crypto.generateRandomKey();
+  const rotateRequest: RotateE2EEKeyRequest = {
+    oldBlobKey: blobKey,
+    rotationProof: await getRotationProof(encryptionKey),
+    newBlobKey: await getHash(newEncryptionKey),
+    newRotationVerifier: await getHash(
+      await getRotationProof(newEncryptionKey)
+    ),
+    encryptedBlob: JSON.stringify(
+      await passportEncrypt(JSON.stringify({ legacy: true }), newEncryptionKey)
+    ),
+    knownRevision
+  };
+
+  const claimedRotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(
+    { ...rotateRequest, rotationProof: await getRotationProof(attackerKey) },
+    claimedRotateResponse
+  );
+  expect(claimedRotateResponse.statusCode).to.eq(403);
+
+  const unprovenRotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(rotateRequest, unprovenRotateResponse);
+  expect(unprovenRotateResponse.statusCode).to.eq(403);
+
+  const wrongKeyRotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(
+    { ...rotateRequest, oldEncryptionKey: attackerKey },
+    wrongKeyRotateResponse
+  );
+  expect(wrongKeyRotateResponse.statusCode).to.eq(403);
+
+  const rotateResponse = httpMocks.createResponse();
+  await e2eeService.handleRotateKey(
+    { ...rotateRequest, oldEncryptionKey: encryptionKey },
+    rotateResponse
+  );
+  expect(rotateResponse.statusCode).to.eq(200);
+
+  // the new sync key has a rotation verifier from the start
+  const rotatedStorage = await fetchEncryptedStorage(
+    application.context.dbPool,
+    rotateRequest.newBlobKey
+  );
+  expect(rotatedStorage?.rotation_verifier).to.eq(
+    rotateRequest.newRotationVerifier
+  );
 }
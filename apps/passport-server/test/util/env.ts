@@ -1,3 +1,4 @@
+import { randomBytes } from "crypto";
 import NodeRSA from "node-rsa";
 import { EnvironmentVariables } from "../../src/types";
 import { logger } from "../../src/util/logger";
@@ -20,7 +21,9 @@ export const zuzaluTestingEnv: EnvironmentVariables = Object.freeze({
   PRETIX_VISITOR_EVENT_ID: "visitor_event_id",
   PRETIX_ZU_EVENT_ID: "zu_event_id",
   SUPPRESS_LOGGING: "true",
-  SERVER_RSA_PRIVATE_KEY_BASE64: undefined
+  SERVER_RSA_PRIVATE_KEY_BASE64: undefined,
+  SERVER_EDDSA_PRIVATE_KEY: undefined,
+  ADMIN_API_TOKEN: undefined
 });
 
 export const pcdpassTestingEnv: EnvironmentVariables = Object.freeze({
@@ -32,7 +35,9 @@ export const pcdpassTestingEnv: EnvironmentVariables = Object.freeze({
   PRETIX_ZU_EVENT_ID: undefined,
   SERVER_RSA_PRIVATE_KEY_BASE64: Buffer.from(
     new NodeRSA({ b: 2048 }).exportKey("private")
-  ).toString("base64")
+  ).toString("base64"),
+  SERVER_EDDSA_PRIVATE_KEY: randomBytes(32).toString("hex"),
+  ADMIN_API_TOKEN: randomBytes(32).toString("hex")
 });
 
 export async function overrideEnvironment(
@@ -0,0 +1,34 @@
+import styled from "styled-components";
+import { EmailPCD } from "./EmailPCD";
+
+export function EmailCardBody({ pcd }: { pcd: EmailPCD }) {
+  return (
+    <Container>
+      <EmailInfo>
+        <span>{pcd.claim.emailAddress}</span>
+        <Secondary>
+          Verified on {new Date(pcd.claim.timestamp).toLocaleDateString()}
+        </Secondary>
+      </EmailInfo>
+    </Container>
+  );
+}
+
+const Container = styled.span`
+  padding: 16px;
+  overflow: hidden;
+  width: 100%;
+`;
+
+const EmailInfo = styled.div`
+  margin-top: 8px;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  flex-direction: column;
+`;
+
+const Secondary = styled.span`
+  opacity: 0.8;
+  font-size: 0.9em;
+`;
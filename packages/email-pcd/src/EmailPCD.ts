@@ -0,0 +1,154 @@
+import {
+  DisplayOptions,
+  PCD,
+  PCDArgument,
+  PCDMetadata,
+  PCDPackage,
+  SerializedPCD,
+  StringArgument
+} from "@pcd/pcd-types";
+import { RSAPCD, RSAPCDPackage } from "@pcd/rsa-pcd";
+import JSONBig from "json-bigint";
+import { v4 as uuid } from "uuid";
+import { EmailCardBody } from "./CardBody";
+import { parseEmailClaim } from "./utils";
+
+export const EmailPCDTypeName = "email-pcd";
+
+export interface EmailPCDArgs {
+  id: StringArgument;
+
+  /**
+   * An RSA signature by the issuer of a JSON-encoded {@link EmailPCDClaim}.
+   */
+  rsaPCD: PCDArgument<RSAPCD>;
+}
+
+export interface EmailPCDClaim {
+  /**
+   * The email address whose ownership was verified by the issuer.
+   */
+  emailAddress: string;
+
+  /**
+   * Commitment of the semaphore identity that controls the email address.
+   */
+  semaphoreId: string;
+
+  /**
+   * When the claim was signed, in milliseconds since the epoch.
+   */
+  timestamp: number;
+}
+
+export interface EmailPCDProof {
+  rsaPCD: RSAPCD;
+}
+
+export class EmailPCD implements PCD<EmailPCDClaim, EmailPCDProof> {
+  type = EmailPCDTypeName;
+  claim: EmailPCDClaim;
+  proof: EmailPCDProof;
+  id: string;
+
+  public constructor(id: string, claim: EmailPCDClaim, proof: EmailPCDProof) {
+    this.id = id;
+    this.claim = claim;
+    this.proof = proof;
+  }
+}
+
+export async function prove(args: EmailPCDArgs): Promise<EmailPCD> {
+  if (!args.rsaPCD.value?.pcd) {
+    throw new Error("missing rsa pcd");
+  }
+
+  const deserialized = await RSAPCDPackage.deserialize(args.rsaPCD.value.pcd);
+  const valid = await RSAPCDPackage.verify(deserialized);
+
+  if (!valid) {
+    throw new Error("supplied rsa pcd is not valid");
+  }
+
+  const claim = parseEmailClaim(deserialized.claim.message);
+  if (!claim) {
+    throw new Error("supplied rsa pcd doesn't sign an email claim");
+  }
+
+  const id = args.id.value ?? uuid();
+
+  return new EmailPCD(id, claim, { rsaPCD: deserialized });
+}
+
+export async function verify(pcd: EmailPCD): Promise<boolean> {
+  try {
+    const signedClaim = parseEmailClaim(pcd.proof.rsaPCD.claim.message);
+
+    return (
+      signedClaim !== undefined &&
+      signedClaim.emailAddress === pcd.claim.emailAddress &&
+      signedClaim.semaphoreId === pcd.claim.semaphoreId &&
+      signedClaim.timestamp === pcd.claim.timestamp &&
+      (await RSAPCDPackage.verify(pcd.proof.rsaPCD))
+    );
+  } catch (e) {
+    return false;
+  }
+}
+
+export async function serialize(
+  pcd: EmailPCD
+): Promise<SerializedPCD<EmailPCD>> {
+  const serializedRSAPCD = await RSAPCDPackage.serialize(pcd.proof.rsaPCD);
+
+  return {
+    type: EmailPCDTypeName,
+    pcd: JSONBig().stringify({
+      id: pcd.id,
+      claim: pcd.claim,
+      rsaPCD: serializedRSAPCD
+    })
+  } as SerializedPCD<EmailPCD>;
+}
+
+export async function deserialize(serialized: string): Promise<EmailPCD> {
+  const deserializedWrapper = JSONBig().parse(serialized);
+  const deserializedRSAPCD = await RSAPCDPackage.deserialize(
+    deserializedWrapper.rsaPCD.pcd
+  );
+  return new EmailPCD(deserializedWrapper.id, deserializedWrapper.claim, {
+    rsaPCD: deserializedRSAPCD
+  });
+}
+
+export function getDisplayOptions(pcd: EmailPCD): DisplayOptions {
+  return {
+    header: pcd.claim.emailAddress,
+    displayName: "email-" + pcd.id.substring(0, 4)
+  };
+}
+
+export function getMetadata(pcd: EmailPCD): PCDMetadata {
+  return {
+    emailAddress: pcd.claim.emailAddress
+  };
+}
+
+/**
+ * PCD proving that a semaphore identity controls an email address, as
+ * attested to by the issuer's RSA signature.
+ */
+export const EmailPCDPackage: PCDPackage<
+  EmailPCDClaim,
+  EmailPCDProof,
+  EmailPCDArgs
+> = {
+  name: EmailPCDTypeName,
+  renderCardBody: EmailCardBody,
+  getDisplayOptions,
+  getMetadata,
+  prove,
+  verify,
+  serialize,
+  deserialize
+};
@@ -0,0 +1,2 @@
+export * from "./EmailPCD";
+export * from "./utils";
@@ -0,0 +1,52 @@
+import NodeRSA from "node-rsa";
+import { EmailPCD, EmailPCDClaim } from "./EmailPCD";
+
+/**
+ * The message an issuer signs to attest to a claim, which is what the
+ * RSA PCD passed to {@link EmailPCDPackage.prove} has to sign.
+ */
+export function getEmailClaimMessage(claim: EmailPCDClaim): string {
+  return JSON.stringify({
+    emailAddress: claim.emailAddress,
+    semaphoreId: claim.semaphoreId,
+    timestamp: claim.timestamp
+  });
+}
+
+export function parseEmailClaim(message: string): EmailPCDClaim | undefined {
+  try {
+    const claim = JSON.parse(message) as Partial<EmailPCDClaim>;
+    if (
+      typeof claim.emailAddress !== "string" ||
+      typeof claim.semaphoreId !== "string" ||
+      typeof claim.timestamp !== "number"
+    ) {
+      return undefined;
+    }
+
+    return {
+      emailAddress: claim.emailAddress,
+      semaphoreId: claim.semaphoreId,
+      timestamp: claim.timestamp
+    };
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * The PEM-encoded public key of the issuer of the PCD, normalized so that
+ * it can be compared with other keys.
+ */
+export function getEmailPCDPublicKey(pcd?: EmailPCD): string | undefined {
+  const encodedPublicKey = pcd?.proof?.rsaPCD?.proof?.publicKey;
+  if (!encodedPublicKey) {
+    return undefined;
+  }
+
+  try {
+    return new NodeRSA(encodedPublicKey, "public").exportKey("public");
+  } catch (e) {
+    return undefined;
+  }
+}
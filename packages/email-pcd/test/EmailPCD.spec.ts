@@ -0,0 +1,97 @@
+import { ArgumentTypeName } from "@pcd/pcd-types";
+import { RSAPCDPackage } from "@pcd/rsa-pcd";
+import { expect } from "chai";
+import "mocha";
+import NodeRSA from "node-rsa";
+import {
+  EmailPCD,
+  EmailPCDClaim,
+  EmailPCDPackage,
+  getEmailClaimMessage,
+  getEmailPCDPublicKey,
+} from "../src";
+
+describe("Email PCD should work", function () {
+  this.timeout(1000 * 30);
+
+  const key = new NodeRSA({ b: 2048 });
+  const claim: EmailPCDClaim = {
+    emailAddress: "user@example.com",
+    semaphoreId: "12345",
+    timestamp: 1690000000000,
+  };
+  let emailPCD: EmailPCD;
+
+  async function signMessage(message: string) {
+    return RSAPCDPackage.serialize(
+      await RSAPCDPackage.prove({
+        privateKey: {
+          argumentType: ArgumentTypeName.String,
+          value: key.exportKey("private"),
+        },
+        signedMessage: {
+          argumentType: ArgumentTypeName.String,
+          value: message,
+        },
+        id: {
+          argumentType: ArgumentTypeName.String,
+          value: undefined,
+        },
+      })
+    );
+  }
+
+  it("should be possible to prove a signed email claim", async function () {
+    emailPCD = await EmailPCDPackage.prove({
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: undefined,
+      },
+      rsaPCD: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await signMessage(getEmailClaimMessage(claim)),
+      },
+    });
+
+    expect(emailPCD.claim).to.deep.eq(claim);
+    expect(getEmailPCDPublicKey(emailPCD)).to.eq(key.exportKey("public"));
+    expect(await EmailPCDPackage.verify(emailPCD)).to.eq(true);
+  });
+
+  it("should not be possible to prove other messages", async function () {
+    let error: unknown;
+    try {
+      await EmailPCDPackage.prove({
+        id: {
+          argumentType: ArgumentTypeName.String,
+          value: undefined,
+        },
+        rsaPCD: {
+          argumentType: ArgumentTypeName.PCD,
+          value: await signMessage("not an email claim"),
+        },
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.not.eq(undefined);
+  });
+
+  it("should not verify a claim that wasn't signed", async function () {
+    const tampered = new EmailPCD(
+      emailPCD.id,
+      { ...emailPCD.claim, emailAddress: "someone.else@example.com" },
+      emailPCD.proof
+    );
+
+    expect(await EmailPCDPackage.verify(tampered)).to.eq(false);
+  });
+
+  it("should be possible to serialize and deserialize the pcd", async function () {
+    const serialized = await EmailPCDPackage.serialize(emailPCD);
+    const deserialized = await EmailPCDPackage.deserialize(serialized.pcd);
+
+    expect(emailPCD).to.deep.eq(deserialized);
+  });
+});
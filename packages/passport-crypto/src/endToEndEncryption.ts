@@ -9,6 +9,16 @@ export async function getHash(str: string) {
   return hashed;
 }
 
+/**
+ * Derives the secret which proves knowledge of an encryption key when
+ * rotating it. Unlike the sync key, which is the hash of the encryption key
+ * itself, this is never sent to the server except when rotating, which
+ * only stores its hash.
+ */
+export async function getRotationProof(encryptionKey: string) {
+  return getHash(`rotation proof ${encryptionKey}`);
+}
+
 export async function passportEncrypt(
   data: string,
   encryptionKey: string
@@ -0,0 +1,89 @@
+import {
+  EmailPCD,
+  EmailPCDClaim,
+  EmailPCDPackage,
+  getEmailPCDPublicKey
+} from "@pcd/email-pcd";
+import { SerializedPCD } from "@pcd/pcd-types";
+
+export interface EmailPCDVerificationOptions {
+  /**
+   * PEM-encoded public keys of the issuers the site trusts, eg. the keys
+   * listed by the passport server's `/issue/public-keys` endpoint which
+   * aren't retired. Pinning them lets the site verify PCDs without calling
+   * the server.
+   */
+  trustedPublicKeys: string[];
+
+  /**
+   * If set, the PCD is only accepted if it was issued to this semaphore
+   * identity, eg. the one that signed a semaphore signature PCD the site
+   * asked for alongside it.
+   */
+  identityCommitment?: string;
+
+  /**
+   * If set, the PCD is only accepted if it was issued at most this long
+   * ago.
+   */
+  maxAgeMs?: number;
+}
+
+export type EmailPCDVerificationResult =
+  | { valid: true; claim: EmailPCDClaim }
+  | {
+      valid: false;
+      reason:
+        | "WrongType"
+        | "InvalidSignature"
+        | "UntrustedIssuer"
+        | "WrongIdentity"
+        | "Expired";
+    };
+
+/**
+ * Verifies an email PCD issued by a passport server entirely locally, so
+ * that third-party sites can accept it as proof that the user controls an
+ * email address.
+ */
+export async function verifyEmailPCD(
+  serializedPCD: SerializedPCD<EmailPCD>,
+  options: EmailPCDVerificationOptions
+): Promise<EmailPCDVerificationResult> {
+  if (serializedPCD.type !== EmailPCDPackage.name) {
+    return { valid: false, reason: "WrongType" };
+  }
+
+  let pcd: EmailPCD;
+  try {
+    pcd = await EmailPCDPackage.deserialize(serializedPCD.pcd);
+  } catch (e) {
+    return { valid: false, reason: "InvalidSignature" };
+  }
+
+  if (!(await EmailPCDPackage.verify(pcd))) {
+    return { valid: false, reason: "InvalidSignature" };
+  }
+
+  const publicKey = getEmailPCDPublicKey(pcd);
+  const trustedPublicKeys = options.trustedPublicKeys.map((k) => k.trim());
+  if (!publicKey || !trustedPublicKeys.includes(publicKey.trim())) {
+    return { valid: false, reason: "UntrustedIssuer" };
+  }
+
+  if (
+    options.identityCommitment !== undefined &&
+    pcd.claim.semaphoreId !== options.identityCommitment
+  ) {
+    return { valid: false, reason: "WrongIdentity" };
+  }
+
+  if (
+    options.maxAgeMs !== undefined &&
+    Date.now() - pcd.claim.timestamp > options.maxAgeMs
+  ) {
+    return { valid: false, reason: "Expired" };
+  }
+
+  return { valid: true, claim: pcd.claim };
+}
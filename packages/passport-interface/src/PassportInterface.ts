@@ -1,4 +1,4 @@
-import { ArgsOf, PCDPackage, SerializedPCD } from "@pcd/pcd-types";
+import { ArgsOf, PCDFilter, PCDPackage, SerializedPCD } from "@pcd/pcd-types";
 
 export enum PCDRequestType {
   Get = "Get",
@@ -40,6 +40,11 @@ export interface PCDGetRequest<T extends PCDPackage = PCDPackage>
 
 export interface PCDGetWithoutProvingRequest extends PCDRequest {
   pcdType: string;
+  /**
+   * If present, the passport only offers the user PCDs of type `pcdType`
+   * which also match this filter.
+   */
+  filter?: PCDFilter;
 }
 
 export interface PCDAddRequest extends PCDRequest {
@@ -59,12 +64,14 @@ export interface PCDProveAndAddRequest<T extends PCDPackage = PCDPackage>
 export function getWithoutProvingUrl(
   passportOrigin: string,
   returnUrl: string,
-  pcdType: string
+  pcdType: string,
+  filter?: PCDFilter
 ) {
   const req: PCDGetWithoutProvingRequest = {
     type: PCDRequestType.GetWithoutProving,
     pcdType,
-    returnUrl
+    returnUrl,
+    filter
   };
   const encReq = encodeURIComponent(JSON.stringify(req));
   return `${passportOrigin}#/get-without-proving?request=${encReq}`;
@@ -1,24 +1,59 @@
 import { useEffect, useState } from "react";
 import { PendingPCD, PendingPCDStatus } from "./PendingPCDUtils";
-import { StatusRequest, StatusResponse } from "./RequestTypes";
+import {
+  CancelRequest,
+  CancelResponse,
+  StatusRequest,
+  StatusResponse,
+} from "./RequestTypes";
+
+/**
+ * Progress information about a PendingPCD, as reported by the server.
+ * See {@link StatusResponse} for the meaning of each field.
+ */
+export interface PendingPCDProgress {
+  queuePosition: number | undefined;
+  startedAt: number | undefined;
+  estimatedCompletion: number | undefined;
+}
+
+const NO_PROGRESS: PendingPCDProgress = {
+  queuePosition: undefined,
+  startedAt: undefined,
+  estimatedCompletion: undefined,
+};
 
 /**
  * React hook that pings server on status of a PendingPCD. Returns a serialized
- * PCD when a completed PCD is returned, or the current status.
+ * PCD when a completed PCD is returned, or the current status, as well as the
+ * queue position and estimated completion time of the PendingPCD. If the
+ * server refused to queue the request because the client is being rate
+ * limited, returns the RATE_LIMITED status and an error without polling.
  */
 export function usePendingPCD(
   pendingPCDStr: string,
   passportURL: string
-): [PendingPCDStatus, string, string] {
+): [PendingPCDStatus, string, string, PendingPCDProgress] {
   const [pendingPCDStatus, setPendingPCDStatus] = useState<PendingPCDStatus>(
     PendingPCDStatus.NONE
   );
   const [pendingPCDError, setPendingPCDError] = useState("");
   const [pcdStr, setPCDStr] = useState("");
+  const [progress, setProgress] = useState<PendingPCDProgress>(NO_PROGRESS);
 
   useEffect(() => {
     let interval: NodeJS.Timeout | undefined = undefined;
 
+    if (pendingPCDStr !== undefined && pendingPCDStr !== "") {
+      const pendingPCD: PendingPCD = JSON.parse(pendingPCDStr);
+      if (pendingPCD.status === PendingPCDStatus.RATE_LIMITED) {
+        setPendingPCDStatus(PendingPCDStatus.RATE_LIMITED);
+        setPendingPCDError(getRateLimitedError(pendingPCD));
+        setProgress(NO_PROGRESS);
+        return;
+      }
+    }
+
     const getStatus = () => {
       if (pendingPCDStr !== undefined && pendingPCDStr !== "") {
         const pendingPCD: PendingPCD = JSON.parse(pendingPCDStr);
@@ -38,6 +73,11 @@ export function usePendingPCD(
           .then((response) => response.json())
           .then((data: StatusResponse) => {
             setPendingPCDStatus(data.status);
+            setProgress({
+              queuePosition: data.queuePosition,
+              startedAt: data.startedAt,
+              estimatedCompletion: data.estimatedCompletion,
+            });
             if (
               data.status === PendingPCDStatus.COMPLETE &&
               data.serializedPCD !== undefined
@@ -51,6 +91,8 @@ export function usePendingPCD(
             ) {
               setPendingPCDError(data.error);
               clearInterval(interval);
+            } else if (data.status === PendingPCDStatus.CANCELLED) {
+              clearInterval(interval);
             }
           })
           .catch((error) => {
@@ -66,7 +108,45 @@ export function usePendingPCD(
     return () => clearInterval(interval);
   }, [pendingPCDStr, passportURL]);
 
-  return [pendingPCDStatus, pendingPCDError, pcdStr];
+  return [pendingPCDStatus, pendingPCDError, pcdStr, progress];
+}
+
+function getRateLimitedError(pendingPCD: PendingPCD): string {
+  if (pendingPCD.retryAfterSeconds === undefined) {
+    return "Too many proving requests, please try again later.";
+  }
+  return `Too many proving requests, please try again in ${pendingPCD.retryAfterSeconds} seconds.`;
+}
+
+/**
+ * Asks the server to stop working on a PendingPCD. Resolves to the status
+ * of the PendingPCD after the cancellation. The server keeps working on it
+ * if someone else has requested the same proof.
+ */
+export async function cancelPendingPCD(
+  pendingPCDStr: string,
+  passportURL: string
+): Promise<CancelResponse> {
+  const pendingPCD: PendingPCD = JSON.parse(pendingPCDStr);
+  if (pendingPCD.cancelToken === undefined) {
+    throw new Error("this PendingPCD can't be cancelled");
+  }
+
+  const request: CancelRequest = {
+    hash: pendingPCD.hash,
+    cancelToken: pendingPCD.cancelToken,
+  };
+
+  const response = await fetch(`${passportURL}pcds/cancel`, {
+    method: "POST",
+    body: JSON.stringify(request),
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+  });
+
+  return (await response.json()) as CancelResponse;
 }
 
 /**
@@ -23,6 +23,18 @@ export interface PendingPCD {
    * the proving queue.
    */
   hash: string;
+
+  /**
+   * If status === RATE_LIMITED, how many seconds the client should wait
+   * before sending the request again, else undefined.
+   */
+  retryAfterSeconds?: number;
+
+  /**
+   * A secret which lets whoever made the request cancel it through
+   * `cancelPendingPCD`. Undefined if status === RATE_LIMITED.
+   */
+  cancelToken?: string;
 }
 
 export enum PendingPCDStatus {
@@ -30,6 +42,8 @@ export enum PendingPCDStatus {
   PROVING = "proving",
   COMPLETE = "complete",
   ERROR = "error",
+  CANCELLED = "cancelled",
+  RATE_LIMITED = "rate-limited",
   NONE = "none",
 }
 
@@ -37,6 +51,8 @@ export function isSettledPendingPCDStatus(status: PendingPCDStatus) {
   return [
     PendingPCDStatus.ERROR,
     PendingPCDStatus.COMPLETE,
+    PendingPCDStatus.CANCELLED,
+    PendingPCDStatus.RATE_LIMITED,
     PendingPCDStatus.NONE,
   ].includes(status);
 }
@@ -1,6 +1,6 @@
 import { EncryptedPacket } from "@pcd/passport-crypto";
 import { ArgsOf, PCDPackage, SerializedPCD } from "@pcd/pcd-types";
-import { RSATicketPCD } from "@pcd/rsa-ticket-pcd";
+import { ITicketValidity, RSATicketPCD } from "@pcd/rsa-ticket-pcd";
 import { SemaphoreSignaturePCD } from "@pcd/semaphore-signature-pcd";
 import { PendingPCDStatus } from "./PendingPCDUtils";
 
@@ -45,8 +45,44 @@ export interface StatusResponse {
    * If status === ERROR, error string from server, else undefined;
    */
   error: string | undefined;
+
+  /**
+   * If status === QUEUED, the 1-indexed position of this request in the
+   * server's proving queue, else undefined.
+   */
+  queuePosition?: number;
+
+  /**
+   * If the server has started proving this request, the time at which it
+   * started, in milliseconds since the unix epoch, else undefined.
+   */
+  startedAt?: number;
+
+  /**
+   * If status === QUEUED or status === PROVING, the server's estimate of when
+   * the proof will be complete, in milliseconds since the unix epoch. Based
+   * on how long proofs of the same type have taken in the past. Undefined if
+   * the server has no timings for this type of PCD yet.
+   */
+  estimatedCompletion?: number;
 }
 
+export interface CancelRequest {
+  hash: string;
+
+  /**
+   * The {@link PendingPCD.cancelToken} the server gave out for this request.
+   */
+  cancelToken: string;
+}
+
+/**
+ * The status of the pending PCD after the cancellation. A request can only
+ * be cancelled while it is queued or being proven, and is only cancelled
+ * once everyone who requested the same proof has cancelled it.
+ */
+export type CancelResponse = StatusResponse;
+
 export interface SupportedPCDsResponse {
   names: string[];
 }
@@ -62,9 +98,49 @@ export interface SaveE2EERequest {
    * An encrypted and stringified version of {@link EncryptedStorage}
    */
   encryptedBlob: string;
+
+  /**
+   * The revision of the stored data that this save is based on, as returned
+   * by the last load or save. The save only succeeds if the stored data is
+   * still at this revision, otherwise the server responds with a 409 and a
+   * {@link SaveE2EEConflictResponse}. 0 means that nothing has been stored
+   * yet, which is also assumed if this is omitted, so that clients which
+   * don't keep track of revisions can't overwrite changes they haven't seen.
+   */
+  knownRevision?: number;
+
+  /**
+   * The hash of the encryption key's rotation proof, see
+   * {@link RotateE2EEKeyRequest#rotationProof}. The server only keeps it if
+   * this save is the first one to the sync key, so that it can't be replaced
+   * by anyone who only knows the sync key.
+   */
+  rotationVerifier?: string;
+}
+
+export interface SaveE2EEResponse {
+  /**
+   * The revision of the stored data after this save.
+   */
+  revision: number;
 }
 
-export interface SaveE2EEResponse {}
+/**
+ * The body of the 409 response to a {@link SaveE2EERequest} whose
+ * `knownRevision` is out of date, which the client can use to merge its
+ * changes with the ones that were saved in the meantime and try again.
+ */
+export interface SaveE2EEConflictResponse {
+  /**
+   * The current revision of the stored data, or 0 if nothing is stored.
+   */
+  revision: number;
+
+  /**
+   * The currently stored data, if any.
+   */
+  encryptedStorage?: EncryptedPacket;
+}
 
 export interface LoadE2EERequest {
   /**
@@ -79,6 +155,134 @@ export interface LoadE2EEResponse {
    * The encrypted storage of all the user's PCDs.
    */
   encryptedStorage: EncryptedPacket;
+
+  /**
+   * The revision of the stored data, to be passed back as
+   * {@link SaveE2EERequest#knownRevision} when saving changes to it.
+   */
+  revision: number;
+}
+
+export interface LoadE2EEHistoryRequest {
+  /**
+   * On the server-side, encrypted storage is keyed by the hash of
+   * the encryption key.
+   */
+  blobKey: string;
+}
+
+/**
+ * A revision of a user's end to end encrypted storage which is kept by the
+ * server, and which the user can roll back to.
+ */
+export interface E2EERevision {
+  revision: number;
+
+  /**
+   * When the revision was saved, as an ISO 8601 string.
+   */
+  timeCreated: string;
+}
+
+export interface LoadE2EEHistoryResponse {
+  /**
+   * The revisions which the server still keeps, newest first.
+   */
+  revisions: E2EERevision[];
+}
+
+/**
+ * Asks the server to save an earlier revision of a user's end to end
+ * encrypted storage again, as a new revision.
+ */
+export interface RestoreE2EERequest {
+  /**
+   * On the server-side, encrypted storage is keyed by the hash of
+   * the encryption key.
+   */
+  blobKey: string;
+
+  /**
+   * The revision to restore, which must be one of the revisions in the
+   * {@link LoadE2EEHistoryResponse}.
+   */
+  revision: number;
+
+  /**
+   * Same as {@link SaveE2EERequest#knownRevision}, except that if this is
+   * omitted, the restored revision overwrites whatever is stored.
+   */
+  knownRevision?: number;
+}
+
+export interface RestoreE2EEResponse {
+  /**
+   * The revision of the stored data after restoring, which contains the
+   * same data as the restored revision.
+   */
+  revision: number;
+
+  /**
+   * The restored data.
+   */
+  encryptedStorage: EncryptedPacket;
+}
+
+/**
+ * Asks the server to move a user's end to end encrypted storage from the
+ * sync key of their old encryption key to the sync key of a new one. After
+ * this, the server responds to every request for the old sync key with a
+ * 410, so that other devices find out that the key was rotated.
+ */
+export interface RotateE2EEKeyRequest {
+  /**
+   * The sync key of the old encryption key, i.e. its hash.
+   */
+  oldBlobKey: string;
+
+  /**
+   * Proves knowledge of the old encryption key. Derived from it with
+   * `getRotationProof`, and has to hash to the `rotationVerifier` that was
+   * saved with the storage, otherwise the server responds with a 403.
+   */
+  rotationProof: string;
+
+  /**
+   * The old encryption key itself. Only needed if the storage was first
+   * saved before the server kept rotation verifiers, as it has none to check
+   * the `rotationProof` against. It then has to hash to `oldBlobKey`.
+   * Revealing it is fine, as it is retired along with the storage saved
+   * with it.
+   */
+  oldEncryptionKey?: string;
+
+  /**
+   * The sync key of the new encryption key.
+   */
+  newBlobKey: string;
+
+  /**
+   * The hash of the new encryption key's rotation proof.
+   */
+  newRotationVerifier: string;
+
+  /**
+   * The storage, encrypted with the new key.
+   */
+  encryptedBlob: string;
+
+  /**
+   * Same as {@link SaveE2EERequest#knownRevision}, except that it is
+   * required, so that changes which weren't re-encrypted aren't lost.
+   */
+  knownRevision: number;
+}
+
+export interface RotateE2EEKeyResponse {
+  /**
+   * The revision of the storage at the new sync key.
+   */
+  revision: number;
 }
 
 /**
@@ -88,6 +292,48 @@ export interface LoadE2EEResponse {
  */
 export const ISSUANCE_STRING = "Issue me PCDs please.";
 
+/**
+ * A single-use nonce from the server which the client includes in the
+ * message it signs, so that the signature can't be replayed.
+ */
+export interface IssuanceChallengeResponse {
+  nonce: string;
+
+  /**
+   * ISO date after which the server no longer accepts the nonce.
+   */
+  expiresAt: string;
+}
+
+/**
+ * The message the client actually signs: the message the server asks for,
+ * followed by a nonce from {@link IssuanceChallengeResponse}.
+ */
+export function getChallengeMessage(message: string, nonce: string): string {
+  return `${message}\nChallenge: ${nonce}`;
+}
+
+/**
+ * Splits a message returned by {@link getChallengeMessage} into the message
+ * and the nonce, or returns undefined if it doesn't contain a nonce.
+ */
+export function parseChallengeMessage(
+  signedMessage: string
+): { message: string; nonce: string } | undefined {
+  const separator = "\nChallenge: ";
+  const index = signedMessage.lastIndexOf(separator);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const nonce = signedMessage.substring(index + separator.length);
+  if (nonce === "") {
+    return undefined;
+  }
+
+  return { message: signedMessage.substring(0, index), nonce };
+}
+
 /**
  * The POST request body of the client's request to the server which
  * asks for the PCDs that have been issued to the given user.
@@ -95,17 +341,28 @@ export const ISSUANCE_STRING = "Issue me PCDs please.";
 export interface IssuedPCDsRequest {
   /**
    * A semaphore signature by the user who is requesting the data. The
-   * signature is only accepted if it is of the string {@link ISSUANCE_STRING}.
+   * signature is only accepted if it is of {@link ISSUANCE_STRING} with an
+   * unused nonce from the server, see {@link getChallengeMessage}.
    */
   userProof: SerializedPCD<SemaphoreSignaturePCD>;
 }
 
+/**
+ * PCDs the server issued into a folder. The client replaces the contents
+ * of the folder with them.
+ */
+export interface IssuedPCDFolder {
+  folder: string;
+  pcds: SerializedPCD[];
+}
+
 /**
  * The response body that the server responds with to an {@link IssuedPCDsRequest}.
+ * Folders that the server didn't issue anything into this time are left
+ * out, and should be left as they are.
  */
 export interface IssuedPCDsResponse {
-  pcds: SerializedPCD[];
-  folder: string;
+  folders: IssuedPCDFolder[];
 }
 
 export interface CheckTicketRequest {
@@ -128,12 +385,513 @@ export type TicketError =
   | { name: "InvalidSignature" }
   | { name: "InvalidTicket" }
   | { name: "TicketRevoked"; revokedTimestamp: number }
+  | { name: "NotCheckedIn" }
+  | { name: "NotValidNow"; validity: ITicketValidity }
+  | { name: "MaxEntriesReached"; maxEntriesPerDay: number }
+  | { name: "TicketTransferred" }
   | { name: "NetworkError" }
   | { name: "ServerError" };
 
 export interface CheckInRequest {
   checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
   ticket: SerializedPCD<RSATicketPCD>;
+
+  /**
+   * Lets the holder of an already checked-in ticket back in, recording a
+   * re-entry rather than failing with an `AlreadyCheckedIn` error.
+   */
+  reentry?: boolean;
 }
 
 export type CheckInResponse = CheckTicketResponse;
+
+/**
+ * Something that happened to a ticket at the door.
+ */
+export interface CheckInEvent {
+  type: "check-in" | "undo" | "re-entry";
+
+  /**
+   * The email address of the superuser who recorded the event.
+   */
+  checker: string;
+
+  /**
+   * Why the check-in was undone, for `undo` events.
+   */
+  reason?: string;
+
+  /**
+   * When the event happened, as an ISO 8601 string.
+   */
+  timestamp: string;
+}
+
+/**
+ * Asks the server to reverse a mistaken check-in, so that the ticket can
+ * be checked in again. Only superusers of the ticket's event can do this.
+ */
+export interface UndoCheckInRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+  ticketId: string;
+  reason: string;
+}
+
+export type UndoCheckInResponse = CheckTicketResponse;
+
+/**
+ * Asks the server for every {@link CheckInEvent} of a ticket. Only
+ * superusers of the ticket's event can do this.
+ */
+export interface CheckInHistoryRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+  ticketId: string;
+}
+
+export type CheckInHistoryResponse =
+  | {
+      success: true;
+      /**
+       * Oldest first.
+       */
+      events: CheckInEvent[];
+    }
+  | { success: false; error: TicketError };
+
+/**
+ * Asks the server for a {@link CheckInSnapshot} of the tickets of every
+ * event that the checker can check tickets in for, so that they can keep
+ * verifying tickets while they're offline.
+ */
+export interface CheckInSnapshotRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+}
+
+/**
+ * The state of a single ticket at the time a {@link CheckInSnapshot} was
+ * taken.
+ */
+export interface CheckInSnapshotTicket {
+  ticketId: string;
+  eventConfigId: string;
+  isConsumed: boolean;
+  isRevoked: boolean;
+  checker?: string;
+  checkinTimestamp?: string;
+
+  /**
+   * Who the ticket was last transferred to, if it has been transferred.
+   * Only the ticket issued to them can be checked in.
+   */
+  ownerEmail?: string;
+}
+
+export interface CheckInSnapshot {
+  /**
+   * When the snapshot was taken, in milliseconds since the epoch.
+   */
+  timestamp: number;
+
+  /**
+   * The events which the checker can check tickets in for.
+   */
+  eventConfigIds: string[];
+
+  /**
+   * Every ticket of those events, including revoked ones.
+   */
+  tickets: CheckInSnapshotTicket[];
+}
+
+export type CheckInSnapshotResponse =
+  | {
+      success: true;
+      /**
+       * A stringified {@link CheckInSnapshot}.
+       */
+      snapshot: string;
+      /**
+       * The base64-encoded RSA signature of `snapshot` by the same key
+       * that signs ticket PCDs.
+       */
+      signature: string;
+      /**
+       * The id of the key `snapshot` was signed with, which can be found
+       * in the keys listed by `/issue/public-keys`.
+       */
+      keyId: string;
+    }
+  | { success: false; error: TicketError };
+
+/**
+ * One of the keys the server signs tickets and check-in snapshots with.
+ */
+export interface ServerPublicKey {
+  keyId: string;
+
+  /**
+   * PEM-encoded RSA public key.
+   */
+  publicKey: string;
+
+  /**
+   * When the server started signing with the key, as an ISO 8601 string.
+   */
+  activeFrom: string;
+
+  /**
+   * When tickets signed with the key stop being accepted, as an ISO 8601
+   * string.
+   */
+  retiredAt?: string;
+  isRetired: boolean;
+}
+
+/**
+ * Response to `/issue/public-keys`, listing every key in the server's
+ * keyring, including retired ones.
+ */
+export interface ServerPublicKeysResponse {
+  keys: ServerPublicKey[];
+}
+
+/**
+ * A check-in which happened while the checker was offline.
+ */
+export interface OfflineCheckIn {
+  ticketId: string;
+
+  /**
+   * When the ticket was checked in, as an ISO 8601 string.
+   */
+  checkinTimestamp: string;
+}
+
+/**
+ * Asks the server to record check-ins which happened while the checker was
+ * offline.
+ */
+export interface ReconcileCheckInsRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+  checkIns: OfflineCheckIn[];
+}
+
+export type ReconciledCheckIn = { ticketId: string } & CheckInResponse;
+
+export interface ReconcileCheckInsResponse {
+  /**
+   * The result of recording each of the requested check-ins, in the same
+   * order. A ticket which was checked in by someone else in the meantime
+   * fails with an `AlreadyCheckedIn` error.
+   */
+  results: ReconciledCheckIn[];
+}
+
+/**
+ * Asks the server for the events whose check-in dashboard the checker can
+ * see, which are the events they are a superuser of.
+ */
+export interface CheckInDashboardEventsRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+}
+
+export interface CheckInDashboardEvent {
+  eventConfigId: string;
+  eventName: string;
+}
+
+export interface CheckInDashboardEventsResponse {
+  events: CheckInDashboardEvent[];
+}
+
+/**
+ * Asks the server how check-in is going for an event. Only superusers of
+ * the event can do this.
+ */
+export interface CheckInDashboardRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+  eventConfigId: string;
+
+  /**
+   * How long each of {@link CheckInDashboard#windows} is. Defaults to an
+   * hour.
+   */
+  windowMinutes?: number;
+}
+
+export interface CheckInDashboardItem {
+  itemName: string;
+  checkedIn: number;
+  total: number;
+}
+
+export interface CheckInDashboardWindow {
+  /**
+   * When the window starts, as an ISO 8601 string.
+   */
+  start: string;
+  checkedIn: number;
+}
+
+export interface CheckInDashboardCheckIn {
+  ticketId: string;
+  attendeeName: string;
+  itemName: string;
+  checker: string;
+  /**
+   * As an ISO 8601 string.
+   */
+  checkinTimestamp: string;
+}
+
+export interface CheckInDashboard {
+  eventName: string;
+
+  /**
+   * How many of the tickets of each item of the event have been checked in.
+   */
+  items: CheckInDashboardItem[];
+
+  /**
+   * How many tickets were checked in during each window, oldest first.
+   * Windows in which no tickets were checked in are left out.
+   */
+  windows: CheckInDashboardWindow[];
+
+  /**
+   * The latest check-ins, newest first.
+   */
+  recentCheckIns: CheckInDashboardCheckIn[];
+}
+
+export type CheckInDashboardResponse =
+  | { success: true; dashboard: CheckInDashboard }
+  | { success: false; error: TicketError };
+
+/**
+ * Asks the server for a CSV file with the check-in state of every ticket of
+ * an event. Only superusers of the event can do this.
+ */
+export interface CheckInExportRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+  eventConfigId: string;
+}
+
+export type CheckInExportResponse =
+  | { success: true; csv: string }
+  | { success: false; error: TicketError };
+
+/**
+ * Asks the server what problems with an event's setup on Pretix were found
+ * the last time it synced the event. Only superusers of the event can do
+ * this.
+ */
+export interface PretixSyncReportRequest {
+  checkerProof: SerializedPCD<SemaphoreSignaturePCD>;
+  eventConfigId: string;
+}
+
+export interface PretixSyncReport {
+  eventName: string;
+
+  /**
+   * Human-readable descriptions of what is wrong with the event or its
+   * products on Pretix. Tickets of the event aren't synced until these are
+   * fixed.
+   */
+  problems: string[];
+
+  /**
+   * As an ISO 8601 string, or undefined if the event hasn't been synced yet.
+   */
+  checkedAt?: string;
+}
+
+export type PretixSyncReportResponse =
+  | { success: true; report: PretixSyncReport }
+  | { success: false; error: TicketError };
+
+/**
+ * The message that the holder of a ticket signs with their semaphore
+ * identity to transfer it to someone else.
+ */
+export function getTicketTransferMessage(
+  ticketId: string,
+  recipientEmail: string
+): string {
+  return `Transfer ticket ${ticketId} to ${recipientEmail}.`;
+}
+
+/**
+ * Asks the server to transfer a Devconnect ticket to someone else. From
+ * then on the ticket is issued to the recipient rather than to the email
+ * address on the Pretix order.
+ */
+export interface TransferTicketRequest {
+  /**
+   * A semaphore signature by the holder of the ticket of the message
+   * returned by {@link getTicketTransferMessage}, with an unused nonce from
+   * the server, see {@link getChallengeMessage}.
+   */
+  userProof: SerializedPCD<SemaphoreSignaturePCD>;
+  ticketId: string;
+  recipientEmail: string;
+}
+
+export type TicketTransferError =
+  | { name: "NotTicketHolder" }
+  | { name: "InvalidTicket" }
+  | { name: "InvalidRecipient" }
+  | { name: "AlreadyCheckedIn" }
+  | { name: "NotTransferable" }
+  | { name: "TransferLimitReached"; maxTransfers: number }
+  | { name: "ServerError" };
+
+export type TransferTicketResponse =
+  | { success: true }
+  | { success: false; error: TicketTransferError };
+
+/**
+ * How a Pretix organizer is set up to be synced, as returned by the admin
+ * API. Doesn't include the organizer's Pretix API token.
+ */
+export interface PretixOrganizerAdminConfig {
+  id: string;
+  orgUrl: string;
+  hasWebhookSecret: boolean;
+  isActive: boolean;
+  events: PretixEventAdminConfig[];
+}
+
+/**
+ * How an event of a Pretix organizer is set up to be synced.
+ */
+export interface PretixEventAdminConfig {
+  id: string;
+  eventId: string;
+  activeItemIds: string[];
+  superuserItemIds: string[];
+  maxTicketTransfers: number;
+  isActive: boolean;
+}
+
+/**
+ * Asks the server to sync a new Pretix organizer. Its events are added
+ * separately, see {@link CreatePretixEventRequest}.
+ */
+export interface CreatePretixOrganizerRequest {
+  orgUrl: string;
+  token: string;
+  webhookSecret?: string;
+  /**
+   * Defaults to true. New organizers can be added inactive so that they can
+   * be checked with a dry run, see {@link PretixSyncDryRunRequest}, before
+   * anything is synced.
+   */
+  isActive?: boolean;
+}
+
+/**
+ * Changes the configuration of a Pretix organizer. Fields that are left out
+ * stay as they are. Setting `token` rotates the organizer's Pretix API
+ * token, and setting `isActive` to false stops syncing the organizer.
+ */
+export interface UpdatePretixOrganizerRequest {
+  orgUrl?: string;
+  token?: string;
+  webhookSecret?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Asks the server to sync an event of a Pretix organizer.
+ */
+export interface CreatePretixEventRequest {
+  eventId: string;
+  activeItemIds: string[];
+  /**
+   * Must be a subset of `activeItemIds`.
+   */
+  superuserItemIds: string[];
+  maxTicketTransfers?: number;
+}
+
+/**
+ * Changes the configuration of a Pretix event. Fields that are left out stay
+ * as they are.
+ */
+export interface UpdatePretixEventRequest {
+  activeItemIds?: string[];
+  superuserItemIds?: string[];
+  maxTicketTransfers?: number;
+  isActive?: boolean;
+}
+
+export type PretixConfigError =
+  | { name: "NotFound" }
+  | { name: "InvalidConfig"; detail: string };
+
+export interface PretixOrganizersConfigResponse {
+  organizers: PretixOrganizerAdminConfig[];
+}
+
+/**
+ * The id of the organizer or event that was created or updated.
+ */
+export type PretixConfigUpdateResponse =
+  | { success: true; id: string }
+  | { success: false; error: PretixConfigError };
+
+/**
+ * Asks the server what syncing Pretix would change, without changing
+ * anything. Covers every active organizer, or only the given one, whether
+ * or not it's active, so that new organizers can be checked before they're
+ * activated.
+ */
+export interface PretixSyncDryRunRequest {
+  organizerConfigId?: string;
+}
+
+/**
+ * What syncing one kind of row would change, along with a few of the rows.
+ */
+export interface PretixSyncDryRunChanges {
+  insertCount: number;
+  updateCount: number;
+  deleteCount: number;
+  sampleInserts: object[];
+  sampleUpdates: Array<{ before: object; after: object }>;
+  sampleDeletes: object[];
+}
+
+export interface PretixSyncDryRunEventReport {
+  eventConfigId: string;
+  eventId: string;
+  eventName: string;
+  /**
+   * The same problems that {@link PretixSyncReport} lists. If there are any,
+   * a real sync wouldn't change anything for the whole organizer.
+   */
+  problems: string[];
+  eventInfo: PretixSyncDryRunChanges;
+  /**
+   * Undefined if the event's items couldn't be synced, in which case its
+   * tickets aren't either. The reason is one of the `problems`.
+   */
+  items?: PretixSyncDryRunChanges;
+  tickets?: PretixSyncDryRunChanges;
+}
+
+export interface PretixSyncDryRunOrganizerReport {
+  organizerConfigId: string;
+  orgUrl: string;
+  /**
+   * Set if the organizer's data couldn't be fetched from Pretix.
+   */
+  error?: string;
+  events: PretixSyncDryRunEventReport[];
+}
+
+export type PretixSyncDryRunResponse =
+  | { success: true; organizers: PretixSyncDryRunOrganizerReport[] }
+  | { success: false; error: PretixConfigError };
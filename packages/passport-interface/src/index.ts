@@ -1,3 +1,4 @@
+export * from "./EmailPCDIntegration";
 export * from "./EncryptedStorage";
 export * from "./PassportInterface";
 export * from "./PassportPopup";
@@ -1,6 +1,23 @@
 import { Emitter } from "@pcd/emitter";
 import { getHash } from "@pcd/passport-crypto";
-import { PCD, PCDPackage, SerializedPCD } from "@pcd/pcd-types";
+import { PCD, PCDFilter, PCDPackage, SerializedPCD } from "@pcd/pcd-types";
+import {
+  diffPCDCollections,
+  PCDCollectionChange,
+  PCDCollectionChangeType
+} from "./changes";
+import {
+  getAncestorFolders,
+  getFolderName,
+  getParentFolder,
+  isFolderOrSubfolder,
+  joinFolderPath,
+  normalizeFolderPath,
+  PCDFolder,
+  PCDFolderMetadata
+} from "./folders";
+import { matchesPCDFilter } from "./PCDQuery";
+
 /**
  * This class represents all the PCDs a user may have, and also
  * contains references to all the relevant {@link PCDPackage}s,
@@ -13,21 +30,49 @@ export class PCDCollection {
    */
   public readonly hashEmitter: Emitter<string>;
 
+  /**
+   * Emits the changes made to the PCDs in this {@link PCDCollection},
+   * whenever it changes. Changes made in a {@link PCDCollection#batch} are
+   * emitted together, once the batch has been applied.
+   */
+  public readonly changeEmitter: Emitter<PCDCollectionChange[]>;
+
   private packages: PCDPackage[];
   private pcds: PCD<any, any>[];
-  public folders: Record<string, string>; // pcd id -> folder
+  public folders: Record<string, string>; // pcd id -> folder path
+  /**
+   * Folders that were explicitly created, or given metadata, keyed by path.
+   * Folders that contain PCDs, and the ancestors of every folder, exist
+   * regardless of whether they have an entry here.
+   */
+  private folderMetadata: Record<string, PCDFolderMetadata>;
+
+  private static readonly HASH_DEBOUNCE_MS = 10;
+  private pcdHashes: WeakMap<PCD, Promise<string>>;
+  private hashRecalculationTimeout: ReturnType<typeof setTimeout> | undefined;
+  private hashRecalculations = 0;
+  private batchDepth = 0;
+  private changedDuringBatch = false;
 
   public constructor(
     packages: PCDPackage[],
     pcds?: PCD[],
-    folders?: Record<string, string>
+    folders?: Record<string, string>,
+    folderMetadata?: Record<string, PCDFolderMetadata>
   ) {
     this.packages = packages;
     this.pcds = pcds ?? [];
     this.folders = folders ?? {};
+    this.folderMetadata = folderMetadata ?? {};
+    this.pcdHashes = new WeakMap();
     this.hashEmitter = new Emitter();
+    this.changeEmitter = new Emitter();
   }
 
+  /**
+   * Returns the paths of all the folders that directly contain at least
+   * one PCD.
+   */
   public getAllFolderNames(): string[] {
     const result = new Set<string>();
     Object.entries(this.folders).forEach(([_pcdId, folder]) =>
@@ -36,12 +81,192 @@ export class PCDCollection {
     return Array.from(result);
   }
 
+  /**
+   * Returns every folder in this collection, including empty folders and
+   * folders that only contain other folders, sorted by path.
+   */
+  public getAllFolders(): PCDFolder[] {
+    const paths = new Set<string>();
+
+    for (const path of [
+      ...Object.values(this.folders),
+      ...Object.keys(this.folderMetadata)
+    ]) {
+      paths.add(path);
+      getAncestorFolders(path).forEach((ancestor) => paths.add(ancestor));
+    }
+
+    return Array.from(paths)
+      .sort()
+      .map((path) => this.toFolder(path));
+  }
+
+  /**
+   * Returns the folders directly inside of the given folder, in the order
+   * in which they should be displayed. Defaults to the root folder.
+   */
+  public getSubfolders(parent = ""): PCDFolder[] {
+    const normalizedParent = normalizeFolderPath(parent);
+
+    return this.getAllFolders()
+      .filter((folder) => getParentFolder(folder.path) === normalizedParent)
+      .sort(compareFolders);
+  }
+
+  public hasFolder(path: string): boolean {
+    const normalized = normalizeFolderPath(path);
+    return (
+      normalized === "" ||
+      this.getAllFolders().some((folder) => folder.path === normalized)
+    );
+  }
+
+  public getFolderMetadata(path: string): PCDFolderMetadata | undefined {
+    if (!this.hasFolder(path)) {
+      return undefined;
+    }
+
+    return this.folderMetadata[normalizeFolderPath(path)] ?? {};
+  }
+
+  /**
+   * Creates an empty folder, along with any of its ancestors that don't
+   * exist yet. If the folder already exists, merges the given metadata into
+   * its existing metadata.
+   */
+  public createFolder(path: string, metadata?: PCDFolderMetadata): void {
+    const normalized = normalizeFolderPath(path);
+    if (normalized === "") {
+      throw new Error(`can't create the root folder`);
+    }
+
+    this.folderMetadata[normalized] = {
+      ...this.folderMetadata[normalized],
+      ...metadata
+    };
+    this.recalculateAndEmitHash();
+  }
+
+  public setFolderMetadata(path: string, metadata: PCDFolderMetadata): void {
+    const normalized = normalizeFolderPath(path);
+    if (normalized === "" || !this.hasFolder(normalized)) {
+      throw new Error(`can't set metadata of folder ${path} - doesn't exist`);
+    }
+
+    this.folderMetadata[normalized] = metadata;
+    this.recalculateAndEmitHash();
+  }
+
+  /**
+   * Moves a folder, including all of its PCDs and subfolders, so that it
+   * has the path `to`. Also used to rename folders.
+   */
+  public moveFolder(from: string, to: string): void {
+    const normalizedFrom = normalizeFolderPath(from);
+    const normalizedTo = normalizeFolderPath(to);
+
+    if (normalizedFrom === "" || !this.hasFolder(normalizedFrom)) {
+      throw new Error(`can't move folder ${from} - doesn't exist`);
+    }
+    if (normalizedTo === "" || this.hasFolder(normalizedTo)) {
+      throw new Error(`can't move folder ${from} to ${to} - already exists`);
+    }
+    if (isFolderOrSubfolder(normalizedFrom, normalizedTo)) {
+      throw new Error(`can't move folder ${from} into itself`);
+    }
+
+    const rebase = (path: string): string =>
+      isFolderOrSubfolder(normalizedFrom, path)
+        ? normalizedTo + path.substring(normalizedFrom.length)
+        : path;
+
+    const changes: PCDCollectionChange[] = [];
+    this.folders = Object.fromEntries(
+      Object.entries(this.folders).map(([pcdId, path]) => {
+        const newPath = rebase(path);
+        if (newPath !== path) {
+          changes.push({
+            type: PCDCollectionChangeType.MovedFolder,
+            pcdId,
+            before: path,
+            after: newPath
+          });
+        }
+        return [pcdId, newPath];
+      })
+    );
+    this.folderMetadata = Object.fromEntries(
+      Object.entries(this.folderMetadata).map(([path, metadata]) => [
+        rebase(path),
+        metadata
+      ])
+    );
+    this.emitChanges(changes);
+    this.recalculateAndEmitHash();
+  }
+
+  public renameFolder(path: string, newName: string): void {
+    this.moveFolder(path, joinFolderPath(getParentFolder(path), newName));
+  }
+
+  /**
+   * Deletes a folder, all of its subfolders, and all the PCDs inside of them.
+   */
+  public deleteFolder(path: string): void {
+    const normalized = normalizeFolderPath(path);
+    if (normalized === "") {
+      throw new Error(`can't delete the root folder`);
+    }
+
+    const inFolder = this.getAllInFolder(normalized, { recursive: true });
+    const changes: PCDCollectionChange[] = inFolder.map((pcd) => ({
+      type: PCDCollectionChangeType.Removed,
+      pcd,
+      folder: this.folders[pcd.id]
+    }));
+    this.pcds = this.pcds.filter((pcd) => !inFolder.includes(pcd));
+    this.folders = Object.fromEntries(
+      Object.entries(this.folders).filter(
+        ([_pcdId, folder]) => !isFolderOrSubfolder(normalized, folder)
+      )
+    );
+    this.folderMetadata = Object.fromEntries(
+      Object.entries(this.folderMetadata).filter(
+        ([folder]) => !isFolderOrSubfolder(normalized, folder)
+      )
+    );
+    this.emitChanges(changes);
+    this.recalculateAndEmitHash();
+  }
+
+  /**
+   * Moves a PCD into the given folder. Setting the folder to the root
+   * folder, `""`, removes the PCD from any folder.
+   */
   public setFolder(pcdId: string, folder: string): void {
     if (!this.hasPCDWithId(pcdId)) {
       throw new Error(`can't set folder of pcd ${pcdId} - pcd doesn't exist`);
     }
 
-    this.folders[pcdId] = folder;
+    const before = this.folders[pcdId];
+    const normalized = normalizeFolderPath(folder);
+    if (normalized === "") {
+      delete this.folders[pcdId];
+    } else {
+      this.folders[pcdId] = normalized;
+    }
+
+    const after = this.folders[pcdId];
+    if (before !== after) {
+      this.emitChanges([
+        {
+          type: PCDCollectionChangeType.MovedFolder,
+          pcdId,
+          before,
+          after
+        }
+      ]);
+    }
     this.recalculateAndEmitHash();
   }
 
@@ -55,23 +280,45 @@ export class PCDCollection {
     )?.[1];
   }
 
-  public getAllInFolder(folder: string): PCD[] {
-    const pcdIds = Object.entries(this.folders)
-      .filter(([_pcdId, f]) => f === folder)
-      .map(([pcdId, _f]) => pcdId);
-
-    return this.getByIds(pcdIds);
+  /**
+   * Returns the PCDs directly inside of the given folder, or, if
+   * `options.recursive` is set, the PCDs inside of it or any of its
+   * subfolders. The root folder, `""`, directly contains every PCD that
+   * isn't in a folder.
+   */
+  public getAllInFolder(
+    folder: string,
+    options?: { recursive?: boolean }
+  ): PCD[] {
+    const normalized = normalizeFolderPath(folder);
+
+    return this.pcds.filter((pcd) => {
+      const pcdFolder = this.folders[pcd.id] ?? "";
+      return options?.recursive
+        ? isFolderOrSubfolder(normalized, pcdFolder)
+        : pcdFolder === normalized;
+    });
   }
 
   public removeAllInFolder(folder: string): void {
     const inFolder = this.getAllInFolder(folder);
-    inFolder.forEach((pcd) => this.remove(pcd.id));
+    this.batch(() => inFolder.forEach((pcd) => this.remove(pcd.id)));
   }
 
   public replaceFolderContents(folder: string, pcds: PCD[]): void {
-    this.removeAllInFolder(folder);
-    this.addAll(pcds, { upsert: true });
-    pcds.forEach((pcd) => this.setFolder(pcd.id, folder));
+    this.batch(() => {
+      this.removeAllInFolder(folder);
+      this.addAll(pcds, { upsert: true });
+      pcds.forEach((pcd) => this.setFolder(pcd.id, folder));
+    });
+  }
+
+  private toFolder(path: string): PCDFolder {
+    return {
+      path,
+      name: getFolderName(path),
+      metadata: this.folderMetadata[path] ?? {}
+    };
   }
 
   public getPackage<T extends PCDPackage = PCDPackage>(
@@ -81,6 +328,10 @@ export class PCDCollection {
     return matching as T | undefined;
   }
 
+  public getPackages(): PCDPackage[] {
+    return this.packages;
+  }
+
   public hasPackage(name: string): boolean {
     return this.packages.find((p) => p.name === name) !== undefined;
   }
@@ -98,11 +349,26 @@ export class PCDCollection {
 
   public async serializeCollection(): Promise<string> {
     return JSON.stringify({
+      version: SERIALIZED_PCD_COLLECTION_VERSION,
       pcds: await Promise.all(this.pcds.map(this.serialize.bind(this))),
-      folders: this.folders
+      folders: this.serializeFolders()
     } satisfies SerializedPCDCollection);
   }
 
+  private serializeFolders(): SerializedPCDFolder[] {
+    return this.getAllFolders()
+      .filter(
+        (folder) =>
+          this.folderMetadata[folder.path] !== undefined ||
+          this.getAllInFolder(folder.path).length > 0
+      )
+      .map((folder) => ({
+        path: folder.path,
+        metadata: folder.metadata,
+        pcdIds: this.getAllInFolder(folder.path).map((pcd) => pcd.id)
+      }));
+  }
+
   public async deserialize(serialized: SerializedPCD): Promise<PCD> {
     const pcdPackage = this.getPackage(serialized.type);
     if (!pcdPackage) throw new Error(`no package matching ${serialized.type}`);
@@ -123,6 +389,17 @@ export class PCDCollection {
   }
 
   public async remove(pcdId: string) {
+    const removed = this.getById(pcdId);
+    if (removed) {
+      this.emitChanges([
+        {
+          type: PCDCollectionChangeType.Removed,
+          pcd: removed,
+          folder: this.folders[pcdId]
+        }
+      ]);
+    }
+
     this.pcds = this.pcds.filter((pcd) => pcd.id !== pcdId);
     this.folders = Object.fromEntries(
       Object.entries(this.folders).filter(([id]) => id !== pcdId)
@@ -144,16 +421,34 @@ export class PCDCollection {
   public addAll(pcds: PCD[], options?: { upsert?: boolean }) {
     const currentMap = new Map(this.pcds.map((pcd) => [pcd.id, pcd]));
     const toAddMap = new Map(pcds.map((pcd) => [pcd.id, pcd]));
+    const changes: PCDCollectionChange[] = [];
 
     for (const [id, pcd] of toAddMap.entries()) {
-      if (currentMap.has(id) && !options?.upsert) {
+      const existing = currentMap.get(id);
+
+      if (existing && !options?.upsert) {
         throw new Error(`pcd with id ${id} is already in this collection`);
       }
 
+      if (existing) {
+        changes.push({
+          type: PCDCollectionChangeType.Updated,
+          before: existing,
+          after: pcd
+        });
+      } else {
+        changes.push({
+          type: PCDCollectionChangeType.Added,
+          pcd,
+          folder: this.folders[id]
+        });
+      }
+
       currentMap.set(id, pcd);
     }
 
     this.pcds = Array.from(currentMap.values());
+    this.emitChanges(changes);
     this.recalculateAndEmitHash();
   }
 
@@ -177,14 +472,77 @@ export class PCDCollection {
 
   /**
    * Generates a unique hash based on the contents. This hash changes whenever
-   * the set of pcds, or the contents of the pcds changes.
+   * the set of pcds, the contents of the pcds, or the folders change.
+   *
+   * Rather than hashing the whole serialized collection, combines the hash
+   * of each PCD, which is only calculated once per PCD, with the folders.
    */
   public async getHash(): Promise<string> {
-    const allSerialized = await this.serializeCollection();
-    const hashed = await getHash(allSerialized);
+    const pcdHashes = await Promise.all(
+      this.pcds.map((pcd) => this.getPCDHash(pcd))
+    );
+    const hashed = await getHash(
+      JSON.stringify({
+        pcds: pcdHashes,
+        folders: this.serializeFolders()
+      })
+    );
     return hashed;
   }
 
+  private getPCDHash(pcd: PCD): Promise<string> {
+    let hash = this.pcdHashes.get(pcd);
+
+    if (!hash) {
+      hash = this.serialize(pcd).then((serialized) =>
+        getHash(JSON.stringify(serialized))
+      );
+      this.pcdHashes.set(pcd, hash);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Applies all the mutations made by `mutation` to this collection as one
+   * transaction: {@link PCDCollection#hashEmitter} emits at most once, after
+   * all of them have been made, {@link PCDCollection#changeEmitter} emits the
+   * net changes, and if `mutation` throws, none of them are applied. Any
+   * PCDs that are added must be deserialized beforehand, as `mutation` must
+   * be synchronous.
+   */
+  public batch<T>(mutation: (collection: this) => T): T {
+    const snapshot = {
+      pcds: this.pcds,
+      folders: { ...this.folders },
+      folderMetadata: { ...this.folderMetadata },
+      changedDuringBatch: this.changedDuringBatch
+    };
+
+    this.batchDepth++;
+    try {
+      return mutation(this);
+    } catch (e) {
+      this.pcds = snapshot.pcds;
+      this.folders = snapshot.folders;
+      this.folderMetadata = snapshot.folderMetadata;
+      this.changedDuringBatch = snapshot.changedDuringBatch;
+      throw e;
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && this.changedDuringBatch) {
+        this.changedDuringBatch = false;
+        this.emitChanges(
+          diffPCDCollections(snapshot, {
+            pcds: this.pcds,
+            folders: this.folders
+          })
+        );
+        this.recalculateAndEmitHash();
+      }
+    }
+  }
+
   public getById(id: string): PCD | undefined {
     return this.pcds.find((pcd) => pcd.id === id);
   }
@@ -197,36 +555,144 @@ export class PCDCollection {
     return this.pcds.filter((pcd) => pcd.type === type);
   }
 
+  /**
+   * Returns all the PCDs in this collection that match the given filter, in
+   * the same order as {@link PCDCollection#getAll}.
+   */
+  public query(filter: PCDFilter): PCD[] {
+    return this.pcds.filter((pcd) => this.matches(pcd, filter));
+  }
+
+  public matches(pcd: PCD, filter: PCDFilter): boolean {
+    return matchesPCDFilter(pcd, filter, {
+      folder: this.folders[pcd.id],
+      metadata: this.getPackage(pcd.type)?.getMetadata?.(pcd)
+    });
+  }
+
+  private emitChanges(changes: PCDCollectionChange[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    // changes made during a batch are emitted all at once by the batch
+    if (this.batchDepth === 0) {
+      this.changeEmitter.emit(changes);
+    }
+  }
+
+  /**
+   * Schedules the hash to be recalculated, unless it already is. This means
+   * that a burst of mutations only results in one new hash being emitted.
+   */
   private recalculateAndEmitHash() {
-    this.getHash().then((newHash) => this.hashEmitter.emit(newHash));
+    if (this.batchDepth > 0) {
+      this.changedDuringBatch = true;
+      return;
+    }
+
+    if (this.hashRecalculationTimeout !== undefined) {
+      return;
+    }
+
+    this.hashRecalculationTimeout = setTimeout(() => {
+      this.hashRecalculationTimeout = undefined;
+      const recalculation = ++this.hashRecalculations;
+
+      this.getHash().then((newHash) => {
+        // a later recalculation will emit a more up to date hash
+        if (recalculation === this.hashRecalculations) {
+          this.hashEmitter.emit(newHash);
+        }
+      });
+    }, PCDCollection.HASH_DEBOUNCE_MS);
   }
 
   public static async deserialize(
     packages: PCDPackage[],
     serialized: string
   ): Promise<PCDCollection> {
-    const parsed = JSON.parse(serialized) as Partial<SerializedPCDCollection>;
+    const parsed = JSON.parse(serialized) as Partial<
+      SerializedPCDCollection | LegacySerializedPCDCollection
+    >;
     const collection = new PCDCollection(packages, []);
 
     const serializedPcdsList = parsed.pcds ?? [];
-    const parsedFolders = parsed.folders ?? {};
 
     const pcds: PCD[] = await Promise.all(
       serializedPcdsList.map(collection.deserialize.bind(collection))
     );
     collection.addAll(pcds, { upsert: true });
-    collection.folders = parsedFolders;
+
+    if (Array.isArray(parsed.folders)) {
+      for (const folder of parsed.folders) {
+        const path = normalizeFolderPath(folder.path);
+        // folders without metadata that contain PCDs exist implicitly
+        if (
+          folder.pcdIds.length === 0 ||
+          Object.keys(folder.metadata ?? {}).length > 0
+        ) {
+          collection.folderMetadata[path] = folder.metadata ?? {};
+        }
+        folder.pcdIds.forEach((pcdId) => (collection.folders[pcdId] = path));
+      }
+    } else {
+      collection.folders = Object.fromEntries(
+        Object.entries(parsed.folders ?? {}).map(([pcdId, folder]) => [
+          pcdId,
+          normalizeFolderPath(folder)
+        ])
+      );
+    }
 
     return collection;
   }
 }
 
+/**
+ * Orders folders by their {@link PCDFolderMetadata#order}, and then by name.
+ */
+function compareFolders(a: PCDFolder, b: PCDFolder): number {
+  const aOrder = a.metadata.order ?? Number.POSITIVE_INFINITY;
+  const bOrder = b.metadata.order ?? Number.POSITIVE_INFINITY;
+
+  if (aOrder !== bOrder) {
+    return aOrder < bOrder ? -1 : 1;
+  }
+
+  return a.name.localeCompare(b.name);
+}
+
+export const SERIALIZED_PCD_COLLECTION_VERSION = 2;
+
 /**
  * {@link PCDCollection#serializeCollection} returns a stringified instance
  * of this interface, and {@link PCDCollection.deserialize} takes a stringified
  * instance of this object and returns a new {@link PCDCollection}.
  */
 export interface SerializedPCDCollection {
+  version: typeof SERIALIZED_PCD_COLLECTION_VERSION;
+  pcds: SerializedPCD[];
+  /**
+   * Every folder that has metadata or directly contains PCDs. Folders that
+   * only contain other folders are implied by their subfolders' paths.
+   */
+  folders: SerializedPCDFolder[];
+}
+
+export interface SerializedPCDFolder {
+  path: string;
+  metadata: PCDFolderMetadata;
+  pcdIds: string[];
+}
+
+/**
+ * The format that {@link PCDCollection#serializeCollection} used before
+ * folders could be nested or have metadata. {@link PCDCollection.deserialize}
+ * still accepts it, so that collections saved by older versions of the
+ * passport can be loaded.
+ */
+export interface LegacySerializedPCDCollection {
   pcds: SerializedPCD[];
-  folders: Record<string, string>;
+  folders: Record<string, string>; // pcd id -> folder
 }
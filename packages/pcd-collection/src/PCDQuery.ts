@@ -0,0 +1,126 @@
+import {
+  PCD,
+  PCDFieldPredicate,
+  PCDFilter,
+  PCDFilterValue,
+  PCDMetadata
+} from "@pcd/pcd-types";
+import { isFolderOrSubfolder, normalizeFolderPath } from "./folders";
+
+/**
+ * Everything about a PCD that a {@link PCDFilter} can match against, other
+ * than the PCD itself.
+ */
+export interface PCDQueryContext {
+  /**
+   * The path of the folder the PCD is in, or undefined if it's in the root
+   * folder.
+   */
+  folder: string | undefined;
+  metadata: PCDMetadata | undefined;
+}
+
+export function matchesPCDFilter(
+  pcd: PCD,
+  filter: PCDFilter,
+  context: PCDQueryContext
+): boolean {
+  if (filter.type !== undefined) {
+    const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+    if (!types.includes(pcd.type)) {
+      return false;
+    }
+  }
+
+  if (
+    filter.folder !== undefined &&
+    !isFolderOrSubfolder(
+      normalizeFolderPath(filter.folder),
+      context.folder ?? ""
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    filter.claim !== undefined &&
+    !filter.claim.every((p) => matchesPredicate(pcd.claim, p))
+  ) {
+    return false;
+  }
+
+  if (
+    filter.metadata !== undefined &&
+    !filter.metadata.every((p) => matchesPredicate(context.metadata, p))
+  ) {
+    return false;
+  }
+
+  if (
+    filter.allOf !== undefined &&
+    !filter.allOf.every((f) => matchesPCDFilter(pcd, f, context))
+  ) {
+    return false;
+  }
+
+  if (
+    filter.anyOf !== undefined &&
+    !filter.anyOf.some((f) => matchesPCDFilter(pcd, f, context))
+  ) {
+    return false;
+  }
+
+  if (filter.not !== undefined && matchesPCDFilter(pcd, filter.not, context)) {
+    return false;
+  }
+
+  return true;
+}
+
+function matchesPredicate(
+  target: unknown,
+  predicate: PCDFieldPredicate
+): boolean {
+  const value = getField(target, predicate.path);
+
+  if (predicate.exists !== undefined) {
+    const exists = value !== undefined && value !== null;
+    if (exists !== predicate.exists) {
+      return false;
+    }
+  }
+
+  if (predicate.equals !== undefined && !valuesEqual(value, predicate.equals)) {
+    return false;
+  }
+
+  if (
+    predicate.oneOf !== undefined &&
+    !predicate.oneOf.some((option) => valuesEqual(value, option))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+function getField(target: unknown, path: string): unknown {
+  let current = target;
+
+  for (const key of path.split(".")) {
+    if (current === undefined || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+function valuesEqual(value: unknown, expected: PCDFilterValue): boolean {
+  if (typeof value === "bigint") {
+    return value.toString() === String(expected);
+  }
+
+  return value === expected;
+}
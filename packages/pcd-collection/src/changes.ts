@@ -0,0 +1,119 @@
+import { PCD } from "@pcd/pcd-types";
+
+export enum PCDCollectionChangeType {
+  Added = "added",
+  Updated = "updated",
+  Removed = "removed",
+  MovedFolder = "moved-folder"
+}
+
+/**
+ * A PCD whose id wasn't in the collection was added to it. `folder` is the
+ * folder it was added to, or undefined if it's in the root folder.
+ */
+export interface PCDAddedChange {
+  type: PCDCollectionChangeType.Added;
+  pcd: PCD;
+  folder: string | undefined;
+}
+
+/**
+ * A PCD was replaced by another PCD with the same id, e.g. by upserting it.
+ */
+export interface PCDUpdatedChange {
+  type: PCDCollectionChangeType.Updated;
+  before: PCD;
+  after: PCD;
+}
+
+/**
+ * A PCD was removed from the collection. `folder` is the folder it was in,
+ * or undefined if it was in the root folder.
+ */
+export interface PCDRemovedChange {
+  type: PCDCollectionChangeType.Removed;
+  pcd: PCD;
+  folder: string | undefined;
+}
+
+/**
+ * A PCD was moved from one folder to another, either directly, or because
+ * the folder it was in was moved or renamed. Undefined means the root folder.
+ */
+export interface PCDMovedFolderChange {
+  type: PCDCollectionChangeType.MovedFolder;
+  pcdId: string;
+  before: string | undefined;
+  after: string | undefined;
+}
+
+export type PCDCollectionChange =
+  | PCDAddedChange
+  | PCDUpdatedChange
+  | PCDRemovedChange
+  | PCDMovedFolderChange;
+
+/**
+ * The parts of a `PCDCollection` that {@link PCDCollectionChange}s describe.
+ */
+export interface PCDCollectionContents {
+  pcds: PCD[];
+  folders: Record<string, string>; // pcd id -> folder path
+}
+
+/**
+ * Returns the net changes that turn `before` into `after`. A PCD that was
+ * removed and then added back with the same id counts as updated, rather
+ * than as removed and added, and is only counted as updated if it was
+ * replaced by a different object.
+ */
+export function diffPCDCollections(
+  before: PCDCollectionContents,
+  after: PCDCollectionContents
+): PCDCollectionChange[] {
+  const changes: PCDCollectionChange[] = [];
+  const beforeById = new Map(before.pcds.map((pcd) => [pcd.id, pcd]));
+  const afterById = new Map(after.pcds.map((pcd) => [pcd.id, pcd]));
+
+  for (const beforePCD of before.pcds) {
+    const afterPCD = afterById.get(beforePCD.id);
+
+    if (!afterPCD) {
+      changes.push({
+        type: PCDCollectionChangeType.Removed,
+        pcd: beforePCD,
+        folder: before.folders[beforePCD.id]
+      });
+      continue;
+    }
+
+    if (afterPCD !== beforePCD) {
+      changes.push({
+        type: PCDCollectionChangeType.Updated,
+        before: beforePCD,
+        after: afterPCD
+      });
+    }
+
+    if (before.folders[beforePCD.id] !== after.folders[beforePCD.id]) {
+      changes.push({
+        type: PCDCollectionChangeType.MovedFolder,
+        pcdId: beforePCD.id,
+        before: before.folders[beforePCD.id],
+        after: after.folders[beforePCD.id]
+      });
+    }
+  }
+
+  for (const afterPCD of after.pcds) {
+    if (!beforeById.has(afterPCD.id)) {
+      changes.push({
+        type: PCDCollectionChangeType.Added,
+        pcd: afterPCD,
+        folder: after.folders[afterPCD.id]
+      });
+    }
+  }
+
+  return changes;
+}
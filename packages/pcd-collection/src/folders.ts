@@ -0,0 +1,92 @@
+/**
+ * Separates the names of nested folders in a folder path, e.g. the folder
+ * `"Devconnect/ProgCrypto"` is a subfolder of `"Devconnect"`. The root
+ * folder, which contains every other folder, has the empty path `""`.
+ */
+export const FOLDER_SEPARATOR = "/";
+
+/**
+ * Properties of a folder that aren't derived from its contents.
+ */
+export interface PCDFolderMetadata {
+  /**
+   * An emoji, or URL of an image, to show next to the folder's name.
+   */
+  icon?: string;
+
+  /**
+   * Folders with a lower order are shown before folders with a higher
+   * order. Folders without an order are shown last, sorted by name.
+   */
+  order?: number;
+
+  /**
+   * The origin of the server that issued the PCDs in this folder, if they
+   * were issued by a server rather than added by the user.
+   */
+  issuedBy?: string;
+}
+
+export interface PCDFolder {
+  path: string;
+  /**
+   * The last segment of {@link PCDFolder#path}.
+   */
+  name: string;
+  metadata: PCDFolderMetadata;
+}
+
+/**
+ * Removes leading, trailing, and repeated separators, as well as whitespace
+ * around each segment of the path.
+ */
+export function normalizeFolderPath(path: string): string {
+  return splitFolderPath(path).join(FOLDER_SEPARATOR);
+}
+
+export function splitFolderPath(path: string): string[] {
+  return path
+    .split(FOLDER_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0);
+}
+
+export function joinFolderPath(...segments: string[]): string {
+  return normalizeFolderPath(segments.join(FOLDER_SEPARATOR));
+}
+
+export function getFolderName(path: string): string {
+  const segments = splitFolderPath(path);
+  return segments[segments.length - 1] ?? "";
+}
+
+/**
+ * Returns the path of the folder that contains the given folder. The parent
+ * of a top-level folder is the root folder, `""`.
+ */
+export function getParentFolder(path: string): string {
+  return splitFolderPath(path).slice(0, -1).join(FOLDER_SEPARATOR);
+}
+
+/**
+ * Returns the paths of every folder that contains the given folder, from
+ * the top-level folder down to its parent, excluding the root folder.
+ */
+export function getAncestorFolders(path: string): string[] {
+  const segments = splitFolderPath(path);
+  return segments
+    .slice(0, -1)
+    .map((_segment, i) => segments.slice(0, i + 1).join(FOLDER_SEPARATOR));
+}
+
+/**
+ * Returns whether `folder` is `ancestor`, or is nested somewhere inside of
+ * `ancestor`. Every folder is inside of the root folder.
+ */
+export function isFolderOrSubfolder(ancestor: string, folder: string): boolean {
+  return (
+    ancestor === "" ||
+    folder === ancestor ||
+    folder.startsWith(ancestor + FOLDER_SEPARATOR)
+  );
+}
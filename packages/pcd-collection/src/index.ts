@@ -1 +1,5 @@
+export * from "./changes";
+export * from "./folders";
+export * from "./merge";
 export * from "./PCDCollection";
+export * from "./PCDQuery";
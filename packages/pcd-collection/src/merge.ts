@@ -0,0 +1,88 @@
+import { PCD } from "@pcd/pcd-types";
+import { PCDCollection } from "./PCDCollection";
+
+/**
+ * Three-way merges two versions of a {@link PCDCollection}, `local` and
+ * `remote`, which were both derived from `base`, PCD by PCD:
+ *
+ * - a PCD which only one side added, changed, or removed takes that side's
+ *   version.
+ * - a PCD which both sides changed takes the local version, unless the
+ *   local side removed it, in which case the remote changes are kept.
+ * - a PCD is in the folder one side moved it to, preferring the local side
+ *   if both moved it.
+ * - folder metadata from both sides is combined, preferring the local side.
+ *
+ * If there is no `base`, e.g. because the local collection was never
+ * synced, every PCD that is on either side is kept.
+ */
+export async function mergePCDCollections(
+  base: PCDCollection | undefined,
+  local: PCDCollection,
+  remote: PCDCollection
+): Promise<PCDCollection> {
+  const [baseSerialized, localSerialized, remoteSerialized] = await Promise.all(
+    [base, local, remote].map(serializeById)
+  );
+
+  const merged = new PCDCollection(local.getPackages());
+  const ids = new Set([...remote.getAllIds(), ...local.getAllIds()]);
+
+  for (const id of ids) {
+    const localChanged = localSerialized.get(id) !== baseSerialized.get(id);
+    const remoteChanged = remoteSerialized.get(id) !== baseSerialized.get(id);
+
+    let pcd: PCD | undefined;
+    if (remoteChanged && !localChanged) {
+      pcd = remote.getById(id);
+    } else if (localChanged && !remoteChanged) {
+      pcd = local.getById(id);
+    } else {
+      pcd = local.getById(id) ?? remote.getById(id);
+    }
+
+    if (!pcd) {
+      continue;
+    }
+
+    merged.add(pcd);
+
+    const baseFolder = base?.getFolder(id);
+    const localFolder = local.getFolder(id);
+    const folder =
+      localFolder !== baseFolder ? localFolder : remote.getFolder(id);
+    if (folder !== undefined) {
+      merged.setFolder(id, folder);
+    }
+  }
+
+  for (const collection of [remote, local]) {
+    for (const folder of collection.getAllFolders()) {
+      const isEmpty =
+        collection.getAllInFolder(folder.path, { recursive: true }).length ===
+        0;
+
+      if (Object.keys(folder.metadata).length > 0 || isEmpty) {
+        merged.createFolder(folder.path, folder.metadata);
+      }
+    }
+  }
+
+  return merged;
+}
+
+async function serializeById(
+  collection: PCDCollection | undefined
+): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+
+  if (!collection) {
+    return result;
+  }
+
+  for (const pcd of collection.getAll()) {
+    result.set(pcd.id, JSON.stringify(await collection.serialize(pcd)));
+  }
+
+  return result;
+}
@@ -1,16 +1,23 @@
-import { ArgumentTypeName } from "@pcd/pcd-types";
+import { ArgumentTypeName, PCDPackage } from "@pcd/pcd-types";
 import { RSAPCDPackage } from "@pcd/rsa-pcd";
 import chai, { expect } from "chai";
 import "mocha";
 import NodeRSA from "node-rsa";
 import { v4 as uuid } from "uuid";
-import { PCDCollection } from "../src";
+import {
+  isFolderOrSubfolder,
+  LegacySerializedPCDCollection,
+  mergePCDCollections,
+  PCDCollection,
+  PCDCollectionChange,
+  PCDCollectionChangeType
+} from "../src";
 
 import chaiSpies from "chai-spies";
 
 chai.use(chaiSpies);
 
-async function newPCD(id?: string) {
+async function newPCD(id?: string, message?: string) {
   id = id ?? uuid();
   const pkey = new NodeRSA({ b: 512 });
 
@@ -25,7 +32,7 @@ async function newPCD(id?: string) {
     },
     signedMessage: {
       argumentType: ArgumentTypeName.String,
-      value: "signed message"
+      value: message ?? "signed message"
     }
   });
 
@@ -128,6 +135,162 @@ describe("PCDCollection", async function () {
     expect(deserialized.getAll()).to.deep.contain(pcdList[5]);
   });
 
+  it("Should let you manage nested folders", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages, pcdList);
+
+    collection.setFolder(pcdList[0].id, "Events/Devconnect/");
+    collection.setFolder(pcdList[1].id, "Events");
+    collection.createFolder("Empty", { icon: "📁", order: 1 });
+
+    expect(collection.getAllFolders().map((f) => f.path)).to.deep.eq([
+      "Empty",
+      "Events",
+      "Events/Devconnect"
+    ]);
+    expect(collection.getSubfolders().map((f) => f.name)).to.deep.eq([
+      "Empty",
+      "Events"
+    ]);
+    expect(collection.getSubfolders("Events").map((f) => f.path)).to.deep.eq([
+      "Events/Devconnect"
+    ]);
+    expect(collection.getFolderMetadata("Empty")).to.deep.eq({
+      icon: "📁",
+      order: 1
+    });
+    expect(collection.getFolderMetadata("Events")).to.deep.eq({});
+    expect(collection.getFolderMetadata("Missing")).to.eq(undefined);
+
+    expect(collection.getAllInFolder("")).to.deep.eq([pcdList[2]]);
+    expect(collection.getAllInFolder("Events")).to.deep.eq([pcdList[1]]);
+    expect(collection.getAllInFolder("Events", { recursive: true })).to.deep.eq(
+      [pcdList[0], pcdList[1]]
+    );
+
+    collection.renameFolder("Events", "Tickets");
+    expect(collection.getFolder(pcdList[0].id)).to.eq("Tickets/Devconnect");
+    expect(collection.getFolder(pcdList[1].id)).to.eq("Tickets");
+    expect(collection.hasFolder("Events")).to.eq(false);
+
+    collection.moveFolder("Tickets/Devconnect", "Empty/Devconnect");
+    expect(collection.getFolder(pcdList[0].id)).to.eq("Empty/Devconnect");
+    expect(() => collection.moveFolder("Empty", "Empty/Inside")).to.throw();
+    expect(() => collection.moveFolder("Empty", "Tickets")).to.throw();
+
+    collection.deleteFolder("Empty");
+    expect(collection.getAll()).to.deep.eq([pcdList[1], pcdList[2]]);
+    expect(collection.getAllFolders().map((f) => f.path)).to.deep.eq([
+      "Tickets"
+    ]);
+  });
+
+  it("Should serialize folders and their metadata", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages, pcdList);
+    collection.setFolder(pcdList[0].id, "A/B");
+    collection.createFolder("C", { issuedBy: "https://example.com" });
+
+    const deserialized = await PCDCollection.deserialize(
+      packages,
+      await collection.serializeCollection()
+    );
+
+    expect(deserialized.getAll()).to.deep.eq(pcdList);
+    expect(deserialized.getFolder(pcdList[0].id)).to.eq("A/B");
+    expect(deserialized.getFolder(pcdList[1].id)).to.eq(undefined);
+    expect(deserialized.getAllFolders()).to.deep.eq(collection.getAllFolders());
+    expect(await deserialized.getHash()).to.eq(await collection.getHash());
+  });
+
+  it("Should deserialize collections saved before folders were nested", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD()]);
+    const legacy: LegacySerializedPCDCollection = {
+      pcds: await Promise.all(pcdList.map(RSAPCDPackage.serialize)),
+      folders: { [pcdList[0].id]: "Devconnect" }
+    };
+
+    const deserialized = await PCDCollection.deserialize(
+      packages,
+      JSON.stringify(legacy)
+    );
+
+    expect(deserialized.getAll()).to.deep.eq(pcdList);
+    expect(deserialized.getFolder(pcdList[0].id)).to.eq("Devconnect");
+    expect(deserialized.getAllFolders()).to.deep.eq([
+      { path: "Devconnect", name: "Devconnect", metadata: {} }
+    ]);
+  });
+
+  it("Should let you query pcds with a filter", async function () {
+    const pcdList = await Promise.all([
+      newPCD(undefined, "a"),
+      newPCD(undefined, "b"),
+      newPCD(undefined, "c"),
+      newPCD(undefined, "a")
+    ]);
+
+    const packageWithMetadata: PCDPackage = {
+      ...RSAPCDPackage,
+      getMetadata: (pcd) => ({ firstMessage: pcd.claim.message === "a" })
+    };
+
+    const collection = new PCDCollection([packageWithMetadata], pcdList);
+    collection.setFolder(pcdList[0].id, "Events");
+    collection.setFolder(pcdList[1].id, "Events/Devconnect");
+    collection.setFolder(pcdList[2].id, "Eventsss");
+
+    expect(collection.query({})).to.deep.eq(pcdList);
+    expect(collection.query({ type: RSAPCDPackage.name })).to.deep.eq(pcdList);
+    expect(collection.query({ type: ["other-pcd"] })).to.deep.eq([]);
+
+    expect(collection.query({ folder: "Events" })).to.deep.eq([
+      pcdList[0],
+      pcdList[1]
+    ]);
+    expect(collection.query({ folder: "Events/Devconnect" })).to.deep.eq([
+      pcdList[1]
+    ]);
+
+    expect(
+      collection.query({ claim: [{ path: "message", equals: "a" }] })
+    ).to.deep.eq([pcdList[0], pcdList[3]]);
+    expect(
+      collection.query({ claim: [{ path: "message", oneOf: ["b", "c"] }] })
+    ).to.deep.eq([pcdList[1], pcdList[2]]);
+    expect(
+      collection.query({ claim: [{ path: "nested.field", exists: true }] })
+    ).to.deep.eq([]);
+
+    expect(
+      collection.query({ metadata: [{ path: "firstMessage", equals: true }] })
+    ).to.deep.eq([pcdList[0], pcdList[3]]);
+
+    expect(
+      collection.query({
+        folder: "Events",
+        not: { claim: [{ path: "message", equals: "a" }] }
+      })
+    ).to.deep.eq([pcdList[1]]);
+    expect(
+      collection.query({
+        anyOf: [
+          { folder: "Eventsss" },
+          { claim: [{ path: "message", equals: "b" }] }
+        ]
+      })
+    ).to.deep.eq([pcdList[1], pcdList[2]]);
+  });
+
+  it("Should match folders and their subfolders", function () {
+    expect(isFolderOrSubfolder("a", "a")).to.eq(true);
+    expect(isFolderOrSubfolder("a", "a/b")).to.eq(true);
+    expect(isFolderOrSubfolder("a", "a/b/c")).to.eq(true);
+    expect(isFolderOrSubfolder("a", "ab")).to.eq(false);
+    expect(isFolderOrSubfolder("a/b", "a")).to.eq(false);
+    expect(isFolderOrSubfolder("", "a/b")).to.eq(true);
+  });
+
   it("Should be able to deserialize three unique PCDs properly", async function () {
     const pcdList = await Promise.all([newPCD(), newPCD(), newPCD()]);
 
@@ -253,6 +416,236 @@ describe("PCDCollection", async function () {
     });
     expect(fourthHash).to.not.eq(firstHash);
   });
+
+  it("should emit a single hash for a burst of mutations", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages);
+    const listener = chai.spy();
+    collection.hashEmitter.listen(listener);
+
+    const hash = await waitForNewHash(collection, () => {
+      pcdList.forEach((pcd) => collection.add(pcd));
+      pcdList.forEach((pcd) => collection.setFolder(pcd.id, "folder"));
+    });
+
+    expect(listener).to.have.been.called.once;
+    expect(hash).to.eq(await collection.getHash());
+  });
+
+  it("should only change the hash when the contents change", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages, [...pcdList]);
+    const otherCollection = new PCDCollection(packages, [...pcdList]);
+
+    expect(await collection.getHash()).to.eq(await otherCollection.getHash());
+
+    collection.createFolder("folder");
+    expect(await collection.getHash()).to.not.eq(
+      await otherCollection.getHash()
+    );
+
+    otherCollection.createFolder("folder");
+    expect(await collection.getHash()).to.eq(await otherCollection.getHash());
+
+    otherCollection.add(await newPCD(pcdList[0].id), { upsert: true });
+    expect(await collection.getHash()).to.not.eq(
+      await otherCollection.getHash()
+    );
+  });
+
+  it("should apply batched mutations as one transaction", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages, [pcdList[0]]);
+    const hashBefore = await waitForNewHash(collection, () =>
+      collection.setFolder(pcdList[0].id, "folder")
+    );
+    const listener = chai.spy();
+    collection.hashEmitter.listen(listener);
+
+    expect(() =>
+      collection.batch((pcds) => {
+        pcds.add(pcdList[1]);
+        pcds.setFolder(pcdList[0].id, "other folder");
+        pcds.add(pcdList[1]);
+      })
+    ).to.throw();
+
+    expect(collection.getAll()).to.deep.eq([pcdList[0]]);
+    expect(collection.getFolder(pcdList[0].id)).to.eq("folder");
+    expect(await collection.getHash()).to.eq(hashBefore);
+
+    const hashAfter = await waitForNewHash(collection, () =>
+      collection.batch((pcds) => {
+        pcds.add(pcdList[1]);
+        pcds.add(pcdList[2]);
+        pcds.replaceFolderContents("folder", [pcdList[1], pcdList[2]]);
+      })
+    );
+
+    expect(collection.getAll()).to.deep.eq([pcdList[1], pcdList[2]]);
+    expect(collection.getAllInFolder("folder")).to.deep.eq([
+      pcdList[1],
+      pcdList[2]
+    ]);
+    expect(hashAfter).to.not.eq(hashBefore);
+    expect(listener).to.have.been.called.once;
+  });
+
+  it("should emit typed change events", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages);
+    const changes: PCDCollectionChange[][] = [];
+    collection.changeEmitter.listen((c) => changes.push(c));
+
+    collection.add(pcdList[0]);
+    collection.setFolder(pcdList[0].id, "folder");
+    collection.moveFolder("folder", "renamed");
+    const replacement = await newPCD(pcdList[0].id);
+    collection.add(replacement, { upsert: true });
+    collection.remove(pcdList[0].id);
+
+    expect(changes).to.deep.eq([
+      [
+        {
+          type: PCDCollectionChangeType.Added,
+          pcd: pcdList[0],
+          folder: undefined
+        }
+      ],
+      [
+        {
+          type: PCDCollectionChangeType.MovedFolder,
+          pcdId: pcdList[0].id,
+          before: undefined,
+          after: "folder"
+        }
+      ],
+      [
+        {
+          type: PCDCollectionChangeType.MovedFolder,
+          pcdId: pcdList[0].id,
+          before: "folder",
+          after: "renamed"
+        }
+      ],
+      [
+        {
+          type: PCDCollectionChangeType.Updated,
+          before: pcdList[0],
+          after: replacement
+        }
+      ],
+      [
+        {
+          type: PCDCollectionChangeType.Removed,
+          pcd: replacement,
+          folder: "renamed"
+        }
+      ]
+    ]);
+  });
+
+  it("should emit the net changes of a batch at once", async function () {
+    const pcdList = await Promise.all([newPCD(), newPCD(), newPCD()]);
+    const collection = new PCDCollection(packages, [pcdList[0], pcdList[1]]);
+    collection.setFolder(pcdList[0].id, "folder");
+    collection.setFolder(pcdList[1].id, "folder");
+    const changes: PCDCollectionChange[][] = [];
+    collection.changeEmitter.listen((c) => changes.push(c));
+
+    collection.replaceFolderContents("folder", [pcdList[1], pcdList[2]]);
+
+    expect(changes).to.deep.eq([
+      [
+        {
+          type: PCDCollectionChangeType.Removed,
+          pcd: pcdList[0],
+          folder: "folder"
+        },
+        {
+          type: PCDCollectionChangeType.Added,
+          pcd: pcdList[2],
+          folder: "folder"
+        }
+      ]
+    ]);
+
+    expect(() =>
+      collection.batch(() => {
+        collection.remove(pcdList[1].id);
+        throw new Error("rolled back");
+      })
+    ).to.throw();
+    expect(changes.length).to.eq(1);
+  });
+
+  it("should merge changes made to separate pcds", async function () {
+    const [a, b, c, d, e] = await Promise.all([
+      newPCD(),
+      newPCD(),
+      newPCD(),
+      newPCD(),
+      newPCD()
+    ]);
+    const updatedC = await newPCD(c.id, "updated");
+    const base = new PCDCollection(packages, [a, b, c]);
+
+    const local = new PCDCollection(packages, [a, b, c]);
+    local.remove(a.id);
+    local.add(d);
+    local.setFolder(b.id, "local/folder");
+
+    const remote = new PCDCollection(packages, [a, b, c, e]);
+    remote.add(updatedC, { upsert: true });
+    remote.setFolder(c.id, "remote");
+    remote.createFolder("empty", { icon: "🗂" });
+
+    const merged = await mergePCDCollections(base, local, remote);
+
+    expect(merged.getAllIds().sort()).to.deep.eq(
+      [b.id, c.id, d.id, e.id].sort()
+    );
+    expect(merged.getById(c.id)).to.eq(updatedC);
+    expect(merged.getFolder(b.id)).to.eq("local/folder");
+    expect(merged.getFolder(c.id)).to.eq("remote");
+    expect(merged.getFolderMetadata("empty")).to.deep.eq({ icon: "🗂" });
+  });
+
+  it("should prefer local changes when merging conflicting changes", async function () {
+    const [a, b] = await Promise.all([newPCD(), newPCD()]);
+    const [localA, remoteA, remoteB] = await Promise.all([
+      newPCD(a.id, "local"),
+      newPCD(a.id, "remote"),
+      newPCD(b.id, "remote")
+    ]);
+    const base = new PCDCollection(packages, [a, b]);
+
+    const local = new PCDCollection(packages, [localA]);
+    local.setFolder(a.id, "local");
+
+    const remote = new PCDCollection(packages, [remoteA, remoteB]);
+    remote.setFolder(a.id, "remote");
+
+    const merged = await mergePCDCollections(base, local, remote);
+
+    expect(merged.getById(a.id)).to.eq(localA);
+    expect(merged.getFolder(a.id)).to.eq("local");
+    // a pcd which was changed on one side isn't lost by removing it on
+    // the other
+    expect(merged.getById(b.id)).to.eq(remoteB);
+  });
+
+  it("should keep every pcd when merging without a base", async function () {
+    const [a, b] = await Promise.all([newPCD(), newPCD()]);
+
+    const merged = await mergePCDCollections(
+      undefined,
+      new PCDCollection(packages, [a]),
+      new PCDCollection(packages, [a, b])
+    );
+
+    expect(merged.getAllIds().sort()).to.deep.eq([a.id, b.id].sort());
+  });
 });
 
 function waitForNewHash(
@@ -0,0 +1,79 @@
+/**
+ * A value that a {@link PCDFieldPredicate} can compare a field of a PCD to.
+ * Filters are sent between websites and the passport inside of requests, so
+ * they can only contain JSON-serializable values.
+ */
+export type PCDFilterValue = string | number | boolean | null;
+
+/**
+ * A condition on a single field of a PCD's claim, or of the metadata that
+ * the PCD's package declares for it. If more than one condition is set, all
+ * of them must hold.
+ */
+export interface PCDFieldPredicate {
+  /**
+   * Dot-separated path to the field, e.g. `"partialTicket.eventId"`.
+   */
+  path: string;
+
+  /**
+   * The field must be equal to this value. Bigints are compared by their
+   * string representation.
+   */
+  equals?: PCDFilterValue;
+
+  /**
+   * The field must be equal to one of these values.
+   */
+  oneOf?: PCDFilterValue[];
+
+  /**
+   * If true, the field must be present and not null. If false, it must be
+   * absent or null.
+   */
+  exists?: boolean;
+}
+
+/**
+ * A declarative description of a set of PCDs, which can be evaluated
+ * against a `PCDCollection`. Every condition that is set must hold for a PCD
+ * to match, so the empty filter matches every PCD.
+ */
+export interface PCDFilter {
+  /**
+   * The PCD's type must be this type, or one of these types.
+   */
+  type?: string | string[];
+
+  /**
+   * The PCD must be in this folder, or in one of its subfolders.
+   */
+  folder?: string;
+
+  /**
+   * Conditions on the PCD's claim.
+   */
+  claim?: PCDFieldPredicate[];
+
+  /**
+   * Conditions on the metadata that the PCD's package declares for it using
+   * `PCDPackage#getMetadata`. PCDs whose package doesn't declare any
+   * metadata have no metadata fields.
+   */
+  metadata?: PCDFieldPredicate[];
+
+  /**
+   * Each of these filters must match the PCD.
+   */
+  allOf?: PCDFilter[];
+
+  /**
+   * At least one of these filters must match the PCD.
+   */
+  anyOf?: PCDFilter[];
+
+  /**
+   * This filter must not match the PCD.
+   */
+  not?: PCDFilter;
+}
@@ -1,3 +1,5 @@
+import { PCDFilter } from "./filter";
+
 export interface PCD<C = unknown, P = unknown> {
   id: string;
   type: string;
@@ -31,9 +33,17 @@ export interface DisplayOptions {
   displayName?: string;
 }
 
+/**
+ * Fields that a package can optionally declare for any given PCD, which
+ * `PCDFilter`s can match against without knowing how the PCD's claim
+ * is structured.
+ */
+export type PCDMetadata = Record<string, string | number | boolean | undefined>;
+
 export interface PCDPackage<C = any, P = any, A = any, I = any> {
   name: string;
   getDisplayOptions?: (pcd: PCD<C, P>) => DisplayOptions;
+  getMetadata?: (pcd: PCD<C, P>) => PCDMetadata;
   renderCardBody?: ({
     pcd,
     returnHeader,
@@ -119,6 +129,10 @@ export type PCDArgument<T extends PCD = PCD> = Argument<
   SerializedPCD<T>
 > & {
   pcdType?: string;
+  /**
+   * Narrows down which of the user's PCDs can be used for this argument.
+   */
+  filter?: PCDFilter;
 };
 export function isPCDArgument(arg: Argument<any, unknown>): arg is PCDArgument {
   return arg.argumentType === ArgumentTypeName.PCD;
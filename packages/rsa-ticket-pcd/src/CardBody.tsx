@@ -17,6 +17,18 @@ export function RSATicketCardBody({ pcd }: { pcd: RSATicketPCD }) {
       <TicketInfo>
         <span>{ticketData.attendeeName}</span>
         <span>{ticketData.attendeeEmail}</span>
+        {ticketData.validity?.dateRanges.map((range, i) => (
+          <span key={i}>
+            Valid {range.from ? new Date(range.from).toLocaleDateString() : ""}
+            {" – "}
+            {range.to ? new Date(range.to).toLocaleDateString() : ""}
+          </span>
+        ))}
+        {ticketData.validity?.maxEntriesPerDay !== undefined && (
+          <span>
+            Up to {ticketData.validity.maxEntriesPerDay} entries per day
+          </span>
+        )}
       </TicketInfo>
     </Container>
   );
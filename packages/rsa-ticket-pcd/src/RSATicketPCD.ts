@@ -2,6 +2,7 @@ import {
   DisplayOptions,
   PCD,
   PCDArgument,
+  PCDMetadata,
   PCDPackage,
   SerializedPCD,
   StringArgument
@@ -24,6 +25,55 @@ export interface ITicketData {
   ticketId?: string;
   isConsumed?: boolean;
   isRevoked?: boolean;
+  validity?: ITicketValidity;
+}
+
+/**
+ * When a ticket can be used to enter its event. Tickets without validity
+ * rules can be used once, at any time.
+ */
+export interface ITicketValidity {
+  /**
+   * The ticket can only be used within one of these ranges, or at any time
+   * if there are none.
+   */
+  dateRanges: ITicketDateRange[];
+
+  /**
+   * If set, the ticket can be used to enter this many times a day, rather
+   * than only once.
+   */
+  maxEntriesPerDay?: number;
+
+  /**
+   * The ticket can only be used within one of these windows of the day, or
+   * at any time of day if there are none.
+   */
+  entryWindows: ITicketEntryWindow[];
+}
+
+export interface ITicketDateRange {
+  /**
+   * ISO 8601 timestamp. The range is open-ended if it is missing.
+   */
+  from?: string;
+
+  /**
+   * ISO 8601 timestamp. The range is open-ended if it is missing.
+   */
+  to?: string;
+}
+
+export interface ITicketEntryWindow {
+  /**
+   * Time of day in UTC, as "HH:MM".
+   */
+  start: string;
+
+  /**
+   * Time of day in UTC, as "HH:MM".
+   */
+  end: string;
 }
 
 export interface RSATicketPCDInitArgs {
@@ -153,6 +203,19 @@ export function getDisplayOptions(pcd: RSATicketPCD): DisplayOptions {
   };
 }
 
+export function getMetadata(pcd: RSATicketPCD): PCDMetadata {
+  const ticketData = getTicketData(pcd);
+
+  return {
+    eventName: ticketData.eventName,
+    eventConfigId: ticketData.eventConfigId,
+    ticketName: ticketData.ticketName,
+    ticketId: ticketData.ticketId,
+    isConsumed: ticketData.isConsumed,
+    isRevoked: ticketData.isRevoked
+  };
+}
+
 /**
  * PCD-conforming wrapper to sign messages using an RSA keypair.
  */
@@ -165,6 +228,7 @@ export const RSATicketPCDPackage: PCDPackage<
   name: RSAPCDTypeName,
   renderCardBody: RSATicketCardBody,
   getDisplayOptions,
+  getMetadata,
   init,
   prove,
   verify,
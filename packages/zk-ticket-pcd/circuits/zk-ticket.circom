@@ -0,0 +1,67 @@
+pragma circom 2.1.4;
+
+include "circomlib/circuits/eddsaposeidon.circom";
+include "circomlib/circuits/poseidon.circom";
+
+// Proves that the prover holds a ticket signed by `signerPubkey` which
+// hasn't been revoked and was issued to their semaphore identity, while
+// only revealing the fields of the ticket selected by `revealFlags`. See
+// `TICKET_FIELD_NAMES` in src/utils.ts for the order of the fields.
+template ZKTicket(NUM_FIELDS, REVOKED_INDEX, SEMAPHORE_ID_INDEX) {
+    // the fields of the ticket, encoded as field elements
+    signal input ticketFields[NUM_FIELDS];
+
+    // 1 for each field to reveal, 0 otherwise
+    signal input revealFlags[NUM_FIELDS];
+
+    // each field if it is revealed, -1 otherwise
+    signal output revealedFields[NUM_FIELDS];
+
+    signal input signerPubkeyAx;
+    signal input signerPubkeyAy;
+    signal input signatureR8x;
+    signal input signatureR8y;
+    signal input signatureS;
+
+    signal input identityNullifier;
+    signal input identityTrapdoor;
+
+    // arbitrary value the proof is bound to, so it can't be replayed
+    signal input watermark;
+
+    // the ticket was signed by the signer
+    component ticketHash = Poseidon(NUM_FIELDS);
+    for (var i = 0; i < NUM_FIELDS; i++) {
+        ticketHash.inputs[i] <== ticketFields[i];
+    }
+
+    component signatureVerifier = EdDSAPoseidonVerifier();
+    signatureVerifier.enabled <== 1;
+    signatureVerifier.Ax <== signerPubkeyAx;
+    signatureVerifier.Ay <== signerPubkeyAy;
+    signatureVerifier.R8x <== signatureR8x;
+    signatureVerifier.R8y <== signatureR8y;
+    signatureVerifier.S <== signatureS;
+    signatureVerifier.M <== ticketHash.out;
+
+    // the ticket hasn't been revoked
+    ticketFields[REVOKED_INDEX] === 0;
+
+    // the ticket was issued to the prover's semaphore identity
+    component identitySecret = Poseidon(2);
+    identitySecret.inputs[0] <== identityNullifier;
+    identitySecret.inputs[1] <== identityTrapdoor;
+    component identityCommitment = Poseidon(1);
+    identityCommitment.inputs[0] <== identitySecret.out;
+    ticketFields[SEMAPHORE_ID_INDEX] === identityCommitment.out;
+
+    for (var i = 0; i < NUM_FIELDS; i++) {
+        revealFlags[i] * (revealFlags[i] - 1) === 0;
+        revealedFields[i] <== revealFlags[i] * (ticketFields[i] + 1) - 1;
+    }
+
+    signal watermarkSquared;
+    watermarkSquared <== watermark * watermark;
+}
+
+component main { public [revealFlags, signerPubkeyAx, signerPubkeyAy, watermark] } = ZKTicket(11, 9, 7);
@@ -0,0 +1,60 @@
+import styled from "styled-components";
+import { EdDSATicketPCD } from "./EdDSATicketPCD";
+import { TICKET_FIELD_NAMES } from "./utils";
+import { ZKTicketPCD } from "./ZKTicketPCD";
+
+export function EdDSATicketCardBody({ pcd }: { pcd: EdDSATicketPCD }) {
+  const { ticket } = pcd.claim;
+
+  return (
+    <Container>
+      <TicketInfo>
+        <span>{ticket.attendeeName}</span>
+        <span>{ticket.attendeeEmail}</span>
+        <Secondary>
+          You can prove you hold this ticket without revealing who you are.
+        </Secondary>
+      </TicketInfo>
+    </Container>
+  );
+}
+
+export function ZKTicketCardBody({ pcd }: { pcd: ZKTicketPCD }) {
+  const { partialTicket } = pcd.claim;
+  const revealed = TICKET_FIELD_NAMES.filter(
+    (name) => partialTicket[name] !== undefined
+  );
+
+  return (
+    <Container>
+      <TicketInfo>
+        <span>Proves an unrevoked ticket, revealing</span>
+        {revealed.length === 0 && <Secondary>nothing else</Secondary>}
+        {revealed.map((name) => (
+          <Secondary key={name}>
+            {name}: {partialTicket[name]?.toString()}
+          </Secondary>
+        ))}
+      </TicketInfo>
+    </Container>
+  );
+}
+
+const Container = styled.span`
+  padding: 16px;
+  overflow: hidden;
+  width: 100%;
+`;
+
+const TicketInfo = styled.div`
+  margin-top: 8px;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  flex-direction: column;
+`;
+
+const Secondary = styled.span`
+  opacity: 0.8;
+  font-size: 0.9em;
+`;
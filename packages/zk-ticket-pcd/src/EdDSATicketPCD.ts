@@ -0,0 +1,186 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path="./declarations/circomlibjs.d.ts" />
+import {
+  DisplayOptions,
+  ObjectArgument,
+  PCD,
+  PCDMetadata,
+  PCDPackage,
+  SerializedPCD,
+  StringArgument
+} from "@pcd/pcd-types";
+import { eddsa, poseidon } from "circomlibjs";
+import JSONBig from "json-bigint";
+import { v4 as uuid } from "uuid";
+import { EdDSATicketCardBody } from "./CardBody";
+import { ITicketData, ticketDataToFields } from "./utils";
+
+export const EdDSATicketPCDTypeName = "eddsa-ticket-pcd";
+
+/**
+ * A point on the baby jub jub curve, as a pair of stringified `BigInt`s.
+ */
+export type EdDSAPoint = [string, string];
+
+export interface EdDSATicketPCDArgs {
+  id: StringArgument;
+
+  /**
+   * The issuer's EdDSA private key, as 32 hex-encoded bytes.
+   */
+  privateKey: StringArgument;
+  ticket: ObjectArgument<ITicketData>;
+}
+
+export interface EdDSATicketPCDClaim {
+  ticket: ITicketData;
+
+  /**
+   * The issuer's EdDSA public key.
+   */
+  publicKey: EdDSAPoint;
+}
+
+export interface EdDSATicketPCDProof {
+  /**
+   * EdDSA signature of the Poseidon hash of the fields of the ticket.
+   */
+  signature: {
+    R8: EdDSAPoint;
+    S: string;
+  };
+}
+
+export class EdDSATicketPCD
+  implements PCD<EdDSATicketPCDClaim, EdDSATicketPCDProof>
+{
+  type = EdDSATicketPCDTypeName;
+  claim: EdDSATicketPCDClaim;
+  proof: EdDSATicketPCDProof;
+  id: string;
+
+  public constructor(
+    id: string,
+    claim: EdDSATicketPCDClaim,
+    proof: EdDSATicketPCDProof
+  ) {
+    this.id = id;
+    this.claim = claim;
+    this.proof = proof;
+  }
+}
+
+/**
+ * Derives the public key of an EdDSA private key given as 32 hex-encoded
+ * bytes, which is what verifiers of tickets signed with it need to know.
+ */
+export function getEdDSAPublicKey(privateKey: string): EdDSAPoint {
+  const [x, y] = eddsa.prv2pub(Buffer.from(privateKey, "hex"));
+  return [x.toString(), y.toString()];
+}
+
+export async function prove(args: EdDSATicketPCDArgs): Promise<EdDSATicketPCD> {
+  if (!args.privateKey.value) {
+    throw new Error("missing private key");
+  }
+
+  if (!args.ticket.value) {
+    throw new Error("missing ticket");
+  }
+
+  const privateKey = Buffer.from(args.privateKey.value, "hex");
+  const message = poseidon(ticketDataToFields(args.ticket.value));
+  const signature = eddsa.signPoseidon(privateKey, message);
+
+  return new EdDSATicketPCD(
+    args.id.value ?? uuid(),
+    {
+      ticket: args.ticket.value,
+      publicKey: getEdDSAPublicKey(args.privateKey.value)
+    },
+    {
+      signature: {
+        R8: [signature.R8[0].toString(), signature.R8[1].toString()],
+        S: signature.S.toString()
+      }
+    }
+  );
+}
+
+export async function verify(pcd: EdDSATicketPCD): Promise<boolean> {
+  try {
+    const message = poseidon(ticketDataToFields(pcd.claim.ticket));
+    const { R8, S } = pcd.proof.signature;
+
+    return eddsa.verifyPoseidon(
+      message,
+      { R8: [BigInt(R8[0]), BigInt(R8[1])], S: BigInt(S) },
+      [BigInt(pcd.claim.publicKey[0]), BigInt(pcd.claim.publicKey[1])]
+    );
+  } catch (e) {
+    return false;
+  }
+}
+
+export async function serialize(
+  pcd: EdDSATicketPCD
+): Promise<SerializedPCD<EdDSATicketPCD>> {
+  return {
+    type: EdDSATicketPCDTypeName,
+    pcd: JSONBig().stringify(pcd)
+  } as SerializedPCD<EdDSATicketPCD>;
+}
+
+export async function deserialize(serialized: string): Promise<EdDSATicketPCD> {
+  const { id, claim, proof } = JSONBig().parse(serialized);
+  return new EdDSATicketPCD(id, claim, proof);
+}
+
+export function getDisplayOptions(pcd: EdDSATicketPCD): DisplayOptions {
+  const { ticket } = pcd.claim;
+  let header = `${ticket.eventName} (${ticket.ticketName})`;
+
+  if (ticket.isRevoked) {
+    header = `[CANCELED] ${header}`;
+  } else if (ticket.isConsumed) {
+    header = `[SCANNED] ${header}`;
+  }
+
+  return {
+    header,
+    displayName: "zk-ticket-" + pcd.id.substring(0, 4)
+  };
+}
+
+export function getMetadata(pcd: EdDSATicketPCD): PCDMetadata {
+  const { ticket } = pcd.claim;
+
+  return {
+    eventName: ticket.eventName,
+    eventId: ticket.eventId,
+    ticketName: ticket.ticketName,
+    ticketId: ticket.ticketId,
+    isConsumed: ticket.isConsumed,
+    isRevoked: ticket.isRevoked
+  };
+}
+
+/**
+ * PCD representing a ticket signed by its issuer with a SNARK-friendly
+ * signature, so that its holder can make zero-knowledge proofs about it
+ * using {@link ZKTicketPCDPackage}.
+ */
+export const EdDSATicketPCDPackage: PCDPackage<
+  EdDSATicketPCDClaim,
+  EdDSATicketPCDProof,
+  EdDSATicketPCDArgs
+> = {
+  name: EdDSATicketPCDTypeName,
+  renderCardBody: EdDSATicketCardBody,
+  getDisplayOptions,
+  getMetadata,
+  prove,
+  verify,
+  serialize,
+  deserialize
+};
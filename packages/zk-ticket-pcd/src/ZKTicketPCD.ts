@@ -0,0 +1,259 @@
+// eslint-disable-next-line @typescript-eslint/triple-slash-reference
+/// <reference path="./declarations/snarkjs.d.ts" />
+import {
+  BigIntArgument,
+  DisplayOptions,
+  ObjectArgument,
+  PCD,
+  PCDArgument,
+  PCDPackage,
+  SerializedPCD
+} from "@pcd/pcd-types";
+import {
+  SemaphoreIdentityPCD,
+  SemaphoreIdentityPCDPackage
+} from "@pcd/semaphore-identity-pcd";
+import JSONBig from "json-bigint";
+import { groth16, Groth16Proof } from "snarkjs";
+import { v4 as uuid } from "uuid";
+import { ZKTicketCardBody } from "./CardBody";
+import {
+  EdDSAPoint,
+  EdDSATicketPCD,
+  EdDSATicketPCDPackage
+} from "./EdDSATicketPCD";
+import {
+  encodeTicketField,
+  ITicketData,
+  ticketDataToFields,
+  TicketFieldName,
+  TicketFieldsToReveal,
+  TICKET_FIELD_NAMES,
+  UNREVEALED_FIELD_VALUE
+} from "./utils";
+
+export const ZKTicketPCDTypeName = "zk-ticket-pcd";
+
+export interface ZKTicketPCDInitArgs {
+  // artifacts of the circuit in circuits/zk-ticket.circom, see the README
+  wasmFilePath: string;
+  zkeyFilePath: string;
+  verificationKey: object;
+}
+
+let initArgs: ZKTicketPCDInitArgs | undefined = undefined;
+
+export interface ZKTicketPCDArgs {
+  ticket: PCDArgument<EdDSATicketPCD>;
+
+  /**
+   * The semaphore identity the ticket was issued to.
+   */
+  identity: PCDArgument<SemaphoreIdentityPCD>;
+  fieldsToReveal: ObjectArgument<TicketFieldsToReveal>;
+
+  /**
+   * Arbitrary value the proof is bound to, eg. a challenge from whoever
+   * asked for it, so that it can't be replayed elsewhere.
+   */
+  watermark: BigIntArgument;
+}
+
+export interface ZKTicketPCDClaim {
+  /**
+   * The fields of the ticket that were revealed. The rest of them are
+   * only known to the holder of the ticket.
+   */
+  partialTicket: Partial<ITicketData>;
+
+  /**
+   * The EdDSA public key of the issuer of the ticket.
+   */
+  signer: EdDSAPoint;
+
+  /**
+   * Stringified `BigInt`.
+   */
+  watermark: string;
+}
+
+export type ZKTicketPCDProof = Groth16Proof;
+
+export class ZKTicketPCD implements PCD<ZKTicketPCDClaim, ZKTicketPCDProof> {
+  type = ZKTicketPCDTypeName;
+  claim: ZKTicketPCDClaim;
+  proof: ZKTicketPCDProof;
+  id: string;
+
+  public constructor(
+    id: string,
+    claim: ZKTicketPCDClaim,
+    proof: ZKTicketPCDProof
+  ) {
+    this.id = id;
+    this.claim = claim;
+    this.proof = proof;
+  }
+}
+
+export async function init(args: ZKTicketPCDInitArgs): Promise<void> {
+  initArgs = args;
+}
+
+export async function prove(args: ZKTicketPCDArgs): Promise<ZKTicketPCD> {
+  if (!initArgs) {
+    throw new Error("Cannot make ticket proof: init has not been called yet");
+  }
+
+  if (!args.ticket.value?.pcd) {
+    throw new Error("Cannot make ticket proof: missing ticket");
+  }
+
+  if (!args.identity.value?.pcd) {
+    throw new Error("Cannot make ticket proof: missing identity");
+  }
+
+  const ticketPCD = await EdDSATicketPCDPackage.deserialize(
+    args.ticket.value.pcd
+  );
+  if (!(await EdDSATicketPCDPackage.verify(ticketPCD))) {
+    throw new Error("Cannot make ticket proof: ticket signature is invalid");
+  }
+
+  const { ticket, publicKey } = ticketPCD.claim;
+  if (ticket.isRevoked) {
+    throw new Error("Cannot make ticket proof: ticket has been revoked");
+  }
+
+  const { identity } = (
+    await SemaphoreIdentityPCDPackage.deserialize(args.identity.value.pcd)
+  ).claim;
+  if (identity.getCommitment().toString() !== ticket.attendeeSemaphoreId) {
+    throw new Error(
+      "Cannot make ticket proof: ticket wasn't issued to this identity"
+    );
+  }
+
+  const fieldsToReveal = args.fieldsToReveal.value ?? {};
+  const watermark = BigInt(args.watermark.value ?? 0);
+
+  const { proof } = await groth16.fullProve(
+    {
+      ticketFields: ticketDataToFields(ticket).map((f) => f.toString()),
+      revealFlags: TICKET_FIELD_NAMES.map((name) =>
+        fieldsToReveal[name] ? "1" : "0"
+      ),
+      signerPubkeyAx: publicKey[0],
+      signerPubkeyAy: publicKey[1],
+      signatureR8x: ticketPCD.proof.signature.R8[0],
+      signatureR8y: ticketPCD.proof.signature.R8[1],
+      signatureS: ticketPCD.proof.signature.S,
+      identityNullifier: identity.getNullifier().toString(),
+      identityTrapdoor: identity.getTrapdoor().toString(),
+      watermark: watermark.toString()
+    },
+    initArgs.wasmFilePath,
+    initArgs.zkeyFilePath
+  );
+
+  const partialTicket: Partial<ITicketData> = {};
+  for (const name of TICKET_FIELD_NAMES) {
+    if (fieldsToReveal[name]) {
+      (partialTicket as Record<string, unknown>)[name] = ticket[name];
+    }
+  }
+
+  return new ZKTicketPCD(
+    uuid(),
+    { partialTicket, signer: publicKey, watermark: watermark.toString() },
+    proof
+  );
+}
+
+/**
+ * The public signals of the circuit for a claim, in the order in which the
+ * circuit outputs them: the revealed fields, which fields were revealed,
+ * the signer's public key and the watermark.
+ */
+function claimToPublicSignals(claim: ZKTicketPCDClaim): string[] {
+  const revealed = TICKET_FIELD_NAMES.map(
+    (name) => claim.partialTicket[name] !== undefined
+  );
+
+  return [
+    ...TICKET_FIELD_NAMES.map((name, i) =>
+      revealed[i]
+        ? encodeTicketField(
+            name,
+            claim.partialTicket[name] as ITicketData[TicketFieldName]
+          )
+        : UNREVEALED_FIELD_VALUE
+    ),
+    ...revealed.map((r) => BigInt(r ? 1 : 0)),
+    BigInt(claim.signer[0]),
+    BigInt(claim.signer[1]),
+    BigInt(claim.watermark)
+  ].map((signal) => signal.toString());
+}
+
+export async function verify(pcd: ZKTicketPCD): Promise<boolean> {
+  if (!initArgs) {
+    throw new Error("Cannot verify ticket proof: init has not been called yet");
+  }
+
+  try {
+    return await groth16.verify(
+      initArgs.verificationKey,
+      claimToPublicSignals(pcd.claim),
+      pcd.proof
+    );
+  } catch (e) {
+    return false;
+  }
+}
+
+export async function serialize(
+  pcd: ZKTicketPCD
+): Promise<SerializedPCD<ZKTicketPCD>> {
+  return {
+    type: ZKTicketPCDTypeName,
+    pcd: JSONBig().stringify(pcd)
+  } as SerializedPCD<ZKTicketPCD>;
+}
+
+export async function deserialize(serialized: string): Promise<ZKTicketPCD> {
+  const { id, claim, proof } = JSONBig().parse(serialized);
+  return new ZKTicketPCD(id, claim, proof);
+}
+
+export function getDisplayOptions(pcd: ZKTicketPCD): DisplayOptions {
+  const { eventName, ticketName } = pcd.claim.partialTicket;
+
+  return {
+    header:
+      eventName && ticketName
+        ? `ZK ${eventName} (${ticketName})`
+        : "ZK Ticket Proof",
+    displayName: "zk-ticket-proof-" + pcd.id.substring(0, 4)
+  };
+}
+
+/**
+ * PCD proving that its prover holds an unrevoked ticket signed by a given
+ * issuer, revealing only the fields of the ticket they chose to.
+ */
+export const ZKTicketPCDPackage: PCDPackage<
+  ZKTicketPCDClaim,
+  ZKTicketPCDProof,
+  ZKTicketPCDArgs,
+  ZKTicketPCDInitArgs
+> = {
+  name: ZKTicketPCDTypeName,
+  renderCardBody: ZKTicketCardBody,
+  getDisplayOptions,
+  init,
+  prove,
+  verify,
+  serialize,
+  deserialize
+};
@@ -0,0 +1,21 @@
+declare module "circomlibjs" {
+  // circomlibjs doesn't ship with types, these cover the parts we use
+  type Point = [bigint, bigint];
+
+  interface Signature {
+    R8: Point;
+    S: bigint;
+  }
+
+  export const eddsa: {
+    prv2pub(privateKey: Buffer): Point;
+    signPoseidon(privateKey: Buffer, message: bigint): Signature;
+    verifyPoseidon(
+      message: bigint,
+      signature: Signature,
+      publicKey: Point
+    ): boolean;
+  };
+
+  export function poseidon(inputs: bigint[]): bigint;
+}
@@ -0,0 +1,24 @@
+export {
+  EdDSATicketPCD,
+  EdDSATicketPCDPackage,
+  EdDSATicketPCDTypeName,
+  getEdDSAPublicKey
+} from "./EdDSATicketPCD";
+export type {
+  EdDSAPoint,
+  EdDSATicketPCDArgs,
+  EdDSATicketPCDClaim,
+  EdDSATicketPCDProof
+} from "./EdDSATicketPCD";
+export * from "./utils";
+export {
+  ZKTicketPCD,
+  ZKTicketPCDPackage,
+  ZKTicketPCDTypeName
+} from "./ZKTicketPCD";
+export type {
+  ZKTicketPCDArgs,
+  ZKTicketPCDClaim,
+  ZKTicketPCDInitArgs,
+  ZKTicketPCDProof
+} from "./ZKTicketPCD";
@@ -0,0 +1,95 @@
+import { sha256 } from "js-sha256";
+
+/**
+ * The fields of a ticket signed by its issuer, in the order in which they
+ * are hashed and fed into the circuit. Changing this order requires
+ * rebuilding the circuit artifacts.
+ */
+export const TICKET_FIELD_NAMES = [
+  "ticketId",
+  "eventId",
+  "productId",
+  "eventName",
+  "ticketName",
+  "attendeeName",
+  "attendeeEmail",
+  "attendeeSemaphoreId",
+  "isConsumed",
+  "isRevoked",
+  "timestampSigned"
+] as const;
+
+export type TicketFieldName = (typeof TICKET_FIELD_NAMES)[number];
+
+export interface ITicketData {
+  ticketId: string;
+  eventId: string;
+  productId: string;
+  eventName: string;
+  ticketName: string;
+  attendeeName: string;
+  attendeeEmail: string;
+
+  /**
+   * Identity commitment of the semaphore identity the ticket was issued to.
+   * Only its holder can make zero-knowledge proofs about the ticket.
+   */
+  attendeeSemaphoreId: string;
+  isConsumed: boolean;
+  isRevoked: boolean;
+  timestampSigned: number;
+}
+
+/**
+ * Which fields of a ticket to reveal in a zero-knowledge proof about it.
+ */
+export type TicketFieldsToReveal = Partial<Record<TicketFieldName, boolean>>;
+
+/**
+ * The order of the scalar field of the curve the circuit is proven over.
+ */
+export const SNARK_FIELD_SIZE = BigInt(
+  "21888242871839275222246405745257275088548364400416034343698204186575808495617"
+);
+
+/**
+ * Stands in for the fields of a ticket that aren't revealed by a proof,
+ * it is -1 in the scalar field.
+ */
+export const UNREVEALED_FIELD_VALUE = SNARK_FIELD_SIZE - BigInt(1);
+
+/**
+ * Hashes a string with sha256 and fits it into a baby jub jub field element.
+ */
+export function hashToField(value: string): bigint {
+  // right shift to fit into a field element, which is 254 bits long
+  return BigInt("0x" + sha256(value)) >> BigInt(8);
+}
+
+/**
+ * Encodes a field of a ticket as a field element. Strings are hashed,
+ * except for the semaphore identity commitment, which already is one.
+ */
+export function encodeTicketField<T extends TicketFieldName>(
+  name: T,
+  value: ITicketData[T]
+): bigint {
+  if (typeof value === "boolean") {
+    return BigInt(value ? 1 : 0);
+  }
+
+  if (typeof value === "number" || name === "attendeeSemaphoreId") {
+    return BigInt(value);
+  }
+
+  return hashToField(value as string);
+}
+
+/**
+ * Encodes every field of a ticket, in the order the circuit expects them.
+ */
+export function ticketDataToFields(ticket: ITicketData): bigint[] {
+  return TICKET_FIELD_NAMES.map((name) =>
+    encodeTicketField(name, ticket[name])
+  );
+}
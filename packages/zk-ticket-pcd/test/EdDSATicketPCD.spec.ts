@@ -0,0 +1,72 @@
+import { ArgumentTypeName } from "@pcd/pcd-types";
+import { expect } from "chai";
+import "mocha";
+import {
+  EdDSATicketPCD,
+  EdDSATicketPCDPackage,
+  getEdDSAPublicKey,
+  ITicketData,
+} from "../src";
+
+describe("EdDSA Ticket PCD should work", function () {
+  this.timeout(1000 * 30);
+
+  const privateKey =
+    "0001020304050607080900010203040506070809000102030405060708090001";
+  const ticket: ITicketData = {
+    ticketId: "ticket-1",
+    eventId: "event-1",
+    productId: "product-1",
+    eventName: "Event",
+    ticketName: "GA",
+    attendeeName: "Alice",
+    attendeeEmail: "alice@example.com",
+    attendeeSemaphoreId: "12345",
+    isConsumed: false,
+    isRevoked: false,
+    timestampSigned: 1690000000000,
+  };
+  let ticketPCD: EdDSATicketPCD;
+
+  it("should be possible to sign a ticket", async function () {
+    ticketPCD = await EdDSATicketPCDPackage.prove({
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: undefined,
+      },
+      privateKey: {
+        argumentType: ArgumentTypeName.String,
+        value: privateKey,
+      },
+      ticket: {
+        argumentType: ArgumentTypeName.Object,
+        value: ticket,
+      },
+    });
+
+    expect(ticketPCD.claim.publicKey).to.deep.eq(getEdDSAPublicKey(privateKey));
+    expect(await EdDSATicketPCDPackage.verify(ticketPCD)).to.eq(true);
+  });
+
+  it("should not verify a ticket whose fields were changed", async function () {
+    const tampered = new EdDSATicketPCD(
+      ticketPCD.id,
+      {
+        ...ticketPCD.claim,
+        ticket: { ...ticketPCD.claim.ticket, isRevoked: true },
+      },
+      ticketPCD.proof
+    );
+
+    expect(await EdDSATicketPCDPackage.verify(tampered)).to.eq(false);
+  });
+
+  it("should be possible to serialize and deserialize the pcd", async function () {
+    const serialized = await EdDSATicketPCDPackage.serialize(ticketPCD);
+    const deserialized = await EdDSATicketPCDPackage.deserialize(
+      serialized.pcd
+    );
+
+    expect(ticketPCD).to.deep.eq(deserialized);
+  });
+});
@@ -0,0 +1,146 @@
+import { ArgumentTypeName } from "@pcd/pcd-types";
+import { SemaphoreIdentityPCDPackage } from "@pcd/semaphore-identity-pcd";
+import { Identity } from "@semaphore-protocol/identity";
+import { expect } from "chai";
+import * as fs from "fs";
+import "mocha";
+import * as path from "path";
+import {
+  EdDSATicketPCDPackage,
+  getEdDSAPublicKey,
+  ITicketData,
+  ZKTicketPCD,
+  ZKTicketPCDArgs,
+  ZKTicketPCDPackage,
+} from "../src";
+
+const artifactsPath = path.join(__dirname, "../artifacts");
+
+describe("ZK Ticket PCD should work", function () {
+  this.timeout(1000 * 60);
+
+  const privateKey =
+    "0001020304050607080900010203040506070809000102030405060708090001";
+  const identity = new Identity();
+  const ticket: ITicketData = {
+    ticketId: "ticket-1",
+    eventId: "event-1",
+    productId: "product-1",
+    eventName: "Event",
+    ticketName: "GA",
+    attendeeName: "Alice",
+    attendeeEmail: "alice@example.com",
+    attendeeSemaphoreId: identity.commitment.toString(),
+    isConsumed: false,
+    isRevoked: false,
+    timestampSigned: 1690000000000,
+  };
+  let args: ZKTicketPCDArgs;
+  let proofPCD: ZKTicketPCD;
+
+  this.beforeAll(async function () {
+    if (!ZKTicketPCDPackage.init) return;
+    await ZKTicketPCDPackage.init({
+      wasmFilePath: path.join(artifactsPath, "zk-ticket.wasm"),
+      zkeyFilePath: path.join(artifactsPath, "zk-ticket.zkey"),
+      verificationKey: JSON.parse(
+        fs.readFileSync(path.join(artifactsPath, "zk-ticket.vkey.json"), "utf8")
+      ),
+    });
+
+    const ticketPCD = await EdDSATicketPCDPackage.prove({
+      id: {
+        argumentType: ArgumentTypeName.String,
+        value: undefined,
+      },
+      privateKey: {
+        argumentType: ArgumentTypeName.String,
+        value: privateKey,
+      },
+      ticket: {
+        argumentType: ArgumentTypeName.Object,
+        value: ticket,
+      },
+    });
+
+    args = {
+      ticket: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await EdDSATicketPCDPackage.serialize(ticketPCD),
+      },
+      identity: {
+        argumentType: ArgumentTypeName.PCD,
+        value: await SemaphoreIdentityPCDPackage.serialize(
+          await SemaphoreIdentityPCDPackage.prove({ identity })
+        ),
+      },
+      fieldsToReveal: {
+        argumentType: ArgumentTypeName.Object,
+        value: { eventId: true, ticketName: true },
+      },
+      watermark: {
+        argumentType: ArgumentTypeName.BigInt,
+        value: "42",
+      },
+    };
+  });
+
+  it("should be possible to prove a ticket revealing some of its fields", async function () {
+    proofPCD = await ZKTicketPCDPackage.prove(args);
+
+    expect(proofPCD.claim.partialTicket).to.deep.eq({
+      eventId: ticket.eventId,
+      ticketName: ticket.ticketName,
+    });
+    expect(proofPCD.claim.signer).to.deep.eq(getEdDSAPublicKey(privateKey));
+    expect(proofPCD.claim.watermark).to.eq("42");
+    expect(await ZKTicketPCDPackage.verify(proofPCD)).to.eq(true);
+  });
+
+  it("should not verify a proof whose revealed fields were changed", async function () {
+    const tampered = new ZKTicketPCD(
+      proofPCD.id,
+      {
+        ...proofPCD.claim,
+        partialTicket: { ...proofPCD.claim.partialTicket, ticketName: "VIP" },
+      },
+      proofPCD.proof
+    );
+
+    expect(await ZKTicketPCDPackage.verify(tampered)).to.eq(false);
+  });
+
+  it("should not verify a proof with a different watermark", async function () {
+    const tampered = new ZKTicketPCD(
+      proofPCD.id,
+      { ...proofPCD.claim, watermark: "43" },
+      proofPCD.proof
+    );
+
+    expect(await ZKTicketPCDPackage.verify(tampered)).to.eq(false);
+  });
+
+  it("should not be possible to prove a ticket issued to another identity", async function () {
+    const otherIdentity = await SemaphoreIdentityPCDPackage.serialize(
+      await SemaphoreIdentityPCDPackage.prove({ identity: new Identity() })
+    );
+
+    let error: unknown;
+    try {
+      await ZKTicketPCDPackage.prove({
+        ...args,
+        identity: { argumentType: ArgumentTypeName.PCD, value: otherIdentity },
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(Error);
+  });
+
+  it("should be possible to serialize and deserialize the pcd", async function () {
+    const serialized = await ZKTicketPCDPackage.serialize(proofPCD);
+    const deserialized = await ZKTicketPCDPackage.deserialize(serialized.pcd);
+
+    expect(proofPCD).to.deep.eq(deserialized);
+  });
+});